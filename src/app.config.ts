@@ -46,6 +46,21 @@ const config = {
     apiSecret: env('CLOUD_API_SECRET'),
     folderName: `hymnal_${env('NODE_ENV', 'development')}`,
   },
+  storage: {
+    driver: env('STORAGE_DRIVER', 'cloudinary'),
+    local: {
+      root: env('STORAGE_LOCAL_ROOT', 'uploads'),
+      route: '/uploads',
+    },
+    s3: {
+      endpoint: env('S3_ENDPOINT', 'https://s3.amazonaws.com'),
+      region: env('S3_REGION', 'us-east-1'),
+      bucket: env('S3_BUCKET'),
+      accessKeyId: env('S3_ACCESS_KEY_ID'),
+      secretAccessKey: env('S3_SECRET_ACCESS_KEY'),
+      publicUrl: env('S3_PUBLIC_URL'),
+    },
+  },
   swagger: {
     user: {
       [env('SWAGGER_USER_NAME', 'swaggerAdmin')]: env(
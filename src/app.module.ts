@@ -13,6 +13,10 @@ import { UserModule } from './modules/user/user.module';
 import { ChorusModule } from './modules/chorus/chorus.module';
 import { VerseModule } from './modules/verse/verse.module';
 import { AuditLogModule } from './common/audit-log/audit-log.module';
+import { BackupModule } from './modules/backup/backup.module';
+import { TuneModule } from './modules/tune/tune.module';
+import { TagModule } from './modules/tag/tag.module';
+import { HymnbookModule } from './modules/hymnbook/hymnbook.module';
 import { ThrottlerGuard, ThrottlerModule } from '@nestjs/throttler';
 import { APP_GUARD } from '@nestjs/core';
 
@@ -39,6 +43,10 @@ import { APP_GUARD } from '@nestjs/core';
     ChorusModule,
     VerseModule,
     AuditLogModule,
+    BackupModule,
+    TuneModule,
+    TagModule,
+    HymnbookModule,
     ThrottlerModule.forRoot({
       throttlers: [
         {
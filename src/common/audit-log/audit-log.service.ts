@@ -18,7 +18,10 @@ export class AuditLogService {
       | 'CATEGORY'
       | 'VERSE'
       | 'CHORUS'
-      | 'SOLFA_IMAGE';
+      | 'SOLFA_IMAGE'
+      | 'TUNE'
+      | 'TAG'
+      | 'HYMNBOOK';
     entityId?: string;
     userId: string;
     description: string;
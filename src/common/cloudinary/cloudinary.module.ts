@@ -1,12 +1,24 @@
 import { Global, Module } from '@nestjs/common';
 import { CloudinaryService } from './cloudinary.service';
 import { CloudinaryProvider } from './cloudinary.provider';
+import { StorageProviderFactory } from './storage.provider';
+import { StorageService } from './storage.service';
 import { ConfigModule } from '@nestjs/config';
 
 @Global()
 @Module({
   imports: [ConfigModule],
-  providers: [CloudinaryService, CloudinaryProvider],
-  exports: [CloudinaryProvider, CloudinaryService],
+  providers: [
+    CloudinaryService,
+    CloudinaryProvider,
+    StorageProviderFactory,
+    StorageService,
+  ],
+  exports: [
+    CloudinaryProvider,
+    CloudinaryService,
+    StorageProviderFactory,
+    StorageService,
+  ],
 })
 export class CloudinaryModule {}
@@ -53,4 +53,32 @@ export class CloudinaryService {
       throw new BadRequestException(error.message);
     }
   }
+
+  async listImages(prefix: string) {
+    const resources: { public_id: string; created_at: string }[] = [];
+
+    let cursor: string;
+    do {
+      const page = await cloudinary.api.resources({
+        type: 'upload',
+        resource_type: 'image',
+        prefix: `${this.folder}/${prefix}`,
+        max_results: 500,
+        next_cursor: cursor,
+      });
+      resources.push(...page.resources);
+      cursor = page.next_cursor;
+    } while (cursor);
+
+    return resources;
+  }
+
+  async deleteImage(publicId: string): Promise<void> {
+    try {
+      await cloudinary.uploader.destroy(publicId, { resource_type: 'image' });
+    } catch (error) {
+      console.log(error);
+      throw new BadRequestException(error.message);
+    }
+  }
 }
@@ -3,3 +3,7 @@ export const CLOUDINARY = 'Cloudinary';
 export enum UPLOAD_FILE_NAME {
   FILE = 'file',
 }
+
+export const STORAGE_PROVIDER = 'StorageProvider';
+
+export const STORAGE_DRIVERS = ['cloudinary', 'local', 's3'] as const;
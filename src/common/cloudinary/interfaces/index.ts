@@ -0,0 +1,43 @@
+export type StorageDriver = 'cloudinary' | 'local' | 's3';
+
+export interface IStoredFile {
+  driver: StorageDriver;
+  // What the driver needs to find the file again
+  key: string;
+  url: string;
+}
+
+export interface IStoredObject {
+  key: string;
+  lastModified: Date;
+}
+
+export interface IStoredFileRef {
+  imageUrl?: string | null;
+  storageDriver?: string | null;
+  storageKey?: string | null;
+}
+
+export interface StorageProvider {
+  readonly driver: StorageDriver;
+
+  /**
+   * Stores a file under a folder. A file already stored under the same name
+   * is replaced.
+   */
+  upload(
+    file: Express.Multer.File,
+    folder: string,
+    name: string,
+  ): Promise<IStoredFile>;
+
+  // The contents of a stored file
+  download(key: string): Promise<Buffer>;
+
+  delete(key: string): Promise<void>;
+
+  // Every file kept under a folder, at any depth
+  list(prefix: string): Promise<IStoredObject[]>;
+
+  url(key: string): string;
+}
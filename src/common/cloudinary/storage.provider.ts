@@ -0,0 +1,34 @@
+import { ConfigService } from '@nestjs/config';
+import { CloudinaryService } from './cloudinary.service';
+import { STORAGE_DRIVERS, STORAGE_PROVIDER } from './constants';
+import { StorageDriver, StorageProvider } from './interfaces';
+import { CloudinaryStorage } from './storage/cloudinary.storage';
+import { LocalStorage } from './storage/local.storage';
+import { S3Storage } from './storage/s3.storage';
+
+export const StorageProviderFactory = {
+  provide: STORAGE_PROVIDER,
+  useFactory: (
+    config: ConfigService,
+    cloudinaryService: CloudinaryService,
+  ): StorageProvider => {
+    const driver = config.get<StorageDriver>('storage.driver');
+
+    switch (driver) {
+      case 'cloudinary':
+        return new CloudinaryStorage(cloudinaryService);
+      case 'local':
+        return new LocalStorage(
+          config.get('storage.local.root'),
+          `${config.get('app.host')}${config.get('storage.local.route')}`,
+        );
+      case 's3':
+        return new S3Storage(config.get('storage.s3'));
+      default:
+        throw new Error(
+          `Unknown STORAGE_DRIVER "${driver}"; use one of ${STORAGE_DRIVERS.join(', ')}.`,
+        );
+    }
+  },
+  inject: [ConfigService, CloudinaryService],
+};
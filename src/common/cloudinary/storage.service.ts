@@ -0,0 +1,74 @@
+import { Inject, Injectable } from '@nestjs/common';
+import { STORAGE_PROVIDER } from './constants';
+import { IStoredFileRef, StorageProvider } from './interfaces';
+
+@Injectable()
+export class StorageService {
+  constructor(@Inject(STORAGE_PROVIDER) private provider: StorageProvider) {}
+
+  get driver() {
+    return this.provider.driver;
+  }
+
+  /**
+   * Stores a file with the configured storage driver.
+   * @param file - The uploaded file.
+   * @param folder - The folder to keep it in, e.g. `hymns/solfa`.
+   * @param name - The file name, without extension.
+   * @returns The driver, the key the file is kept under and its URL.
+   */
+  upload(file: Express.Multer.File, folder: string, name: string) {
+    return this.provider.upload(file, folder, name);
+  }
+
+  /**
+   * Reads back a file the configured driver stored.
+   * @param key - The key the file is kept under.
+   * @returns The file's contents.
+   */
+  download(key: string) {
+    return this.provider.download(key);
+  }
+
+  /**
+   * Removes a stored file. Files kept by another driver than the configured
+   * one, or stored before drivers were tracked, are left alone.
+   * @param ref - The stored file, as saved on its record.
+   */
+  async delete(ref: IStoredFileRef) {
+    if (ref.storageKey && ref.storageDriver === this.provider.driver) {
+      await this.provider.delete(ref.storageKey);
+    }
+  }
+
+  /**
+   * Lists the files the configured driver keeps under a folder.
+   * @param prefix - The folder, e.g. `hymns/solfa`.
+   * @returns The key and last change of every file.
+   */
+  list(prefix: string) {
+    return this.provider.list(prefix);
+  }
+
+  /**
+   * Removes a file found by `list`. Such files are the configured driver's
+   * own, so no record is needed to vouch for them.
+   * @param key - The key `list` returned.
+   */
+  async deleteListed(key: string) {
+    await this.provider.delete(key);
+  }
+
+  /**
+   * Works out the URL of a stored file. The URL saved at upload time is
+   * used when the configured driver cannot resolve the file, so records
+   * from before a driver change keep working.
+   * @param ref - The stored file, as saved on its record.
+   * @returns The URL to serve.
+   */
+  resolveUrl(ref: IStoredFileRef) {
+    return ref.storageKey && ref.storageDriver === this.provider.driver
+      ? this.provider.url(ref.storageKey)
+      : ref.imageUrl;
+  }
+}
@@ -0,0 +1,53 @@
+import { InternalServerErrorException } from '@nestjs/common';
+import { v2 as cloudinary } from 'cloudinary';
+import { CloudinaryService } from '@@/common/cloudinary/cloudinary.service';
+import { IStoredFile, StorageProvider } from '@@/common/cloudinary/interfaces';
+
+export class CloudinaryStorage implements StorageProvider {
+  readonly driver = 'cloudinary';
+
+  constructor(private cloudinaryService: CloudinaryService) {}
+
+  async upload(
+    file: Express.Multer.File,
+    folder: string,
+    name: string,
+  ): Promise<IStoredFile> {
+    const result = await this.cloudinaryService.uploadImage(file, folder, name);
+
+    return {
+      driver: this.driver,
+      key: result.public_id,
+      url: result.secure_url,
+    };
+  }
+
+  // Served without transformations, so this is the file as uploaded
+  async download(key: string) {
+    const response = await fetch(this.url(key));
+    if (!response.ok) {
+      throw new InternalServerErrorException(
+        `The stored file could not be read (${response.status}).`,
+      );
+    }
+
+    return Buffer.from(await response.arrayBuffer());
+  }
+
+  delete(key: string) {
+    return this.cloudinaryService.deleteImage(key);
+  }
+
+  async list(prefix: string) {
+    const resources = await this.cloudinaryService.listImages(prefix);
+
+    return resources.map((resource) => ({
+      key: resource.public_id,
+      lastModified: new Date(resource.created_at),
+    }));
+  }
+
+  url(key: string) {
+    return cloudinary.url(key, { secure: true, resource_type: 'image' });
+  }
+}
@@ -0,0 +1,85 @@
+import { BadRequestException } from '@nestjs/common';
+import { mkdir, readFile, readdir, rm, stat, writeFile } from 'fs/promises';
+import { dirname, extname, join, posix, relative, resolve, sep } from 'path';
+import { IStoredFile, StorageProvider } from '@@/common/cloudinary/interfaces';
+
+/**
+ * Keeps files on the local disk and serves them through the static route set
+ * up in `main.ts`. Meant for development and tests.
+ */
+export class LocalStorage implements StorageProvider {
+  readonly driver = 'local';
+
+  private root: string;
+
+  constructor(
+    root: string,
+    private baseUrl: string,
+  ) {
+    this.root = resolve(root);
+  }
+
+  async upload(
+    file: Express.Multer.File,
+    folder: string,
+    name: string,
+  ): Promise<IStoredFile> {
+    const ext = extname(file.originalname).toLowerCase();
+    const key = posix.join(
+      folder,
+      /^\.[a-z0-9]+$/.test(ext) ? name + ext : name,
+    );
+    const path = this.pathOf(key);
+
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, file.buffer);
+
+    return { driver: this.driver, key, url: this.url(key) };
+  }
+
+  download(key: string) {
+    return readFile(this.pathOf(key));
+  }
+
+  async delete(key: string) {
+    await rm(this.pathOf(key), { force: true });
+  }
+
+  async list(prefix: string) {
+    const entries = await readdir(this.pathOf(prefix), {
+      recursive: true,
+      withFileTypes: true,
+    }).catch((error) => {
+      if (error.code === 'ENOENT') return [];
+      throw error;
+    });
+
+    return Promise.all(
+      entries
+        .filter((entry) => entry.isFile())
+        .map(async (entry) => {
+          const path = join(entry.parentPath, entry.name);
+          const { mtime } = await stat(path);
+
+          return {
+            key: relative(this.root, path).split(sep).join('/'),
+            lastModified: mtime,
+          };
+        }),
+    );
+  }
+
+  url(key: string) {
+    return `${this.baseUrl}/${key.split('/').map(encodeURIComponent).join('/')}`;
+  }
+
+  // Keys come from callers, so make sure they cannot leave the root
+  private pathOf(key: string) {
+    const path = resolve(this.root, key);
+    if (!path.startsWith(this.root + sep)) {
+      throw new BadRequestException(`"${key}" is not a valid file name.`);
+    }
+
+    return path;
+  }
+}
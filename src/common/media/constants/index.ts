@@ -0,0 +1,24 @@
+import { IImageLimits } from '@@/common/media/interfaces';
+
+// Formats accepted as uploads, by the name libvips gives them. SVG is left
+// out because it can carry scripts.
+export const IMAGE_MIME_TYPES: Record<string, string> = {
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  webp: 'image/webp',
+  tiff: 'image/tiff',
+  avif: 'image/avif',
+};
+
+export const DEFAULT_IMAGE_LIMITS: IImageLimits = {
+  maxBytes: 10 * 1024 * 1024,
+  minWidth: 1,
+  minHeight: 1,
+  maxWidth: 10000,
+  maxHeight: 10000,
+};
+
+// Longest side of a thumbnail, in pixels
+export const THUMBNAIL_SIZE = 320;
+
+export const WEBP_QUALITY = 80;
@@ -0,0 +1,17 @@
+export interface IImageLimits {
+  maxBytes: number;
+  minWidth: number;
+  minHeight: number;
+  maxWidth: number;
+  maxHeight: number;
+}
+
+export interface IProcessedImage {
+  // The image as uploaded, re-encoded without its metadata
+  original: Express.Multer.File;
+  webp: Express.Multer.File;
+  thumbnail: Express.Multer.File;
+  mimeType: string;
+  width: number;
+  height: number;
+}
@@ -0,0 +1,139 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { parse } from 'path';
+import sharp, { FormatEnum, Metadata } from 'sharp';
+import {
+  DEFAULT_IMAGE_LIMITS,
+  IMAGE_MIME_TYPES,
+  THUMBNAIL_SIZE,
+  WEBP_QUALITY,
+} from '@@/common/media/constants';
+import { IImageLimits, IProcessedImage } from '@@/common/media/interfaces';
+
+const MB = 1024 * 1024;
+
+@Injectable()
+export class MediaService {
+  /**
+   * Checks an uploaded image without decoding it. The type is read from the
+   * file's contents rather than trusted from the upload.
+   * @param file - The uploaded file.
+   * @param limits - Size and dimension limits; the defaults allow up to 10 MB and 10000px a side.
+   * @returns The image's format, MIME type and upright dimensions.
+   * @throws BadRequestException if the file is not a supported image or is outside the limits.
+   */
+  async inspectImage(
+    file: Express.Multer.File,
+    limits: IImageLimits = DEFAULT_IMAGE_LIMITS,
+  ) {
+    const name = file.originalname;
+
+    if (file.buffer.length > limits.maxBytes) {
+      throw new BadRequestException(
+        `"${name}" is larger than ${+(limits.maxBytes / MB).toFixed(1)} MB.`,
+      );
+    }
+
+    let metadata: Metadata;
+    try {
+      metadata = await this.load(file, limits).metadata();
+    } catch {
+      throw new BadRequestException(`"${name}" is not an image.`);
+    }
+
+    const mimeType = IMAGE_MIME_TYPES[metadata.format];
+    if (!mimeType) {
+      throw new BadRequestException(
+        `"${name}" is a ${metadata.format ?? 'unknown'} file; upload one of ${Object.keys(IMAGE_MIME_TYPES).join(', ')}.`,
+      );
+    }
+
+    // EXIF orientations 5 to 8 are turned a quarter, swapping the sides
+    const [width, height] =
+      (metadata.orientation ?? 1) >= 5
+        ? [metadata.height, metadata.width]
+        : [metadata.width, metadata.height];
+
+    if (
+      width < limits.minWidth ||
+      height < limits.minHeight ||
+      width > limits.maxWidth ||
+      height > limits.maxHeight
+    ) {
+      throw new BadRequestException(
+        `"${name}" is ${width}x${height}px; images must be between ${limits.minWidth}x${limits.minHeight}px and ${limits.maxWidth}x${limits.maxHeight}px.`,
+      );
+    }
+
+    return { format: metadata.format, mimeType, width, height };
+  }
+
+  /**
+   * Checks an uploaded image and prepares it for storage. On top of the
+   * checks of `inspectImage`, the image is turned upright and re-encoded
+   * without its EXIF data, and a full-size WebP copy and a WebP thumbnail
+   * are made from it.
+   * @param file - The uploaded file.
+   * @param limits - Size and dimension limits; the defaults allow up to 10 MB and 10000px a side.
+   * @returns The cleaned image, its derivatives and its dimensions.
+   * @throws BadRequestException if the file is not a supported image or is outside the limits.
+   */
+  async processImage(
+    file: Express.Multer.File,
+    limits: IImageLimits = DEFAULT_IMAGE_LIMITS,
+  ): Promise<IProcessedImage> {
+    const name = file.originalname;
+    const { format, mimeType, width, height } = await this.inspectImage(
+      file,
+      limits,
+    );
+
+    // Output carries no metadata unless asked to, so this drops the EXIF
+    const upright = this.load(file, limits).rotate();
+
+    try {
+      const [original, webp, thumbnail] = await Promise.all([
+        upright
+          .clone()
+          .toFormat(format as keyof FormatEnum)
+          .toBuffer(),
+        upright.clone().webp({ quality: WEBP_QUALITY }).toBuffer(),
+        upright
+          .clone()
+          .resize(THUMBNAIL_SIZE, THUMBNAIL_SIZE, {
+            fit: 'inside',
+            withoutEnlargement: true,
+          })
+          .webp({ quality: WEBP_QUALITY })
+          .toBuffer(),
+      ]);
+
+      const base = parse(name).name;
+      return {
+        original: this.toFile(file, original, `${base}.${format}`, mimeType),
+        webp: this.toFile(file, webp, `${base}.webp`, 'image/webp'),
+        thumbnail: this.toFile(file, thumbnail, `${base}.webp`, 'image/webp'),
+        mimeType,
+        width,
+        height,
+      };
+    } catch {
+      throw new BadRequestException(`"${name}" could not be read as an image.`);
+    }
+  }
+
+  private load(file: Express.Multer.File, limits: IImageLimits) {
+    return sharp(file.buffer, {
+      // Refuse decompression bombs before any pixels are decoded
+      limitInputPixels: limits.maxWidth * limits.maxHeight,
+    });
+  }
+
+  private toFile(
+    file: Express.Multer.File,
+    buffer: Buffer,
+    originalname: string,
+    mimetype: string,
+  ): Express.Multer.File {
+    return { ...file, buffer, originalname, mimetype, size: buffer.length };
+  }
+}
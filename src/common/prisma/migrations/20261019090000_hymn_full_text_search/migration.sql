@@ -0,0 +1,8 @@
+-- CreateIndex
+CREATE INDEX "hymns_title_fts_idx" ON "hymns" USING GIN (to_tsvector('simple', "title"));
+
+-- CreateIndex
+CREATE INDEX "verses_text_fts_idx" ON "verses" USING GIN (to_tsvector('simple', "text"));
+
+-- CreateIndex
+CREATE INDEX "choruses_text_fts_idx" ON "choruses" USING GIN (to_tsvector('simple', "text"));
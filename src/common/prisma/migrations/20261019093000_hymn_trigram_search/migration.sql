@@ -0,0 +1,8 @@
+-- CreateExtension
+CREATE EXTENSION IF NOT EXISTS "pg_trgm";
+
+-- CreateIndex
+CREATE INDEX "hymns_title_trgm_idx" ON "hymns" USING GIN ("title" gin_trgm_ops);
+
+-- CreateIndex
+CREATE INDEX "verses_first_line_trgm_idx" ON "verses" USING GIN (split_part("text", E'\n', 1) gin_trgm_ops);
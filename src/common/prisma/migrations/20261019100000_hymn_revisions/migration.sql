@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "HymnRevisionAction" AS ENUM ('CREATE', 'UPDATE', 'ROLLBACK');
+
+-- CreateTable
+CREATE TABLE "hymn_revisions" (
+    "id" UUID NOT NULL,
+    "hymnId" UUID NOT NULL,
+    "revision" INTEGER NOT NULL,
+    "action" "HymnRevisionAction" NOT NULL,
+    "snapshot" JSONB NOT NULL,
+    "restoredFrom" INTEGER,
+    "createdById" UUID,
+    "createdAt" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "hymn_revisions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "hymn_revisions_hymnId_idx" ON "hymn_revisions"("hymnId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "hymn_revisions_hymnId_revision_key" ON "hymn_revisions"("hymnId", "revision");
+
+-- AddForeignKey
+ALTER TABLE "hymn_revisions" ADD CONSTRAINT "hymn_revisions_hymnId_fkey" FOREIGN KEY ("hymnId") REFERENCES "hymns"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "hymn_revisions" ADD CONSTRAINT "hymn_revisions_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,28 @@
+-- CreateEnum
+CREATE TYPE "HymnWorkflowAction" AS ENUM ('SUBMIT', 'APPROVE', 'REJECT', 'PUBLISH', 'ARCHIVE');
+
+-- AlterTable
+ALTER TABLE "hymns" ALTER COLUMN "status" SET DEFAULT 'Draft';
+
+-- CreateTable
+CREATE TABLE "hymn_status_transitions" (
+    "id" UUID NOT NULL,
+    "hymnId" UUID NOT NULL,
+    "action" "HymnWorkflowAction" NOT NULL,
+    "fromStatus" "HymnStatus" NOT NULL,
+    "toStatus" "HymnStatus" NOT NULL,
+    "comment" TEXT,
+    "createdById" UUID,
+    "createdAt" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "hymn_status_transitions_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "hymn_status_transitions_hymnId_idx" ON "hymn_status_transitions"("hymnId");
+
+-- AddForeignKey
+ALTER TABLE "hymn_status_transitions" ADD CONSTRAINT "hymn_status_transitions_hymnId_fkey" FOREIGN KEY ("hymnId") REFERENCES "hymns"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "hymn_status_transitions" ADD CONSTRAINT "hymn_status_transitions_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "choruses" ADD COLUMN     "order" INTEGER;
@@ -0,0 +1,52 @@
+-- CreateTable
+CREATE TABLE "hymn_arrangements" (
+    "id" UUID NOT NULL,
+    "name" TEXT NOT NULL,
+    "isDefault" BOOLEAN NOT NULL DEFAULT false,
+    "hymnId" UUID NOT NULL,
+    "createdById" UUID,
+    "updatedById" UUID,
+    "createdAt" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMPTZ(6) NOT NULL,
+    "deletedAt" TIMESTAMPTZ(6),
+
+    CONSTRAINT "hymn_arrangements_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "hymn_arrangement_items" (
+    "id" UUID NOT NULL,
+    "arrangementId" UUID NOT NULL,
+    "position" INTEGER NOT NULL,
+    "verseId" UUID,
+    "chorusId" UUID,
+
+    CONSTRAINT "hymn_arrangement_items_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "hymn_arrangements_hymnId_idx" ON "hymn_arrangements"("hymnId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "hymn_arrangement_items_arrangementId_position_key" ON "hymn_arrangement_items"("arrangementId", "position");
+
+-- AddForeignKey
+ALTER TABLE "hymn_arrangements" ADD CONSTRAINT "hymn_arrangements_hymnId_fkey" FOREIGN KEY ("hymnId") REFERENCES "hymns"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "hymn_arrangements" ADD CONSTRAINT "hymn_arrangements_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "hymn_arrangements" ADD CONSTRAINT "hymn_arrangements_updatedById_fkey" FOREIGN KEY ("updatedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "hymn_arrangement_items" ADD CONSTRAINT "hymn_arrangement_items_arrangementId_fkey" FOREIGN KEY ("arrangementId") REFERENCES "hymn_arrangements"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "hymn_arrangement_items" ADD CONSTRAINT "hymn_arrangement_items_verseId_fkey" FOREIGN KEY ("verseId") REFERENCES "verses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "hymn_arrangement_items" ADD CONSTRAINT "hymn_arrangement_items_chorusId_fkey" FOREIGN KEY ("chorusId") REFERENCES "choruses"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- A sequence step points at exactly one verse or chorus
+ALTER TABLE "hymn_arrangement_items" ADD CONSTRAINT "hymn_arrangement_items_part_check" CHECK (num_nonnulls("verseId", "chorusId") = 1);
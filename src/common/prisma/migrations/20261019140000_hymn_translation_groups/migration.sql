@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "hymns" ADD COLUMN     "translationGroupId" UUID;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "hymns_translationGroupId_language_key" ON "hymns"("translationGroupId", "language");
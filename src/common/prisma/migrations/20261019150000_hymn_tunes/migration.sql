@@ -0,0 +1,45 @@
+-- AlterEnum
+ALTER TYPE "EntityType" ADD VALUE 'TUNE';
+
+-- AlterTable
+ALTER TABLE "hymns" ADD COLUMN     "tuneId" UUID;
+
+-- CreateTable
+CREATE TABLE "tunes" (
+    "id" UUID NOT NULL,
+    "name" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "composer" TEXT,
+    "meter" TEXT,
+    "meterKey" TEXT,
+    "key" TEXT,
+    "year" INTEGER,
+    "createdById" UUID,
+    "updatedById" UUID,
+    "createdAt" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMPTZ(6) NOT NULL,
+    "deletedAt" TIMESTAMPTZ(6),
+
+    CONSTRAINT "tunes_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "tunes_slug_key" ON "tunes"("slug");
+
+-- CreateIndex
+CREATE INDEX "tunes_name_idx" ON "tunes"("name");
+
+-- CreateIndex
+CREATE INDEX "tunes_meterKey_idx" ON "tunes"("meterKey");
+
+-- CreateIndex
+CREATE INDEX "hymns_tuneId_idx" ON "hymns"("tuneId");
+
+-- AddForeignKey
+ALTER TABLE "hymns" ADD CONSTRAINT "hymns_tuneId_fkey" FOREIGN KEY ("tuneId") REFERENCES "tunes"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tunes" ADD CONSTRAINT "tunes_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "tunes" ADD CONSTRAINT "tunes_updatedById_fkey" FOREIGN KEY ("updatedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,25 @@
+-- CreateTable
+CREATE TABLE "hymn_scriptures" (
+    "id" UUID NOT NULL,
+    "hymnId" UUID NOT NULL,
+    "book" TEXT NOT NULL,
+    "startChapter" INTEGER NOT NULL,
+    "startVerse" INTEGER,
+    "endChapter" INTEGER NOT NULL,
+    "endVerse" INTEGER,
+    "start" INTEGER NOT NULL,
+    "end" INTEGER NOT NULL,
+    "reference" TEXT NOT NULL,
+    "createdAt" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "hymn_scriptures_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "hymn_scriptures_hymnId_idx" ON "hymn_scriptures"("hymnId");
+
+-- CreateIndex
+CREATE INDEX "hymn_scriptures_start_end_idx" ON "hymn_scriptures"("start", "end");
+
+-- AddForeignKey
+ALTER TABLE "hymn_scriptures" ADD CONSTRAINT "hymn_scriptures_hymnId_fkey" FOREIGN KEY ("hymnId") REFERENCES "hymns"("id") ON DELETE CASCADE ON UPDATE CASCADE;
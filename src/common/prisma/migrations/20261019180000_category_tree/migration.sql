@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "categories" ADD COLUMN     "parentId" UUID;
+
+-- CreateIndex
+CREATE INDEX "categories_parentId_idx" ON "categories"("parentId");
+
+-- AddForeignKey
+ALTER TABLE "categories" ADD CONSTRAINT "categories_parentId_fkey" FOREIGN KEY ("parentId") REFERENCES "categories"("id") ON DELETE SET NULL ON UPDATE CASCADE;
@@ -0,0 +1,63 @@
+-- AlterEnum
+ALTER TYPE "EntityType" ADD VALUE 'HYMNBOOK';
+
+-- CreateTable
+CREATE TABLE "hymnbooks" (
+    "id" UUID NOT NULL,
+    "name" TEXT NOT NULL,
+    "slug" TEXT NOT NULL,
+    "description" TEXT,
+    "createdById" UUID,
+    "updatedById" UUID,
+    "createdAt" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMPTZ(6) NOT NULL,
+    "deletedAt" TIMESTAMPTZ(6),
+
+    CONSTRAINT "hymnbooks_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "hymnbook_entries" (
+    "id" UUID NOT NULL,
+    "hymnbookId" UUID NOT NULL,
+    "hymnId" UUID NOT NULL,
+    "number" INTEGER NOT NULL,
+    "createdAt" TIMESTAMPTZ(6) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "hymnbook_entries_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "hymnbooks_slug_key" ON "hymnbooks"("slug");
+
+-- CreateIndex
+CREATE INDEX "hymnbook_entries_hymnId_idx" ON "hymnbook_entries"("hymnId");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "hymnbook_entries_hymnbookId_number_key" ON "hymnbook_entries"("hymnbookId", "number");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "hymnbook_entries_hymnbookId_hymnId_key" ON "hymnbook_entries"("hymnbookId", "hymnId");
+
+-- AddForeignKey
+ALTER TABLE "hymnbooks" ADD CONSTRAINT "hymnbooks_createdById_fkey" FOREIGN KEY ("createdById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "hymnbooks" ADD CONSTRAINT "hymnbooks_updatedById_fkey" FOREIGN KEY ("updatedById") REFERENCES "users"("id") ON DELETE SET NULL ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "hymnbook_entries" ADD CONSTRAINT "hymnbook_entries_hymnbookId_fkey" FOREIGN KEY ("hymnbookId") REFERENCES "hymnbooks"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AddForeignKey
+ALTER TABLE "hymnbook_entries" ADD CONSTRAINT "hymnbook_entries_hymnId_fkey" FOREIGN KEY ("hymnId") REFERENCES "hymns"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Existing hymn numbers become the numbering of a default hymnbook
+INSERT INTO "hymnbooks" ("id", "name", "slug", "updatedAt")
+SELECT gen_random_uuid(), 'Hymnal', 'hymnal', CURRENT_TIMESTAMP
+WHERE EXISTS (SELECT 1 FROM "hymns" WHERE "number" IS NOT NULL);
+
+INSERT INTO "hymnbook_entries" ("id", "hymnbookId", "hymnId", "number")
+SELECT gen_random_uuid(), b."id", h."id", h."number"
+FROM "hymns" h
+CROSS JOIN "hymnbooks" b
+WHERE b."slug" = 'hymnal' AND h."number" IS NOT NULL;
@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "solfa_images" ADD COLUMN     "storageDriver" TEXT,
+ADD COLUMN     "storageKey" TEXT;
+
+-- Images uploaded before drivers were tracked are on Cloudinary; the public
+-- ID is the part of the URL after /upload/, without version or extension
+UPDATE "solfa_images"
+SET "storageDriver" = 'cloudinary',
+    "storageKey" = regexp_replace(
+      regexp_replace("imageUrl", '^.*/upload/(v[0-9]+/)?', ''),
+      '\.[^./]+$',
+      ''
+    )
+WHERE "storageKey" IS NULL
+  AND "imageUrl" ~ '^https?://res\.cloudinary\.com/.+/upload/';
@@ -0,0 +1,15 @@
+-- AlterTable
+ALTER TABLE "solfa_images" ADD COLUMN     "order" INTEGER NOT NULL DEFAULT 1;
+
+-- Number the existing pages of each hymn in upload order
+UPDATE "solfa_images" AS s
+SET "order" = numbered."order"
+FROM (
+    SELECT "id", ROW_NUMBER() OVER (PARTITION BY "hymnId" ORDER BY "createdAt", "id") AS "order"
+    FROM "solfa_images"
+    WHERE "deletedAt" IS NULL
+) AS numbered
+WHERE s."id" = numbered."id";
+
+-- CreateIndex
+CREATE INDEX "solfa_images_hymnId_order_idx" ON "solfa_images"("hymnId", "order");
@@ -0,0 +1,8 @@
+-- AlterTable
+ALTER TABLE "solfa_images" ADD COLUMN     "height" INTEGER,
+ADD COLUMN     "mimeType" TEXT,
+ADD COLUMN     "thumbnailKey" TEXT,
+ADD COLUMN     "thumbnailUrl" TEXT,
+ADD COLUMN     "webpKey" TEXT,
+ADD COLUMN     "webpUrl" TEXT,
+ADD COLUMN     "width" INTEGER;
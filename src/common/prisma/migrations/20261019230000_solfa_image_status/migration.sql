@@ -0,0 +1,7 @@
+-- CreateEnum
+CREATE TYPE "MediaStatus" AS ENUM ('Pending', 'Ready', 'Failed');
+
+-- AlterTable
+ALTER TABLE "solfa_images" ADD COLUMN     "processingError" TEXT,
+ADD COLUMN     "status" "MediaStatus" NOT NULL DEFAULT 'Ready',
+ALTER COLUMN "imageUrl" DROP NOT NULL;
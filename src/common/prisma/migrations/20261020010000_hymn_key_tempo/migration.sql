@@ -0,0 +1,3 @@
+-- AlterTable
+ALTER TABLE "hymns" ADD COLUMN     "key" TEXT,
+ADD COLUMN     "tempo" INTEGER;
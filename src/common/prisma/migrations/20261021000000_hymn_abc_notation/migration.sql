@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "hymns" ADD COLUMN     "abcNotation" TEXT;
@@ -0,0 +1,5 @@
+-- AlterTable
+ALTER TABLE "hymns" ADD COLUMN     "melodyIntervals" TEXT;
+
+-- CreateIndex
+CREATE INDEX "hymns_melody_intervals_trgm_idx" ON "hymns" USING GIN ("melodyIntervals" gin_trgm_ops);
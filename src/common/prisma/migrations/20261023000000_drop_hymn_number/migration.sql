@@ -0,0 +1,22 @@
+-- Numbers given to hymns since hymnbooks were added join the default book;
+-- one already used there by another hymn is dropped
+INSERT INTO "hymnbooks" ("id", "name", "slug", "updatedAt")
+SELECT gen_random_uuid(), 'Hymnal', 'hymnal', CURRENT_TIMESTAMP
+WHERE EXISTS (SELECT 1 FROM "hymns" WHERE "number" IS NOT NULL)
+ON CONFLICT ("slug") DO NOTHING;
+
+INSERT INTO "hymnbook_entries" ("id", "hymnbookId", "hymnId", "number")
+SELECT gen_random_uuid(), b."id", h."id", h."number"
+FROM "hymns" h
+CROSS JOIN "hymnbooks" b
+WHERE b."slug" = 'hymnal' AND h."number" IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+-- DropIndex
+DROP INDEX "hymns_number_key";
+
+-- DropIndex
+DROP INDEX "hymns_number_idx";
+
+-- AlterTable
+ALTER TABLE "hymns" DROP COLUMN "number";
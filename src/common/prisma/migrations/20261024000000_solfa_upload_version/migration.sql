@@ -0,0 +1,2 @@
+-- AlterTable
+ALTER TABLE "solfa_images" ADD COLUMN     "uploadVersion" INTEGER NOT NULL DEFAULT 1;
@@ -152,6 +152,20 @@ export class AppUtilities {
     }
   };
 
+  /**
+   * Canonicalizes a BCP 47 language tag, e.g. `EN-gb` becomes `en-GB`.
+   * Only ISO 639 primary language subtags (two or three letters) are accepted.
+   * @returns The canonical tag, or `null` when the tag is not valid BCP 47.
+   */
+  public static canonicalizeLanguageTag(tag: string): string | null {
+    try {
+      const [canonical] = Intl.getCanonicalLocales(tag.trim());
+      return /^[a-z]{2,3}(-|$)/.test(canonical) ? canonical : null;
+    } catch {
+      return null;
+    }
+  }
+
   public static generateToken() {
     return Math.random().toString(36).substring(2, 9);
   }
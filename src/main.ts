@@ -2,14 +2,16 @@ import { ConfigService } from '@nestjs/config';
 import { NestFactory } from '@nestjs/core';
 import { AppModule } from './app.module';
 import { INestApplication, ValidationPipe } from '@nestjs/common';
+import { NestExpressApplication } from '@nestjs/platform-express';
 import { DocumentBuilder, SwaggerModule } from '@nestjs/swagger';
 import { RequestInterceptor } from './common/interceptors/request.interceptor';
 import { ResponseInterceptor } from './common/interceptors/response.interceptor';
 import { ErrorsInterceptor } from './common/interceptors/error.interceptor';
 import helmet from 'helmet';
+import { resolve } from 'path';
 
 async function bootstrap() {
-  const app = await NestFactory.create(AppModule);
+  const app = await NestFactory.create<NestExpressApplication>(AppModule);
   const configService = app.get<ConfigService>(ConfigService);
   const appHost = configService.get('app.host');
   const appPort = configService.get('app.port');
@@ -34,6 +36,18 @@ async function bootstrap() {
 
   app.use(helmet());
 
+  // Files kept by the local storage driver; other drivers serve their own
+  if (configService.get('storage.driver') === 'local') {
+    app.useStaticAssets(resolve(configService.get('storage.local.root')), {
+      prefix: configService.get('storage.local.route'),
+      index: false,
+      dotfiles: 'deny',
+      // Let frontends on other origins show the images
+      setHeaders: (res) =>
+        res.setHeader('Cross-Origin-Resource-Policy', 'cross-origin'),
+    });
+  }
+
   app.useGlobalInterceptors(
     new RequestInterceptor(),
     new ResponseInterceptor(),
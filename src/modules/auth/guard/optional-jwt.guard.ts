@@ -0,0 +1,11 @@
+import { Injectable } from '@nestjs/common';
+import { AuthGuard } from '@nestjs/passport';
+
+// Reads the user from the token when there is one, but lets anonymous
+// requests through with no user instead of refusing them
+@Injectable()
+export class OptionalJwtAuthGuard extends AuthGuard('jwt') {
+  handleRequest(err, user) {
+    return user || null;
+  }
+}
@@ -0,0 +1,68 @@
+import {
+  Controller,
+  Get,
+  Post,
+  Query,
+  Res,
+  UploadedFile,
+  UseGuards,
+  UseInterceptors,
+} from '@nestjs/common';
+import {
+  ApiBearerAuth,
+  ApiBody,
+  ApiConsumes,
+  ApiOperation,
+  ApiTags,
+} from '@nestjs/swagger';
+import { FileInterceptor } from '@nestjs/platform-express';
+import { User } from '@prisma/client';
+import { Response } from 'express';
+import { pipeline } from 'stream/promises';
+import { ResponseMessage } from 'src/common/decorators/response.decorator';
+import { GetUser } from 'src/common/decorators/get-user.decorator';
+import { AdminAuthGuard } from '@@/modules/auth/guard/auth.guard';
+import { BackupService } from './backup.service';
+import { RestoreBackupDto } from './dto/restore-backup.dto';
+
+@ApiBearerAuth()
+@ApiTags('Backup')
+@Controller('backup')
+export class BackupController {
+  constructor(private readonly backupService: BackupService) {}
+
+  @Get()
+  @UseGuards(AdminAuthGuard)
+  @ApiOperation({ summary: 'Download a gzipped JSON archive of all hymns.' })
+  async downloadBackup(@Res() res: Response) {
+    const { filename, stream } = await this.backupService.createBackup();
+
+    res.set({
+      'Content-Type': 'application/gzip',
+      'Content-Disposition': `attachment; filename="${filename}"`,
+    });
+    await pipeline(stream, res);
+  }
+
+  @Post('/restore')
+  @UseGuards(AdminAuthGuard)
+  @ApiOperation({ summary: 'Restore hymns and categories from an archive.' })
+  @ResponseMessage({ message: 'Backup restored successfully.' })
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: 100 * 1024 * 1024 } }),
+  )
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: { file: { type: 'string', format: 'binary' } },
+    },
+  })
+  async restoreBackup(
+    @UploadedFile() file: Express.Multer.File,
+    @Query() { mode }: RestoreBackupDto,
+    @GetUser() user: User,
+  ) {
+    return this.backupService.restoreBackup(file, mode, user);
+  }
+}
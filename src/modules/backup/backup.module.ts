@@ -0,0 +1,12 @@
+import { Module } from '@nestjs/common';
+import { BackupService } from './backup.service';
+import { BackupController } from './backup.controller';
+import { PrismaModule } from 'src/common/prisma/prisma.module';
+import { AuditLogModule } from 'src/common/audit-log/audit-log.module';
+
+@Module({
+  imports: [PrismaModule, AuditLogModule],
+  controllers: [BackupController],
+  providers: [BackupService],
+})
+export class BackupModule {}
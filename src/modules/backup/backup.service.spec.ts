@@ -0,0 +1,126 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { User } from '@prisma/client';
+import { gunzipSync } from 'zlib';
+import { PrismaService } from 'src/common/prisma/prisma.service';
+import { AuditLogService } from 'src/common/audit-log/audit-log.service';
+import { BackupService } from '@@/modules/backup/backup.service';
+
+const hymn = (id: string, revisions: number) => ({
+  id,
+  title: `Hymn ${id}`,
+  createdById: null,
+  updatedById: null,
+  verses: [{ id: `${id}-verse`, text: '...', order: 1 }],
+  choruses: [],
+  solfaImages: [],
+  scriptures: [],
+  tags: [],
+  hymnbooks: [],
+  arrangements: [],
+  revisions: Array.from({ length: revisions }, (_, idx) => ({
+    id: `${id}-revision-${idx + 1}`,
+    revision: idx + 1,
+    createdById: null,
+  })),
+  transitions: [],
+});
+
+// Any model method the restore calls inside its transaction
+const anyModel = () =>
+  new Proxy({}, { get: () => jest.fn(async () => ({ count: 0 })) });
+const anyClient = () => new Proxy({}, { get: anyModel });
+
+describe('BackupService', () => {
+  let service: BackupService;
+  let hymns: ReturnType<typeof hymn>[];
+  let prisma: Record<string, Record<string, jest.Mock> | jest.Mock>;
+
+  const download = async () => {
+    const { stream } = await service.createBackup();
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk);
+    }
+    return gunzipSync(Buffer.concat(chunks));
+  };
+
+  beforeEach(async () => {
+    hymns = [hymn('a', 2)];
+    prisma = {
+      category: { findMany: jest.fn(async () => []) },
+      tune: { findMany: jest.fn(async () => []) },
+      tag: { findMany: jest.fn(async () => []) },
+      hymnbook: { findMany: jest.fn(async () => []) },
+      hymn: {
+        findMany: jest.fn(async ({ take, cursor }) => {
+          const sorted = [...hymns].sort((a, b) => a.id.localeCompare(b.id));
+          const start = cursor
+            ? sorted.findIndex((found) => found.id === cursor.id) + 1
+            : 0;
+          return sorted.slice(start, start + take);
+        }),
+      },
+      user: { findMany: jest.fn(async () => []) },
+      $transaction: jest.fn(async (run) => run(anyClient())),
+    };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        BackupService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: AuditLogService, useValue: { log: jest.fn() } },
+      ],
+    }).compile();
+
+    service = moduleRef.get(BackupService);
+  });
+
+  it('counts the records it writes', async () => {
+    const archive = JSON.parse((await download()).toString('utf8'));
+
+    expect(archive.manifest.counts).toMatchObject({
+      hymns: 1,
+      verses: 1,
+      revisions: 2,
+    });
+  });
+
+  it('restores an archive taken while hymns were being edited', async () => {
+    // An edit records a revision, and a new hymn is saved, once the backup
+    // has started
+    (prisma.tune as Record<string, jest.Mock>).findMany.mockImplementation(
+      async () => {
+        hymns[0].revisions.push(...hymn('a', 3).revisions.slice(2));
+        hymns.push(hymn('b', 1));
+        return [];
+      },
+    );
+
+    const buffer = await download();
+    const result = await service.restoreBackup(
+      { buffer } as Express.Multer.File,
+      'replace',
+      { id: 'admin' } as User,
+    );
+
+    expect(result.restored).toMatchObject({ hymns: 2, revisions: 4 });
+  });
+
+  it('refuses an archive that does not hold what its manifest lists', async () => {
+    const archive = JSON.parse((await download()).toString('utf8'));
+    archive.hymns[0].revisions.pop();
+
+    await expect(
+      service.restoreBackup(
+        { buffer: Buffer.from(JSON.stringify(archive)) } as Express.Multer.File,
+        'replace',
+        { id: 'admin' } as User,
+      ),
+    ).rejects.toThrow(
+      new BadRequestException(
+        'The archive is incomplete: the manifest lists 2 revisions but it holds 1.',
+      ),
+    );
+  });
+});
@@ -0,0 +1,638 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  InternalServerErrorException,
+} from '@nestjs/common';
+import { Prisma, User } from '@prisma/client';
+import { Readable } from 'stream';
+import { createGzip, gunzipSync } from 'zlib';
+import { PrismaService } from 'src/common/prisma/prisma.service';
+import { AuditLogService } from 'src/common/audit-log/audit-log.service';
+import {
+  BACKUP_ARRANGEMENT_ITEM_SELECT,
+  BACKUP_ARRANGEMENT_SELECT,
+  BACKUP_BATCH_SIZE,
+  BACKUP_CATEGORY_SELECT,
+  BACKUP_CHORUS_SELECT,
+  BACKUP_FORMAT,
+  BACKUP_HYMN_SELECT,
+  BACKUP_HYMNBOOK_ENTRY_SELECT,
+  BACKUP_HYMNBOOK_SELECT,
+  BACKUP_REVISION_SELECT,
+  BACKUP_SCHEMA_VERSION,
+  BACKUP_SCRIPTURE_SELECT,
+  BACKUP_SOLFA_IMAGE_SELECT,
+  BACKUP_TAG_SELECT,
+  BACKUP_TRANSITION_SELECT,
+  BACKUP_TUNE_SELECT,
+  BACKUP_VERSE_SELECT,
+  RESTORE_TIMEOUT_MS,
+} from '@@/modules/backup/constants';
+import {
+  BackupRestoreMode,
+  IBackupArchive,
+  IBackupCounts,
+  IBackupManifest,
+} from '@@/modules/backup/interfaces';
+
+/** Keeps only the scalar fields a select names, dropping anything else. */
+const pickFields = (record: object, select: Record<string, unknown>) =>
+  Object.fromEntries(
+    Object.keys(select)
+      .filter((key) => select[key] === true)
+      .map((key) => [key, record[key]]),
+  );
+
+@Injectable()
+export class BackupService {
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditLogService,
+  ) {}
+
+  /**
+   * Streams a gzipped JSON archive of every category, tune, tag, hymnbook and
+   * hymn, with their verses, choruses, solfa image, scripture references,
+   * tags, hymnbook numbers, arrangements, revisions and workflow history,
+   * soft-deleted ones included.
+   * Hymns are read in batches so the archive is never held in memory.
+   * @returns The archive stream and a timestamped download filename.
+   */
+  async createBackup() {
+    const createdAt = new Date().toISOString();
+    const stamp = createdAt.replace(/[:.]/g, '-');
+
+    return {
+      filename: `hymnal-backup-${stamp}.json.gz`,
+      stream: Readable.from(this.writeArchive(createdAt)).pipe(createGzip()),
+    };
+  }
+
+  /**
+   * Restores categories, tunes, tags, hymnbooks and hymns from a backup
+   * archive in one transaction.
+   * In `merge` mode records are upserted by ID and everything else is left
+   * alone; in `replace` mode all hymns, hymnbooks, tags, tunes and categories
+   * are deleted first.
+   * Authors that do not exist on this server are cleared.
+   * @param file - The archive, gzipped or plain JSON.
+   * @param mode - `merge` or `replace`.
+   * @param user - The admin restoring the archive.
+   * @returns The archive's manifest and what was restored.
+   * @throws BadRequestException if the archive is unreadable, incomplete or of another schema version.
+   * @throws ConflictException if a merged record clashes with an existing one.
+   */
+  async restoreBackup(
+    file: Express.Multer.File,
+    mode: BackupRestoreMode,
+    user: User,
+  ) {
+    const archive = this.readArchive(file);
+    const counts = this.countArchive(archive);
+    const knownUsers = await this.findKnownUsers(archive);
+
+    const authorship = (record: {
+      createdById: string | null;
+      updatedById: string | null;
+    }) => ({
+      createdById: knownUsers.has(record.createdById)
+        ? record.createdById
+        : null,
+      updatedById: knownUsers.has(record.updatedById)
+        ? record.updatedById
+        : null,
+    });
+
+    const categories = this.parentsFirst(
+      archive.categories.map((category) => ({
+        ...pickFields(category, BACKUP_CATEGORY_SELECT),
+        ...authorship(category),
+      })) as Prisma.CategoryCreateManyInput[],
+    );
+    const tunes = archive.tunes.map((tune) => ({
+      ...pickFields(tune, BACKUP_TUNE_SELECT),
+      ...authorship(tune),
+    })) as Prisma.TuneCreateManyInput[];
+    const tags = archive.tags.map((tag) => ({
+      ...pickFields(tag, BACKUP_TAG_SELECT),
+      ...authorship(tag),
+    })) as Prisma.TagCreateManyInput[];
+    const hymnbooks = archive.hymnbooks.map((hymnbook) => ({
+      ...pickFields(hymnbook, BACKUP_HYMNBOOK_SELECT),
+      ...authorship(hymnbook),
+    })) as Prisma.HymnbookCreateManyInput[];
+    const hymns = archive.hymns.map((hymn) => ({
+      ...pickFields(hymn, BACKUP_HYMN_SELECT),
+      ...authorship(hymn),
+    })) as Prisma.HymnCreateManyInput[];
+    const childrenOf = <T extends object>(
+      key: 'verses' | 'choruses' | 'solfaImages',
+      select: Record<string, unknown>,
+    ) =>
+      archive.hymns.flatMap((hymn) =>
+        (hymn[key] as IBackupArchive['hymns'][number][typeof key]).map(
+          (child) => ({
+            ...pickFields(child, select),
+            ...authorship(child),
+            hymnId: hymn.id,
+          }),
+        ),
+      ) as T[];
+    const verses = childrenOf<Prisma.VerseCreateManyInput>(
+      'verses',
+      BACKUP_VERSE_SELECT,
+    );
+    const choruses = childrenOf<Prisma.ChorusCreateManyInput>(
+      'choruses',
+      BACKUP_CHORUS_SELECT,
+    );
+    const solfaImages = childrenOf<Prisma.SolfaImageCreateManyInput>(
+      'solfaImages',
+      BACKUP_SOLFA_IMAGE_SELECT,
+    );
+    // Scripture references have no authors and belong wholly to their hymn
+    const scriptures = archive.hymns.flatMap((hymn) =>
+      hymn.scriptures.map((scripture) => ({
+        ...pickFields(scripture, BACKUP_SCRIPTURE_SELECT),
+        hymnId: hymn.id,
+      })),
+    ) as Prisma.HymnScriptureCreateManyInput[];
+    const hymnbookEntries = archive.hymns.flatMap((hymn) =>
+      hymn.hymnbooks.map((entry) => ({
+        ...pickFields(entry, BACKUP_HYMNBOOK_ENTRY_SELECT),
+        hymnId: hymn.id,
+      })),
+    ) as Prisma.HymnbookEntryCreateManyInput[];
+    const arrangements = archive.hymns.flatMap((hymn) =>
+      hymn.arrangements.map((arrangement) => ({
+        ...pickFields(arrangement, BACKUP_ARRANGEMENT_SELECT),
+        ...authorship(arrangement),
+        hymnId: hymn.id,
+      })),
+    ) as Prisma.HymnArrangementCreateManyInput[];
+    const arrangementItems = archive.hymns.flatMap((hymn) =>
+      hymn.arrangements.flatMap((arrangement) =>
+        arrangement.items.map((item) => ({
+          ...pickFields(item, BACKUP_ARRANGEMENT_ITEM_SELECT),
+          arrangementId: arrangement.id,
+        })),
+      ),
+    ) as Prisma.HymnArrangementItemCreateManyInput[];
+    const creator = (record: { createdById: string | null }) => ({
+      createdById: knownUsers.has(record.createdById)
+        ? record.createdById
+        : null,
+    });
+    const revisions = archive.hymns.flatMap((hymn) =>
+      hymn.revisions.map((revision) => ({
+        ...pickFields(revision, BACKUP_REVISION_SELECT),
+        ...creator(revision),
+        hymnId: hymn.id,
+      })),
+    ) as Prisma.HymnRevisionCreateManyInput[];
+    const transitions = archive.hymns.flatMap((hymn) =>
+      hymn.transitions.map((transition) => ({
+        ...pickFields(transition, BACKUP_TRANSITION_SELECT),
+        ...creator(transition),
+        hymnId: hymn.id,
+      })),
+    ) as Prisma.HymnStatusTransitionCreateManyInput[];
+    const hymnTags = archive.hymns
+      .filter((hymn) => hymn.tags.length)
+      .map((hymn) => ({ id: hymn.id, tags: hymn.tags }));
+
+    try {
+      await this.prisma.$transaction(
+        async (tx) => {
+          if (mode === 'replace') {
+            // Revisions, transitions, arrangements and scripture references
+            // cascade with the hymns, and are written again from the archive
+            await tx.solfaImage.deleteMany();
+            await tx.verse.deleteMany();
+            await tx.chorus.deleteMany();
+            await tx.hymn.deleteMany();
+            await tx.hymnbook.deleteMany();
+            await tx.tag.deleteMany();
+            await tx.tune.deleteMany();
+            await tx.category.deleteMany();
+
+            for (const batch of this.chunk(categories)) {
+              await tx.category.createMany({ data: batch });
+            }
+            for (const batch of this.chunk(tunes)) {
+              await tx.tune.createMany({ data: batch });
+            }
+            for (const batch of this.chunk(tags)) {
+              await tx.tag.createMany({ data: batch });
+            }
+            for (const batch of this.chunk(hymnbooks)) {
+              await tx.hymnbook.createMany({ data: batch });
+            }
+            for (const batch of this.chunk(hymns)) {
+              await tx.hymn.createMany({ data: batch });
+            }
+            for (const batch of this.chunk(verses)) {
+              await tx.verse.createMany({ data: batch });
+            }
+            for (const batch of this.chunk(choruses)) {
+              await tx.chorus.createMany({ data: batch });
+            }
+            for (const batch of this.chunk(solfaImages)) {
+              await tx.solfaImage.createMany({ data: batch });
+            }
+            for (const batch of this.chunk(scriptures)) {
+              await tx.hymnScripture.createMany({ data: batch });
+            }
+            for (const batch of this.chunk(hymnbookEntries)) {
+              await tx.hymnbookEntry.createMany({ data: batch });
+            }
+            await this.writeHistory(tx, {
+              arrangements,
+              arrangementItems,
+              revisions,
+              transitions,
+            });
+          } else {
+            for (const data of categories) {
+              await tx.category.upsert({
+                where: { id: data.id },
+                create: data,
+                update: data,
+              });
+            }
+            for (const data of tunes) {
+              await tx.tune.upsert({
+                where: { id: data.id },
+                create: data,
+                update: data,
+              });
+            }
+            for (const data of tags) {
+              await tx.tag.upsert({
+                where: { id: data.id },
+                create: data,
+                update: data,
+              });
+            }
+            for (const data of hymnbooks) {
+              await tx.hymnbook.upsert({
+                where: { id: data.id },
+                create: data,
+                update: data,
+              });
+            }
+            for (const data of hymns) {
+              await tx.hymn.upsert({
+                where: { id: data.id },
+                create: data,
+                update: data,
+              });
+            }
+            for (const data of verses) {
+              await tx.verse.upsert({
+                where: { id: data.id },
+                create: data,
+                update: data,
+              });
+            }
+            for (const data of choruses) {
+              await tx.chorus.upsert({
+                where: { id: data.id },
+                create: data,
+                update: data,
+              });
+            }
+            for (const data of solfaImages) {
+              await tx.solfaImage.upsert({
+                where: { id: data.id },
+                create: data,
+                update: data,
+              });
+            }
+
+            // A restored hymn gets exactly the references in the archive
+            await tx.hymnScripture.deleteMany({
+              where: { hymnId: { in: hymns.map((hymn) => hymn.id) } },
+            });
+            for (const batch of this.chunk(scriptures)) {
+              await tx.hymnScripture.createMany({ data: batch });
+            }
+
+            // ...and exactly the hymnbook numbers
+            await tx.hymnbookEntry.deleteMany({
+              where: { hymnId: { in: hymns.map((hymn) => hymn.id) } },
+            });
+            for (const batch of this.chunk(hymnbookEntries)) {
+              await tx.hymnbookEntry.createMany({ data: batch });
+            }
+
+            // ...and exactly the arrangements, revisions and workflow history
+            const hymnIds = { hymnId: { in: hymns.map((hymn) => hymn.id) } };
+            await tx.hymnArrangement.deleteMany({ where: hymnIds });
+            await tx.hymnRevision.deleteMany({ where: hymnIds });
+            await tx.hymnStatusTransition.deleteMany({ where: hymnIds });
+            await this.writeHistory(tx, {
+              arrangements,
+              arrangementItems,
+              revisions,
+              transitions,
+            });
+          }
+
+          // A restored hymn gets exactly the tags in the archive
+          for (const { id, tags: hymnTagIds } of hymnTags) {
+            await tx.hymn.update({
+              where: { id },
+              data: { tags: { set: hymnTagIds } },
+            });
+          }
+        },
+        { maxWait: RESTORE_TIMEOUT_MS, timeout: RESTORE_TIMEOUT_MS },
+      );
+    } catch (error) {
+      if (error.code === 'P2002') {
+        throw new ConflictException(
+          `A record in the archive clashes with an existing one on ${error.meta?.target ?? 'a unique field'}; try replace mode.`,
+        );
+      }
+
+      if (
+        error.code === 'P2003' ||
+        error instanceof Prisma.PrismaClientValidationError
+      ) {
+        throw new BadRequestException(
+          'The archive contains invalid or dangling records.',
+        );
+      }
+
+      throw new InternalServerErrorException(
+        'An error occurred while restoring the backup',
+      );
+    }
+
+    await this.auditService.log({
+      action: 'UPDATE',
+      entityType: 'HYMN',
+      userId: user.id,
+      description: `Backup from ${archive.manifest.createdAt} restored in ${mode} mode (${counts.hymns} hymns, ${counts.tunes} tunes, ${counts.tags} tags, ${counts.hymnbooks} hymnbooks, ${counts.categories} categories) by user ${user.id}`,
+    });
+
+    return { mode, manifest: archive.manifest, restored: counts };
+  }
+
+  // Records can be added while the archive streams, so the manifest counts
+  // what was actually written and comes last
+  private async *writeArchive(createdAt: string) {
+    const categories = await this.prisma.category.findMany({
+      orderBy: { id: 'asc' },
+      select: BACKUP_CATEGORY_SELECT,
+    });
+    yield `{"categories":${JSON.stringify(categories)}`;
+
+    const tunes = await this.prisma.tune.findMany({
+      orderBy: { id: 'asc' },
+      select: BACKUP_TUNE_SELECT,
+    });
+    yield `,"tunes":${JSON.stringify(tunes)}`;
+
+    const tags = await this.prisma.tag.findMany({
+      orderBy: { id: 'asc' },
+      select: BACKUP_TAG_SELECT,
+    });
+    yield `,"tags":${JSON.stringify(tags)}`;
+
+    const hymnbooks = await this.prisma.hymnbook.findMany({
+      orderBy: { id: 'asc' },
+      select: BACKUP_HYMNBOOK_SELECT,
+    });
+    yield `,"hymnbooks":${JSON.stringify(hymnbooks)}`;
+    yield ',"hymns":[';
+
+    const counts: IBackupCounts = {
+      categories: categories.length,
+      tunes: tunes.length,
+      tags: tags.length,
+      hymnbooks: hymnbooks.length,
+      ...this.countHymns([]),
+    };
+
+    let cursor: string | undefined;
+    let separator = '';
+    for (;;) {
+      const batch = await this.prisma.hymn.findMany({
+        take: BACKUP_BATCH_SIZE,
+        ...(cursor && { skip: 1, cursor: { id: cursor } }),
+        orderBy: { id: 'asc' },
+        select: BACKUP_HYMN_SELECT,
+      });
+
+      for (const hymn of batch) {
+        yield `${separator}${JSON.stringify(hymn)}`;
+        separator = ',';
+      }
+      for (const [key, count] of Object.entries(this.countHymns(batch))) {
+        counts[key] += count;
+      }
+
+      if (batch.length < BACKUP_BATCH_SIZE) break;
+      cursor = batch[batch.length - 1].id;
+    }
+
+    const manifest: IBackupManifest = {
+      format: BACKUP_FORMAT,
+      schemaVersion: BACKUP_SCHEMA_VERSION,
+      createdAt,
+      counts,
+    };
+    yield `],"manifest":${JSON.stringify(manifest)}}`;
+  }
+
+  private readArchive(file: Express.Multer.File): IBackupArchive {
+    if (!file) {
+      throw new BadRequestException('No archive was uploaded.');
+    }
+
+    let archive: IBackupArchive;
+    try {
+      const gzipped = file.buffer[0] === 0x1f && file.buffer[1] === 0x8b;
+      const content = gzipped ? gunzipSync(file.buffer) : file.buffer;
+      archive = JSON.parse(content.toString('utf8'));
+    } catch {
+      throw new BadRequestException('The archive is not valid (gzipped) JSON.');
+    }
+
+    const { manifest } = archive ?? {};
+    if (manifest?.format !== BACKUP_FORMAT) {
+      throw new BadRequestException('The file is not a hymnal backup.');
+    }
+
+    if (manifest.schemaVersion !== BACKUP_SCHEMA_VERSION) {
+      throw new BadRequestException(
+        `Archive schema version ${manifest.schemaVersion} is not supported; this server reads version ${BACKUP_SCHEMA_VERSION}.`,
+      );
+    }
+
+    if (
+      !Array.isArray(archive.categories) ||
+      !Array.isArray(archive.tunes) ||
+      !Array.isArray(archive.tags) ||
+      !Array.isArray(archive.hymnbooks) ||
+      !Array.isArray(archive.hymns)
+    ) {
+      throw new BadRequestException(
+        'The archive has no categories, tunes, tags, hymnbooks or hymns.',
+      );
+    }
+
+    return archive;
+  }
+
+  /**
+   * Counts the records in an archive and checks them against its manifest,
+   * so a truncated archive is refused before anything is written.
+   */
+  private countArchive(archive: IBackupArchive): IBackupCounts {
+    const counts: IBackupCounts = {
+      categories: archive.categories.length,
+      tunes: archive.tunes.length,
+      tags: archive.tags.length,
+      hymnbooks: archive.hymnbooks.length,
+      ...this.countHymns(archive.hymns),
+    };
+
+    const mismatch = Object.keys(counts).find(
+      (key) => counts[key] !== archive.manifest.counts?.[key],
+    );
+    if (mismatch) {
+      throw new BadRequestException(
+        `The archive is incomplete: the manifest lists ${archive.manifest.counts?.[mismatch]} ${mismatch} but it holds ${counts[mismatch]}.`,
+      );
+    }
+
+    return counts;
+  }
+
+  // Counts hymns and the records archived with them
+  private countHymns(hymns: IBackupArchive['hymns']) {
+    const sum = (
+      key:
+        | 'verses'
+        | 'choruses'
+        | 'solfaImages'
+        | 'scriptures'
+        | 'hymnbooks'
+        | 'arrangements'
+        | 'revisions'
+        | 'transitions',
+    ) => hymns.reduce((total, hymn) => total + (hymn[key]?.length ?? 0), 0);
+
+    return {
+      hymns: hymns.length,
+      verses: sum('verses'),
+      choruses: sum('choruses'),
+      solfaImages: sum('solfaImages'),
+      scriptures: sum('scriptures'),
+      hymnbookEntries: sum('hymnbooks'),
+      arrangements: sum('arrangements'),
+      arrangementItems: hymns.reduce(
+        (total, hymn) =>
+          total +
+          (hymn.arrangements ?? []).reduce(
+            (items, arrangement) => items + (arrangement.items?.length ?? 0),
+            0,
+          ),
+        0,
+      ),
+      revisions: sum('revisions'),
+      transitions: sum('transitions'),
+    };
+  }
+
+  private async findKnownUsers(archive: IBackupArchive) {
+    const records: {
+      createdById: string | null;
+      updatedById?: string | null;
+    }[] = [
+      ...archive.categories,
+      ...archive.tunes,
+      ...archive.tags,
+      ...archive.hymnbooks,
+      ...archive.hymns,
+      ...archive.hymns.flatMap((hymn) => [
+        ...hymn.verses,
+        ...hymn.choruses,
+        ...hymn.solfaImages,
+        ...hymn.arrangements,
+        ...hymn.revisions,
+        ...hymn.transitions,
+      ]),
+    ];
+    const ids = new Set(
+      records
+        .flatMap((record) => [record.createdById, record.updatedById])
+        .filter(Boolean),
+    );
+
+    const users = await this.prisma.user.findMany({
+      where: { id: { in: [...ids] } },
+      select: { id: true },
+    });
+
+    return new Set(users.map((found) => found.id));
+  }
+
+  // Arrangement items point at verses and choruses, so they are written
+  // after them
+  private async writeHistory(
+    tx: Prisma.TransactionClient,
+    records: {
+      arrangements: Prisma.HymnArrangementCreateManyInput[];
+      arrangementItems: Prisma.HymnArrangementItemCreateManyInput[];
+      revisions: Prisma.HymnRevisionCreateManyInput[];
+      transitions: Prisma.HymnStatusTransitionCreateManyInput[];
+    },
+  ) {
+    for (const batch of this.chunk(records.arrangements)) {
+      await tx.hymnArrangement.createMany({ data: batch });
+    }
+    for (const batch of this.chunk(records.arrangementItems)) {
+      await tx.hymnArrangementItem.createMany({ data: batch });
+    }
+    for (const batch of this.chunk(records.revisions)) {
+      await tx.hymnRevision.createMany({ data: batch });
+    }
+    for (const batch of this.chunk(records.transitions)) {
+      await tx.hymnStatusTransition.createMany({ data: batch });
+    }
+  }
+
+  /**
+   * Orders categories so that a parent is always written before its
+   * subcategories.
+   */
+  private parentsFirst(categories: Prisma.CategoryCreateManyInput[]) {
+    const byId = new Map(categories.map((category) => [category.id, category]));
+    const ordered = new Set<Prisma.CategoryCreateManyInput>();
+    const visiting = new Set<string>();
+
+    const visit = (category: Prisma.CategoryCreateManyInput) => {
+      if (ordered.has(category) || visiting.has(category.id)) return;
+      visiting.add(category.id);
+      const parent = category.parentId && byId.get(category.parentId);
+      if (parent) visit(parent);
+      ordered.add(category);
+    };
+    categories.forEach(visit);
+
+    return [...ordered];
+  }
+
+  private chunk<T>(items: T[]) {
+    const batches: T[][] = [];
+    for (let idx = 0; idx < items.length; idx += BACKUP_BATCH_SIZE) {
+      batches.push(items.slice(idx, idx + BACKUP_BATCH_SIZE));
+    }
+    return batches;
+  }
+}
@@ -0,0 +1,186 @@
+import { Prisma } from '@prisma/client';
+
+/**
+ * Version of the archive layout. Bump it whenever a field is added to or
+ * removed from the selects below, so old servers refuse newer archives.
+ */
+export const BACKUP_SCHEMA_VERSION = 16;
+
+export const BACKUP_FORMAT = 'hymnal-backup';
+
+const AUTHORSHIP = {
+  createdById: true,
+  updatedById: true,
+  createdAt: true,
+  updatedAt: true,
+  deletedAt: true,
+} as const;
+
+export const BACKUP_CATEGORY_SELECT = {
+  id: true,
+  name: true,
+  slug: true,
+  parentId: true,
+  ...AUTHORSHIP,
+} satisfies Prisma.CategorySelect;
+
+export const BACKUP_TUNE_SELECT = {
+  id: true,
+  name: true,
+  slug: true,
+  composer: true,
+  meter: true,
+  meterKey: true,
+  key: true,
+  year: true,
+  ...AUTHORSHIP,
+} satisfies Prisma.TuneSelect;
+
+// Tags are removed outright rather than soft-deleted
+export const BACKUP_TAG_SELECT = {
+  id: true,
+  name: true,
+  slug: true,
+  createdById: true,
+  updatedById: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.TagSelect;
+
+export const BACKUP_HYMNBOOK_SELECT = {
+  id: true,
+  name: true,
+  slug: true,
+  description: true,
+  ...AUTHORSHIP,
+} satisfies Prisma.HymnbookSelect;
+
+export const BACKUP_HYMNBOOK_ENTRY_SELECT = {
+  id: true,
+  hymnbookId: true,
+  number: true,
+  createdAt: true,
+} satisfies Prisma.HymnbookEntrySelect;
+
+export const BACKUP_VERSE_SELECT = {
+  id: true,
+  text: true,
+  order: true,
+  ...AUTHORSHIP,
+} satisfies Prisma.VerseSelect;
+
+export const BACKUP_CHORUS_SELECT = {
+  id: true,
+  text: true,
+  description: true,
+  order: true,
+  ...AUTHORSHIP,
+} satisfies Prisma.ChorusSelect;
+
+export const BACKUP_SOLFA_IMAGE_SELECT = {
+  id: true,
+  imageUrl: true,
+  storageDriver: true,
+  storageKey: true,
+  mimeType: true,
+  width: true,
+  height: true,
+  webpUrl: true,
+  webpKey: true,
+  thumbnailUrl: true,
+  thumbnailKey: true,
+  order: true,
+  status: true,
+  processingError: true,
+  ...AUTHORSHIP,
+} satisfies Prisma.SolfaImageSelect;
+
+export const BACKUP_SCRIPTURE_SELECT = {
+  id: true,
+  book: true,
+  startChapter: true,
+  startVerse: true,
+  endChapter: true,
+  endVerse: true,
+  start: true,
+  end: true,
+  reference: true,
+  createdAt: true,
+} satisfies Prisma.HymnScriptureSelect;
+
+export const BACKUP_ARRANGEMENT_ITEM_SELECT = {
+  id: true,
+  position: true,
+  verseId: true,
+  chorusId: true,
+} satisfies Prisma.HymnArrangementItemSelect;
+
+export const BACKUP_ARRANGEMENT_SELECT = {
+  id: true,
+  name: true,
+  isDefault: true,
+  ...AUTHORSHIP,
+  items: {
+    select: BACKUP_ARRANGEMENT_ITEM_SELECT,
+    orderBy: { position: 'asc' },
+  },
+} satisfies Prisma.HymnArrangementSelect;
+
+// Revisions and workflow transitions are never edited, so they have no
+// updater
+export const BACKUP_REVISION_SELECT = {
+  id: true,
+  revision: true,
+  action: true,
+  snapshot: true,
+  restoredFrom: true,
+  createdById: true,
+  createdAt: true,
+} satisfies Prisma.HymnRevisionSelect;
+
+export const BACKUP_TRANSITION_SELECT = {
+  id: true,
+  action: true,
+  fromStatus: true,
+  toStatus: true,
+  comment: true,
+  createdById: true,
+  createdAt: true,
+} satisfies Prisma.HymnStatusTransitionSelect;
+
+export const BACKUP_HYMN_SELECT = {
+  id: true,
+  title: true,
+  slug: true,
+  categoryId: true,
+  tuneId: true,
+  author: true,
+  language: true,
+  version: true,
+  translationGroupId: true,
+  solfaNotation: true,
+  abcNotation: true,
+  melodyIntervals: true,
+  key: true,
+  tempo: true,
+  status: true,
+  ...AUTHORSHIP,
+  verses: { select: BACKUP_VERSE_SELECT, orderBy: { order: 'asc' } },
+  choruses: { select: BACKUP_CHORUS_SELECT, orderBy: { order: 'asc' } },
+  solfaImages: { select: BACKUP_SOLFA_IMAGE_SELECT },
+  scriptures: { select: BACKUP_SCRIPTURE_SELECT, orderBy: { start: 'asc' } },
+  tags: { select: { id: true }, orderBy: { id: 'asc' } },
+  hymnbooks: { select: BACKUP_HYMNBOOK_ENTRY_SELECT, orderBy: { id: 'asc' } },
+  arrangements: { select: BACKUP_ARRANGEMENT_SELECT, orderBy: { id: 'asc' } },
+  revisions: { select: BACKUP_REVISION_SELECT, orderBy: { revision: 'asc' } },
+  transitions: {
+    select: BACKUP_TRANSITION_SELECT,
+    orderBy: { createdAt: 'asc' },
+  },
+} satisfies Prisma.HymnSelect;
+
+// Hymns are read and written in batches of this size
+export const BACKUP_BATCH_SIZE = 200;
+
+// A replace restore of a large hymnal runs well past Prisma's 5s default
+export const RESTORE_TIMEOUT_MS = 10 * 60 * 1000;
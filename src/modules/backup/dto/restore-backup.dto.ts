@@ -0,0 +1,8 @@
+import { IsIn, IsOptional } from 'class-validator';
+import { BackupRestoreMode } from '@@/modules/backup/interfaces';
+
+export class RestoreBackupDto {
+  @IsOptional()
+  @IsIn(['merge', 'replace'])
+  mode?: BackupRestoreMode = 'merge';
+}
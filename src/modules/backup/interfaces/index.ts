@@ -0,0 +1,63 @@
+import { Prisma } from '@prisma/client';
+import {
+  BACKUP_CATEGORY_SELECT,
+  BACKUP_HYMN_SELECT,
+  BACKUP_HYMNBOOK_SELECT,
+  BACKUP_TAG_SELECT,
+  BACKUP_TUNE_SELECT,
+} from '@@/modules/backup/constants';
+
+export type BackupRestoreMode = 'merge' | 'replace';
+
+export type IBackupCategory = Prisma.CategoryGetPayload<{
+  select: typeof BACKUP_CATEGORY_SELECT;
+}>;
+
+export type IBackupTune = Prisma.TuneGetPayload<{
+  select: typeof BACKUP_TUNE_SELECT;
+}>;
+
+export type IBackupTag = Prisma.TagGetPayload<{
+  select: typeof BACKUP_TAG_SELECT;
+}>;
+
+export type IBackupHymnbook = Prisma.HymnbookGetPayload<{
+  select: typeof BACKUP_HYMNBOOK_SELECT;
+}>;
+
+export type IBackupHymn = Prisma.HymnGetPayload<{
+  select: typeof BACKUP_HYMN_SELECT;
+}>;
+
+export interface IBackupCounts {
+  categories: number;
+  tunes: number;
+  tags: number;
+  hymnbooks: number;
+  hymns: number;
+  verses: number;
+  choruses: number;
+  solfaImages: number;
+  scriptures: number;
+  hymnbookEntries: number;
+  arrangements: number;
+  arrangementItems: number;
+  revisions: number;
+  transitions: number;
+}
+
+export interface IBackupManifest {
+  format: string;
+  schemaVersion: number;
+  createdAt: string;
+  counts: IBackupCounts;
+}
+
+export interface IBackupArchive {
+  manifest: IBackupManifest;
+  categories: IBackupCategory[];
+  tunes: IBackupTune[];
+  tags: IBackupTag[];
+  hymnbooks: IBackupHymnbook[];
+  hymns: IBackupHymn[];
+}
@@ -11,6 +11,7 @@ import { CategoryService } from './category.service';
 import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
 import { ResponseMessage } from 'src/common/decorators/response.decorator';
 import { CreateCategoryDto } from './dto/create-category.dto';
+import { UpdateCategoryDto } from './dto/update-cateogry.dto';
 import { GetUser } from 'src/common/decorators/get-user.decorator';
 import { User } from '@prisma/client';
 import { JwtAuthGuard } from 'src/modules/auth/guard/jwt.guard';
@@ -40,6 +41,14 @@ export class CategoryController {
     return this.categoryService.fetchCategories();
   }
 
+  @Get('/tree')
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({ summary: 'Fetch all categories as a tree.' })
+  @ResponseMessage({ message: 'Category tree fetched successfully.' })
+  async fetchCategoryTree() {
+    return this.categoryService.fetchCategoryTree();
+  }
+
   @Get('/:id')
   @UseGuards(JwtAuthGuard)
   @ApiOperation({ summary: 'Fetch a category.' })
@@ -54,7 +63,7 @@ export class CategoryController {
   @ResponseMessage({ message: 'Category updated successfully.' })
   async updateCategory(
     @Param('id') id: string,
-    @Body() updateCategoryDto: CreateCategoryDto,
+    @Body() updateCategoryDto: UpdateCategoryDto,
     @GetUser() user: User,
   ) {
     return this.categoryService.updateCategory(id, updateCategoryDto, user);
@@ -5,5 +5,6 @@ import { CategoryController } from './category.controller';
 @Module({
   controllers: [CategoryController],
   providers: [CategoryService],
+  exports: [CategoryService],
 })
 export class CategoryModule {}
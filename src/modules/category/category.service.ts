@@ -1,13 +1,26 @@
 import { AppUtilities } from 'src/common/utilities';
 import {
+  BadRequestException,
   ConflictException,
   Injectable,
   NotFoundException,
 } from '@nestjs/common';
 import { PrismaService } from 'src/common/prisma/prisma.service';
 import { CreateCategoryDto } from './dto/create-category.dto';
-import { User } from '@prisma/client';
+import { Prisma, User } from '@prisma/client';
 import { UpdateCategoryDto } from './dto/update-cateogry.dto';
+import {
+  ICategoryCrumb,
+  ICategoryNode,
+  ICategoryTreeNode,
+} from '@@/modules/category/interfaces';
+
+const CATEGORY_NODE_SELECT = {
+  id: true,
+  name: true,
+  slug: true,
+  parentId: true,
+} satisfies Prisma.CategorySelect;
 
 @Injectable()
 export class CategoryService {
@@ -18,9 +31,10 @@ export class CategoryService {
    * @param createData
    * @param user
    * @returns ConflictException if a category with the same name already exists.
+   * @throws BadRequestException if the parent category does not exist.
    */
   async createCategory(createData: CreateCategoryDto, user: User) {
-    const { name } = createData;
+    const { name, parentId } = createData;
     const slug = AppUtilities.slugify(name);
 
     try {
@@ -29,6 +43,7 @@ export class CategoryService {
           name,
           // description,
           slug,
+          parentId,
           createdById: user.id,
           createdAt: new Date(),
         },
@@ -37,6 +52,7 @@ export class CategoryService {
           name: true,
           // description: true,
           slug: true,
+          parentId: true,
           createdAt: true,
           createdBy: {
             select: {
@@ -47,18 +63,21 @@ export class CategoryService {
         },
       });
 
-      return category;
+      return this.withBreadcrumbs(category, await this.loadCategories());
     } catch (error) {
       if (error.code === 'P2002') {
         throw new ConflictException('Category with this name already exists');
       }
+      if (error.code === 'P2003') {
+        throw new BadRequestException('The parent category does not exist.');
+      }
       throw error;
     }
   }
 
   /**
    * Fetches all categories.
-   * @returns An array of categories.
+   * @returns An array of categories, each with its breadcrumb path.
    * @throws NotFoundException if no categories are found.
    */
   async fetchCategories() {
@@ -67,7 +86,10 @@ export class CategoryService {
         where: { deletedAt: null },
         orderBy: { createdAt: 'desc' },
       });
-      return categories;
+      const index = await this.loadCategories();
+      return categories.map((category) =>
+        this.withBreadcrumbs(category, index),
+      );
     } catch (error) {
       if (error.code === 'P2025') {
         throw new NotFoundException('No categories found');
@@ -79,15 +101,22 @@ export class CategoryService {
   /**
    * Fetches a single category by its ID.
    * @param id - The ID of the category to fetch.
-   * @returns The category data.
+   * @returns The category data with its breadcrumb path and subcategories.
    * @throws NotFoundException if the category does not exist.
    */
   async fetchCategoryById(id: string) {
     try {
       const category = await this.prisma.category.findUniqueOrThrow({
         where: { id },
+        include: {
+          children: {
+            where: { deletedAt: null },
+            select: { id: true, name: true, slug: true },
+            orderBy: { name: 'asc' },
+          },
+        },
       });
-      return category;
+      return this.withBreadcrumbs(category, await this.loadCategories());
     } catch (error) {
       if (error.code === 'P2025') {
         throw new NotFoundException('Category not found');
@@ -99,29 +128,45 @@ export class CategoryService {
   /**
    * Updates an existing category with the provided data.
    * @param id - The ID of the category to update.
-   * @param updateData - The data to update the category with.
+   * @param updateData - The data to update the category with. A `parentId`
+   * of null moves the category to the top level.
    * @param user - The user performing the update.
-   * @returns The updated category data.
+   * @returns The updated category data with its breadcrumb path.
    * @throws NotFoundException if the category does not exist.
+   * @throws BadRequestException if the new parent does not exist, or is the
+   * category itself or one of its subcategories.
    */
   async updateCategory(id: string, updateData: UpdateCategoryDto, user: User) {
+    const { name, parentId } = updateData;
+    const index = await this.loadCategories();
+
+    if (parentId) {
+      this.assertCanMove(id, parentId, index);
+    }
+
     try {
       const updatedCategory = await this.prisma.category.update({
         where: { id },
         data: {
-          ...updateData,
+          ...(name !== undefined && { name }),
+          ...(parentId !== undefined && { parentId }),
           updatedAt: new Date(),
           updatedById: user.id,
         },
         select: {
           id: true,
           name: true,
+          slug: true,
+          parentId: true,
           // description: true,
           updatedAt: true,
         },
       });
 
-      return updatedCategory;
+      // The breadcrumbs must reflect the category's new name and place
+      index.set(id, updatedCategory);
+
+      return this.withBreadcrumbs(updatedCategory, index);
     } catch (error) {
       if (error.code === 'P2025') {
         throw new NotFoundException('Category not found');
@@ -137,8 +182,18 @@ export class CategoryService {
    * @param user - The user performing the deletion.
    * @returns The deleted category data.
    * @throws NotFoundException if the category does not exist or is already deleted.
+   * @throws ConflictException if the category still has subcategories.
    */
   async deleteCategory(id: string, user: User) {
+    const children = await this.prisma.category.count({
+      where: { parentId: id, deletedAt: null },
+    });
+    if (children) {
+      throw new ConflictException(
+        'This category has subcategories; move or delete them first.',
+      );
+    }
+
     try {
       const deletedCategory = await this.prisma.category.update({
         where: {
@@ -165,4 +220,121 @@ export class CategoryService {
       throw error;
     }
   }
+
+  /**
+   * Fetches every category as a tree, with subcategories nested under their
+   * parent and each level in name order.
+   * @returns The top-level categories.
+   */
+  async fetchCategoryTree() {
+    const index = await this.loadCategories();
+    const nodes = new Map<string, ICategoryTreeNode>(
+      [...index.values()].map(({ id, name, slug }) => [
+        id,
+        { id, name, slug, children: [] },
+      ]),
+    );
+
+    const roots: ICategoryTreeNode[] = [];
+    for (const { id, parentId } of index.values()) {
+      // A category under a deleted parent is shown at the top level
+      const parent = parentId && nodes.get(parentId);
+      (parent ? parent.children : roots).push(nodes.get(id));
+    }
+
+    return roots;
+  }
+
+  /**
+   * Finds a category and all the categories below it, at any depth.
+   * @param id - The ID of the category.
+   * @returns The IDs of the category and its descendants.
+   */
+  async findSubtreeIds(id: string) {
+    const index = await this.loadCategories();
+    const children = new Map<string, string[]>();
+    for (const node of index.values()) {
+      if (node.parentId) {
+        children.set(node.parentId, [
+          ...(children.get(node.parentId) ?? []),
+          node.id,
+        ]);
+      }
+    }
+
+    const ids = new Set([id]);
+    for (const current of ids) {
+      children.get(current)?.forEach((child) => ids.add(child));
+    }
+
+    return [...ids];
+  }
+
+  /** Loads every live category, in name order, keyed by ID. */
+  private async loadCategories() {
+    const categories = await this.prisma.category.findMany({
+      where: { deletedAt: null },
+      select: CATEGORY_NODE_SELECT,
+      orderBy: { name: 'asc' },
+    });
+
+    return new Map<string, ICategoryNode>(
+      categories.map((category) => [category.id, category]),
+    );
+  }
+
+  /**
+   * Adds the path from the top-level category down to this one, e.g.
+   * Worship > Morning > Sunday.
+   */
+  private withBreadcrumbs<
+    T extends { id: string; name: string; slug: string; parentId: string },
+  >(category: T, index: Map<string, ICategoryNode>) {
+    const breadcrumbs: ICategoryCrumb[] = [];
+    const seen = new Set([category.id]);
+
+    let parent = category.parentId && index.get(category.parentId);
+    while (parent && !seen.has(parent.id)) {
+      seen.add(parent.id);
+      breadcrumbs.unshift({
+        id: parent.id,
+        name: parent.name,
+        slug: parent.slug,
+      });
+      parent = parent.parentId && index.get(parent.parentId);
+    }
+
+    breadcrumbs.push({
+      id: category.id,
+      name: category.name,
+      slug: category.slug,
+    });
+
+    return { ...category, breadcrumbs };
+  }
+
+  /** Refuses a move that would put a category under itself. */
+  private assertCanMove(
+    id: string,
+    parentId: string,
+    index: Map<string, ICategoryNode>,
+  ) {
+    if (!index.has(parentId)) {
+      throw new BadRequestException('The parent category does not exist.');
+    }
+
+    const seen = new Set<string>();
+    for (
+      let ancestor = parentId;
+      ancestor && !seen.has(ancestor);
+      ancestor = index.get(ancestor)?.parentId
+    ) {
+      if (ancestor === id) {
+        throw new BadRequestException(
+          'A category cannot be moved under itself or one of its subcategories.',
+        );
+      }
+      seen.add(ancestor);
+    }
+  }
 }
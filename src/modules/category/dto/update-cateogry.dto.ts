@@ -1,4 +1,4 @@
-import { IsOptional, IsString } from 'class-validator';
+import { IsOptional, IsString, IsUUID } from 'class-validator';
 
 export class UpdateCategoryDto {
   @IsString()
@@ -8,4 +8,9 @@ export class UpdateCategoryDto {
   @IsOptional()
   @IsString()
   description?: string;
+
+  // null moves the category to the top level
+  @IsOptional()
+  @IsUUID()
+  parentId?: string | null;
 }
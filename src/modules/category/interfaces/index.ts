@@ -0,0 +1,13 @@
+export interface ICategoryCrumb {
+  id: string;
+  name: string;
+  slug: string;
+}
+
+export interface ICategoryNode extends ICategoryCrumb {
+  parentId: string | null;
+}
+
+export interface ICategoryTreeNode extends ICategoryCrumb {
+  children: ICategoryTreeNode[];
+}
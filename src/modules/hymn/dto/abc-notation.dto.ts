@@ -0,0 +1,8 @@
+import { IsString, MaxLength } from 'class-validator';
+import { MAX_ABC_NOTATION_LENGTH } from '@@/modules/hymn/interfaces';
+
+export class UpdateAbcNotationDto {
+  @IsString()
+  @MaxLength(MAX_ABC_NOTATION_LENGTH)
+  source: string;
+}
@@ -0,0 +1,65 @@
+import { Escape, Trim } from 'class-sanitizer';
+import { Type } from 'class-transformer';
+import {
+  ArrayMinSize,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  ValidateNested,
+} from 'class-validator';
+
+class ArrangementItemDto {
+  @IsIn(['verse', 'chorus'])
+  type: 'verse' | 'chorus';
+
+  @IsUUID()
+  id: string;
+}
+
+export class CreateArrangementDto {
+  @IsNotEmpty()
+  @IsString()
+  @Trim()
+  @Escape()
+  name: string;
+
+  @IsOptional()
+  @IsBoolean()
+  isDefault?: boolean;
+
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => ArrangementItemDto)
+  items: ArrangementItemDto[];
+}
+
+export class UpdateArrangementDto {
+  @IsOptional()
+  @IsNotEmpty()
+  @IsString()
+  @Trim()
+  @Escape()
+  name?: string;
+
+  @IsOptional()
+  @IsBoolean()
+  isDefault?: boolean;
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMinSize(1)
+  @ValidateNested({ each: true })
+  @Type(() => ArrangementItemDto)
+  items?: ArrangementItemDto[];
+}
+
+export class FetchSequenceDto {
+  @IsOptional()
+  @IsUUID()
+  arrangementId?: string;
+}
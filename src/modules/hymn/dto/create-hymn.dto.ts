@@ -1,14 +1,26 @@
 import { ApiPropertyOptional } from '@nestjs/swagger';
 import { Escape, Trim } from 'class-sanitizer';
 import {
+  ArrayMaxSize,
   IsArray,
   IsInt,
+  IsLocale,
   IsNotEmpty,
   IsOptional,
   IsString,
   IsUUID,
+  Matches,
+  Max,
+  Min,
+  ValidateIf,
   ValidateNested,
 } from 'class-validator';
+import { MAX_HYMN_TAGS } from '@@/modules/tag/interfaces';
+import {
+  MAX_TEMPO,
+  MIN_TEMPO,
+  MUSIC_KEY_PATTERN,
+} from '@@/modules/hymn/interfaces';
 import { Type } from 'class-transformer';
 
 class VerseDto {
@@ -36,10 +48,16 @@ class ChorusDto {
 }
 
 export class CreateHymnDto {
-  @IsOptional()
+  // The hymn's number in the hymnbook `hymnbookId`; the two come together
+  @ValidateIf((dto) => dto.number !== undefined || dto.hymnbookId !== undefined)
   @IsInt()
+  @Min(1)
   number?: number;
 
+  @ValidateIf((dto) => dto.number !== undefined || dto.hymnbookId !== undefined)
+  @IsUUID()
+  hymnbookId?: string;
+
   @IsNotEmpty()
   @IsString()
   @Trim()
@@ -50,6 +68,10 @@ export class CreateHymnDto {
   @IsUUID()
   categoryId?: string;
 
+  @IsOptional()
+  @IsUUID()
+  tuneId?: string;
+
   @IsOptional()
   @IsString()
   @Trim()
@@ -58,8 +80,8 @@ export class CreateHymnDto {
 
   @IsOptional()
   @IsString()
+  @IsLocale()
   @Trim()
-  @Escape()
   language?: string;
 
   @IsOptional()
@@ -68,6 +90,20 @@ export class CreateHymnDto {
   @Escape()
   version?: string;
 
+  // The note doh is on, for playback
+  @IsOptional()
+  @Matches(MUSIC_KEY_PATTERN, {
+    message: 'key must be a key such as G, Eb or F#',
+  })
+  key?: string;
+
+  // Beats per minute, for playback
+  @IsOptional()
+  @IsInt()
+  @Min(MIN_TEMPO)
+  @Max(MAX_TEMPO)
+  tempo?: number;
+
   @IsOptional()
   @ApiPropertyOptional({
     type: 'string',
@@ -87,4 +123,16 @@ export class CreateHymnDto {
   @ValidateNested({ each: true })
   @Type(() => ChorusDto)
   choruses?: ChorusDto[];
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  scriptures?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_HYMN_TAGS)
+  @IsUUID('all', { each: true })
+  tagIds?: string[];
 }
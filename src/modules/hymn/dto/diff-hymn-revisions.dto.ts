@@ -0,0 +1,14 @@
+import { Type } from 'class-transformer';
+import { IsInt, Min } from 'class-validator';
+
+export class DiffHymnRevisionsDto {
+  @IsInt()
+  @Min(1)
+  @Type(() => Number)
+  from: number;
+
+  @IsInt()
+  @Min(1)
+  @Type(() => Number)
+  to: number;
+}
@@ -0,0 +1,8 @@
+import { IsIn, IsOptional } from 'class-validator';
+import { HymnExportFormat } from '@@/modules/hymn/interfaces';
+
+export class ExportHymnDto {
+  @IsOptional()
+  @IsIn(['openlyrics', 'chordpro', 'txt', 'json'])
+  format?: HymnExportFormat = 'openlyrics';
+}
@@ -1,3 +1,60 @@
+import { Transform, Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsBoolean,
+  IsIn,
+  IsInt,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Min,
+} from 'class-validator';
 import { PaginationSearchOptionsDto } from '@@/common/interfaces/pagination-search-options.dto';
+import { MAX_HYMN_TAGS, TagMatchType } from '@@/modules/tag/interfaces';
 
-export class FetchHymnsDto extends PaginationSearchOptionsDto {}
+export class FetchHymnsDto extends PaginationSearchOptionsDto {
+  // Title contains, also offered "did you mean" suggestions when it misses
+  @IsOptional()
+  @IsString()
+  title?: string;
+
+  // Only hymns in this hymnbook (ID or slug); `number` is then looked up in it
+  @IsOptional()
+  @IsString()
+  book?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1)
+  @Type(() => Number)
+  number?: number;
+
+  @IsOptional()
+  @IsUUID()
+  categoryId?: string;
+
+  // Also match hymns in every category below `categoryId`
+  @IsOptional()
+  @Transform(({ value }) => value === true || value === 'true')
+  @IsBoolean()
+  includeSubcategories?: boolean;
+
+  // Tag slugs, as `tags=grace,communion` or a repeated `tags` parameter
+  @IsOptional()
+  @Transform(({ value }) =>
+    []
+      .concat(value)
+      .flatMap((slugs: string) => String(slugs).split(','))
+      .map((slug) => slug.trim())
+      .filter(Boolean),
+  )
+  @IsArray()
+  @ArrayMaxSize(MAX_HYMN_TAGS)
+  @IsString({ each: true })
+  tags?: string[];
+
+  @IsOptional()
+  @IsIn(['any', 'all'])
+  tagMatch?: TagMatchType = 'any';
+}
@@ -0,0 +1,11 @@
+import { IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+import { Trim } from 'class-sanitizer';
+
+export class HymnTransitionDto {
+  @IsOptional()
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(2000)
+  @Trim()
+  comment?: string;
+}
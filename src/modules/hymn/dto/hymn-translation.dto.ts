@@ -0,0 +1,15 @@
+import { Trim } from 'class-sanitizer';
+import { IsLocale, IsOptional, IsString, IsUUID } from 'class-validator';
+
+export class LinkHymnTranslationDto {
+  @IsUUID()
+  hymnId: string;
+}
+
+export class FetchHymnDto {
+  @IsOptional()
+  @IsString()
+  @IsLocale()
+  @Trim()
+  lang?: string;
+}
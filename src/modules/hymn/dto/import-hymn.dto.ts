@@ -0,0 +1,12 @@
+import { IsBooleanString, IsOptional, IsUUID } from 'class-validator';
+
+export class ImportHymnsDto {
+  @IsOptional()
+  @IsBooleanString()
+  dryRun?: string = 'false';
+
+  // The hymnbook the imported numbers belong to; without one they are ignored
+  @IsOptional()
+  @IsUUID()
+  hymnbookId?: string;
+}
@@ -0,0 +1,62 @@
+import { ApiProperty } from '@nestjs/swagger';
+import { Type } from 'class-transformer';
+import {
+  IsBase64,
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Max,
+  MaxLength,
+  Min,
+} from 'class-validator';
+
+export class SearchHymnsDto {
+  @ApiProperty({ description: 'Words or phrase to search for.' })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(200)
+  q: string;
+
+  @IsInt()
+  @IsOptional()
+  @Max(100)
+  @Min(1)
+  @Type(() => Number)
+  size?: number = 25;
+
+  @IsBase64()
+  @IsOptional()
+  cursor?: string;
+}
+
+export class FetchHymnsByScriptureDto {
+  @ApiProperty({ description: 'Passage of scripture, e.g. "Ps 23:1-4".' })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(200)
+  ref: string;
+}
+
+export class SearchHymnsByMelodyDto {
+  @ApiProperty({
+    description: 'Notes of the melody in sol-fa, e.g. "d d r m".',
+  })
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(200)
+  seq: string;
+
+  @IsInt()
+  @IsOptional()
+  @Max(100)
+  @Min(1)
+  @Type(() => Number)
+  size?: number = 25;
+
+  @IsInt()
+  @IsOptional()
+  @Min(1)
+  @Type(() => Number)
+  page?: number = 1;
+}
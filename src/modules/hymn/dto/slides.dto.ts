@@ -0,0 +1,28 @@
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional, IsUUID, Max, Min } from 'class-validator';
+import {
+  DEFAULT_SLIDE_LINES,
+  MAX_SLIDE_CHARS,
+  MAX_SLIDE_LINES,
+  MIN_SLIDE_CHARS,
+} from '@@/modules/hymn/interfaces';
+
+export class FetchSlidesDto {
+  @IsOptional()
+  @IsUUID()
+  arrangementId?: string;
+
+  @IsInt()
+  @IsOptional()
+  @Max(MAX_SLIDE_LINES)
+  @Min(1)
+  @Type(() => Number)
+  maxLines?: number = DEFAULT_SLIDE_LINES;
+
+  @IsInt()
+  @IsOptional()
+  @Max(MAX_SLIDE_CHARS)
+  @Min(MIN_SLIDE_CHARS)
+  @Type(() => Number)
+  maxChars?: number;
+}
@@ -0,0 +1,9 @@
+import { ArrayMinSize, ArrayUnique, IsArray, IsUUID } from 'class-validator';
+
+export class ReorderSolfaImagesDto {
+  @IsArray()
+  @ArrayMinSize(1)
+  @ArrayUnique()
+  @IsUUID('all', { each: true })
+  imageIds: string[];
+}
@@ -0,0 +1,36 @@
+import { Transform } from 'class-transformer';
+import {
+  ArrayUnique,
+  IsArray,
+  IsIn,
+  IsOptional,
+  IsString,
+  MaxLength,
+} from 'class-validator';
+import {
+  MAX_SOLFA_NOTATION_LENGTH,
+  SolfaPart,
+} from '@@/modules/hymn/interfaces';
+import { SOLFA_PARTS } from '@@/modules/hymn/notation/solfa';
+
+export class UpdateSolfaNotationDto {
+  @IsString()
+  @MaxLength(MAX_SOLFA_NOTATION_LENGTH)
+  source: string;
+}
+
+export class FetchHymnMidiDto {
+  // Parts to play, as `parts=S,A` or a repeated `parts` parameter
+  @IsOptional()
+  @Transform(({ value }) =>
+    []
+      .concat(value)
+      .flatMap((parts: string) => String(parts).split(','))
+      .map((part) => part.trim().toUpperCase())
+      .filter(Boolean),
+  )
+  @IsArray()
+  @ArrayUnique()
+  @IsIn(SOLFA_PARTS, { each: true })
+  parts?: SolfaPart[];
+}
@@ -1,10 +1,70 @@
-import { IsInt, IsOptional, IsString, IsUUID } from 'class-validator';
+import { Escape, Trim } from 'class-sanitizer';
+import { Type } from 'class-transformer';
+import {
+  ArrayMaxSize,
+  IsArray,
+  IsInt,
+  IsLocale,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  IsUUID,
+  Matches,
+  Max,
+  Min,
+  ValidateIf,
+  ValidateNested,
+} from 'class-validator';
+import { MAX_HYMN_TAGS } from '@@/modules/tag/interfaces';
+import {
+  MAX_TEMPO,
+  MIN_TEMPO,
+  MUSIC_KEY_PATTERN,
+} from '@@/modules/hymn/interfaces';
 
-export class UpdateHymnDto {
+class HymnVerseDto {
+  @IsOptional()
+  @IsUUID()
+  id?: string;
+
+  @IsNotEmpty()
+  @IsString()
+  @Trim()
+  @Escape()
+  text: string;
+
+  @IsOptional()
   @IsInt()
+  order?: number;
+}
+
+class HymnChorusDto {
+  @IsOptional()
+  @IsUUID()
+  id?: string;
+
+  @IsNotEmpty()
+  @IsString()
+  @Trim()
+  @Escape()
+  text: string;
+
   @IsOptional()
+  @IsInt()
+  order?: number;
+}
+
+export class UpdateHymnDto {
+  // Numbers the hymn in the hymnbook `hymnbookId`; the two come together
+  @ValidateIf((dto) => dto.number !== undefined || dto.hymnbookId !== undefined)
+  @IsInt()
+  @Min(1)
   number?: number;
 
+  @ValidateIf((dto) => dto.number !== undefined || dto.hymnbookId !== undefined)
+  @IsUUID()
+  hymnbookId?: string;
+
   @IsString()
   @IsOptional()
   title?: string;
@@ -13,6 +73,60 @@ export class UpdateHymnDto {
   @IsOptional()
   categoryId?: string;
 
+  @IsOptional()
+  @IsUUID()
+  tuneId?: string;
+
   @IsOptional()
   author?: string;
+
+  @IsOptional()
+  @IsString()
+  @IsLocale()
+  @Trim()
+  language?: string;
+
+  @IsOptional()
+  @IsString()
+  @Trim()
+  @Escape()
+  version?: string;
+
+  // The note doh is on, for playback
+  @IsOptional()
+  @Matches(MUSIC_KEY_PATTERN, {
+    message: 'key must be a key such as G, Eb or F#',
+  })
+  key?: string;
+
+  // Beats per minute, for playback
+  @IsOptional()
+  @IsInt()
+  @Min(MIN_TEMPO)
+  @Max(MAX_TEMPO)
+  tempo?: number;
+
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => HymnVerseDto)
+  verses?: HymnVerseDto[];
+
+  @IsOptional()
+  @IsArray()
+  @ValidateNested({ each: true })
+  @Type(() => HymnChorusDto)
+  choruses?: HymnChorusDto[];
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(20)
+  @IsString({ each: true })
+  scriptures?: string[];
+
+  @IsOptional()
+  @IsArray()
+  @ArrayMaxSize(MAX_HYMN_TAGS)
+  @IsUUID('all', { each: true })
+  tagIds?: string[];
 }
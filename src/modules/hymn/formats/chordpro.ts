@@ -0,0 +1,167 @@
+import {
+  IHymnExport,
+  IHymnParseResult,
+  IParsedHymnPart,
+} from '@@/modules/hymn/interfaces';
+
+const DIRECTIVE = /^\{\s*([a-z_-]+)(?:\s*[:\s]\s*(.*?))?\s*\}$/i;
+const CHORD = /\[[^\]]*\]/g;
+
+const SECTION_STARTS: Record<string, 'verse' | 'chorus' | 'skip'> = {
+  start_of_verse: 'verse',
+  sov: 'verse',
+  start_of_bridge: 'verse',
+  sob: 'verse',
+  start_of_chorus: 'chorus',
+  soc: 'chorus',
+  start_of_tab: 'skip',
+  sot: 'skip',
+  start_of_grid: 'skip',
+  sog: 'skip',
+};
+
+const META_ALIASES: Record<string, string> = {
+  t: 'title',
+  lang: 'language',
+};
+
+/**
+ * Parses a ChordPro song. Chords are stripped from the lyrics. Explicit
+ * `{start_of_verse}`/`{start_of_chorus}` sections are honoured (bridges are
+ * kept as verses), and outside of them every blank-line separated paragraph
+ * is a verse. Metadata is read from directives such as `{title: …}`,
+ * `{lyricist: …}` or `{meta: number 17}`.
+ * @see https://www.chordpro.org/chordpro/
+ */
+export function parseChordPro(source: string): IHymnParseResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+  const meta: Record<string, string> = {};
+  const verses: IParsedHymnPart[] = [];
+  const choruses: IParsedHymnPart[] = [];
+
+  let section: { type: 'verse' | 'chorus' | 'skip'; line: number } | null =
+    null;
+  let buffer: string[] = [];
+
+  const flush = (type: 'verse' | 'chorus' | 'skip') => {
+    const text = buffer.join('\n').trim();
+    buffer = [];
+    if (!text || type === 'skip') return;
+
+    const target = type === 'chorus' ? choruses : verses;
+    target.push({ text, order: target.length + 1 });
+  };
+
+  source.split(/\r?\n/).forEach((raw, idx) => {
+    const lineNo = idx + 1;
+    const line = raw.trim();
+
+    if (line.startsWith('#')) return;
+
+    const directive = DIRECTIVE.exec(line);
+    if (directive) {
+      const name = directive[1].toLowerCase();
+      const value = directive[2]?.trim() ?? '';
+
+      if (SECTION_STARTS[name]) {
+        if (section) {
+          errors.push(
+            `Line ${lineNo}: {${name}} opened before the section on line ${section.line} was closed.`,
+          );
+        }
+        flush(section?.type ?? 'verse');
+        section = { type: SECTION_STARTS[name], line: lineNo };
+      } else if (/^(end_of_\w+|eo[vcbtg])$/.test(name)) {
+        if (!section) {
+          errors.push(`Line ${lineNo}: {${name}} without a matching start.`);
+          return;
+        }
+        flush(section.type);
+        section = null;
+      } else if (name === 'meta') {
+        const [key, ...rest] = value.split(/\s+/);
+        if (key) meta[key.toLowerCase()] = rest.join(' ');
+      } else {
+        // Comments, {chorus} recalls and formatting directives carry no lyrics
+        meta[META_ALIASES[name] ?? name] = value;
+      }
+      return;
+    }
+
+    if (!line && !section) {
+      flush('verse');
+      return;
+    }
+
+    buffer.push(line.replace(CHORD, '').trim());
+  });
+
+  if (section) {
+    errors.push(`Line ${section.line}: section is never closed.`);
+  }
+  flush(section?.type ?? 'verse');
+
+  const title = meta.title?.trim();
+  if (!title) {
+    errors.push('Missing {title} directive.');
+  }
+  if (!verses.length && !choruses.length) {
+    errors.push('No lyrics found.');
+  }
+
+  const number = meta.number ? Number(meta.number) : undefined;
+  if (meta.number && !Number.isInteger(number)) {
+    warnings.push(`Number "${meta.number}" is not a whole number; ignored.`);
+  }
+
+  if (errors.length) {
+    return { errors, warnings };
+  }
+
+  return {
+    hymn: {
+      title,
+      number: Number.isInteger(number) ? number : undefined,
+      author: meta.lyricist || meta.artist || undefined,
+      language: meta.language || undefined,
+      category: meta.category || undefined,
+      verses,
+      choruses,
+    },
+    errors,
+    warnings,
+  };
+}
+
+/**
+ * Serializes a hymn as ChordPro in its sung order. A chorus sung again right
+ * after the same chorus was last written out is recalled with `{chorus}`.
+ */
+export function serializeChordPro(hymn: IHymnExport): string {
+  const lines = [`{title: ${hymn.title}}`];
+  if (hymn.author) lines.push(`{lyricist: ${hymn.author}}`);
+  if (hymn.number !== undefined) lines.push(`{meta: number ${hymn.number}}`);
+  if (hymn.language) lines.push(`{meta: language ${hymn.language}}`);
+  if (hymn.category) lines.push(`{meta: category ${hymn.category}}`);
+
+  let lastChorus: number | null = null;
+  for (const { type, index, label } of hymn.sequence) {
+    lines.push('');
+
+    if (type === 'chorus' && index === lastChorus) {
+      lines.push(`{chorus: ${label}}`);
+      continue;
+    }
+
+    const part = type === 'chorus' ? hymn.choruses : hymn.verses;
+    lines.push(
+      `{start_of_${type}: ${label}}`,
+      part[index - 1].text,
+      `{end_of_${type}}`,
+    );
+    if (type === 'chorus') lastChorus = index;
+  }
+
+  return `${lines.join('\n')}\n`;
+}
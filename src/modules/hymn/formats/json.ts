@@ -0,0 +1,9 @@
+import { IHymnExport } from '@@/modules/hymn/interfaces';
+
+/**
+ * Serializes a hymn as JSON, with its parts, sung order and any ABC tune,
+ * for tools that would rather not parse a lyrics format.
+ */
+export function serializeJson(hymn: IHymnExport): string {
+  return `${JSON.stringify(hymn, null, 2)}\n`;
+}
@@ -0,0 +1,213 @@
+import { XMLParser, XMLValidator } from 'fast-xml-parser';
+import {
+  IHymnExport,
+  IHymnParseResult,
+  IParsedHymnPart,
+} from '@@/modules/hymn/interfaces';
+
+type XmlNode = Record<string, any>;
+
+// OpenLyrics requires a name on every songbook; for a number given without
+// its book's name
+const SONGBOOK_NAME = 'Hymnal';
+
+const parser = new XMLParser({
+  ignoreAttributes: false,
+  attributeNamePrefix: '',
+  preserveOrder: true,
+  trimValues: false,
+  parseTagValue: false,
+  parseAttributeValue: false,
+  removeNSPrefix: true,
+});
+
+const tagOf = (node: XmlNode) => Object.keys(node).find((key) => key !== ':@');
+const contentOf = (node?: XmlNode): XmlNode[] =>
+  node ? node[tagOf(node)] : [];
+const childrenOf = (nodes: XmlNode[], tag: string) =>
+  nodes.filter((node) => tagOf(node) === tag);
+const childOf = (nodes: XmlNode[], tag: string) => childrenOf(nodes, tag)[0];
+const attrOf = (node: XmlNode, name: string): string | undefined =>
+  node?.[':@']?.[name];
+
+/**
+ * Flattens a `<lines>` element into plain text. Source whitespace is not
+ * significant in OpenLyrics: `<br/>` marks a line break, chords and tags are
+ * unwrapped and comments are dropped.
+ */
+const textOf = (nodes: XmlNode[]): string =>
+  nodes
+    .map((node) => {
+      const tag = tagOf(node);
+      if (tag === '#text') return String(node['#text']).replace(/\s+/g, ' ');
+      if (tag === 'br') return '\n';
+      if (tag === 'comment') return '';
+      return textOf(contentOf(node));
+    })
+    .join('');
+
+const cleanLines = (text: string) =>
+  text
+    .split('\n')
+    .map((line) => line.trim())
+    .join('\n')
+    .trim();
+
+/**
+ * Parses an OpenLyrics (0.8/0.9) document. Verses named `c…` become choruses
+ * and every other part (verses, bridges, pre-choruses, endings) becomes a
+ * verse, in the order they appear under `<lyrics>`.
+ * @see https://docs.openlyrics.org/
+ */
+export function parseOpenLyrics(xml: string): IHymnParseResult {
+  const errors: string[] = [];
+  const warnings: string[] = [];
+
+  const valid = XMLValidator.validate(xml);
+  if (valid !== true) {
+    const { msg, line, col } = valid.err;
+    return { errors: [`Line ${line}, column ${col}: ${msg}`], warnings };
+  }
+
+  const song = childOf(parser.parse(xml), 'song');
+  if (!song) {
+    return { errors: ['Missing <song> root element.'], warnings };
+  }
+
+  const properties = contentOf(childOf(contentOf(song), 'properties'));
+  const lyrics = contentOf(childOf(contentOf(song), 'lyrics'));
+
+  const titles = childrenOf(contentOf(childOf(properties, 'titles')), 'title');
+  const title = titles.length ? cleanLines(textOf(contentOf(titles[0]))) : '';
+  if (!title) {
+    errors.push('Missing <title> in <properties>.');
+  }
+
+  const author = childrenOf(contentOf(childOf(properties, 'authors')), 'author')
+    // Prefer the lyricist over the composer of the tune
+    .sort(
+      (a, b) =>
+        Number(attrOf(a, 'type') === 'music') -
+        Number(attrOf(b, 'type') === 'music'),
+    )
+    .map((node) => cleanLines(textOf(contentOf(node))))[0];
+
+  const entry = attrOf(
+    childOf(contentOf(childOf(properties, 'songbooks')), 'songbook'),
+    'entry',
+  );
+  const number = entry ? Number(entry) : undefined;
+  if (entry && !Number.isInteger(number)) {
+    warnings.push(`Songbook entry "${entry}" is not a whole number; ignored.`);
+  }
+
+  const theme = childOf(contentOf(childOf(properties, 'themes')), 'theme');
+
+  // Multilingual songs repeat each part per language; keep the first one
+  const parts = childrenOf(lyrics, 'verse');
+  const language =
+    attrOf(titles[0], 'lang') ??
+    parts.map((part) => attrOf(part, 'lang')).find(Boolean);
+  const kept = parts.filter(
+    (part) => !attrOf(part, 'lang') || attrOf(part, 'lang') === language,
+  );
+  if (kept.length < parts.length) {
+    warnings.push(
+      `${parts.length - kept.length} parts in other languages were skipped.`,
+    );
+  }
+
+  const verses: IParsedHymnPart[] = [];
+  const choruses: IParsedHymnPart[] = [];
+  for (const part of kept) {
+    const text = childrenOf(contentOf(part), 'lines')
+      .map((lines) => cleanLines(textOf(contentOf(lines))))
+      .filter(Boolean)
+      .join('\n');
+    if (!text) continue;
+
+    const target = /^c/i.test(attrOf(part, 'name') ?? '') ? choruses : verses;
+    target.push({ text, order: target.length + 1 });
+  }
+
+  if (!verses.length && !choruses.length) {
+    errors.push('No lyrics found under <lyrics>.');
+  }
+
+  if (errors.length) {
+    return { errors, warnings };
+  }
+
+  return {
+    hymn: {
+      title,
+      number: Number.isInteger(number) ? number : undefined,
+      author: author || undefined,
+      language,
+      category: theme ? cleanLines(textOf(contentOf(theme))) : undefined,
+      verses,
+      choruses,
+    },
+    errors,
+    warnings,
+  };
+}
+
+export const escapeXml = (text: string) =>
+  text
+    .replace(/&/g, '&amp;')
+    .replace(/</g, '&lt;')
+    .replace(/>/g, '&gt;')
+    .replace(/"/g, '&quot;');
+
+const linesXml = (text: string) =>
+  `<lines>${text.split('\n').map(escapeXml).join('<br/>')}</lines>`;
+
+/**
+ * Serializes a hymn as an OpenLyrics 0.9 document. Verses are named `v1…`,
+ * choruses `c1…`, and the sung order is written to `<verseOrder>`. The
+ * format has no place for music, so an ABC tune goes in a comment.
+ */
+export function serializeOpenLyrics(hymn: IHymnExport): string {
+  const lang = hymn.language ? ` lang="${escapeXml(hymn.language)}"` : '';
+  const name = (type: 'verse' | 'chorus', index: number) =>
+    `${type === 'chorus' ? 'c' : 'v'}${index}`;
+
+  const properties = [
+    `    <titles><title${lang}>${escapeXml(hymn.title)}</title></titles>`,
+    hymn.author &&
+      `    <authors><author>${escapeXml(hymn.author)}</author></authors>`,
+    hymn.number !== undefined &&
+      `    <songbooks><songbook name="${escapeXml(hymn.songbook ?? SONGBOOK_NAME)}" entry="${hymn.number}"/></songbooks>`,
+    hymn.category &&
+      `    <themes><theme>${escapeXml(hymn.category)}</theme></themes>`,
+    hymn.sequence.length &&
+      `    <verseOrder>${hymn.sequence.map((part) => name(part.type, part.index)).join(' ')}</verseOrder>`,
+    hymn.abcNotation &&
+      `    <comments><comment>${escapeXml(hymn.abcNotation)}</comment></comments>`,
+  ].filter(Boolean);
+
+  const lyrics = [
+    ...hymn.verses.map(
+      (verse, idx) =>
+        `    <verse name="${name('verse', idx + 1)}"${lang}>${linesXml(verse.text)}</verse>`,
+    ),
+    ...hymn.choruses.map(
+      (chorus, idx) =>
+        `    <verse name="${name('chorus', idx + 1)}"${lang}>${linesXml(chorus.text)}</verse>`,
+    ),
+  ];
+
+  return [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    '<song xmlns="http://openlyrics.info/namespace/2009/song" version="0.9">',
+    '  <properties>',
+    ...properties,
+    '  </properties>',
+    '  <lyrics>',
+    ...lyrics,
+    '  </lyrics>',
+    '</song>',
+    '',
+  ].join('\n');
+}
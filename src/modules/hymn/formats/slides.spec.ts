@@ -0,0 +1,44 @@
+import { splitSlides } from '@@/modules/hymn/formats/slides';
+
+describe('splitSlides', () => {
+  it('shares lines out evenly between slides', () => {
+    const text = ['one', 'two', 'three', 'four', 'five'].join('\n');
+
+    expect(splitSlides(text, { maxLines: 4 })).toEqual([
+      'one\ntwo\nthree',
+      'four\nfive',
+    ]);
+  });
+
+  it('keeps a verse that fits on one slide', () => {
+    expect(splitSlides('one\ntwo', { maxLines: 4 })).toEqual(['one\ntwo']);
+  });
+
+  it('drops blank lines', () => {
+    expect(splitSlides('\n  one  \n\n two\n', { maxLines: 4 })).toEqual([
+      'one\ntwo',
+    ]);
+    expect(splitSlides('\n \n', { maxLines: 4 })).toEqual([]);
+  });
+
+  it('wraps long lines between words', () => {
+    expect(
+      splitSlides('Amazing grace how sweet the sound', {
+        maxLines: 4,
+        maxChars: 14,
+      }),
+    ).toEqual(['Amazing grace', 'how sweet the', 'sound']);
+  });
+
+  it('keeps a word longer than the limit whole', () => {
+    expect(splitSlides('Hallelujah', { maxLines: 4, maxChars: 5 })).toEqual([
+      'Hallelujah',
+    ]);
+  });
+
+  it('starts a new slide when the characters run out', () => {
+    expect(
+      splitSlides('aaaa\nbbbb\ncccc', { maxLines: 4, maxChars: 10 }),
+    ).toEqual(['aaaa\nbbbb', 'cccc']);
+  });
+});
@@ -0,0 +1,66 @@
+import { ISlideLimits } from '@@/modules/hymn/interfaces';
+
+/**
+ * Breaks a line longer than the character limit between words. A single
+ * word longer than the limit is kept whole.
+ */
+function wrapLine(line: string, maxChars: number) {
+  const lines: string[] = [];
+  let current = '';
+  for (const word of line.split(/\s+/)) {
+    if (current && current.length + 1 + word.length > maxChars) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = current ? `${current} ${word}` : word;
+    }
+  }
+  lines.push(current);
+
+  return lines;
+}
+
+/**
+ * Splits the text of a verse or chorus into slides for projection. Each
+ * slide holds at most `maxLines` lines and, when given, `maxChars`
+ * characters. Lines are shared out evenly, so five lines of four at most
+ * make slides of three and two rather than four and one. Blank lines are
+ * dropped.
+ * @param text - The verse or chorus.
+ * @param limits - The most lines and characters a slide may hold.
+ * @returns The text of each slide, in order.
+ */
+export function splitSlides(
+  text: string,
+  { maxLines, maxChars }: ISlideLimits,
+) {
+  const lines = text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean)
+    .flatMap((line) => (maxChars ? wrapLine(line, maxChars) : [line]));
+
+  if (!lines.length) {
+    return [];
+  }
+
+  const perSlide = Math.ceil(lines.length / Math.ceil(lines.length / maxLines));
+  const slides: string[][] = [];
+  let current: string[] = [];
+  let chars = 0;
+  for (const line of lines) {
+    const full =
+      current.length === perSlide ||
+      (maxChars && chars + line.length > maxChars);
+    if (current.length && full) {
+      slides.push(current);
+      current = [];
+      chars = 0;
+    }
+    current.push(line);
+    chars += line.length;
+  }
+  slides.push(current);
+
+  return slides.map((slide) => slide.join('\n'));
+}
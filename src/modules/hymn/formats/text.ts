@@ -0,0 +1,18 @@
+import { IHymnExport } from '@@/modules/hymn/interfaces';
+
+/**
+ * Serializes a hymn as plain text in its sung order, every part written out
+ * under its label, for pasting into projection software.
+ */
+export function serializePlainText(hymn: IHymnExport): string {
+  const heading =
+    hymn.number !== undefined ? `${hymn.number}. ${hymn.title}` : hymn.title;
+
+  const blocks = [[heading, hymn.author].filter(Boolean).join('\n')];
+  for (const { type, index, label } of hymn.sequence) {
+    const part = type === 'chorus' ? hymn.choruses : hymn.verses;
+    blocks.push(`${label}\n${part[index - 1].text}`);
+  }
+
+  return `${blocks.join('\n\n')}\n`;
+}
@@ -0,0 +1,377 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  InternalServerErrorException,
+  NotFoundException,
+} from '@nestjs/common';
+import { HymnStatus, Prisma, User } from '@prisma/client';
+import { PrismaService } from 'src/common/prisma/prisma.service';
+import { AuditLogService } from 'src/common/audit-log/audit-log.service';
+import { HymnRevisionService } from '@@/modules/hymn/hymn-revision.service';
+import {
+  CreateArrangementDto,
+  UpdateArrangementDto,
+} from '@@/modules/hymn/dto/arrangement.dto';
+import { ISequenceItem } from '@@/modules/hymn/interfaces';
+
+const ARRANGEMENT_INCLUDE = {
+  items: {
+    orderBy: { position: 'asc' },
+    select: { position: true, verseId: true, chorusId: true },
+  },
+} satisfies Prisma.HymnArrangementInclude;
+
+@Injectable()
+export class HymnArrangementService {
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditLogService,
+    private revisionService: HymnRevisionService,
+  ) {}
+
+  /**
+   * Creates a named arrangement for a hymn.
+   * @param hymnId - The ID of the hymn.
+   * @param createData - The name and the verse/chorus sequence, repeats allowed.
+   * @param user - The user creating the arrangement.
+   * @returns The created arrangement with its items.
+   * @throws NotFoundException if the hymn does not exist.
+   * @throws BadRequestException if an item is not a verse or chorus of this hymn.
+   */
+  async createArrangement(
+    hymnId: string,
+    createData: CreateArrangementDto,
+    user: User,
+  ) {
+    const { name, isDefault = false, items } = createData;
+
+    try {
+      return await this.prisma.$transaction(async (tx) => {
+        await this.assertItemsBelongToHymn(tx, hymnId, items);
+
+        if (isDefault) {
+          await this.clearDefault(tx, hymnId);
+        }
+
+        const arrangement = await tx.hymnArrangement.create({
+          data: {
+            hymnId,
+            name,
+            isDefault,
+            createdById: user.id,
+            updatedById: user.id,
+            items: { create: this.toItemRows(items) },
+          },
+          include: ARRANGEMENT_INCLUDE,
+        });
+
+        await this.revisionService.record(tx, hymnId, user, 'UPDATE');
+
+        await this.auditService.log({
+          action: 'CREATE',
+          entityType: 'HYMN',
+          entityId: hymnId,
+          userId: user.id,
+          description: `Arrangement "${name}" with ${items.length} parts created for hymn ${hymnId} by user ${user.id}`,
+        });
+
+        return arrangement;
+      });
+    } catch (error) {
+      this.handleError(error, 'creating');
+    }
+  }
+
+  /**
+   * Fetches the arrangements of a hymn.
+   * @param hymnId - The ID of the hymn.
+   * @param user - The signed-in user, if any; anonymous requests only see published hymns.
+   * @returns The arrangements with their items in sequence.
+   * @throws NotFoundException if the hymn does not exist.
+   */
+  async fetchArrangements(hymnId: string, user?: User) {
+    const hymn = await this.prisma.hymn.findFirst({
+      where: {
+        id: hymnId,
+        deletedAt: null,
+        ...(!user && { status: HymnStatus.Published }),
+      },
+      select: { id: true },
+    });
+
+    if (!hymn) {
+      throw new NotFoundException('Hymn not found.');
+    }
+
+    return this.prisma.hymnArrangement.findMany({
+      where: { hymnId, deletedAt: null },
+      orderBy: [{ isDefault: 'desc' }, { createdAt: 'asc' }],
+      include: ARRANGEMENT_INCLUDE,
+    });
+  }
+
+  /**
+   * Updates the name, default flag or sequence of an arrangement.
+   * A new `items` list replaces the whole sequence.
+   * @param hymnId - The ID of the hymn.
+   * @param arrangementId - The ID of the arrangement.
+   * @param updateData - The fields to change.
+   * @param user - The user performing the update.
+   * @returns The updated arrangement with its items.
+   * @throws NotFoundException if the arrangement does not exist.
+   * @throws BadRequestException if an item is not a verse or chorus of this hymn.
+   */
+  async updateArrangement(
+    hymnId: string,
+    arrangementId: string,
+    updateData: UpdateArrangementDto,
+    user: User,
+  ) {
+    const { name, isDefault, items } = updateData;
+
+    try {
+      return await this.prisma.$transaction(async (tx) => {
+        await this.findArrangementOrThrow(tx, hymnId, arrangementId);
+
+        if (items) {
+          await this.assertItemsBelongToHymn(tx, hymnId, items);
+          await tx.hymnArrangementItem.deleteMany({ where: { arrangementId } });
+          await tx.hymnArrangementItem.createMany({
+            data: this.toItemRows(items).map((item) => ({
+              ...item,
+              arrangementId,
+            })),
+          });
+        }
+
+        if (isDefault) {
+          await this.clearDefault(tx, hymnId);
+        }
+
+        const arrangement = await tx.hymnArrangement.update({
+          where: { id: arrangementId },
+          data: {
+            name,
+            isDefault,
+            updatedById: user.id,
+            updatedAt: new Date(),
+          },
+          include: ARRANGEMENT_INCLUDE,
+        });
+
+        await this.revisionService.record(tx, hymnId, user, 'UPDATE');
+
+        await this.auditService.log({
+          action: 'UPDATE',
+          entityType: 'HYMN',
+          entityId: hymnId,
+          userId: user.id,
+          description: `Arrangement "${arrangement.name}" of hymn ${hymnId} updated by user ${user.id}`,
+        });
+
+        return arrangement;
+      });
+    } catch (error) {
+      this.handleError(error, 'updating');
+    }
+  }
+
+  /**
+   * Soft-deletes an arrangement.
+   * @param hymnId - The ID of the hymn.
+   * @param arrangementId - The ID of the arrangement.
+   * @param user - The user performing the deletion.
+   * @returns The deleted arrangement.
+   * @throws NotFoundException if the arrangement does not exist or is already deleted.
+   */
+  async deleteArrangement(hymnId: string, arrangementId: string, user: User) {
+    try {
+      return await this.prisma.$transaction(async (tx) => {
+        await this.findArrangementOrThrow(tx, hymnId, arrangementId);
+
+        const arrangement = await tx.hymnArrangement.update({
+          where: { id: arrangementId },
+          data: {
+            deletedAt: new Date(),
+            isDefault: false,
+            updatedById: user.id,
+            updatedAt: new Date(),
+          },
+          select: { id: true, name: true, deletedAt: true },
+        });
+
+        await this.revisionService.record(tx, hymnId, user, 'UPDATE');
+
+        await this.auditService.log({
+          action: 'DELETE',
+          entityType: 'HYMN',
+          entityId: hymnId,
+          userId: user.id,
+          description: `Arrangement "${arrangement.name}" of hymn ${hymnId} deleted by user ${user.id}`,
+        });
+
+        return arrangement;
+      });
+    } catch (error) {
+      this.handleError(error, 'deleting');
+    }
+  }
+
+  /**
+   * Expands an arrangement into the lyrics in the order they are sung.
+   * Without an arrangement ID the hymn's default arrangement is used, and
+   * without one of those every verse is followed by the chorus.
+   * @param hymnId - The ID of the hymn.
+   * @param arrangementId - Optional ID of the arrangement to expand.
+   * @param user - The signed-in user, if any; anonymous requests only see published hymns.
+   * @returns The arrangement used and its expanded lyric sequence.
+   * @throws NotFoundException if the hymn or arrangement does not exist.
+   */
+  async expandSequence(hymnId: string, arrangementId?: string, user?: User) {
+    const hymn = await this.prisma.hymn.findFirst({
+      where: {
+        id: hymnId,
+        deletedAt: null,
+        ...(!user && { status: HymnStatus.Published }),
+      },
+      include: {
+        verses: {
+          where: { deletedAt: null },
+          orderBy: { order: 'asc' },
+          select: { id: true, text: true, order: true },
+        },
+        choruses: {
+          where: { deletedAt: null },
+          orderBy: { order: 'asc' },
+          select: { id: true, text: true },
+        },
+      },
+    });
+
+    if (!hymn) {
+      throw new NotFoundException('Hymn not found.');
+    }
+
+    const arrangement = arrangementId
+      ? await this.findArrangementOrThrow(this.prisma, hymnId, arrangementId)
+      : await this.prisma.hymnArrangement.findFirst({
+          where: { hymnId, isDefault: true, deletedAt: null },
+          include: ARRANGEMENT_INCLUDE,
+        });
+
+    const parts = new Map<string, Omit<ISequenceItem, 'position'>>();
+    hymn.verses.forEach((verse, idx) =>
+      parts.set(verse.id, {
+        type: 'verse',
+        id: verse.id,
+        label: `Verse ${verse.order ?? idx + 1}`,
+        text: verse.text,
+      }),
+    );
+    hymn.choruses.forEach((chorus, idx) =>
+      parts.set(chorus.id, {
+        type: 'chorus',
+        id: chorus.id,
+        label: hymn.choruses.length > 1 ? `Chorus ${idx + 1}` : 'Chorus',
+        text: chorus.text,
+      }),
+    );
+
+    const choruses = hymn.choruses.map((chorus) => chorus.id);
+    const partIds = arrangement
+      ? arrangement.items.map((item) => item.verseId ?? item.chorusId)
+      : hymn.verses.length
+        ? hymn.verses.flatMap((verse) => [verse.id, ...choruses])
+        : choruses;
+
+    const items: ISequenceItem[] = partIds
+      // Parts deleted since the arrangement was saved are skipped
+      .filter((partId) => parts.has(partId))
+      .map((partId, idx) => ({ position: idx + 1, ...parts.get(partId) }));
+
+    return {
+      hymnId,
+      arrangement: arrangement
+        ? { id: arrangement.id, name: arrangement.name }
+        : null,
+      items,
+    };
+  }
+
+  private async findArrangementOrThrow(
+    client: Prisma.TransactionClient,
+    hymnId: string,
+    arrangementId: string,
+  ) {
+    const arrangement = await client.hymnArrangement.findFirst({
+      where: { id: arrangementId, hymnId, deletedAt: null },
+      include: ARRANGEMENT_INCLUDE,
+    });
+
+    if (!arrangement) {
+      throw new NotFoundException('Arrangement not found.');
+    }
+
+    return arrangement;
+  }
+
+  private async assertItemsBelongToHymn(
+    tx: Prisma.TransactionClient,
+    hymnId: string,
+    items: CreateArrangementDto['items'],
+  ) {
+    const hymn = await tx.hymn.findFirst({
+      where: { id: hymnId, deletedAt: null },
+      select: {
+        verses: { where: { deletedAt: null }, select: { id: true } },
+        choruses: { where: { deletedAt: null }, select: { id: true } },
+      },
+    });
+
+    if (!hymn) {
+      throw new NotFoundException('Hymn not found.');
+    }
+
+    const known = {
+      verse: new Set(hymn.verses.map((verse) => verse.id)),
+      chorus: new Set(hymn.choruses.map((chorus) => chorus.id)),
+    };
+
+    const unknown = items.find((item) => !known[item.type].has(item.id));
+    if (unknown) {
+      throw new BadRequestException(
+        `The ${unknown.type} ${unknown.id} is not part of this hymn.`,
+      );
+    }
+  }
+
+  private async clearDefault(tx: Prisma.TransactionClient, hymnId: string) {
+    await tx.hymnArrangement.updateMany({
+      where: { hymnId, isDefault: true },
+      data: { isDefault: false },
+    });
+  }
+
+  private toItemRows(items: CreateArrangementDto['items']) {
+    return items.map((item, idx) => ({
+      position: idx + 1,
+      verseId: item.type === 'verse' ? item.id : null,
+      chorusId: item.type === 'chorus' ? item.id : null,
+    }));
+  }
+
+  private handleError(error: any, action: string): never {
+    if (
+      error instanceof NotFoundException ||
+      error instanceof BadRequestException ||
+      error instanceof ConflictException
+    ) {
+      throw error;
+    }
+
+    throw new InternalServerErrorException(
+      `An error occurred while ${action} the arrangement`,
+    );
+  }
+}
@@ -0,0 +1,201 @@
+import { Injectable, NotFoundException } from '@nestjs/common';
+import { HymnStatus, User } from '@prisma/client';
+import { PrismaService } from 'src/common/prisma/prisma.service';
+import { HymnArrangementService } from '@@/modules/hymn/hymn-arrangement.service';
+import { serializeOpenLyrics } from '@@/modules/hymn/formats/openlyrics';
+import { serializeChordPro } from '@@/modules/hymn/formats/chordpro';
+import { serializePlainText } from '@@/modules/hymn/formats/text';
+import { serializeJson } from '@@/modules/hymn/formats/json';
+import { splitSlides } from '@@/modules/hymn/formats/slides';
+import { FetchSlidesDto } from '@@/modules/hymn/dto/slides.dto';
+import { PRIMARY_HYMNBOOK_ENTRY } from '@@/modules/hymnbook/hymnbook.service';
+import {
+  DEFAULT_SLIDE_LINES,
+  HymnExportFormat,
+  IHymnExport,
+  IHymnExportFile,
+  IHymnSlide,
+} from '@@/modules/hymn/interfaces';
+
+const EXPORT_FORMATS: Record<
+  HymnExportFormat,
+  {
+    extension: string;
+    contentType: string;
+    serialize: (hymn: IHymnExport) => string;
+  }
+> = {
+  openlyrics: {
+    extension: 'xml',
+    contentType: 'application/xml; charset=utf-8',
+    serialize: serializeOpenLyrics,
+  },
+  chordpro: {
+    extension: 'cho',
+    contentType: 'text/plain; charset=utf-8',
+    serialize: serializeChordPro,
+  },
+  txt: {
+    extension: 'txt',
+    contentType: 'text/plain; charset=utf-8',
+    serialize: serializePlainText,
+  },
+  json: {
+    extension: 'json',
+    contentType: 'application/json; charset=utf-8',
+    serialize: serializeJson,
+  },
+};
+
+@Injectable()
+export class HymnExportService {
+  constructor(
+    private prisma: PrismaService,
+    private arrangementService: HymnArrangementService,
+  ) {}
+
+  /**
+   * Serializes a hymn for projection software and other tools. Parts are
+   * written in the sung order of the hymn's default arrangement, falling
+   * back to every verse followed by the chorus.
+   * @param id - The ID of the hymn.
+   * @param format - `openlyrics`, `chordpro`, `txt` or `json`.
+   * @param user - The signed-in user, if any; anonymous requests only see published hymns.
+   * @returns The file content with its content type and a filename from the slug.
+   * @throws NotFoundException if the hymn does not exist.
+   */
+  async exportHymn(
+    id: string,
+    format: HymnExportFormat,
+    user?: User,
+  ): Promise<IHymnExportFile> {
+    const hymn = await this.prisma.hymn.findFirst({
+      where: {
+        id,
+        deletedAt: null,
+        ...(!user && { status: HymnStatus.Published }),
+      },
+      include: {
+        category: { select: { name: true } },
+        hymnbooks: PRIMARY_HYMNBOOK_ENTRY,
+        verses: {
+          where: { deletedAt: null },
+          orderBy: { order: 'asc' },
+          select: { id: true, text: true, order: true },
+        },
+        choruses: {
+          where: { deletedAt: null },
+          orderBy: { order: 'asc' },
+          select: { id: true, text: true, order: true },
+        },
+      },
+    });
+
+    if (!hymn) {
+      throw new NotFoundException('Hymn not found.');
+    }
+
+    const { items } = await this.arrangementService.expandSequence(
+      id,
+      undefined,
+      user,
+    );
+    const verseIds = hymn.verses.map((verse) => verse.id);
+    const chorusIds = hymn.choruses.map((chorus) => chorus.id);
+
+    const { extension, contentType, serialize } = EXPORT_FORMATS[format];
+    const [entry] = hymn.hymnbooks;
+
+    return {
+      filename: `${hymn.slug}.${extension}`,
+      contentType,
+      content: serialize({
+        title: hymn.title,
+        number: entry?.number,
+        songbook: entry?.hymnbook.name,
+        author: hymn.author ?? undefined,
+        language: hymn.language ?? undefined,
+        category: hymn.category?.name,
+        verses: hymn.verses.map(({ text }, idx) => ({ text, order: idx + 1 })),
+        choruses: hymn.choruses.map(({ text }, idx) => ({
+          text,
+          order: idx + 1,
+        })),
+        sequence: items.map(({ type, id: partId, label }) => ({
+          type,
+          index: (type === 'chorus' ? chorusIds : verseIds).indexOf(partId) + 1,
+          label,
+        })),
+        abcNotation: hymn.abcNotation ?? undefined,
+      }),
+    };
+  }
+
+  /**
+   * Splits a hymn into slides for projection, in the sung order of an
+   * arrangement with every repeat of the chorus. Each verse and chorus is
+   * split under the line and character limits, and every slide carries the
+   * hymn number, the label of its part and which of that part's slides it is.
+   * @param id - The ID of the hymn.
+   * @param options - The arrangement to follow and the slide limits.
+   * @param user - The signed-in user, if any; anonymous requests only see published hymns.
+   * @returns The hymn's number and title and its slides.
+   * @throws NotFoundException if the hymn or arrangement does not exist.
+   */
+  async fetchSlides(
+    id: string,
+    {
+      arrangementId,
+      maxLines = DEFAULT_SLIDE_LINES,
+      maxChars,
+    }: FetchSlidesDto = {},
+    user?: User,
+  ) {
+    const hymn = await this.prisma.hymn.findFirst({
+      where: {
+        id,
+        deletedAt: null,
+        ...(!user && { status: HymnStatus.Published }),
+      },
+      select: { id: true, title: true, hymnbooks: PRIMARY_HYMNBOOK_ENTRY },
+    });
+
+    if (!hymn) {
+      throw new NotFoundException('Hymn not found.');
+    }
+    const number = hymn.hymnbooks[0]?.number ?? null;
+
+    const { arrangement, items } = await this.arrangementService.expandSequence(
+      id,
+      arrangementId,
+      user,
+    );
+
+    const slides: IHymnSlide[] = [];
+    for (const { type, id: partId, label, text } of items) {
+      const pages = splitSlides(text, { maxLines, maxChars });
+      pages.forEach((page, idx) =>
+        slides.push({
+          position: slides.length + 1,
+          hymnNumber: number,
+          type,
+          partId,
+          label,
+          page: idx + 1,
+          pages: pages.length,
+          caption:
+            pages.length > 1
+              ? `${label} (${idx + 1} of ${pages.length})`
+              : label,
+          text: page,
+        }),
+      );
+    }
+
+    return {
+      hymn: { id: hymn.id, number, title: hymn.title },
+      arrangement,
+      slides,
+    };
+  }
+}
@@ -0,0 +1,206 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { User } from '@prisma/client';
+import { PrismaService } from 'src/common/prisma/prisma.service';
+import { HymnImportService } from '@@/modules/hymn/hymn-import.service';
+import { HymnService } from '@@/modules/hymn/hymn.service';
+import { HymnQueueProducer } from '@@/modules/hymn/queue/producer';
+import { IBulkImportJob } from '@@/modules/hymn/interfaces';
+
+const HYMNBOOK_ID = '3c9a7e51-2b4d-4f80-a6e2-9d1b5c3f7a40';
+const user = { id: 'editor' } as User;
+
+const csv = (name: string, content: string) =>
+  ({ originalname: name, buffer: Buffer.from(content) }) as Express.Multer.File;
+
+describe('HymnImportService', () => {
+  let service: HymnImportService;
+  let prisma: Record<string, Record<string, jest.Mock>>;
+  let hymnService: Record<string, jest.Mock>;
+  let producer: Record<string, jest.Mock>;
+
+  const bulkJob = (
+    records: Record<string, unknown>[],
+    options: Partial<IBulkImportJob> = {},
+  ): IBulkImportJob => ({
+    fileName: 'hymns.csv',
+    records,
+    rowNumbers: records.map((_, idx) => idx + 2),
+    dryRun: false,
+    userId: user.id,
+    hymnbookId: HYMNBOOK_ID,
+    ...options,
+  });
+
+  beforeEach(async () => {
+    prisma = {
+      hymnbook: { findFirst: jest.fn(async () => ({ id: HYMNBOOK_ID })) },
+      hymn: {
+        findMany: jest.fn(async ({ where }) =>
+          where.slug.in
+            .filter((slug: string) => slug === 'amazing-grace')
+            .map((slug: string) => ({ slug })),
+        ),
+      },
+      hymnbookEntry: {
+        findMany: jest.fn(async ({ where }) =>
+          where.number.in
+            .filter((number: number) => number === 5)
+            .map((number: number) => ({ number })),
+        ),
+      },
+      category: { findMany: jest.fn(async () => []) },
+      user: { findUniqueOrThrow: jest.fn(async () => user) },
+    };
+    hymnService = {
+      createHymn: jest.fn(async (dto) => ({ id: `${dto.title} id` })),
+    };
+    producer = {
+      queueBulkImport: jest.fn(async () => ({ id: 'job' })),
+    };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        HymnImportService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: HymnService, useValue: hymnService },
+        { provide: HymnQueueProducer, useValue: producer },
+      ],
+    }).compile();
+
+    service = moduleRef.get(HymnImportService);
+  });
+
+  describe('queueBulkImport', () => {
+    it('queues the rows of a CSV file numbered as in a spreadsheet', async () => {
+      const file = csv(
+        'hymns.csv',
+        'Title,Number,Verse 1\nAbide With Me,12,Abide with me\n\nLead Me,13,Lead me on\n',
+      );
+
+      expect(await service.queueBulkImport(file, user)).toEqual({
+        jobId: 'job',
+        fileName: 'hymns.csv',
+        rows: 2,
+        dryRun: false,
+      });
+      expect(producer.queueBulkImport).toHaveBeenCalledWith(
+        expect.objectContaining({
+          records: [
+            {
+              Title: 'Abide With Me',
+              Number: '12',
+              'Verse 1': 'Abide with me',
+            },
+            { Title: 'Lead Me', Number: '13', 'Verse 1': 'Lead me on' },
+          ],
+          rowNumbers: [2, 3],
+        }),
+      );
+    });
+
+    it('refuses a file it cannot read before queueing it', async () => {
+      await expect(
+        service.queueBulkImport(csv('hymns.txt', 'Abide With Me'), user),
+      ).rejects.toThrow(
+        new BadRequestException(
+          'Could not read hymns.txt: expected a .csv, .xlsx or .json file.',
+        ),
+      );
+      expect(producer.queueBulkImport).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('runBulkImport', () => {
+    it('creates the valid rows and reports on every row', async () => {
+      const report = await service.runBulkImport(
+        bulkJob([
+          { Title: 'Abide With Me', Number: '12', 'Verse 1': 'Abide with me' },
+          { title: 'Amazing Grace', number: '7' },
+          { title: 'Great Is Thy Faithfulness', number: '5' },
+          { title: 'Lead Me', number: '12' },
+          { title: '', number: '14' },
+        ]),
+      );
+
+      expect(report.summary).toEqual({
+        total: 5,
+        created: 1,
+        valid: 0,
+        skipped: 2,
+        failed: 2,
+      });
+      expect(
+        report.rows.map(({ row, status, errors }) => [row, status, errors]),
+      ).toEqual([
+        [2, 'created', []],
+        [3, 'skipped', []],
+        [4, 'skipped', []],
+        [5, 'failed', ['Hymn number 12 is used more than once.']],
+        [6, 'failed', ['title must be a string', 'title should not be empty']],
+      ]);
+      expect(report.rows[1].warnings).toContain(
+        'A hymn titled "Amazing Grace" already exists.',
+      );
+      expect(report.rows[2].warnings).toContain(
+        'Hymn number 5 already exists.',
+      );
+      expect(hymnService.createHymn).toHaveBeenCalledWith(
+        expect.objectContaining({
+          title: 'Abide With Me',
+          number: 12,
+          hymnbookId: HYMNBOOK_ID,
+          verses: [{ text: 'Abide with me', order: 1 }],
+        }),
+        user,
+      );
+    });
+
+    it('writes nothing on a dry run', async () => {
+      const report = await service.runBulkImport(
+        bulkJob([{ title: 'Abide With Me', number: '12' }], { dryRun: true }),
+      );
+
+      expect(report.rows[0].status).toBe('valid');
+      expect(hymnService.createHymn).not.toHaveBeenCalled();
+    });
+
+    it('drops numbers when no hymnbook was chosen', async () => {
+      const report = await service.runBulkImport(
+        bulkJob([{ title: 'Abide With Me', number: '5' }], {
+          hymnbookId: undefined,
+        }),
+      );
+
+      expect(report.rows[0]).toMatchObject({
+        status: 'created',
+        warnings: [
+          'Number 5 ignored; no hymnbook was chosen for the import.',
+          'The hymn has no verses or choruses.',
+        ],
+      });
+      expect(hymnService.createHymn).toHaveBeenCalledWith(
+        expect.objectContaining({ number: undefined, hymnbookId: undefined }),
+        user,
+      );
+    });
+
+    it('fails a row the hymn cannot be saved for and carries on', async () => {
+      hymnService.createHymn.mockRejectedValueOnce(
+        new Error('A hymn with this title already exists.'),
+      );
+
+      const report = await service.runBulkImport(
+        bulkJob([{ title: 'Abide With Me' }, { title: 'Lead Me' }]),
+      );
+
+      expect(report.rows.map(({ status }) => status)).toEqual([
+        'failed',
+        'created',
+      ]);
+      expect(report.rows[0].errors).toEqual([
+        'A hymn with this title already exists.',
+      ]);
+    });
+  });
+});
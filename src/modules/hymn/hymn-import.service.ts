@@ -0,0 +1,676 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  NotFoundException,
+} from '@nestjs/common';
+import { User } from '@prisma/client';
+import { plainToInstance } from 'class-transformer';
+import { validate, ValidationError } from 'class-validator';
+import { parse as parseCsv } from 'csv-parse/sync';
+import { Workbook } from 'exceljs';
+import { basename, extname } from 'path';
+import { PrismaService } from 'src/common/prisma/prisma.service';
+import { AppUtilities } from 'src/common/utilities';
+import { HymnService } from '@@/modules/hymn/hymn.service';
+import { CreateHymnDto } from '@@/modules/hymn/dto/create-hymn.dto';
+import { parseOpenLyrics } from '@@/modules/hymn/formats/openlyrics';
+import { parseChordPro } from '@@/modules/hymn/formats/chordpro';
+import { HymnQueueProducer } from '@@/modules/hymn/queue/producer';
+import {
+  HYMN_JOBS,
+  HymnFileFormat,
+  HymnImportStatus,
+  IBulkImportJob,
+  IBulkImportReport,
+  IBulkImportRow,
+  IHymnExportFile,
+  IHymnImportEntry,
+  IHymnImportResult,
+  IParsedHymn,
+  IParsedHymnPart,
+} from '@@/modules/hymn/interfaces';
+
+const FORMAT_BY_EXTENSION: Record<string, HymnFileFormat> = {
+  '.xml': 'openlyrics',
+  '.cho': 'chordpro',
+  '.crd': 'chordpro',
+  '.chopro': 'chordpro',
+  '.chordpro': 'chordpro',
+  '.pro': 'chordpro',
+};
+
+const MAX_BULK_ROWS = 5000;
+
+// Numbers belong to a hymnbook, so an import that names none cannot keep them
+const ignoredNumber = (number: unknown) =>
+  `Number ${number} ignored; no hymnbook was chosen for the import.`;
+
+@Injectable()
+export class HymnImportService {
+  constructor(
+    private prisma: PrismaService,
+    private hymnService: HymnService,
+    private queueProducer: HymnQueueProducer,
+  ) {}
+
+  /**
+   * Imports hymns from OpenLyrics XML and ChordPro files, one hymn per file.
+   * Every file is validated first: parse errors, an invalid language, and a
+   * number or title used by another file in the batch fail that file only,
+   * and hymns whose title, or number in the hymnbook, already exists are
+   * skipped. Valid files are then created as drafts.
+   * @param files - The uploaded files.
+   * @param user - The user importing the hymns.
+   * @param dryRun - Only validate and preview, without writing anything.
+   * @param hymnbookId - The hymnbook the files' numbers belong to.
+   * @returns A summary and the result of every file.
+   * @throws BadRequestException if no files were uploaded.
+   * @throws NotFoundException if the hymnbook does not exist.
+   */
+  async importFiles(
+    files: Express.Multer.File[],
+    user: User,
+    dryRun = false,
+    hymnbookId?: string,
+  ) {
+    if (!files?.length) {
+      throw new BadRequestException('No files were uploaded.');
+    }
+    if (hymnbookId) await this.findHymnbookOrThrow(hymnbookId);
+
+    const results = files.map((file) => this.parseFile(file));
+    await this.checkEntries(results, hymnbookId);
+
+    if (!dryRun) {
+      await this.createValidEntries(results, user, hymnbookId);
+    }
+
+    return { dryRun, summary: this.summarize(results), results };
+  }
+
+  /**
+   * Reads a CSV, XLSX or JSON hymnbook and queues it for import. The file is
+   * read up front so that a malformed one is rejected before a job is queued.
+   * @param file - The uploaded spreadsheet or JSON array, one hymn per row.
+   * @param user - The user importing the hymns.
+   * @param dryRun - Only validate and report, without writing anything.
+   * @param hymnbookId - The hymnbook the file's numbers belong to.
+   * @returns The ID of the queued job.
+   * @throws BadRequestException if the file cannot be read, is empty or is too large.
+   * @throws NotFoundException if the hymnbook does not exist.
+   */
+  async queueBulkImport(
+    file: Express.Multer.File,
+    user: User,
+    dryRun = false,
+    hymnbookId?: string,
+  ) {
+    if (hymnbookId) await this.findHymnbookOrThrow(hymnbookId);
+    const { records, rowNumbers } = await this.readBulkFile(file);
+
+    const job = await this.queueProducer.queueBulkImport({
+      fileName: file.originalname,
+      records,
+      rowNumbers,
+      dryRun,
+      userId: user.id,
+      hymnbookId,
+    });
+
+    return {
+      jobId: job.id,
+      fileName: file.originalname,
+      rows: records.length,
+      dryRun,
+    };
+  }
+
+  /**
+   * Fetches the state of a bulk import job and, once it has finished, its report.
+   * @param jobId - The ID of the job.
+   * @returns The job's state, progress and report.
+   * @throws NotFoundException if the job does not exist or has expired.
+   */
+  async fetchBulkImport(jobId: string) {
+    const job = await this.findBulkImportJob(jobId);
+
+    return {
+      jobId: job.id,
+      fileName: job.data.fileName,
+      dryRun: job.data.dryRun,
+      state: await job.getState(),
+      progress: job.progress(),
+      failedReason: job.failedReason ?? null,
+      report: (job.returnvalue as IBulkImportReport) ?? null,
+    };
+  }
+
+  /**
+   * Builds the downloadable CSV report of a finished bulk import.
+   * @param jobId - The ID of the job.
+   * @returns The report as a CSV file.
+   * @throws NotFoundException if the job does not exist or has expired.
+   * @throws ConflictException if the job has not finished yet.
+   */
+  async fetchBulkImportReport(jobId: string): Promise<IHymnExportFile> {
+    const job = await this.findBulkImportJob(jobId);
+    const report = job.returnvalue as IBulkImportReport;
+
+    if (!report) {
+      throw new ConflictException('The import has not finished yet.');
+    }
+
+    const name = basename(report.fileName, extname(report.fileName));
+    return {
+      filename: `${AppUtilities.slugify(name) || 'hymns'}-import-report.csv`,
+      contentType: 'text/csv; charset=utf-8',
+      content: this.toReportCsv(report),
+    };
+  }
+
+  private async findHymnbookOrThrow(hymnbookId: string) {
+    const hymnbook = await this.prisma.hymnbook.findFirst({
+      where: { id: hymnbookId, deletedAt: null },
+      select: { id: true },
+    });
+
+    if (!hymnbook) {
+      throw new NotFoundException('Hymnbook not found.');
+    }
+
+    return hymnbook;
+  }
+
+  private async findBulkImportJob(jobId: string) {
+    const job = await this.queueProducer.getJob(jobId);
+
+    if (!job || job.name !== HYMN_JOBS.BULK_IMPORT) {
+      throw new NotFoundException('Import job not found.');
+    }
+
+    return job;
+  }
+
+  private async readBulkFile(file: Express.Multer.File) {
+    if (!file) {
+      throw new BadRequestException('No file was uploaded.');
+    }
+
+    let sheet: { records: Record<string, unknown>[]; rowNumbers: number[] };
+
+    try {
+      switch (extname(file.originalname).toLowerCase()) {
+        case '.csv':
+          sheet = this.readCsv(file.buffer);
+          break;
+        case '.xlsx':
+          sheet = await this.readXlsx(file.buffer);
+          break;
+        case '.json':
+          sheet = this.readJson(file.buffer);
+          break;
+        default:
+          throw new Error('expected a .csv, .xlsx or .json file.');
+      }
+    } catch (error) {
+      throw new BadRequestException(
+        `Could not read ${file.originalname}: ${error.message}`,
+      );
+    }
+
+    if (!sheet.records.length) {
+      throw new BadRequestException(`${file.originalname} has no hymns.`);
+    }
+    if (sheet.records.length > MAX_BULK_ROWS) {
+      throw new BadRequestException(
+        `A bulk import takes at most ${MAX_BULK_ROWS} hymns.`,
+      );
+    }
+
+    return sheet;
+  }
+
+  /**
+   * Runs a queued bulk import. Each record is validated against the rules of
+   * `CreateHymnDto`, then checked for titles, and numbers in the hymnbook,
+   * that already exist (skipped) or repeat within the file (failed), before
+   * anything is written.
+   * @param job - The queued records and options.
+   * @param onProgress - Called with the percentage of rows processed.
+   * @returns The report of created, valid, skipped and failed rows.
+   */
+  async runBulkImport(
+    job: IBulkImportJob,
+    onProgress: (percent: number) => Promise<unknown> = async () => undefined,
+  ): Promise<IBulkImportReport> {
+    const { fileName, records, rowNumbers, dryRun, userId, hymnbookId } = job;
+
+    const rows = await Promise.all(
+      records.map((record, idx) =>
+        this.validateRecord(record, rowNumbers[idx], hymnbookId),
+      ),
+    );
+    await this.checkEntries(rows, hymnbookId);
+    await onProgress(dryRun ? 100 : 10);
+
+    if (!dryRun) {
+      const user = await this.prisma.user.findUniqueOrThrow({
+        where: { id: userId },
+      });
+      await this.createValidEntries(rows, user, hymnbookId, (done, total) =>
+        onProgress(10 + Math.floor((90 * done) / total)),
+      );
+    }
+
+    return { fileName, dryRun, summary: this.summarize(rows), rows };
+  }
+
+  private toReportCsv(report: IBulkImportReport) {
+    const escape = (value: unknown) => {
+      const text = value === undefined || value === null ? '' : String(value);
+      return /[",\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+    };
+
+    const lines = [
+      ['row', 'status', 'hymnId', 'number', 'title', 'errors', 'warnings'],
+      ...report.rows.map((row) => [
+        row.row,
+        row.status,
+        row.hymnId,
+        row.preview?.number,
+        row.preview?.title,
+        row.errors.join('; '),
+        row.warnings.join('; '),
+      ]),
+    ];
+
+    return `${lines.map((line) => line.map(escape).join(',')).join('\n')}\n`;
+  }
+
+  /**
+   * Resolves categories and languages, and checks titles, and numbers in the
+   * hymnbook, against the database and against the other entries of the
+   * batch. Numbers are dropped when no hymnbook was given. Sets the status
+   * of every entry that parsed.
+   */
+  private async checkEntries(entries: IHymnImportEntry[], hymnbookId?: string) {
+    const parsed = entries.filter((entry) => entry.preview);
+
+    for (const { preview, warnings } of parsed) {
+      if (!hymnbookId && preview.number !== undefined) {
+        warnings.push(ignoredNumber(preview.number));
+        delete preview.number;
+      }
+    }
+
+    const numbers = parsed
+      .map((entry) => entry.preview.number)
+      .filter((number) => number !== undefined);
+    const slugs = parsed.map((entry) => entry.preview.slug);
+    const categoryNames = parsed
+      .map((entry) => entry.preview.category)
+      .filter(Boolean);
+    const categoryIds = parsed
+      .map((entry) => entry.preview.categoryId)
+      .filter(Boolean);
+
+    const [existing, existingEntries, categories] = await Promise.all([
+      this.prisma.hymn.findMany({
+        where: { slug: { in: slugs } },
+        select: { slug: true },
+      }),
+      hymnbookId
+        ? this.prisma.hymnbookEntry.findMany({
+            where: { hymnbookId, number: { in: numbers } },
+            select: { number: true },
+          })
+        : [],
+      this.prisma.category.findMany({
+        where: {
+          OR: [
+            { name: { in: categoryNames, mode: 'insensitive' } },
+            { id: { in: categoryIds } },
+          ],
+        },
+        select: { id: true, name: true },
+      }),
+    ]);
+
+    const existingNumbers = new Set(
+      existingEntries.map((entry) => entry.number),
+    );
+    const existingSlugs = new Set(existing.map((hymn) => hymn.slug));
+    const batchNumbers = new Set<number>();
+    const batchSlugs = new Set<string>();
+    const knownCategoryIds = new Set(categories.map((category) => category.id));
+    const categoryIdsByName = new Map(
+      categories.map((category) => [category.name.toLowerCase(), category.id]),
+    );
+
+    for (const entry of parsed) {
+      const { preview } = entry;
+
+      if (preview.language) {
+        const tag = AppUtilities.canonicalizeLanguageTag(preview.language);
+        if (tag) {
+          preview.language = tag;
+        } else {
+          entry.errors.push(
+            `"${preview.language}" is not a valid BCP 47 language tag.`,
+          );
+        }
+      }
+
+      if (preview.categoryId && !knownCategoryIds.has(preview.categoryId)) {
+        entry.errors.push(`Category ${preview.categoryId} does not exist.`);
+      } else if (!preview.categoryId && preview.category) {
+        preview.categoryId = categoryIdsByName.get(
+          preview.category.toLowerCase(),
+        );
+        if (!preview.categoryId) {
+          entry.warnings.push(
+            `Category "${preview.category}" not found; the hymn will have no category.`,
+          );
+        }
+      }
+
+      // Hymns that already exist are skipped, so an import can be re-run
+      const skipped: string[] = [];
+      if (preview.number !== undefined) {
+        if (existingNumbers.has(preview.number)) {
+          skipped.push(`Hymn number ${preview.number} already exists.`);
+        } else if (batchNumbers.has(preview.number)) {
+          entry.errors.push(
+            `Hymn number ${preview.number} is used more than once.`,
+          );
+        }
+        batchNumbers.add(preview.number);
+      }
+      if (existingSlugs.has(preview.slug)) {
+        skipped.push(`A hymn titled "${preview.title}" already exists.`);
+      } else if (batchSlugs.has(preview.slug)) {
+        entry.errors.push(
+          `The title "${preview.title}" is used more than once.`,
+        );
+      }
+      batchSlugs.add(preview.slug);
+
+      if (entry.errors.length) {
+        entry.status = 'failed';
+      } else if (skipped.length) {
+        entry.status = 'skipped';
+        entry.warnings.push(...skipped);
+      } else {
+        entry.status = 'valid';
+      }
+    }
+  }
+
+  private async createValidEntries(
+    entries: IHymnImportEntry[],
+    user: User,
+    hymnbookId?: string,
+    onProgress?: (done: number, total: number) => Promise<unknown>,
+  ) {
+    const valid = entries.filter((entry) => entry.status === 'valid');
+
+    for (const [idx, entry] of valid.entries()) {
+      const { title, number, author, language, version, categoryId } =
+        entry.preview;
+      const { verses, choruses } = entry.preview;
+
+      try {
+        const created = await this.hymnService.createHymn(
+          {
+            title,
+            number,
+            hymnbookId: number !== undefined ? hymnbookId : undefined,
+            author,
+            language,
+            version,
+            categoryId,
+            verses,
+            choruses,
+          },
+          user,
+        );
+        entry.status = 'created';
+        entry.hymnId = created?.id;
+      } catch (error) {
+        entry.status = 'failed';
+        entry.errors.push(error.message);
+      }
+
+      await onProgress?.(idx + 1, valid.length);
+    }
+  }
+
+  private summarize(entries: IHymnImportEntry[]) {
+    const count = (status: HymnImportStatus) =>
+      entries.filter((entry) => entry.status === status).length;
+
+    return {
+      total: entries.length,
+      created: count('created'),
+      valid: count('valid'),
+      skipped: count('skipped'),
+      failed: count('failed'),
+    };
+  }
+
+  private parseFile(file: Express.Multer.File): IHymnImportResult {
+    const content = file.buffer.toString('utf8').replace(/^\uFEFF/, '');
+    const format = this.detectFormat(file.originalname, content);
+
+    if (!format) {
+      return {
+        file: file.originalname,
+        format,
+        status: 'failed',
+        errors: ['Unsupported file type; expected OpenLyrics XML or ChordPro.'],
+        warnings: [],
+      };
+    }
+
+    const { hymn, errors, warnings } =
+      format === 'openlyrics'
+        ? parseOpenLyrics(content)
+        : parseChordPro(content);
+
+    return {
+      file: file.originalname,
+      format,
+      status: hymn ? 'valid' : 'failed',
+      preview: hymn && this.toPreview(hymn),
+      errors,
+      warnings,
+    };
+  }
+
+  private detectFormat(filename: string, content: string) {
+    const byExtension = FORMAT_BY_EXTENSION[extname(filename).toLowerCase()];
+    if (byExtension) return byExtension;
+
+    if (content.trimStart().startsWith('<')) return 'openlyrics';
+    if (/^\s*\{\s*(title|t)\s*:/im.test(content)) return 'chordpro';
+    return null;
+  }
+
+  private toPreview(hymn: IParsedHymn, categoryId?: string) {
+    return { ...hymn, slug: AppUtilities.slugify(hymn.title), categoryId };
+  }
+
+  /**
+   * Maps a bulk record onto `CreateHymnDto` and validates it with the same
+   * rules as `POST /hymns`. Column names are matched case-insensitively, and
+   * lyrics come from `verses`/`choruses` (an array, or stanzas separated by
+   * a blank line) or from numbered `verse 1`, `chorus 1`… columns. A record
+   * that cannot be read at all fails its row.
+   */
+  private async validateRecord(
+    record: Record<string, unknown>,
+    row: number,
+    hymnbookId?: string,
+  ): Promise<IBulkImportRow> {
+    try {
+      const fields = new Map(
+        Object.entries(record ?? {}).map(([key, value]) => [
+          key.toLowerCase().replace(/[\s_-]+/g, ''),
+          typeof value === 'string' ? value.trim() || undefined : value,
+        ]),
+      );
+
+      const number = fields.get('number');
+      const dto = plainToInstance(CreateHymnDto, {
+        ...(number !== undefined &&
+          hymnbookId && {
+            hymnbookId,
+            number:
+              typeof number === 'string' && /^\d+$/.test(number)
+                ? Number(number)
+                : number,
+          }),
+        title: fields.get('title'),
+        author: fields.get('author'),
+        language: fields.get('language'),
+        version: fields.get('version'),
+        categoryId: fields.get('categoryid'),
+        verses: this.partsOf(fields, 'verse'),
+        choruses: this.partsOf(fields, 'chorus'),
+      });
+
+      const errors = this.flattenErrors(await validate(dto));
+      if (errors.length) {
+        return { row, status: 'failed', errors, warnings: [] };
+      }
+
+      const warnings = [];
+      if (number !== undefined && !hymnbookId) {
+        warnings.push(ignoredNumber(number));
+      }
+      if (!dto.verses.length && !dto.choruses.length) {
+        warnings.push('The hymn has no verses or choruses.');
+      }
+
+      const category = fields.get('category');
+      const preview = this.toPreview(
+        {
+          title: dto.title,
+          number: dto.number,
+          author: dto.author,
+          language: dto.language,
+          version: dto.version,
+          category: typeof category === 'string' ? category : undefined,
+          verses: dto.verses.map(({ text, order }) => ({ text, order })),
+          choruses: dto.choruses.map(({ text, order }) => ({ text, order })),
+        },
+        dto.categoryId,
+      );
+
+      return { row, status: 'valid', preview, errors, warnings };
+    } catch (error) {
+      // A record of an unexpected shape fails its own row, not the import
+      return {
+        row,
+        status: 'failed',
+        errors: [`The row could not be read: ${error.message}`],
+        warnings: [],
+      };
+    }
+  }
+
+  private partsOf(
+    fields: Map<string, unknown>,
+    type: 'verse' | 'chorus',
+  ): IParsedHymnPart[] {
+    const list = fields.get(`${type}s`) ?? fields.get(type);
+
+    const listed: { text: unknown; order?: number }[] = Array.isArray(list)
+      ? list.map((item) =>
+          item !== null && typeof item === 'object' ? item : { text: item },
+        )
+      : typeof list === 'string'
+        ? list.split(/\n\s*\n/).map((text) => ({ text }))
+        : [];
+
+    const columnPattern = new RegExp(`^${type}(\\d+)$`);
+    const numbered = [...fields.entries()]
+      .map(([key, text]) => ({ match: columnPattern.exec(key), text }))
+      .filter(({ match, text }) => match && text !== undefined)
+      .map(({ match, text }) => ({ text, order: Number(match[1]) }))
+      .sort((a, b) => a.order - b.order);
+
+    return [...listed, ...numbered].map((part, idx) => ({
+      text: (typeof part.text === 'string'
+        ? part.text.trim()
+        : part.text) as string,
+      order: part.order ?? idx + 1,
+    }));
+  }
+
+  private flattenErrors(errors: ValidationError[], path = ''): string[] {
+    return errors.flatMap((error) => {
+      const property = path ? `${path}.${error.property}` : error.property;
+      return [
+        ...Object.values(error.constraints ?? {}).map((message) =>
+          path ? `${property}: ${message}` : message,
+        ),
+        ...this.flattenErrors(error.children ?? [], property),
+      ];
+    });
+  }
+
+  private readCsv(buffer: Buffer) {
+    const records: Record<string, unknown>[] = parseCsv(buffer, {
+      columns: true,
+      bom: true,
+      skip_empty_lines: true,
+      relax_column_count: true,
+    });
+
+    // Numbered like spreadsheet rows, the header being row 1
+    return { records, rowNumbers: records.map((_, idx) => idx + 2) };
+  }
+
+  private async readXlsx(buffer: Buffer) {
+    const workbook = new Workbook();
+    await workbook.xlsx.load(buffer);
+
+    const sheet = workbook.worksheets[0];
+    if (!sheet) {
+      throw new Error('the workbook has no sheets.');
+    }
+
+    const headers: string[] = [];
+    sheet.getRow(1).eachCell((cell, column) => {
+      headers[column] = cell.text;
+    });
+
+    const records: Record<string, unknown>[] = [];
+    const rowNumbers: number[] = [];
+    sheet.eachRow((row, rowNumber) => {
+      if (rowNumber === 1) return;
+
+      const record: Record<string, unknown> = {};
+      row.eachCell((cell, column) => {
+        if (headers[column]) record[headers[column]] = cell.text;
+      });
+      if (Object.keys(record).length) {
+        records.push(record);
+        rowNumbers.push(rowNumber);
+      }
+    });
+
+    return { records, rowNumbers };
+  }
+
+  private readJson(buffer: Buffer) {
+    const records = JSON.parse(buffer.toString('utf8'));
+    if (!Array.isArray(records)) {
+      throw new Error('expected a JSON array of hymns.');
+    }
+
+    return { records, rowNumbers: records.map((_, idx) => idx + 1) };
+  }
+}
@@ -0,0 +1,122 @@
+import {
+  BadRequestException,
+  Injectable,
+  Logger,
+  OnModuleInit,
+} from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from 'src/common/prisma/prisma.service';
+import { CacheService } from 'src/common/cache/cache.service';
+import { CacheKeysEnums } from '@@/common/cache/cache.enum';
+import { SearchHymnsByMelodyDto } from '@@/modules/hymn/dto/search-hymn.dto';
+import { parseSolfa } from '@@/modules/hymn/notation/solfa';
+import {
+  encodeMelody,
+  melodyIntervals,
+  parseMelody,
+} from '@@/modules/hymn/notation/melody';
+import { IHymnMelodyMatch } from '@@/modules/hymn/interfaces';
+import { PRIMARY_NUMBER_SQL } from '@@/modules/hymnbook/hymnbook.service';
+
+@Injectable()
+export class HymnMelodyService implements OnModuleInit {
+  private readonly logger = new Logger(HymnMelodyService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private cacheService: CacheService,
+  ) {}
+
+  // Sol-fa saved before the melody index existed is indexed on start-up
+  async onModuleInit() {
+    const hymns = await this.prisma.hymn.findMany({
+      where: { solfaNotation: { not: null }, melodyIntervals: null },
+      select: { id: true, solfaNotation: true },
+    });
+
+    for (const { id, solfaNotation } of hymns) {
+      // Notation that no longer parses is indexed as having no melody
+      const { score } = parseSolfa(solfaNotation);
+      await this.prisma.hymn.update({
+        where: { id },
+        data: {
+          melodyIntervals: score ? encodeMelody(melodyIntervals(score)) : '',
+        },
+      });
+    }
+
+    if (hymns.length) {
+      this.logger.log(`Indexed the melodies of ${hymns.length} hymns.`);
+    }
+  }
+
+  /**
+   * Finds the published hymns whose melody contains a fragment typed in
+   * sol-fa. Melodies are compared by their intervals, so a fragment matches
+   * in any key. Hymns where the fragment comes earliest rank first.
+   * @param dto - The fragment and page options.
+   * @returns The intervals searched for and a page of hymns with the note each match starts on.
+   * @throws BadRequestException if the fragment cannot be read.
+   */
+  async findHymnsByMelody({
+    seq,
+    page = 1,
+    size = 25,
+  }: SearchHymnsByMelodyDto) {
+    const { intervals, errors } = parseMelody(seq);
+    if (errors.length) {
+      throw new BadRequestException(errors);
+    }
+
+    const code = encodeMelody(intervals);
+    const cacheKey = `${CacheKeysEnums.HYMNS}:melody:${JSON.stringify({
+      code,
+      page,
+      size,
+    })}`;
+
+    const cachedData = await this.cacheService.get(cacheKey);
+    if (cachedData) {
+      return cachedData;
+    }
+
+    // The code is only letters, so it needs no escaping within LIKE
+    const skip = (page - 1) * size;
+    const rows = await this.prisma.$queryRaw<IHymnMelodyMatch[]>(Prisma.sql`
+      SELECT h.id, ${PRIMARY_NUMBER_SQL} AS number, h.title, h.slug,
+        strpos(h."melodyIntervals", ${code})::int AS position,
+        COUNT(*) OVER()::int AS total
+      FROM hymns h
+      WHERE h."deletedAt" IS NULL
+        AND h.status = 'Published'
+        AND h."melodyIntervals" LIKE ${`%${code}%`}
+      ORDER BY position, number NULLS LAST, h.id
+      LIMIT ${size} OFFSET ${skip}
+    `);
+
+    const pageItems = rows.map(({ id, number, title, slug, position }) => ({
+      id,
+      number,
+      title,
+      slug,
+      position,
+    }));
+    const totalItems = rows[0]?.total ?? 0;
+
+    const result = {
+      query: intervals,
+      pageItems,
+      pageMeta: {
+        itemCount: pageItems.length,
+        totalItems,
+        itemsPerPage: size,
+        totalPages: Math.ceil(totalItems / size),
+        currentPage: page,
+      },
+    };
+
+    await this.cacheService.set(cacheKey, result, 300000);
+
+    return result;
+  }
+}
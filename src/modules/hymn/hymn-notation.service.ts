@@ -0,0 +1,491 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  InternalServerErrorException,
+  NotFoundException,
+} from '@nestjs/common';
+import { HymnStatus, User } from '@prisma/client';
+import { PrismaService } from 'src/common/prisma/prisma.service';
+import { AuditLogService } from 'src/common/audit-log/audit-log.service';
+import { CacheService } from 'src/common/cache/cache.service';
+import { CacheKeysEnums } from '@@/common/cache/cache.enum';
+import { UpdateSolfaNotationDto } from '@@/modules/hymn/dto/solfa-notation.dto';
+import { UpdateAbcNotationDto } from '@@/modules/hymn/dto/abc-notation.dto';
+import { parseSolfa, SOLFA_PART_NAMES } from '@@/modules/hymn/notation/solfa';
+import { renderSolfaSvg } from '@@/modules/hymn/notation/solfa-svg';
+import { renderSolfaMidi } from '@@/modules/hymn/notation/midi';
+import { abcBarEnds, parseAbc } from '@@/modules/hymn/notation/abc';
+import { renderAbcSvg } from '@@/modules/hymn/notation/abc-svg';
+import { abcToSolfa } from '@@/modules/hymn/notation/abc-solfa';
+import { encodeMelody, melodyIntervals } from '@@/modules/hymn/notation/melody';
+import { PRIMARY_HYMNBOOK_ENTRY } from '@@/modules/hymnbook/hymnbook.service';
+import { HymnRevisionService } from '@@/modules/hymn/hymn-revision.service';
+import {
+  DEFAULT_TEMPO,
+  IAbcTune,
+  IHymnExportFile,
+  ISolfaScore,
+  SolfaPart,
+} from '@@/modules/hymn/interfaces';
+
+// Files are cached by the hymn's last change, so they never go stale
+const MIDI_CACHE_TTL = 24 * 60 * 60 * 1000;
+
+@Injectable()
+export class HymnNotationService {
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditLogService,
+    private cacheService: CacheService,
+    private revisionService: HymnRevisionService,
+  ) {}
+
+  /**
+   * Fetches the sol-fa notation of a hymn.
+   * @param hymnId - The ID of the hymn.
+   * @param user - The signed-in user, if any.
+   * @returns The source with its key, time, parts and size.
+   * @throws NotFoundException if the hymn does not exist or has no notation.
+   */
+  async fetchSolfa(hymnId: string, user?: User) {
+    const { solfaNotation } = await this.findNotationOrThrow(
+      hymnId,
+      'solfa',
+      user,
+    );
+
+    return this.toSolfaResponse(hymnId, solfaNotation);
+  }
+
+  /**
+   * Saves the sol-fa notation of a hymn, replacing any it had. The notation
+   * is parsed first and refused if it has errors, and its melody is indexed
+   * for melody search.
+   * @param hymnId - The ID of the hymn.
+   * @param updateData - The notation source.
+   * @param user - The user saving the notation.
+   * @returns The source with its key, time, parts and size.
+   * @throws NotFoundException if the hymn does not exist.
+   * @throws BadRequestException with the line and column of every error in the notation.
+   * @throws ConflictException if the hymn was changed at the same time; retry.
+   */
+  async updateSolfa(
+    hymnId: string,
+    updateData: UpdateSolfaNotationDto,
+    user: User,
+  ) {
+    const source = updateData.source.trim();
+    const score = this.parseOrThrow(source);
+
+    await this.findHymnOrThrow(hymnId);
+
+    try {
+      await this.prisma.$transaction(async (tx) => {
+        await tx.hymn.update({
+          where: { id: hymnId },
+          data: {
+            solfaNotation: source,
+            melodyIntervals: encodeMelody(melodyIntervals(score)),
+            updatedById: user.id,
+          },
+        });
+        await this.revisionService.record(tx, hymnId, user, 'UPDATE');
+      });
+
+      await this.auditService.log({
+        action: 'UPDATE',
+        entityType: 'HYMN',
+        entityId: hymnId,
+        userId: user.id,
+        description: `Sol-fa notation of hymn ${hymnId} saved by user ${user.id}`,
+      });
+
+      return this.toSolfaResponse(hymnId, source);
+    } catch (error) {
+      this.handleError(error, 'saving the sol-fa notation');
+    }
+  }
+
+  /**
+   * Removes the sol-fa notation of a hymn.
+   * @param hymnId - The ID of the hymn.
+   * @param user - The user removing the notation.
+   * @throws NotFoundException if the hymn does not exist or has no notation.
+   * @throws ConflictException if the hymn was changed at the same time; retry.
+   */
+  async deleteSolfa(hymnId: string, user: User) {
+    await this.findNotationOrThrow(hymnId, 'solfa', user);
+
+    try {
+      await this.prisma.$transaction(async (tx) => {
+        await tx.hymn.update({
+          where: { id: hymnId },
+          data: {
+            solfaNotation: null,
+            melodyIntervals: null,
+            updatedById: user.id,
+          },
+        });
+        await this.revisionService.record(tx, hymnId, user, 'UPDATE');
+      });
+
+      await this.auditService.log({
+        action: 'UPDATE',
+        entityType: 'HYMN',
+        entityId: hymnId,
+        userId: user.id,
+        description: `Sol-fa notation of hymn ${hymnId} removed by user ${user.id}`,
+      });
+
+      return { hymnId };
+    } catch (error) {
+      this.handleError(error, 'removing the sol-fa notation');
+    }
+  }
+
+  /**
+   * Renders the sol-fa notation of a hymn as an SVG score, with the words
+   * of its verses and choruses under the systems they are sung to.
+   * @param hymnId - The ID of the hymn.
+   * @param user - The signed-in user, if any.
+   * @returns The SVG with its content type and a filename from the slug.
+   * @throws NotFoundException if the hymn does not exist or has no notation.
+   */
+  async renderSolfa(hymnId: string, user?: User): Promise<IHymnExportFile> {
+    const hymn = await this.findNotationOrThrow(hymnId, 'solfa', user);
+    const score = this.parseOrThrow(hymn.solfaNotation);
+
+    return {
+      filename: `${hymn.slug}-solfa.svg`,
+      contentType: 'image/svg+xml; charset=utf-8',
+      content: renderSolfaSvg(score, {
+        title: hymn.title,
+        number: hymn.hymnbooks[0]?.number,
+        verses: hymn.verses.map((verse) => verse.text),
+        choruses: hymn.choruses.map((chorus) => chorus.text),
+      }),
+    };
+  }
+
+  /**
+   * Generates a Standard MIDI File from the sol-fa notation of a hymn, one
+   * track per part. The key is the hymn's, else the notation's, else C, and
+   * the tempo the hymn's, else 90 beats per minute. Files are cached until
+   * the hymn changes.
+   * @param hymnId - The ID of the hymn.
+   * @param parts - The parts to play; all of them by default.
+   * @param user - The signed-in user, if any.
+   * @returns The MIDI file with its content type and a filename from the slug.
+   * @throws NotFoundException if the hymn does not exist or has no notation.
+   * @throws BadRequestException if the notation has no line for a requested part.
+   */
+  async renderMidi(
+    hymnId: string,
+    parts?: SolfaPart[],
+    user?: User,
+  ): Promise<IHymnExportFile> {
+    const hymn = await this.findNotationOrThrow(hymnId, 'solfa', user);
+    const score = this.parseOrThrow(hymn.solfaNotation);
+
+    const missing = parts?.filter((part) => !score.parts.includes(part));
+    if (missing?.length) {
+      throw new BadRequestException(
+        `The notation has no ${missing.map((part) => SOLFA_PART_NAMES[part]).join(' or ')} part.`,
+      );
+    }
+
+    // Played in score order, however they were asked for
+    const played = score.parts.filter((part) => !parts || parts.includes(part));
+    const suffix = parts ? `-${played.join('').toLowerCase()}` : '';
+    const file = {
+      filename: `${hymn.slug}${suffix}.mid`,
+      contentType: 'audio/midi',
+    };
+
+    const cacheKey = `${CacheKeysEnums.HYMNS}:midi:${hymnId}:${hymn.updatedAt.getTime()}:${played.join('')}`;
+    // Redis keeps strings, so the file is cached as base64
+    const cachedData = await this.cacheService.get<string>(cacheKey);
+    if (cachedData) {
+      return { ...file, content: Buffer.from(cachedData, 'base64') };
+    }
+
+    const number = hymn.hymnbooks[0]?.number;
+    const content = renderSolfaMidi(score, {
+      title: number != null ? `${number}. ${hymn.title}` : hymn.title,
+      key: hymn.key ?? score.key ?? 'C',
+      tempo: hymn.tempo ?? DEFAULT_TEMPO,
+      parts: played,
+    });
+
+    await this.cacheService.set(
+      cacheKey,
+      content.toString('base64'),
+      MIDI_CACHE_TTL,
+    );
+
+    return { ...file, content };
+  }
+
+  /**
+   * Fetches the ABC notation of a hymn.
+   * @param hymnId - The ID of the hymn.
+   * @param user - The signed-in user, if any.
+   * @returns The source with its title, key, meter, voices and size.
+   * @throws NotFoundException if the hymn does not exist or has no ABC notation.
+   */
+  async fetchAbc(hymnId: string, user?: User) {
+    const { abcNotation } = await this.findNotationOrThrow(hymnId, 'abc', user);
+
+    return this.toAbcResponse(hymnId, abcNotation);
+  }
+
+  /**
+   * Saves the ABC notation of a hymn, replacing any it had. The tune is
+   * parsed first and refused if it has errors.
+   * @param hymnId - The ID of the hymn.
+   * @param updateData - The ABC source.
+   * @param user - The user saving the notation.
+   * @returns The source with its title, key, meter, voices and size.
+   * @throws NotFoundException if the hymn does not exist.
+   * @throws BadRequestException with the line and column of every error in the tune.
+   * @throws ConflictException if the hymn was changed at the same time; retry.
+   */
+  async updateAbc(
+    hymnId: string,
+    updateData: UpdateAbcNotationDto,
+    user: User,
+  ) {
+    const source = updateData.source.trim();
+    this.parseAbcOrThrow(source);
+
+    await this.findHymnOrThrow(hymnId);
+
+    try {
+      await this.prisma.$transaction(async (tx) => {
+        await tx.hymn.update({
+          where: { id: hymnId },
+          data: { abcNotation: source, updatedById: user.id },
+        });
+        await this.revisionService.record(tx, hymnId, user, 'UPDATE');
+      });
+
+      await this.auditService.log({
+        action: 'UPDATE',
+        entityType: 'HYMN',
+        entityId: hymnId,
+        userId: user.id,
+        description: `ABC notation of hymn ${hymnId} saved by user ${user.id}`,
+      });
+
+      return this.toAbcResponse(hymnId, source);
+    } catch (error) {
+      this.handleError(error, 'saving the ABC notation');
+    }
+  }
+
+  /**
+   * Removes the ABC notation of a hymn.
+   * @param hymnId - The ID of the hymn.
+   * @param user - The user removing the notation.
+   * @throws NotFoundException if the hymn does not exist or has no ABC notation.
+   * @throws ConflictException if the hymn was changed at the same time; retry.
+   */
+  async deleteAbc(hymnId: string, user: User) {
+    await this.findNotationOrThrow(hymnId, 'abc', user);
+
+    try {
+      await this.prisma.$transaction(async (tx) => {
+        await tx.hymn.update({
+          where: { id: hymnId },
+          data: { abcNotation: null, updatedById: user.id },
+        });
+        await this.revisionService.record(tx, hymnId, user, 'UPDATE');
+      });
+
+      await this.auditService.log({
+        action: 'UPDATE',
+        entityType: 'HYMN',
+        entityId: hymnId,
+        userId: user.id,
+        description: `ABC notation of hymn ${hymnId} removed by user ${user.id}`,
+      });
+
+      return { hymnId };
+    } catch (error) {
+      this.handleError(error, 'removing the ABC notation');
+    }
+  }
+
+  /**
+   * Renders the ABC notation of a hymn as sheet music in SVG, with the
+   * words of its `w:` lines under the staves.
+   * @param hymnId - The ID of the hymn.
+   * @param user - The signed-in user, if any.
+   * @returns The SVG with its content type and a filename from the slug.
+   * @throws NotFoundException if the hymn does not exist or has no ABC notation.
+   */
+  async renderAbc(hymnId: string, user?: User): Promise<IHymnExportFile> {
+    const hymn = await this.findNotationOrThrow(hymnId, 'abc', user);
+    const tune = this.parseAbcOrThrow(hymn.abcNotation);
+
+    return {
+      filename: `${hymn.slug}-score.svg`,
+      contentType: 'image/svg+xml; charset=utf-8',
+      content: renderAbcSvg(tune, {
+        title: hymn.title,
+        number: hymn.hymnbooks[0]?.number,
+      }),
+    };
+  }
+
+  /**
+   * Writes the ABC notation of a hymn as tonic sol-fa. The result is an
+   * approximation to review before saving it as the hymn's sol-fa, so it
+   * comes with a warning for everything the conversion had to change.
+   * @param hymnId - The ID of the hymn.
+   * @param user - The signed-in user, if any.
+   * @returns The sol-fa source and the warnings.
+   * @throws NotFoundException if the hymn does not exist or has no ABC notation.
+   * @throws BadRequestException if the tune cannot be written as sol-fa.
+   */
+  async convertAbcToSolfa(hymnId: string, user?: User) {
+    const hymn = await this.findNotationOrThrow(hymnId, 'abc', user);
+    const { source, warnings } = abcToSolfa(
+      this.parseAbcOrThrow(hymn.abcNotation),
+    );
+
+    // The conversion must give sol-fa the hymn could save
+    const { errors } = parseSolfa(source);
+    if (errors.length) {
+      throw new BadRequestException([
+        'The tune could not be written as sol-fa.',
+        ...errors,
+      ]);
+    }
+
+    return { hymnId, source, warnings };
+  }
+
+  private parseOrThrow(source: string): ISolfaScore {
+    const { score, errors } = parseSolfa(source);
+
+    if (errors.length) {
+      throw new BadRequestException(errors);
+    }
+
+    return score;
+  }
+
+  private toSolfaResponse(hymnId: string, source: string) {
+    const { key, time, parts, systems } = this.parseOrThrow(source);
+
+    return {
+      hymnId,
+      source,
+      key,
+      time: time && `${time.beats}/${time.unit}`,
+      parts,
+      systems: systems.length,
+      bars: systems.reduce((sum, system) => sum + system.bars.length, 0),
+    };
+  }
+
+  private parseAbcOrThrow(source: string): IAbcTune {
+    const { tune, errors } = parseAbc(source);
+
+    if (errors.length) {
+      throw new BadRequestException(errors);
+    }
+
+    return tune;
+  }
+
+  private toAbcResponse(hymnId: string, source: string) {
+    const { title, key, meter, voices } = this.parseAbcOrThrow(source);
+
+    return {
+      hymnId,
+      source,
+      title,
+      key: `${key.tonic} ${key.mode}`,
+      meter: meter && `${meter.beats}/${meter.unit}`,
+      voices: voices.map(({ id, name, clef }) => ({ id, name, clef })),
+      bars: abcBarEnds(voices[0]).length,
+    };
+  }
+
+  private async findHymnOrThrow(hymnId: string) {
+    const hymn = await this.prisma.hymn.findFirst({
+      where: { id: hymnId, deletedAt: null },
+      select: { id: true },
+    });
+
+    if (!hymn) {
+      throw new NotFoundException('Hymn not found.');
+    }
+
+    return hymn;
+  }
+
+  // Anonymous requests only see published hymns
+  private async findNotationOrThrow(
+    hymnId: string,
+    format: 'solfa' | 'abc',
+    user?: User,
+  ) {
+    const hymn = await this.prisma.hymn.findFirst({
+      where: {
+        id: hymnId,
+        deletedAt: null,
+        ...(!user && { status: HymnStatus.Published }),
+      },
+      select: {
+        title: true,
+        slug: true,
+        key: true,
+        tempo: true,
+        solfaNotation: true,
+        abcNotation: true,
+        updatedAt: true,
+        hymnbooks: PRIMARY_HYMNBOOK_ENTRY,
+        verses: {
+          where: { deletedAt: null },
+          orderBy: { order: 'asc' },
+          select: { text: true },
+        },
+        choruses: {
+          where: { deletedAt: null },
+          orderBy: { order: 'asc' },
+          select: { text: true },
+        },
+      },
+    });
+
+    if (!hymn) {
+      throw new NotFoundException('Hymn not found.');
+    }
+
+    if (format === 'solfa' && !hymn.solfaNotation) {
+      throw new NotFoundException('This hymn has no sol-fa notation.');
+    }
+
+    if (format === 'abc' && !hymn.abcNotation) {
+      throw new NotFoundException('This hymn has no ABC notation.');
+    }
+
+    return hymn;
+  }
+
+  private handleError(error: any, action: string): never {
+    if (error instanceof ConflictException) {
+      throw error;
+    }
+
+    if (error.code === 'P2025') {
+      throw new NotFoundException('Hymn not found.');
+    }
+
+    throw new InternalServerErrorException(`An error occurred while ${action}`);
+  }
+}
@@ -0,0 +1,231 @@
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { User } from '@prisma/client';
+import { PrismaService } from 'src/common/prisma/prisma.service';
+import { AuditLogService } from 'src/common/audit-log/audit-log.service';
+import { HymnRevisionService } from '@@/modules/hymn/hymn-revision.service';
+import { HymnScriptureService } from '@@/modules/hymn/hymn-scripture.service';
+import { HymnbookService } from '@@/modules/hymnbook/hymnbook.service';
+
+const HYMN_ID = 'hymn';
+const user = { id: 'editor' } as User;
+
+const snapshot = (title: string, verses: { id: string; text: string }[]) => ({
+  title,
+  slug: title.toLowerCase().replace(/ /g, '-'),
+  categoryId: null,
+  tuneId: null,
+  author: null,
+  language: 'en',
+  version: 1,
+  verses: verses.map((verse, idx) => ({ ...verse, order: idx + 1 })),
+  choruses: [],
+});
+
+const conflict = (target: string | string[]) =>
+  Object.assign(new Error('Unique constraint failed'), {
+    code: 'P2002',
+    meta: { target },
+  });
+
+describe('HymnRevisionService', () => {
+  let service: HymnRevisionService;
+  let hymn: Record<string, unknown>;
+  let verses: Record<string, unknown>[];
+  let revisions: Record<string, unknown>[];
+  let tx: Record<string, Record<string, jest.Mock>>;
+
+  beforeEach(async () => {
+    hymn = { id: HYMN_ID, title: 'Now Thank We', deletedAt: null };
+    verses = [
+      { id: 'v1', text: 'Now thank we all our God', order: 1, deletedAt: null },
+      { id: 'v2', text: 'O may this bounteous God', order: 2, deletedAt: null },
+    ];
+    revisions = [
+      {
+        revision: 1,
+        snapshot: snapshot('Now Thank We All Our God', [
+          { id: 'v1', text: 'Now thank we all our God, with heart' },
+        ]),
+      },
+      {
+        revision: 2,
+        snapshot: snapshot('Now Thank We', [
+          { id: 'v1', text: 'Now thank we all our God' },
+          { id: 'v2', text: 'O may this bounteous God' },
+        ]),
+      },
+    ];
+    const liveVerses = () =>
+      verses
+        .filter((verse) => !verse.deletedAt)
+        .map(({ id, text, order }) => ({ id, text, order }));
+
+    tx = {
+      hymn: {
+        findFirst: jest.fn(async ({ where }) =>
+          where.id === hymn.id && !hymn.deletedAt ? { id: hymn.id } : null,
+        ),
+        findUniqueOrThrow: jest.fn(async () => ({
+          ...hymn,
+          category: null,
+          tags: [],
+          scriptures: [],
+          hymnbooks: [],
+          arrangements: [],
+          verses: liveVerses(),
+          choruses: [],
+        })),
+        update: jest.fn(async ({ data }) => Object.assign(hymn, data)),
+      },
+      hymnRevision: {
+        findUnique: jest.fn(async ({ where }) => {
+          const found = revisions.find(
+            (rev) => rev.revision === where.hymnId_revision.revision,
+          );
+          return found ? { snapshot: found.snapshot } : null;
+        }),
+        aggregate: jest.fn(async () => ({
+          _max: {
+            revision: Math.max(
+              ...revisions.map((rev) => rev.revision as number),
+            ),
+          },
+        })),
+        create: jest.fn(async ({ data }) => {
+          revisions.push(data);
+          return data;
+        }),
+      },
+      verse: {
+        updateMany: jest.fn(async ({ where, data }) => {
+          const found = verses.filter(
+            (verse) => !verse.deletedAt && !where.id.notIn.includes(verse.id),
+          );
+          found.forEach((verse) => Object.assign(verse, data));
+          return { count: found.length };
+        }),
+        upsert: jest.fn(async ({ where, update, create }) => {
+          const found = verses.find((verse) => verse.id === where.id);
+          if (found) {
+            return Object.assign(found, update);
+          }
+          verses.push(create);
+          return create;
+        }),
+      },
+      chorus: {
+        updateMany: jest.fn(async () => ({ count: 0 })),
+        upsert: jest.fn(),
+      },
+    };
+
+    const prisma = {
+      hymn: { findUnique: jest.fn(async () => ({ id: HYMN_ID })) },
+      hymnRevision: tx.hymnRevision,
+      $transaction: jest.fn(async (run) => run(tx)),
+    };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        HymnRevisionService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: AuditLogService, useValue: { log: jest.fn() } },
+        {
+          provide: HymnScriptureService,
+          useValue: { replaceReferences: jest.fn() },
+        },
+        { provide: HymnbookService, useValue: { writeEntry: jest.fn() } },
+      ],
+    }).compile();
+
+    service = moduleRef.get(HymnRevisionService);
+  });
+
+  describe('diffRevisions', () => {
+    it('lists the changed fields and verses', async () => {
+      const diff = await service.diffRevisions(HYMN_ID, 1, 2);
+
+      expect(diff.fields.map((change) => change.field)).toEqual([
+        'title',
+        'slug',
+      ]);
+      expect(diff.verses.added.map((verse) => verse.id)).toEqual(['v2']);
+      expect(diff.verses.changed).toEqual([
+        {
+          id: 'v1',
+          from: {
+            id: 'v1',
+            text: 'Now thank we all our God, with heart',
+            order: 1,
+          },
+          to: { id: 'v1', text: 'Now thank we all our God', order: 1 },
+        },
+      ]);
+    });
+  });
+
+  describe('rollback', () => {
+    it('restores the verses of the revision and records the rollback', async () => {
+      const recorded = await service.rollback(HYMN_ID, 1, user);
+
+      expect(recorded).toMatchObject({
+        revision: 3,
+        action: 'ROLLBACK',
+        restoredFrom: 1,
+      });
+      expect(hymn.title).toBe('Now Thank We All Our God');
+      expect(verses).toEqual([
+        expect.objectContaining({
+          id: 'v1',
+          text: 'Now thank we all our God, with heart',
+          deletedAt: null,
+        }),
+        expect.objectContaining({ id: 'v2', deletedAt: expect.any(Date) }),
+      ]);
+      expect(recorded.snapshot).toMatchObject({
+        verses: [{ id: 'v1', text: 'Now thank we all our God, with heart' }],
+      });
+    });
+
+    it('refuses to roll back a deleted hymn', async () => {
+      hymn.deletedAt = new Date();
+
+      await expect(service.rollback(HYMN_ID, 1, user)).rejects.toThrow(
+        new NotFoundException('Hymn not found.'),
+      );
+      expect(tx.hymn.update).not.toHaveBeenCalled();
+    });
+
+    it('refuses a revision the hymn does not have', async () => {
+      await expect(service.rollback(HYMN_ID, 5, user)).rejects.toThrow(
+        new NotFoundException('Revision 5 not found.'),
+      );
+    });
+
+    it('names what a restored value clashes with', async () => {
+      tx.hymn.update
+        .mockRejectedValueOnce(conflict(['slug']))
+        .mockRejectedValueOnce(conflict(['translationGroupId', 'language']))
+        .mockRejectedValueOnce(conflict(['hymnbookId', 'number']))
+        .mockRejectedValueOnce(conflict('author'));
+
+      const messages = [];
+      for (let idx = 0; idx < 4; idx++) {
+        messages.push(
+          await service.rollback(HYMN_ID, 1, user).catch((error) => {
+            expect(error).toBeInstanceOf(ConflictException);
+            return error.message;
+          }),
+        );
+      }
+
+      expect(messages).toEqual([
+        'A hymn with this title already exists.',
+        'A translation of this hymn already uses that language.',
+        'A restored hymnbook number is already used by another hymn.',
+        'The restored author is already taken.',
+      ]);
+    });
+  });
+});
@@ -0,0 +1,526 @@
+import {
+  ConflictException,
+  Injectable,
+  InternalServerErrorException,
+  NotFoundException,
+} from '@nestjs/common';
+import { HymnRevisionAction, Prisma, User } from '@prisma/client';
+import { PrismaService } from 'src/common/prisma/prisma.service';
+import { AuditLogService } from 'src/common/audit-log/audit-log.service';
+import {
+  IFieldChange,
+  IHymnRevisionDiff,
+  IHymnSnapshot,
+  IItemChange,
+} from '@@/modules/hymn/interfaces';
+import {
+  HymnScriptureService,
+  SCRIPTURE_SELECT,
+} from '@@/modules/hymn/hymn-scripture.service';
+import { HymnbookService } from '@@/modules/hymnbook/hymnbook.service';
+import { parseSolfa } from '@@/modules/hymn/notation/solfa';
+import { encodeMelody, melodyIntervals } from '@@/modules/hymn/notation/melody';
+
+const SNAPSHOT_FIELDS: (keyof IHymnSnapshot)[] = [
+  'title',
+  'slug',
+  'categoryId',
+  'tuneId',
+  'author',
+  'language',
+  'version',
+  'key',
+  'tempo',
+  'solfaNotation',
+  'abcNotation',
+  'status',
+  'tagIds',
+  'scriptures',
+  'hymnbooks',
+  'arrangements',
+];
+
+@Injectable()
+export class HymnRevisionService {
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditLogService,
+    private scriptureService: HymnScriptureService,
+    private hymnbookService: HymnbookService,
+  ) {}
+
+  /**
+   * Snapshots the current state of a hymn as its next revision.
+   * Call this inside the transaction that changed the hymn so the
+   * snapshot and the change are committed together.
+   * @param tx - The transaction client the change was made with.
+   * @param hymnId - The ID of the hymn to snapshot.
+   * @param user - The user who made the change.
+   * @param action - What kind of change produced this revision.
+   * @param restoredFrom - The revision number a rollback restored.
+   * @returns The created revision.
+   * @throws ConflictException if another change to the hymn took the revision
+   * number first; the change can be retried.
+   */
+  async record(
+    tx: Prisma.TransactionClient,
+    hymnId: string,
+    user: User,
+    action: HymnRevisionAction,
+    restoredFrom?: number,
+  ) {
+    const hymn = await tx.hymn.findUniqueOrThrow({
+      where: { id: hymnId },
+      include: {
+        category: { select: { id: true, name: true } },
+        tags: { select: { id: true }, orderBy: { id: 'asc' } },
+        scriptures: {
+          select: { ...SCRIPTURE_SELECT, start: true, end: true },
+          orderBy: { start: 'asc' },
+        },
+        hymnbooks: {
+          select: { hymnbookId: true, number: true },
+          orderBy: { hymnbookId: 'asc' },
+        },
+        arrangements: {
+          where: { deletedAt: null },
+          orderBy: { createdAt: 'asc' },
+          select: {
+            id: true,
+            name: true,
+            isDefault: true,
+            items: {
+              orderBy: { position: 'asc' },
+              select: { verseId: true, chorusId: true },
+            },
+          },
+        },
+        verses: {
+          where: { deletedAt: null },
+          orderBy: { order: 'asc' },
+          select: { id: true, text: true, order: true },
+        },
+        choruses: {
+          where: { deletedAt: null },
+          orderBy: { order: 'asc' },
+          select: { id: true, text: true, order: true },
+        },
+      },
+    });
+
+    const snapshot: IHymnSnapshot = {
+      title: hymn.title,
+      slug: hymn.slug,
+      categoryId: hymn.categoryId,
+      category: hymn.category,
+      tuneId: hymn.tuneId,
+      author: hymn.author,
+      language: hymn.language,
+      version: hymn.version,
+      key: hymn.key,
+      tempo: hymn.tempo,
+      solfaNotation: hymn.solfaNotation,
+      abcNotation: hymn.abcNotation,
+      status: hymn.status,
+      tagIds: hymn.tags.map((tag) => tag.id),
+      scriptures: hymn.scriptures,
+      hymnbooks: hymn.hymnbooks,
+      arrangements: hymn.arrangements,
+      verses: hymn.verses,
+      choruses: hymn.choruses,
+    };
+
+    const latest = await tx.hymnRevision.aggregate({
+      where: { hymnId },
+      _max: { revision: true },
+    });
+
+    try {
+      return await tx.hymnRevision.create({
+        data: {
+          hymnId,
+          revision: (latest._max.revision ?? 0) + 1,
+          action,
+          snapshot: snapshot as unknown as Prisma.InputJsonValue,
+          restoredFrom,
+          createdById: user.id,
+        },
+      });
+    } catch (error) {
+      // Two changes saved at once both read the same latest revision
+      if (error.code === 'P2002') {
+        throw new ConflictException(
+          'The hymn was changed by someone else at the same time, please try again.',
+        );
+      }
+
+      throw error;
+    }
+  }
+
+  /**
+   * Fetches the revision history of a hymn, newest first.
+   * @param hymnId - The ID of the hymn.
+   * @returns The revisions without their snapshots.
+   * @throws NotFoundException if the hymn does not exist.
+   */
+  async fetchRevisions(hymnId: string) {
+    const hymn = await this.prisma.hymn.findUnique({
+      where: { id: hymnId },
+      select: { id: true },
+    });
+
+    if (!hymn) {
+      throw new NotFoundException('Hymn not found.');
+    }
+
+    return this.prisma.hymnRevision.findMany({
+      where: { hymnId },
+      orderBy: { revision: 'desc' },
+      select: {
+        id: true,
+        revision: true,
+        action: true,
+        restoredFrom: true,
+        createdAt: true,
+        createdBy: {
+          select: { id: true, firstName: true, lastName: true },
+        },
+      },
+    });
+  }
+
+  /**
+   * Compares two revisions of a hymn field by field and verse by verse.
+   * @param hymnId - The ID of the hymn.
+   * @param from - The older revision number.
+   * @param to - The newer revision number.
+   * @returns The changed fields and the added, removed and changed verses and choruses.
+   * @throws NotFoundException if either revision does not exist.
+   */
+  async diffRevisions(
+    hymnId: string,
+    from: number,
+    to: number,
+  ): Promise<IHymnRevisionDiff> {
+    const [fromSnapshot, toSnapshot] = await Promise.all([
+      this.fetchSnapshot(hymnId, from),
+      this.fetchSnapshot(hymnId, to),
+    ]);
+
+    const fields = SNAPSHOT_FIELDS.reduce((acc, field) => {
+      // Snapshots taken before a field existed leave it out
+      const fromValue = fromSnapshot[field] ?? null;
+      const toValue = toSnapshot[field] ?? null;
+      if (JSON.stringify(fromValue) !== JSON.stringify(toValue)) {
+        acc.push({
+          field,
+          from: fromValue,
+          to: toValue,
+        });
+      }
+      return acc;
+    }, [] as IFieldChange[]);
+
+    return {
+      from,
+      to,
+      fields,
+      verses: this.diffItems(fromSnapshot.verses, toSnapshot.verses),
+      choruses: this.diffItems(fromSnapshot.choruses, toSnapshot.choruses),
+    };
+  }
+
+  /**
+   * Restores a hymn to the state captured in one of its revisions: its
+   * fields and notation, tags, scripture references, hymnbook numbers,
+   * arrangements, verses and choruses. Verses, choruses and arrangements
+   * missing from the snapshot are soft-deleted, tags and hymnbooks deleted
+   * since are passed over, and what a snapshot predates is left as it is.
+   * The rollback itself is recorded as a new revision. The editorial status
+   * is left as it is.
+   * @param hymnId - The ID of the hymn.
+   * @param revision - The revision number to restore.
+   * @param user - The user performing the rollback.
+   * @returns The revision recording the rollback.
+   * @throws NotFoundException if the hymn is deleted or the revision does not exist.
+   * @throws ConflictException if the restored title, language or a restored
+   * hymnbook number is now taken.
+   */
+  async rollback(hymnId: string, revision: number, user: User) {
+    try {
+      return await this.prisma.$transaction(async (tx) => {
+        // A deleted hymn is restored first, then rolled back
+        const hymn = await tx.hymn.findFirst({
+          where: { id: hymnId, deletedAt: null },
+          select: { id: true },
+        });
+        if (!hymn) {
+          throw new NotFoundException('Hymn not found.');
+        }
+
+        const snapshot = await this.fetchSnapshot(hymnId, revision, tx);
+        const now = new Date();
+
+        const tags =
+          snapshot.tagIds &&
+          (await tx.tag.findMany({
+            where: { id: { in: snapshot.tagIds } },
+            select: { id: true },
+          }));
+
+        await tx.hymn.update({
+          where: { id: hymnId },
+          data: {
+            title: snapshot.title,
+            slug: snapshot.slug,
+            categoryId: snapshot.categoryId,
+            tuneId: snapshot.tuneId,
+            author: snapshot.author,
+            language: snapshot.language,
+            version: snapshot.version,
+            ...(snapshot.key !== undefined && { key: snapshot.key }),
+            ...(snapshot.tempo !== undefined && { tempo: snapshot.tempo }),
+            ...(snapshot.abcNotation !== undefined && {
+              abcNotation: snapshot.abcNotation,
+            }),
+            ...(snapshot.solfaNotation !== undefined && {
+              solfaNotation: snapshot.solfaNotation,
+              melodyIntervals: this.indexMelody(snapshot.solfaNotation),
+            }),
+            ...(tags && { tags: { set: tags } }),
+            updatedById: user.id,
+            updatedAt: now,
+          },
+        });
+
+        if (snapshot.scriptures) {
+          await this.scriptureService.replaceReferences(
+            tx,
+            hymnId,
+            snapshot.scriptures,
+          );
+        }
+
+        // Soft-delete verses and choruses the snapshot did not have
+        await tx.verse.updateMany({
+          where: {
+            hymnId,
+            deletedAt: null,
+            id: { notIn: snapshot.verses.map((v) => v.id) },
+          },
+          data: { deletedAt: now, updatedById: user.id },
+        });
+        await tx.chorus.updateMany({
+          where: {
+            hymnId,
+            deletedAt: null,
+            id: { notIn: snapshot.choruses.map((c) => c.id) },
+          },
+          data: { deletedAt: now, updatedById: user.id },
+        });
+
+        // Bring back the snapshot's verses and choruses as they were
+        for (const { id, text, order } of snapshot.verses) {
+          await tx.verse.upsert({
+            where: { id },
+            update: { text, order, deletedAt: null, updatedById: user.id },
+            create: { id, hymnId, text, order, createdById: user.id },
+          });
+        }
+        for (const { id, text, order } of snapshot.choruses) {
+          await tx.chorus.upsert({
+            where: { id },
+            update: { text, order, deletedAt: null, updatedById: user.id },
+            create: { id, hymnId, text, order, createdById: user.id },
+          });
+        }
+
+        if (snapshot.hymnbooks) {
+          await this.restoreHymnbooks(tx, hymnId, snapshot.hymnbooks);
+        }
+
+        if (snapshot.arrangements) {
+          await this.restoreArrangements(
+            tx,
+            hymnId,
+            snapshot.arrangements,
+            user,
+            now,
+          );
+        }
+
+        const rollbackRevision = await this.record(
+          tx,
+          hymnId,
+          user,
+          'ROLLBACK',
+          revision,
+        );
+
+        await this.auditService.log({
+          action: 'UPDATE',
+          entityType: 'HYMN',
+          entityId: hymnId,
+          userId: user.id,
+          description: `Hymn "${snapshot.title}" rolled back to revision ${revision} by user ${user.id}`,
+        });
+
+        return rollbackRevision;
+      });
+    } catch (error) {
+      if (
+        error instanceof NotFoundException ||
+        error instanceof ConflictException
+      ) {
+        throw error;
+      }
+
+      if (error.code === 'P2002') {
+        throw new ConflictException(this.conflictMessage(error.meta?.target));
+      }
+
+      throw new InternalServerErrorException(
+        'An error occurred while rolling back the hymn',
+      );
+    }
+  }
+
+  // Names what a restored value clashes with, from the fields of the unique
+  // constraint it broke
+  private conflictMessage(target: string | string[] | undefined) {
+    const fields = [target ?? []].flat();
+
+    if (fields.includes('slug')) {
+      return 'A hymn with this title already exists.';
+    }
+    if (fields.includes('language')) {
+      return 'A translation of this hymn already uses that language.';
+    }
+    if (fields.includes('number')) {
+      return 'A restored hymnbook number is already used by another hymn.';
+    }
+    return fields.length
+      ? `The restored ${fields.join(' and ')} is already taken.`
+      : 'A restored value is already taken.';
+  }
+
+  // Numbers in books deleted since the revision are left alone
+  private async restoreHymnbooks(
+    tx: Prisma.TransactionClient,
+    hymnId: string,
+    entries: IHymnSnapshot['hymnbooks'],
+  ) {
+    const books = await tx.hymnbook.findMany({
+      where: {
+        id: { in: entries.map((entry) => entry.hymnbookId) },
+        deletedAt: null,
+      },
+      select: { id: true },
+    });
+    const liveIds = new Set(books.map((book) => book.id));
+    const kept = entries.filter((entry) => liveIds.has(entry.hymnbookId));
+
+    await tx.hymnbookEntry.deleteMany({
+      where: {
+        hymnId,
+        hymnbook: { deletedAt: null },
+        hymnbookId: { notIn: kept.map((entry) => entry.hymnbookId) },
+      },
+    });
+    for (const { hymnbookId, number } of kept) {
+      await this.hymnbookService.writeEntry(tx, hymnbookId, hymnId, number);
+    }
+  }
+
+  private async restoreArrangements(
+    tx: Prisma.TransactionClient,
+    hymnId: string,
+    arrangements: IHymnSnapshot['arrangements'],
+    user: User,
+    now: Date,
+  ) {
+    await tx.hymnArrangement.updateMany({
+      where: {
+        hymnId,
+        deletedAt: null,
+        id: { notIn: arrangements.map((arrangement) => arrangement.id) },
+      },
+      data: { deletedAt: now, isDefault: false, updatedById: user.id },
+    });
+
+    for (const { id, name, isDefault, items } of arrangements) {
+      await tx.hymnArrangement.upsert({
+        where: { id },
+        update: { name, isDefault, deletedAt: null, updatedById: user.id },
+        create: {
+          id,
+          hymnId,
+          name,
+          isDefault,
+          createdById: user.id,
+          updatedById: user.id,
+        },
+      });
+      await tx.hymnArrangementItem.deleteMany({ where: { arrangementId: id } });
+      await tx.hymnArrangementItem.createMany({
+        data: items.map((item, idx) => ({
+          ...item,
+          arrangementId: id,
+          position: idx + 1,
+        })),
+      });
+    }
+  }
+
+  // Notation that no longer parses is indexed as having no melody
+  private indexMelody(solfaNotation: string | null) {
+    if (!solfaNotation) {
+      return null;
+    }
+
+    const { score } = parseSolfa(solfaNotation);
+    return score ? encodeMelody(melodyIntervals(score)) : '';
+  }
+
+  private async fetchSnapshot(
+    hymnId: string,
+    revision: number,
+    client: Prisma.TransactionClient = this.prisma,
+  ): Promise<IHymnSnapshot> {
+    const found = await client.hymnRevision.findUnique({
+      where: { hymnId_revision: { hymnId, revision } },
+      select: { snapshot: true },
+    });
+
+    if (!found) {
+      throw new NotFoundException(`Revision ${revision} not found.`);
+    }
+
+    return found.snapshot as unknown as IHymnSnapshot;
+  }
+
+  private diffItems<T extends { id: string }>(
+    fromItems: T[],
+    toItems: T[],
+  ): IItemChange<T> {
+    const fromById = new Map(fromItems.map((item) => [item.id, item]));
+    const toIds = new Set(toItems.map((item) => item.id));
+
+    return {
+      added: toItems.filter((item) => !fromById.has(item.id)),
+      removed: fromItems.filter((item) => !toIds.has(item.id)),
+      changed: toItems
+        .filter(
+          (item) =>
+            fromById.has(item.id) &&
+            JSON.stringify(fromById.get(item.id)) !== JSON.stringify(item),
+        )
+        .map((item) => ({
+          id: item.id,
+          from: fromById.get(item.id),
+          to: item,
+        })),
+    };
+  }
+}
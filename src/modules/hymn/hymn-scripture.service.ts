@@ -0,0 +1,146 @@
+import { BadRequestException, Injectable } from '@nestjs/common';
+import { Prisma } from '@prisma/client';
+import { PrismaService } from 'src/common/prisma/prisma.service';
+import { CacheService } from 'src/common/cache/cache.service';
+import { CacheKeysEnums } from '@@/common/cache/cache.enum';
+import { parseScriptureReference } from '@@/modules/hymn/scripture';
+import {
+  IScriptureHymnMatch,
+  IScriptureRange,
+} from '@@/modules/hymn/interfaces';
+import { PRIMARY_HYMNBOOK_ENTRY } from '@@/modules/hymnbook/hymnbook.service';
+
+export const SCRIPTURE_SELECT = {
+  reference: true,
+  book: true,
+  startChapter: true,
+  startVerse: true,
+  endChapter: true,
+  endVerse: true,
+} satisfies Prisma.HymnScriptureSelect;
+
+@Injectable()
+export class HymnScriptureService {
+  constructor(
+    private prisma: PrismaService,
+    private cacheService: CacheService,
+  ) {}
+
+  /**
+   * Parses scripture references such as `Ps 23:1-4` or `Psalm 23` into
+   * normalized ranges. A reference may list several passages.
+   * @param references - The references as typed.
+   * @returns Every passage the references cover, without duplicates.
+   * @throws BadRequestException if any reference cannot be read.
+   */
+  parseReferences(references: string[]) {
+    const errors: string[] = [];
+    const ranges = new Map<string, IScriptureRange>();
+
+    for (const reference of references) {
+      const parsed = parseScriptureReference(reference);
+      errors.push(...parsed.errors);
+      parsed.ranges.forEach((range) =>
+        ranges.set(`${range.start}-${range.end}`, range),
+      );
+    }
+
+    if (errors.length) {
+      throw new BadRequestException(errors);
+    }
+
+    return [...ranges.values()];
+  }
+
+  /**
+   * Replaces the scripture references of a hymn. Call this inside the
+   * transaction that changes the hymn.
+   * @param tx - The transaction client.
+   * @param hymnId - The ID of the hymn.
+   * @param ranges - The parsed references; an empty list clears them.
+   */
+  async replaceReferences(
+    tx: Prisma.TransactionClient,
+    hymnId: string,
+    ranges: IScriptureRange[],
+  ) {
+    await tx.hymnScripture.deleteMany({ where: { hymnId } });
+    await tx.hymnScripture.createMany({
+      data: ranges.map((range) => ({ ...range, hymnId })),
+    });
+  }
+
+  /**
+   * Finds the published hymns with a scripture reference that overlaps the
+   * queried passage, so `Psalm 23` finds hymns on `Ps 23:1-4` and the other
+   * way round. Hymns whose reference is closest to the passage come first.
+   * @param ref - The passage, e.g. `Ps 23` or `John 3:16`.
+   * @returns The normalized passage and the matching hymns with the references that matched.
+   * @throws BadRequestException if the passage cannot be read.
+   */
+  async findHymnsByScripture(ref: string) {
+    const ranges = this.parseReferences([ref]);
+
+    const cacheKey = `${CacheKeysEnums.HYMNS}:scripture:${ranges
+      .map((range) => `${range.start}-${range.end}`)
+      .join(',')}`;
+
+    const cachedData = await this.cacheService.get(cacheKey);
+    if (cachedData) {
+      return cachedData;
+    }
+
+    const matches = await this.prisma.hymnScripture.findMany({
+      where: {
+        OR: ranges.map(({ start, end }) => ({
+          start: { lte: end },
+          end: { gte: start },
+        })),
+        hymn: { deletedAt: null, status: 'Published' },
+      },
+      orderBy: { start: 'asc' },
+      select: {
+        reference: true,
+        start: true,
+        end: true,
+        hymn: {
+          select: {
+            id: true,
+            title: true,
+            slug: true,
+            hymnbooks: PRIMARY_HYMNBOOK_ENTRY,
+          },
+        },
+      },
+    });
+
+    // The narrowest matching reference is how closely a hymn fits the passage
+    const spans = new Map<string, number>();
+    const hymns = new Map<string, IScriptureHymnMatch>();
+    for (const { hymn, reference, start, end } of matches) {
+      const entry = hymns.get(hymn.id) ?? {
+        id: hymn.id,
+        number: hymn.hymnbooks[0]?.number ?? null,
+        title: hymn.title,
+        slug: hymn.slug,
+        references: [],
+      };
+      entry.references.push(reference);
+      hymns.set(hymn.id, entry);
+      spans.set(hymn.id, Math.min(spans.get(hymn.id) ?? Infinity, end - start));
+    }
+
+    const result = {
+      query: ranges.map((range) => range.reference),
+      hymns: [...hymns.values()].sort(
+        (a, b) =>
+          spans.get(a.id) - spans.get(b.id) ||
+          (a.number ?? Infinity) - (b.number ?? Infinity),
+      ),
+    };
+
+    await this.cacheService.set(cacheKey, result, 300000);
+
+    return result;
+  }
+}
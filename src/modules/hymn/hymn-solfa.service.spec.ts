@@ -0,0 +1,279 @@
+import { BadRequestException } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { PrismaService } from 'src/common/prisma/prisma.service';
+import { AuditLogService } from 'src/common/audit-log/audit-log.service';
+import { StorageService } from '@@/common/cloudinary/storage.service';
+import { MediaService } from '@@/common/media/media.service';
+import { HymnSolfaService } from '@@/modules/hymn/hymn-solfa.service';
+import { MediaQueueProducer } from '@@/modules/hymn/queue/media.producer';
+
+const HYMN_ID = '6f1c2b7e-0b8a-4f57-9d43-1c0e5a7b2d10';
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+const file = (key: string, ageMs: number) => ({
+  key,
+  lastModified: new Date(Date.now() - ageMs),
+});
+
+const upload = (name: string) =>
+  ({ originalname: name, buffer: Buffer.from(name) }) as Express.Multer.File;
+
+const processed = {
+  original: upload('page.jpg'),
+  webp: upload('page.webp'),
+  thumbnail: upload('page-thumb.webp'),
+  mimeType: 'image/jpeg',
+  width: 1000,
+  height: 1400,
+};
+
+// Matches a page against the equality and `{ not }` filters the service uses
+const matches = (page: object, where: object) =>
+  Object.entries(where).every(([field, value]) =>
+    value !== null && typeof value === 'object' && 'not' in value
+      ? page[field] !== value.not
+      : page[field] === value,
+  );
+
+describe('HymnSolfaService', () => {
+  let service: HymnSolfaService;
+  let pages: Record<string, unknown>[];
+  let prisma: { solfaImage: Record<string, jest.Mock> };
+  let storage: Record<string, jest.Mock>;
+  let media: Record<string, jest.Mock>;
+  let producer: Record<string, jest.Mock>;
+
+  beforeEach(async () => {
+    pages = [];
+    prisma = {
+      solfaImage: {
+        count: jest.fn(
+          async ({ where }) => pages.filter((p) => matches(p, where)).length,
+        ),
+        findMany: jest.fn(async ({ where }) =>
+          pages.filter((p) => matches(p, where)),
+        ),
+        findFirst: jest.fn(async ({ where }) => {
+          const found = pages.find((p) => matches(p, where));
+          return found ? { ...found } : null;
+        }),
+        updateMany: jest.fn(async ({ where, data }) => {
+          const found = pages.filter((p) => matches(p, where));
+          found.forEach((p) => Object.assign(p, data));
+          return { count: found.length };
+        }),
+      },
+    };
+    storage = {
+      list: jest.fn(async () => []),
+      deleteListed: jest.fn(async () => undefined),
+      delete: jest.fn(async () => undefined),
+      download: jest.fn(async () => Buffer.from('upload')),
+      upload: jest.fn(async (_file, folder: string, name: string) => ({
+        driver: 'local',
+        key: `${folder}/${name}.jpg`,
+        url: `http://files/${folder}/${name}.jpg`,
+      })),
+    };
+    media = { processImage: jest.fn(async () => processed) };
+    producer = { queueSolfaImage: jest.fn(async () => undefined) };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        HymnSolfaService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: AuditLogService, useValue: { log: jest.fn() } },
+        {
+          provide: StorageService,
+          useValue: { ...storage, driver: 'local' },
+        },
+        { provide: MediaService, useValue: media },
+        { provide: MediaQueueProducer, useValue: producer },
+      ],
+    }).compile();
+
+    service = moduleRef.get(HymnSolfaService);
+  });
+
+  describe('reconcileOrphanFiles', () => {
+    it('removes old files no page points at while a page is pending or failed', async () => {
+      pages.push(
+        { status: 'Failed', imageUrl: null, storageKey: null },
+        { status: 'Pending', imageUrl: null, storageKey: null },
+        {
+          status: 'Ready',
+          imageUrl: 'http://files/kept.jpg',
+          storageDriver: 'local',
+          storageKey: `hymns/solfa/${HYMN_ID}/kept.jpg`,
+          webpKey: `hymns/solfa/${HYMN_ID}/kept-full.webp`,
+          thumbnailKey: `hymns/solfa/${HYMN_ID}/kept-thumb.webp`,
+        },
+      );
+      storage.list.mockResolvedValue([
+        file(`hymns/solfa/${HYMN_ID}/kept.jpg`, 2 * DAY_MS),
+        file(`hymns/solfa/${HYMN_ID}/orphan.jpg`, 2 * DAY_MS),
+        file(`hymns/solfa/${HYMN_ID}/new.jpg`, 60 * 1000),
+        file('hymns/solfa/legacy.jpg', 2 * DAY_MS),
+      ]);
+
+      expect(await service.reconcileOrphanFiles()).toEqual({
+        checked: 3,
+        removed: [`hymns/solfa/${HYMN_ID}/orphan.jpg`],
+      });
+    });
+
+    it('leaves the hymn folders alone while a ready page has no stored key', async () => {
+      pages.push({
+        status: 'Ready',
+        imageUrl: 'http://files/legacy.jpg',
+        storageDriver: null,
+        storageKey: null,
+      });
+      storage.list.mockResolvedValue([
+        file(`hymns/solfa/${HYMN_ID}/orphan.jpg`, 2 * DAY_MS),
+        file('hymns/solfa/uploads/page-1.jpg', 8 * DAY_MS),
+        file('hymns/solfa/uploads/page-2.jpg', DAY_MS),
+      ]);
+
+      expect(await service.reconcileOrphanFiles()).toEqual({
+        checked: 2,
+        removed: ['hymns/solfa/uploads/page-1.jpg'],
+      });
+    });
+  });
+
+  describe('queueImages', () => {
+    it('stages each upload and queues only its key', async () => {
+      await service.queueImages(
+        [{ id: 'page', hymnId: HYMN_ID, uploadVersion: 3 }],
+        [upload('score.jpg')],
+      );
+
+      expect(storage.upload).toHaveBeenCalledWith(
+        expect.objectContaining({ originalname: 'score.jpg' }),
+        'hymns/solfa/uploads',
+        'page-3',
+      );
+      expect(producer.queueSolfaImage).toHaveBeenCalledWith({
+        imageId: 'page',
+        hymnId: HYMN_ID,
+        version: 3,
+        originalname: 'score.jpg',
+        uploadKey: 'hymns/solfa/uploads/page-3.jpg',
+      });
+    });
+
+    it('fails the page and removes the staged upload when it cannot be queued', async () => {
+      pages.push({ id: 'page', uploadVersion: 3, status: 'Pending' });
+      producer.queueSolfaImage.mockRejectedValue(new Error('Redis is down'));
+
+      await service.queueImages(
+        [{ id: 'page', hymnId: HYMN_ID, uploadVersion: 3 }],
+        [upload('score.jpg')],
+      );
+
+      expect(pages[0]).toMatchObject({
+        status: 'Failed',
+        processingError: 'The upload could not be queued: Redis is down',
+      });
+      expect(storage.deleteListed).toHaveBeenCalledWith(
+        'hymns/solfa/uploads/page-3.jpg',
+      );
+    });
+  });
+
+  describe('processQueuedImage', () => {
+    const job = {
+      imageId: 'page',
+      hymnId: HYMN_ID,
+      version: 2,
+      originalname: 'score.jpg',
+      uploadKey: 'hymns/solfa/uploads/page-2.jpg',
+    };
+
+    beforeEach(() => {
+      pages.push({
+        id: 'page',
+        deletedAt: null,
+        uploadVersion: 2,
+        status: 'Pending',
+        storageDriver: 'local',
+        storageKey: `hymns/solfa/${HYMN_ID}/old.jpg`,
+      });
+    });
+
+    it('stores the staged upload and replaces the old files', async () => {
+      expect(await service.processQueuedImage(job)).toEqual({
+        imageId: 'page',
+        version: 2,
+        status: 'Ready',
+      });
+
+      expect(storage.download).toHaveBeenCalledWith(job.uploadKey);
+      expect(pages[0]).toMatchObject({
+        status: 'Ready',
+        processingError: null,
+      });
+      expect(storage.delete).toHaveBeenCalledWith({
+        storageDriver: 'local',
+        storageKey: `hymns/solfa/${HYMN_ID}/old.jpg`,
+      });
+      expect(storage.deleteListed).toHaveBeenCalledWith(job.uploadKey);
+    });
+
+    it('drops the upload of a page replaced before the job ran', async () => {
+      pages[0].uploadVersion = 3;
+
+      expect(await service.processQueuedImage(job)).toMatchObject({
+        status: 'Skipped',
+      });
+      expect(media.processImage).not.toHaveBeenCalled();
+      expect(pages[0].status).toBe('Pending');
+      expect(storage.deleteListed).toHaveBeenCalledWith(job.uploadKey);
+    });
+
+    it('drops the result for a page replaced while it was processed', async () => {
+      media.processImage.mockImplementation(async () => {
+        pages[0].uploadVersion = 3;
+        return processed;
+      });
+
+      expect(await service.processQueuedImage(job)).toMatchObject({
+        status: 'Skipped',
+      });
+      expect(pages[0]).toMatchObject({
+        status: 'Pending',
+        storageKey: `hymns/solfa/${HYMN_ID}/old.jpg`,
+      });
+      // The three files just stored go again; the page's own are kept
+      expect(storage.delete).toHaveBeenCalledTimes(3);
+      expect(storage.delete).not.toHaveBeenCalledWith(
+        expect.objectContaining({
+          storageKey: `hymns/solfa/${HYMN_ID}/old.jpg`,
+        }),
+      );
+    });
+
+    it('fails the page at once when the upload is not an image', async () => {
+      media.processImage.mockRejectedValue(
+        new BadRequestException('"score.jpg" is not an image.'),
+      );
+
+      expect(await service.processQueuedImage(job)).toMatchObject({
+        status: 'Failed',
+      });
+      expect(pages[0]).toMatchObject({
+        status: 'Failed',
+        processingError: '"score.jpg" is not an image.',
+      });
+    });
+
+    it('leaves a page alone when an older upload of it fails', async () => {
+      pages[0].uploadVersion = 3;
+
+      await service.markFailed('page', 2, 'Storage is down');
+
+      expect(pages[0].status).toBe('Pending');
+    });
+  });
+});
@@ -0,0 +1,744 @@
+import {
+  BadRequestException,
+  Injectable,
+  InternalServerErrorException,
+  Logger,
+  NotFoundException,
+} from '@nestjs/common';
+import { randomUUID } from 'crypto';
+import { HymnStatus, Prisma, User } from '@prisma/client';
+import { PrismaService } from 'src/common/prisma/prisma.service';
+import { AuditLogService } from 'src/common/audit-log/audit-log.service';
+import { StorageService } from '@@/common/cloudinary/storage.service';
+import { IStoredFile } from '@@/common/cloudinary/interfaces';
+import { MediaService } from '@@/common/media/media.service';
+import { IProcessedImage } from '@@/common/media/interfaces';
+import { ReorderSolfaImagesDto } from '@@/modules/hymn/dto/solfa-image.dto';
+import {
+  ISolfaImageJob,
+  ISolfaReconcileResult,
+  IStoredSolfaImage,
+  MEDIA_FAILED_RETENTION_SECONDS,
+  SOLFA_IMAGE_LIMITS,
+} from '@@/modules/hymn/interfaces';
+import { MediaQueueProducer } from '@@/modules/hymn/queue/media.producer';
+
+const SOLFA_FOLDER = 'hymns/solfa';
+// Uploads wait here for the media queue, named after the page and version
+const UPLOAD_FOLDER = `${SOLFA_FOLDER}/uploads`;
+
+// Files this new may belong to an upload still being saved
+const ORPHAN_GRACE_MS = 24 * 60 * 60 * 1000;
+// Only files in the per-hymn folders are reconciled; older uploads sit
+// straight in the solfa folder under their original names
+const HYMN_SOLFA_FILE = new RegExp(`(^|/)${SOLFA_FOLDER}/[0-9a-f-]{36}/[^/]+$`);
+const STAGED_UPLOAD = new RegExp(`(^|/)${UPLOAD_FOLDER}/[^/]+$`);
+
+export const SOLFA_IMAGE_SELECT = {
+  id: true,
+  hymnId: true,
+  order: true,
+  status: true,
+  processingError: true,
+  imageUrl: true,
+  storageDriver: true,
+  storageKey: true,
+  mimeType: true,
+  width: true,
+  height: true,
+  webpUrl: true,
+  webpKey: true,
+  thumbnailUrl: true,
+  thumbnailKey: true,
+  createdAt: true,
+  updatedAt: true,
+} satisfies Prisma.SolfaImageSelect;
+
+type SolfaImageFiles = Pick<
+  Prisma.SolfaImageGetPayload<{ select: typeof SOLFA_IMAGE_SELECT }>,
+  | 'imageUrl'
+  | 'storageDriver'
+  | 'storageKey'
+  | 'webpUrl'
+  | 'webpKey'
+  | 'thumbnailUrl'
+  | 'thumbnailKey'
+>;
+
+@Injectable()
+export class HymnSolfaService {
+  private readonly logger = new Logger(HymnSolfaService.name);
+
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditLogService,
+    private storageService: StorageService,
+    private mediaService: MediaService,
+    private mediaQueueProducer: MediaQueueProducer,
+  ) {}
+
+  /**
+   * Fetches the solfa pages of a hymn in page order.
+   * @param hymnId - The ID of the hymn.
+   * @param user - The signed-in user, if any; anonymous requests only see published hymns.
+   * @returns The pages with the URLs of the image, its WebP copy and thumbnail.
+   * @throws NotFoundException if the hymn does not exist.
+   */
+  async fetchSolfaImages(hymnId: string, user?: User) {
+    const hymn = await this.prisma.hymn.findFirst({
+      where: {
+        id: hymnId,
+        deletedAt: null,
+        ...(!user && { status: HymnStatus.Published }),
+      },
+      select: { id: true },
+    });
+
+    if (!hymn) {
+      throw new NotFoundException('Hymn not found.');
+    }
+
+    return this.resolveUrls(await this.findPages(this.prisma, hymnId));
+  }
+
+  /**
+   * Adds solfa pages to the end of a hymn's score, in the order uploaded.
+   * The pages are saved as pending straight away; the images are processed
+   * and stored by the media queue.
+   * @param hymnId - The ID of the hymn.
+   * @param files - The page images.
+   * @param user - The user uploading the pages.
+   * @returns Every page of the hymn in page order.
+   * @throws NotFoundException if the hymn does not exist.
+   * @throws BadRequestException if no file is sent or a file is not a usable image.
+   */
+  async addSolfaImages(
+    hymnId: string,
+    files: Express.Multer.File[],
+    user: User,
+  ) {
+    if (!files?.length) {
+      throw new BadRequestException('Upload at least one image.');
+    }
+
+    await this.findHymnOrThrow(this.prisma, hymnId);
+
+    // Check every file before saving any of them
+    await this.inspectImages(files);
+
+    try {
+      const { added, pages } = await this.prisma.$transaction(async (tx) => {
+        const last = await tx.solfaImage.aggregate({
+          where: { hymnId, deletedAt: null },
+          _max: { order: true },
+        });
+
+        const added = [];
+        for (const idx of files.keys()) {
+          const image = await tx.solfaImage.create({
+            data: {
+              hymnId,
+              order: (last._max.order ?? 0) + idx + 1,
+              status: 'Pending',
+              createdById: user.id,
+              updatedById: user.id,
+            },
+          });
+          added.push(image);
+
+          await this.auditService.log({
+            action: 'CREATE',
+            entityType: 'SOLFA_IMAGE',
+            entityId: image.id,
+            userId: user.id,
+            description: `Solfa page ${image.order} added to hymn ${hymnId} by user ${user.id}`,
+          });
+        }
+
+        return { added, pages: await this.findPages(tx, hymnId) };
+      });
+
+      await this.queueImages(added, files);
+
+      return this.resolveUrls(pages);
+    } catch (error) {
+      this.handleError(error, 'adding');
+    }
+  }
+
+  /**
+   * Puts the solfa pages of a hymn in a new order.
+   * @param hymnId - The ID of the hymn.
+   * @param reorderData - Every current page ID, first page first.
+   * @param user - The user reordering the pages.
+   * @returns Every page of the hymn in the new order.
+   * @throws NotFoundException if the hymn does not exist.
+   * @throws BadRequestException if the IDs are not exactly the hymn's pages.
+   */
+  async reorderSolfaImages(
+    hymnId: string,
+    reorderData: ReorderSolfaImagesDto,
+    user: User,
+  ) {
+    const { imageIds } = reorderData;
+
+    try {
+      const pages = await this.prisma.$transaction(async (tx) => {
+        await this.findHymnOrThrow(tx, hymnId);
+        const current = await this.findPages(tx, hymnId);
+
+        const known = new Set(current.map((page) => page.id));
+        const unknown = imageIds.filter((id) => !known.has(id));
+        if (unknown.length) {
+          throw new BadRequestException(
+            `These images are not pages of this hymn: ${unknown.join(', ')}.`,
+          );
+        }
+        if (imageIds.length !== current.length) {
+          throw new BadRequestException(
+            `The new order must list all ${current.length} pages of the hymn.`,
+          );
+        }
+
+        const orders = new Map(current.map((page) => [page.id, page.order]));
+        for (const [idx, id] of imageIds.entries()) {
+          if (orders.get(id) === idx + 1) continue;
+
+          await tx.solfaImage.update({
+            where: { id },
+            data: { order: idx + 1, updatedById: user.id },
+          });
+
+          await this.auditService.log({
+            action: 'UPDATE',
+            entityType: 'SOLFA_IMAGE',
+            entityId: id,
+            userId: user.id,
+            description: `Solfa image moved from page ${orders.get(id)} to page ${idx + 1} of hymn ${hymnId} by user ${user.id}`,
+          });
+        }
+
+        return this.findPages(tx, hymnId);
+      });
+
+      return this.resolveUrls(pages);
+    } catch (error) {
+      this.handleError(error, 'reordering');
+    }
+  }
+
+  /**
+   * Replaces the image of a solfa page, keeping its place in the score.
+   * The page goes back to pending and keeps showing its old image until the
+   * media queue has stored the new one; the old files are removed then.
+   * @param hymnId - The ID of the hymn.
+   * @param imageId - The ID of the page.
+   * @param file - The new image.
+   * @param user - The user replacing the page.
+   * @returns The updated page.
+   * @throws NotFoundException if the hymn or page does not exist.
+   * @throws BadRequestException if no file is sent or it is not a usable image.
+   */
+  async replaceSolfaImage(
+    hymnId: string,
+    imageId: string,
+    file: Express.Multer.File,
+    user: User,
+  ) {
+    if (!file) {
+      throw new BadRequestException('Upload an image.');
+    }
+
+    await this.findPageOrThrow(hymnId, imageId);
+    await this.inspectImages([file]);
+
+    try {
+      const { uploadVersion, ...image } = await this.prisma.solfaImage.update({
+        where: { id: imageId },
+        data: {
+          status: 'Pending',
+          processingError: null,
+          uploadVersion: { increment: 1 },
+          updatedById: user.id,
+        },
+        select: { ...SOLFA_IMAGE_SELECT, uploadVersion: true },
+      });
+
+      await this.auditService.log({
+        action: 'UPDATE',
+        entityType: 'SOLFA_IMAGE',
+        entityId: imageId,
+        userId: user.id,
+        description: `Solfa page ${image.order} of hymn ${hymnId} replaced by user ${user.id}`,
+      });
+
+      await this.queueImages([{ ...image, uploadVersion }], [file]);
+
+      const [resolved] = this.resolveUrls([image]);
+      return resolved;
+    } catch (error) {
+      this.handleError(error, 'replacing');
+    }
+  }
+
+  /**
+   * Tries again to process a page whose upload failed, from the copy the
+   * media queue keeps of it.
+   * @param hymnId - The ID of the hymn.
+   * @param imageId - The ID of the page.
+   * @param user - The user retrying the page.
+   * @returns The page, pending again.
+   * @throws NotFoundException if the hymn or page does not exist.
+   * @throws BadRequestException if the page has not failed, or its upload is no longer kept.
+   */
+  async retrySolfaImage(hymnId: string, imageId: string, user: User) {
+    const existing = await this.findPageOrThrow(hymnId, imageId);
+
+    if (existing.status !== 'Failed') {
+      throw new BadRequestException(
+        'Only a page that failed to process can be retried.',
+      );
+    }
+
+    const job = await this.mediaQueueProducer.getSolfaImageJob(
+      imageId,
+      existing.uploadVersion,
+    );
+    if (!job || !(await job.isFailed())) {
+      throw new BadRequestException(
+        'The upload of this page is no longer kept; upload the image again.',
+      );
+    }
+
+    try {
+      // Pending before the job runs again, or a job that fails at once would
+      // find the page still failed and leave it to be overwritten as pending
+      const image = await this.prisma.solfaImage.update({
+        where: { id: imageId },
+        data: {
+          status: 'Pending',
+          processingError: null,
+          updatedById: user.id,
+        },
+        select: SOLFA_IMAGE_SELECT,
+      });
+
+      try {
+        await job.retry();
+      } catch (error) {
+        await this.markFailed(
+          imageId,
+          existing.uploadVersion,
+          `The retry could not be queued: ${error.message}`,
+        );
+        throw error;
+      }
+
+      await this.auditService.log({
+        action: 'UPDATE',
+        entityType: 'SOLFA_IMAGE',
+        entityId: imageId,
+        userId: user.id,
+        description: `Processing of solfa page ${image.order} of hymn ${hymnId} retried by user ${user.id}`,
+      });
+
+      const [resolved] = this.resolveUrls([image]);
+      return resolved;
+    } catch (error) {
+      this.handleError(error, 'retrying');
+    }
+  }
+
+  /**
+   * Soft-deletes a solfa page and moves the later pages up one place.
+   * The files stay in storage so the page can be brought back.
+   * @param hymnId - The ID of the hymn.
+   * @param imageId - The ID of the page.
+   * @param user - The user deleting the page.
+   * @returns The deleted page.
+   * @throws NotFoundException if the hymn or page does not exist.
+   */
+  async deleteSolfaImage(hymnId: string, imageId: string, user: User) {
+    const existing = await this.findPageOrThrow(hymnId, imageId);
+
+    try {
+      return await this.prisma.$transaction(async (tx) => {
+        const image = await tx.solfaImage.update({
+          where: { id: imageId },
+          data: { deletedAt: new Date(), updatedById: user.id },
+          select: { id: true, hymnId: true, order: true, deletedAt: true },
+        });
+
+        await tx.solfaImage.updateMany({
+          where: { hymnId, deletedAt: null, order: { gt: existing.order } },
+          data: { order: { decrement: 1 } },
+        });
+
+        await this.auditService.log({
+          action: 'DELETE',
+          entityType: 'SOLFA_IMAGE',
+          entityId: imageId,
+          userId: user.id,
+          description: `Solfa page ${existing.order} of hymn ${hymnId} deleted by user ${user.id}`,
+        });
+
+        return image;
+      });
+    } catch (error) {
+      this.handleError(error, 'deleting');
+    }
+  }
+
+  /**
+   * Checks uploaded solfa images before they are queued: their real type,
+   * size and dimensions. The media queue runs the full pipeline later.
+   * @param files - The uploaded images.
+   * @throws BadRequestException if any file is not a usable image.
+   */
+  async inspectImages(files: Express.Multer.File[]) {
+    for (const file of files) {
+      await this.mediaService.inspectImage(file, SOLFA_IMAGE_LIMITS);
+    }
+  }
+
+  /**
+   * Hands uploaded images to the media queue, one job per page. Each upload
+   * is staged in storage first and the job only carries its key. The pages
+   * are already saved, so a page whose upload cannot be queued is marked
+   * failed rather than failing the request; it can be uploaded again.
+   * @param images - The pages the uploads are for, at their new upload version.
+   * @param files - The uploads, in the same order.
+   */
+  async queueImages(
+    images: { id: string; hymnId: string; uploadVersion: number }[],
+    files: Express.Multer.File[],
+  ) {
+    for (const [idx, image] of images.entries()) {
+      let staged: IStoredFile;
+      try {
+        staged = await this.storageService.upload(
+          files[idx],
+          UPLOAD_FOLDER,
+          `${image.id}-${image.uploadVersion}`,
+        );
+        await this.mediaQueueProducer.queueSolfaImage({
+          imageId: image.id,
+          hymnId: image.hymnId,
+          version: image.uploadVersion,
+          originalname: files[idx].originalname,
+          uploadKey: staged.key,
+        });
+      } catch (error) {
+        if (staged) {
+          await this.removeUpload(staged.key);
+        }
+        await this.markFailed(
+          image.id,
+          image.uploadVersion,
+          `The upload could not be queued: ${error.message}`,
+        );
+      }
+    }
+  }
+
+  /**
+   * Processes a queued upload: strips its metadata, makes its WebP copy and
+   * thumbnail, stores the three files and marks the page ready. Files the
+   * page pointed at before are removed, and so is the staged upload. An
+   * upload that is not a usable image fails the page at once; storage
+   * errors are thrown so the job is retried. An upload replaced by a newer
+   * one, before or while it is processed, is dropped.
+   * @param job - The queued upload.
+   * @returns The page and the state it ended in.
+   */
+  async processQueuedImage({
+    imageId,
+    hymnId,
+    version,
+    originalname,
+    uploadKey,
+  }: ISolfaImageJob) {
+    const page = await this.prisma.solfaImage.findFirst({
+      where: { id: imageId, deletedAt: null },
+      select: { ...SOLFA_IMAGE_SELECT, uploadVersion: true },
+    });
+
+    // Deleted or replaced while it waited in the queue
+    if (page?.uploadVersion !== version) {
+      await this.removeUpload(uploadKey);
+      return { imageId, version, status: 'Skipped' };
+    }
+
+    let processed: IProcessedImage;
+    try {
+      processed = await this.mediaService.processImage(
+        {
+          originalname,
+          buffer: await this.storageService.download(uploadKey),
+        } as Express.Multer.File,
+        SOLFA_IMAGE_LIMITS,
+      );
+    } catch (error) {
+      if (!(error instanceof BadRequestException)) throw error;
+
+      await this.markFailed(imageId, version, error.message);
+      await this.removeUpload(uploadKey);
+      return { imageId, version, status: 'Failed' };
+    }
+
+    const stored = await this.storeImage(hymnId, processed);
+    let saved: Prisma.BatchPayload;
+    try {
+      saved = await this.prisma.solfaImage.updateMany({
+        where: { id: imageId, uploadVersion: version },
+        data: { ...stored, status: 'Ready', processingError: null },
+      });
+    } catch (error) {
+      await this.removeStored([stored]);
+      throw error;
+    }
+
+    // Replaced while it was being processed
+    if (!saved.count) {
+      await this.removeStored([stored]);
+      await this.removeUpload(uploadKey);
+      return { imageId, version, status: 'Skipped' };
+    }
+
+    await this.removeStored([page]);
+    await this.removeUpload(uploadKey);
+
+    return { imageId, version, status: 'Ready' };
+  }
+
+  /**
+   * Marks a pending page as failed once the media queue gives up on an
+   * upload. A page given a newer upload since is left alone.
+   * @param imageId - The ID of the page.
+   * @param version - The upload version that failed.
+   * @param reason - Why processing failed.
+   */
+  async markFailed(imageId: string, version: number, reason: string) {
+    await this.prisma.solfaImage.updateMany({
+      where: { id: imageId, uploadVersion: version, status: 'Pending' },
+      data: { status: 'Failed', processingError: reason },
+    });
+  }
+
+  /**
+   * Removes solfa files that no page points at, such as those left by an
+   * upload whose page was never saved or by a hymn deleted for good. Files
+   * of soft-deleted pages are kept, and so are files younger than a day,
+   * which may belong to an upload still in progress. Only the per-hymn
+   * folders are checked, and they are skipped while a ready page has an
+   * image but no stored key, since its file cannot be told from an orphan.
+   * Staged uploads are removed once no failed job can be retried from them.
+   * @returns How many files were checked and the keys of those removed.
+   */
+  async reconcileOrphanFiles(): Promise<ISolfaReconcileResult> {
+    const untracked = await this.prisma.solfaImage.count({
+      where: { status: 'Ready', storageKey: null, imageUrl: { not: null } },
+    });
+
+    const storageDriver = this.storageService.driver;
+    const listed = await this.storageService.list(SOLFA_FOLDER);
+    const files = untracked
+      ? []
+      : listed.filter((file) => HYMN_SOLFA_FILE.test(file.key));
+    const uploads = listed.filter((file) => STAGED_UPLOAD.test(file.key));
+
+    const images = await this.prisma.solfaImage.findMany({
+      where: { storageDriver },
+      select: { storageKey: true, webpKey: true, thumbnailKey: true },
+    });
+    const known = new Set(
+      images.flatMap((image) => [
+        image.storageKey,
+        image.webpKey,
+        image.thumbnailKey,
+      ]),
+    );
+
+    const cutoff = Date.now() - ORPHAN_GRACE_MS;
+    const uploadCutoff = Date.now() - MEDIA_FAILED_RETENTION_SECONDS * 1000;
+    const orphans = [
+      ...files.filter(
+        (file) => !known.has(file.key) && file.lastModified.getTime() < cutoff,
+      ),
+      ...uploads.filter((file) => file.lastModified.getTime() < uploadCutoff),
+    ];
+
+    const removed: string[] = [];
+    for (const { key } of orphans) {
+      try {
+        await this.storageService.deleteListed(key);
+        removed.push(key);
+      } catch (error) {
+        this.logger.error(
+          `Could not remove orphaned solfa file ${key}: ${error.message}`,
+        );
+      }
+    }
+
+    return { checked: files.length + uploads.length, removed };
+  }
+
+  /**
+   * Replaces the stored URLs of solfa images with the ones the storage
+   * driver resolves now.
+   */
+  resolveUrls<T extends SolfaImageFiles>(images: T[]): T[] {
+    return images.map((image) => {
+      const { storageDriver } = image;
+      const resolve = (imageUrl: string, storageKey: string) =>
+        imageUrl &&
+        this.storageService.resolveUrl({ imageUrl, storageDriver, storageKey });
+
+      return {
+        ...image,
+        imageUrl: resolve(image.imageUrl, image.storageKey),
+        webpUrl: resolve(image.webpUrl, image.webpKey),
+        thumbnailUrl: resolve(image.thumbnailUrl, image.thumbnailKey),
+      };
+    });
+  }
+
+  // Stores an image and its derivatives; if one of them cannot be stored,
+  // those already stored are removed again
+  private async storeImage(
+    hymnId: string,
+    image: IProcessedImage,
+  ): Promise<IStoredSolfaImage> {
+    const folder = `${SOLFA_FOLDER}/${hymnId}`;
+    const name = randomUUID();
+
+    const stored: IStoredFile[] = [];
+    try {
+      for (const [file, suffix] of [
+        [image.original, ''],
+        [image.webp, '-full'],
+        [image.thumbnail, '-thumb'],
+      ] as const) {
+        stored.push(
+          await this.storageService.upload(file, folder, name + suffix),
+        );
+      }
+    } catch (error) {
+      await Promise.allSettled(
+        stored.map((file) =>
+          this.storageService.delete({
+            storageDriver: file.driver,
+            storageKey: file.key,
+          }),
+        ),
+      );
+      throw error;
+    }
+
+    const [original, webp, thumbnail] = stored;
+    return {
+      imageUrl: original.url,
+      storageDriver: original.driver,
+      storageKey: original.key,
+      mimeType: image.mimeType,
+      width: image.width,
+      height: image.height,
+      webpUrl: webp.url,
+      webpKey: webp.key,
+      thumbnailUrl: thumbnail.url,
+      thumbnailKey: thumbnail.key,
+    };
+  }
+
+  // Files stored for a change that did not go through, or replaced by one
+  // that did, would otherwise be left behind
+  private async removeStored(images: SolfaImageFiles[]) {
+    const results = await Promise.allSettled(
+      images.flatMap((image) =>
+        [image.storageKey, image.webpKey, image.thumbnailKey]
+          .filter(Boolean)
+          .map((storageKey) =>
+            this.storageService.delete({
+              storageDriver: image.storageDriver,
+              storageKey,
+            }),
+          ),
+      ),
+    );
+
+    results
+      .filter((result) => result.status === 'rejected')
+      .forEach((result: PromiseRejectedResult) =>
+        this.logger.error(
+          `Could not remove solfa image file: ${result.reason?.message ?? result.reason}`,
+        ),
+      );
+  }
+
+  // A staged upload left behind is removed by the daily reconcile
+  private async removeUpload(key: string) {
+    try {
+      await this.storageService.deleteListed(key);
+    } catch (error) {
+      this.logger.error(
+        `Could not remove staged solfa upload ${key}: ${error.message}`,
+      );
+    }
+  }
+
+  private findPages(client: Prisma.TransactionClient, hymnId: string) {
+    return client.solfaImage.findMany({
+      where: { hymnId, deletedAt: null },
+      orderBy: [{ order: 'asc' }, { createdAt: 'asc' }],
+      select: SOLFA_IMAGE_SELECT,
+    });
+  }
+
+  private async findPageOrThrow(hymnId: string, imageId: string) {
+    await this.findHymnOrThrow(this.prisma, hymnId);
+
+    const image = await this.prisma.solfaImage.findFirst({
+      where: { id: imageId, hymnId, deletedAt: null },
+      select: { ...SOLFA_IMAGE_SELECT, uploadVersion: true },
+    });
+
+    if (!image) {
+      throw new NotFoundException('Solfa image not found.');
+    }
+
+    return image;
+  }
+
+  private async findHymnOrThrow(
+    client: Prisma.TransactionClient,
+    hymnId: string,
+  ) {
+    const hymn = await client.hymn.findFirst({
+      where: { id: hymnId, deletedAt: null },
+      select: { id: true },
+    });
+
+    if (!hymn) {
+      throw new NotFoundException('Hymn not found.');
+    }
+
+    return hymn;
+  }
+
+  private handleError(error: any, action: string): never {
+    if (
+      error instanceof NotFoundException ||
+      error instanceof BadRequestException
+    ) {
+      throw error;
+    }
+
+    this.logger.error(
+      `Error ${action} solfa image: ${error.message}`,
+      error.stack,
+    );
+    throw new InternalServerErrorException(
+      `An error occurred while ${action} the solfa image`,
+    );
+  }
+}
@@ -0,0 +1,270 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  InternalServerErrorException,
+  NotFoundException,
+} from '@nestjs/common';
+import { HymnStatus, Prisma, User } from '@prisma/client';
+import { randomUUID } from 'crypto';
+import { PrismaService } from 'src/common/prisma/prisma.service';
+import { AuditLogService } from 'src/common/audit-log/audit-log.service';
+import { AppUtilities } from 'src/common/utilities';
+import { HYMN_HYMNBOOKS } from '@@/modules/hymnbook/hymnbook.service';
+
+const TRANSLATION_SELECT = {
+  id: true,
+  title: true,
+  slug: true,
+  language: true,
+  version: true,
+  status: true,
+  hymnbooks: HYMN_HYMNBOOKS,
+} satisfies Prisma.HymnSelect;
+
+@Injectable()
+export class HymnTranslationService {
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditLogService,
+  ) {}
+
+  /**
+   * Fetches the other hymns in the same translation group as a hymn.
+   * @param hymnId - The ID of the hymn.
+   * @param user - The signed-in user, if any; anonymous requests only see published hymns.
+   * @returns The hymn's language and its translations, ordered by language.
+   * @throws NotFoundException if the hymn does not exist.
+   */
+  async fetchTranslations(hymnId: string, user?: User) {
+    const visible = !user && { status: HymnStatus.Published };
+    const hymn = await this.prisma.hymn.findFirst({
+      where: { id: hymnId, deletedAt: null, ...visible },
+      select: { id: true, language: true, translationGroupId: true },
+    });
+
+    if (!hymn) {
+      throw new NotFoundException('Hymn not found.');
+    }
+
+    const translations = hymn.translationGroupId
+      ? await this.prisma.hymn.findMany({
+          where: {
+            translationGroupId: hymn.translationGroupId,
+            id: { not: hymnId },
+            deletedAt: null,
+            ...visible,
+          },
+          orderBy: { language: 'asc' },
+          select: TRANSLATION_SELECT,
+        })
+      : [];
+
+    return {
+      hymnId,
+      language: hymn.language,
+      translationGroupId: hymn.translationGroupId,
+      translations,
+    };
+  }
+
+  /**
+   * Links a hymn as a translation of another. When the hymn being linked
+   * already belongs to a group, its whole group is merged into this one.
+   * @param hymnId - The ID of the hymn to link to.
+   * @param translationId - The ID of the hymn that translates it.
+   * @param user - The user linking the hymns.
+   * @returns The hymn's translations after linking.
+   * @throws NotFoundException if either hymn does not exist.
+   * @throws BadRequestException if a hymn has no language or is linked to itself.
+   * @throws ConflictException if the group already has a hymn in that language.
+   */
+  async linkTranslation(hymnId: string, translationId: string, user: User) {
+    if (hymnId === translationId) {
+      throw new BadRequestException('A hymn cannot be its own translation.');
+    }
+
+    try {
+      await this.prisma.$transaction(async (tx) => {
+        const [hymn, translation] = await Promise.all([
+          this.findHymnOrThrow(hymnId, tx),
+          this.findHymnOrThrow(translationId, tx),
+        ]);
+
+        if (!hymn.language || !translation.language) {
+          throw new BadRequestException(
+            'Both hymns need a language before they can be linked.',
+          );
+        }
+
+        const groupId = hymn.translationGroupId ?? randomUUID();
+
+        await tx.hymn.updateMany({
+          where: translation.translationGroupId
+            ? {
+                OR: [
+                  { id: hymnId },
+                  { translationGroupId: translation.translationGroupId },
+                ],
+              }
+            : { id: { in: [hymnId, translationId] } },
+          data: { translationGroupId: groupId },
+        });
+
+        await this.auditService.log({
+          action: 'UPDATE',
+          entityType: 'HYMN',
+          entityId: hymnId,
+          userId: user.id,
+          description: `Hymn ${translationId} (${translation.language}) linked as a translation of hymn ${hymnId} (${hymn.language}) by user ${user.id}`,
+        });
+      });
+    } catch (error) {
+      if (
+        error instanceof NotFoundException ||
+        error instanceof BadRequestException
+      ) {
+        throw error;
+      }
+
+      if (error.code === 'P2002') {
+        throw new ConflictException(
+          'This hymn already has a translation in that language.',
+        );
+      }
+
+      throw new InternalServerErrorException(
+        'An error occurred while linking the translation',
+      );
+    }
+
+    return this.fetchTranslations(hymnId, user);
+  }
+
+  /**
+   * Removes a hymn from its translation group. A group left with a single
+   * hymn is dissolved.
+   * @param hymnId - The ID of the hymn to unlink.
+   * @param user - The user unlinking the hymn.
+   * @returns The hymn's (now empty) translations.
+   * @throws NotFoundException if the hymn does not exist.
+   * @throws BadRequestException if the hymn has no translations.
+   */
+  async unlinkTranslation(hymnId: string, user: User) {
+    try {
+      await this.prisma.$transaction(async (tx) => {
+        const hymn = await this.findHymnOrThrow(hymnId, tx);
+
+        if (!hymn.translationGroupId) {
+          throw new BadRequestException('This hymn has no translations.');
+        }
+
+        await tx.hymn.update({
+          where: { id: hymnId },
+          data: { translationGroupId: null },
+        });
+
+        const remaining = await tx.hymn.findMany({
+          where: { translationGroupId: hymn.translationGroupId },
+          select: { id: true },
+        });
+        if (remaining.length === 1) {
+          await tx.hymn.update({
+            where: { id: remaining[0].id },
+            data: { translationGroupId: null },
+          });
+        }
+
+        await this.auditService.log({
+          action: 'UPDATE',
+          entityType: 'HYMN',
+          entityId: hymnId,
+          userId: user.id,
+          description: `Hymn ${hymnId} unlinked from its translations by user ${user.id}`,
+        });
+      });
+    } catch (error) {
+      if (
+        error instanceof NotFoundException ||
+        error instanceof BadRequestException
+      ) {
+        throw error;
+      }
+
+      throw new InternalServerErrorException(
+        'An error occurred while unlinking the translation',
+      );
+    }
+
+    return this.fetchTranslations(hymnId, user);
+  }
+
+  /**
+   * Picks the hymn in a translation group that best matches a language,
+   * following BCP 47 lookup: an exact match first, then the requested tag
+   * with its trailing subtags dropped one by one (`yo-NG` falls back to
+   * `yo`), then any regional variant of the same language.
+   * @param hymnId - The ID of the hymn that was asked for.
+   * @param lang - The requested BCP 47 language tag.
+   * @param user - The signed-in user, if any; anonymous requests only get published translations.
+   * @returns The ID of the best translation, or `hymnId` when none matches.
+   * @throws BadRequestException if `lang` is not a valid language tag.
+   */
+  async resolveTranslation(hymnId: string, lang: string, user?: User) {
+    const tag = AppUtilities.canonicalizeLanguageTag(lang);
+    if (!tag) {
+      throw new BadRequestException(`"${lang}" is not a valid language tag.`);
+    }
+
+    const hymn = await this.findHymnOrThrow(hymnId);
+    if (!hymn.translationGroupId) {
+      return hymnId;
+    }
+
+    const candidates = await this.prisma.hymn.findMany({
+      where: {
+        translationGroupId: hymn.translationGroupId,
+        deletedAt: null,
+        ...(!user && { status: HymnStatus.Published }),
+      },
+      select: { id: true, language: true },
+    });
+
+    const byLanguage = new Map(
+      candidates
+        .filter((candidate) => candidate.language)
+        .map((candidate) => [candidate.language.toLowerCase(), candidate.id]),
+    );
+
+    const subtags = tag.toLowerCase().split('-');
+    for (let length = subtags.length; length > 0; length--) {
+      const match = byLanguage.get(subtags.slice(0, length).join('-'));
+      if (match) {
+        return match;
+      }
+    }
+
+    const [primary] = subtags;
+    const variant = [...byLanguage.keys()]
+      .sort()
+      .find((language) => language.startsWith(`${primary}-`));
+
+    return variant ? byLanguage.get(variant) : hymnId;
+  }
+
+  private async findHymnOrThrow(
+    hymnId: string,
+    client: Prisma.TransactionClient = this.prisma,
+  ) {
+    const hymn = await client.hymn.findFirst({
+      where: { id: hymnId, deletedAt: null },
+      select: { id: true, language: true, translationGroupId: true },
+    });
+
+    if (!hymn) {
+      throw new NotFoundException('Hymn not found.');
+    }
+
+    return hymn;
+  }
+}
@@ -0,0 +1,136 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { User } from '@prisma/client';
+import { PrismaService } from 'src/common/prisma/prisma.service';
+import { AuditLogService } from 'src/common/audit-log/audit-log.service';
+import { HymnRevisionService } from '@@/modules/hymn/hymn-revision.service';
+import { HymnWorkflowService } from '@@/modules/hymn/hymn-workflow.service';
+
+const HYMN_ID = 'hymn';
+const admin = { id: 'admin', role: 'Admin' } as User;
+const editor = { id: 'editor', role: 'User' } as User;
+
+describe('HymnWorkflowService', () => {
+  let service: HymnWorkflowService;
+  let hymn: Record<string, unknown>;
+  let transitions: Record<string, unknown>[];
+  let tx: Record<string, Record<string, jest.Mock>>;
+  let revisionService: Record<string, jest.Mock>;
+
+  beforeEach(async () => {
+    hymn = { id: HYMN_ID, title: 'Abide With Me', status: 'Draft' };
+    transitions = [];
+    tx = {
+      hymn: {
+        findFirst: jest.fn(async ({ where }) =>
+          where.id === hymn.id && !hymn.deletedAt ? { ...hymn } : null,
+        ),
+        updateMany: jest.fn(async ({ where, data }) => {
+          if (where.id !== hymn.id || where.status !== hymn.status) {
+            return { count: 0 };
+          }
+          Object.assign(hymn, data);
+          return { count: 1 };
+        }),
+      },
+      hymnStatusTransition: {
+        create: jest.fn(async ({ data }) => {
+          transitions.push(data);
+          return data;
+        }),
+      },
+    };
+    revisionService = { record: jest.fn(async () => undefined) };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        HymnWorkflowService,
+        {
+          provide: PrismaService,
+          useValue: { $transaction: jest.fn(async (run) => run(tx)) },
+        },
+        { provide: AuditLogService, useValue: { log: jest.fn() } },
+        { provide: HymnRevisionService, useValue: revisionService },
+      ],
+    }).compile();
+
+    service = moduleRef.get(HymnWorkflowService);
+  });
+
+  it('takes a hymn through review to publication', async () => {
+    await service.transition(HYMN_ID, 'SUBMIT', editor);
+    await service.transition(HYMN_ID, 'REJECT', admin, 'Fix verse 2.');
+    await service.transition(HYMN_ID, 'SUBMIT', editor);
+    await service.transition(HYMN_ID, 'APPROVE', admin);
+
+    expect(hymn.status).toBe('Published');
+    expect(
+      transitions.map(({ action, fromStatus, toStatus }) => [
+        action,
+        fromStatus,
+        toStatus,
+      ]),
+    ).toEqual([
+      ['SUBMIT', 'Draft', 'UnderReview'],
+      ['REJECT', 'UnderReview', 'Draft'],
+      ['SUBMIT', 'Draft', 'UnderReview'],
+      ['APPROVE', 'UnderReview', 'Published'],
+    ]);
+    expect(transitions[1].comment).toBe('Fix verse 2.');
+    expect(revisionService.record).toHaveBeenCalledTimes(4);
+  });
+
+  it('leaves approval to admins', async () => {
+    hymn.status = 'UnderReview';
+
+    await expect(
+      service.transition(HYMN_ID, 'APPROVE', editor),
+    ).rejects.toThrow(
+      new ForbiddenException('Only Admin users can approve a hymn.'),
+    );
+    expect(hymn.status).toBe('UnderReview');
+  });
+
+  it('asks for a comment when changes are requested', async () => {
+    hymn.status = 'UnderReview';
+
+    await expect(service.transition(HYMN_ID, 'REJECT', admin)).rejects.toThrow(
+      new BadRequestException('A comment is required to request changes.'),
+    );
+  });
+
+  it('refuses a step the hymn is not ready for', async () => {
+    await expect(service.transition(HYMN_ID, 'APPROVE', admin)).rejects.toThrow(
+      new ConflictException('Cannot approve a hymn that is Draft.'),
+    );
+    expect(transitions).toEqual([]);
+  });
+
+  it('refuses a step when the status changed while it was taken', async () => {
+    tx.hymn.findFirst.mockImplementationOnce(async () => {
+      const found = { ...hymn };
+      hymn.status = 'Archived';
+      return found;
+    });
+
+    await expect(service.transition(HYMN_ID, 'SUBMIT', editor)).rejects.toThrow(
+      new ConflictException(
+        'The hymn status changed, please reload and try again.',
+      ),
+    );
+    expect(transitions).toEqual([]);
+  });
+
+  it('refuses to move a deleted hymn', async () => {
+    hymn.deletedAt = new Date();
+
+    await expect(service.transition(HYMN_ID, 'SUBMIT', editor)).rejects.toThrow(
+      new NotFoundException('Hymn not found.'),
+    );
+  });
+});
@@ -0,0 +1,170 @@
+import {
+  BadRequestException,
+  ConflictException,
+  ForbiddenException,
+  Injectable,
+  InternalServerErrorException,
+  NotFoundException,
+} from '@nestjs/common';
+import { HymnStatus, HymnWorkflowAction, Roles, User } from '@prisma/client';
+import { PrismaService } from 'src/common/prisma/prisma.service';
+import { AuditLogService } from 'src/common/audit-log/audit-log.service';
+import { HymnRevisionService } from '@@/modules/hymn/hymn-revision.service';
+
+interface IWorkflowTransition {
+  from: HymnStatus[];
+  to: HymnStatus;
+  roles: Roles[];
+  requiresComment?: boolean;
+}
+
+const WORKFLOW_TRANSITIONS: Record<HymnWorkflowAction, IWorkflowTransition> = {
+  SUBMIT: { from: ['Draft'], to: 'UnderReview', roles: ['Admin', 'User'] },
+  APPROVE: { from: ['UnderReview'], to: 'Published', roles: ['Admin'] },
+  // Sends the hymn back to its editor, so say what needs changing
+  REJECT: {
+    from: ['UnderReview'],
+    to: 'Draft',
+    roles: ['Admin'],
+    requiresComment: true,
+  },
+  PUBLISH: { from: ['Draft', 'Archived'], to: 'Published', roles: ['Admin'] },
+  ARCHIVE: {
+    from: ['Draft', 'UnderReview', 'Published'],
+    to: 'Archived',
+    roles: ['Admin'],
+  },
+};
+
+@Injectable()
+export class HymnWorkflowService {
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditLogService,
+    private revisionService: HymnRevisionService,
+  ) {}
+
+  /**
+   * Moves a hymn to the next editorial status.
+   * @param hymnId - The ID of the hymn.
+   * @param action - The workflow step to take.
+   * @param user - The user taking the step.
+   * @param comment - Optional reviewer comment, required when rejecting.
+   * @returns The recorded transition with the hymn's new status.
+   * @throws NotFoundException if the hymn does not exist.
+   * @throws ForbiddenException if the user's role may not take this step.
+   * @throws ConflictException if the hymn is not in a status this step starts from.
+   */
+  async transition(
+    hymnId: string,
+    action: HymnWorkflowAction,
+    user: User,
+    comment?: string,
+  ) {
+    const rule = WORKFLOW_TRANSITIONS[action];
+
+    if (!rule.roles.includes(user.role)) {
+      throw new ForbiddenException(
+        `Only ${rule.roles.join(' or ')} users can ${action.toLowerCase()} a hymn.`,
+      );
+    }
+
+    if (rule.requiresComment && !comment) {
+      throw new BadRequestException(
+        'A comment is required to request changes.',
+      );
+    }
+
+    try {
+      return await this.prisma.$transaction(async (tx) => {
+        const hymn = await tx.hymn.findFirst({
+          where: { id: hymnId, deletedAt: null },
+          select: { id: true, title: true, status: true },
+        });
+
+        if (!hymn) {
+          throw new NotFoundException('Hymn not found.');
+        }
+
+        if (!rule.from.includes(hymn.status)) {
+          throw new ConflictException(
+            `Cannot ${action.toLowerCase()} a hymn that is ${hymn.status}.`,
+          );
+        }
+
+        // Guard against a concurrent transition moving the hymn first
+        const { count } = await tx.hymn.updateMany({
+          where: { id: hymnId, status: hymn.status },
+          data: {
+            status: rule.to,
+            updatedById: user.id,
+            updatedAt: new Date(),
+          },
+        });
+
+        if (!count) {
+          throw new ConflictException(
+            'The hymn status changed, please reload and try again.',
+          );
+        }
+
+        const created = await tx.hymnStatusTransition.create({
+          data: {
+            hymnId,
+            action,
+            fromStatus: hymn.status,
+            toStatus: rule.to,
+            comment,
+            createdById: user.id,
+          },
+        });
+
+        await this.revisionService.record(tx, hymnId, user, 'UPDATE');
+
+        await this.auditService.log({
+          action: 'UPDATE',
+          entityType: 'HYMN',
+          entityId: hymnId,
+          userId: user.id,
+          description: `Hymn "${hymn.title}" moved from ${hymn.status} to ${rule.to} (${action}) by user ${user.id}${comment ? `: ${comment}` : ''}`,
+        });
+
+        return created;
+      });
+    } catch (error) {
+      if (
+        error instanceof NotFoundException ||
+        error instanceof ConflictException
+      ) {
+        throw error;
+      }
+
+      throw new InternalServerErrorException(
+        'An error occurred while updating the hymn status',
+      );
+    }
+  }
+
+  /**
+   * Fetches the status history of a hymn with reviewer comments, newest first.
+   * @param hymnId - The ID of the hymn.
+   * @returns The recorded transitions.
+   */
+  async fetchTransitions(hymnId: string) {
+    return this.prisma.hymnStatusTransition.findMany({
+      where: { hymnId },
+      orderBy: { createdAt: 'desc' },
+      select: {
+        id: true,
+        action: true,
+        fromStatus: true,
+        toStatus: true,
+        comment: true,
+        createdAt: true,
+        createdBy: {
+          select: { id: true, firstName: true, lastName: true },
+        },
+      },
+    });
+  }
+}
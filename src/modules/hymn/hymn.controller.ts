@@ -5,10 +5,14 @@ import {
   Delete,
   Get,
   Param,
+  ParseIntPipe,
   Patch,
   Post,
+  Put,
   Query,
+  Res,
   UploadedFile,
+  UploadedFiles,
   UseGuards,
   UseInterceptors,
 } from '@nestjs/common';
@@ -29,20 +33,78 @@ import { UpdateHymnDto } from './dto/update-hymn.dto';
 import { Throttle } from '@nestjs/throttler';
 import { FetchHymnsDto } from '@@/modules/hymn/dto/fetch-hymn.dto';
 import { AdminAuthGuard } from '@@/modules/auth/guard/auth.guard';
-import { FileInterceptor } from '@nestjs/platform-express';
+import { OptionalJwtAuthGuard } from '@@/modules/auth/guard/optional-jwt.guard';
+import { FileInterceptor, FilesInterceptor } from '@nestjs/platform-express';
 import { ParseJsonPipe } from '@@/common/utilities/parse-json.pipe';
+import { SearchHymnsDto } from '@@/modules/hymn/dto/search-hymn.dto';
+import { HymnRevisionService } from '@@/modules/hymn/hymn-revision.service';
+import { DiffHymnRevisionsDto } from '@@/modules/hymn/dto/diff-hymn-revisions.dto';
+import { HymnWorkflowService } from '@@/modules/hymn/hymn-workflow.service';
+import { HymnTransitionDto } from '@@/modules/hymn/dto/hymn-transition.dto';
+import { HymnArrangementService } from '@@/modules/hymn/hymn-arrangement.service';
+import {
+  CreateArrangementDto,
+  FetchSequenceDto,
+  UpdateArrangementDto,
+} from '@@/modules/hymn/dto/arrangement.dto';
+import { HymnTranslationService } from '@@/modules/hymn/hymn-translation.service';
+import { HymnImportService } from '@@/modules/hymn/hymn-import.service';
+import { ImportHymnsDto } from '@@/modules/hymn/dto/import-hymn.dto';
+import { HymnExportService } from '@@/modules/hymn/hymn-export.service';
+import { ExportHymnDto } from '@@/modules/hymn/dto/export-hymn.dto';
+import { FetchSlidesDto } from '@@/modules/hymn/dto/slides.dto';
+import { Response } from 'express';
+import {
+  FetchHymnDto,
+  LinkHymnTranslationDto,
+} from '@@/modules/hymn/dto/hymn-translation.dto';
+import { TuneService } from '@@/modules/tune/tune.service';
+import { HymnScriptureService } from '@@/modules/hymn/hymn-scripture.service';
+import {
+  FetchHymnsByScriptureDto,
+  SearchHymnsByMelodyDto,
+} from '@@/modules/hymn/dto/search-hymn.dto';
+import { HymnMelodyService } from '@@/modules/hymn/hymn-melody.service';
+import { FetchHymnMatchesDto } from '@@/modules/tune/dto/fetch-tune.dto';
+import { HymnSolfaService } from '@@/modules/hymn/hymn-solfa.service';
+import { ReorderSolfaImagesDto } from '@@/modules/hymn/dto/solfa-image.dto';
+import { HymnNotationService } from '@@/modules/hymn/hymn-notation.service';
+import {
+  FetchHymnMidiDto,
+  UpdateSolfaNotationDto,
+} from '@@/modules/hymn/dto/solfa-notation.dto';
+import { UpdateAbcNotationDto } from '@@/modules/hymn/dto/abc-notation.dto';
+import {
+  MAX_SOLFA_IMAGE_SIZE,
+  MAX_SOLFA_UPLOAD,
+} from '@@/modules/hymn/interfaces';
 
 @ApiBearerAuth()
 @ApiTags('Hymn')
 @Controller('hymns')
 export class HymnController {
-  constructor(private readonly hymnService: HymnService) {}
+  constructor(
+    private readonly hymnService: HymnService,
+    private readonly revisionService: HymnRevisionService,
+    private readonly workflowService: HymnWorkflowService,
+    private readonly arrangementService: HymnArrangementService,
+    private readonly translationService: HymnTranslationService,
+    private readonly importService: HymnImportService,
+    private readonly exportService: HymnExportService,
+    private readonly tuneService: TuneService,
+    private readonly scriptureService: HymnScriptureService,
+    private readonly melodyService: HymnMelodyService,
+    private readonly solfaService: HymnSolfaService,
+    private readonly notationService: HymnNotationService,
+  ) {}
 
   @Post()
   @UseGuards(AdminAuthGuard)
   @ApiOperation({ summary: 'Create a new hymn.' })
   @ResponseMessage({ message: 'Hymn created successfully.' })
-  @UseInterceptors(FileInterceptor('image'))
+  @UseInterceptors(
+    FileInterceptor('image', { limits: { fileSize: MAX_SOLFA_IMAGE_SIZE } }),
+  )
   @ApiConsumes('multipart/form-data')
   @ApiBody({ type: CreateHymnDto })
   async createHymn(
@@ -50,23 +112,113 @@ export class HymnController {
     @GetUser() user: User,
     @Body('verses', ParseJsonPipe) versesRaw: any,
     @Body('choruses', ParseJsonPipe) chorusesRaw: any,
+    @Body('scriptures', ParseJsonPipe) scripturesRaw: any,
+    @Body('tagIds', ParseJsonPipe) tagIdsRaw: any,
     @Body() createHymnDto: any,
   ) {
     if (typeof createHymnDto.number === 'string') {
       createHymnDto.number = parseInt(createHymnDto.number, 10);
     }
+    if (typeof createHymnDto.tempo === 'string') {
+      createHymnDto.tempo = parseInt(createHymnDto.tempo, 10);
+    }
 
     const verses = AppUtilities.parseArray(versesRaw);
     const choruses = AppUtilities.parseArray(chorusesRaw);
+    // A single reference may come as plain text rather than a JSON array
+    const scriptures = [].concat(scripturesRaw ?? []).map(String);
+    const tagIds = [].concat(tagIdsRaw ?? []).map(String);
 
     console.log('Parsed Create Hymn DTO:', createHymnDto);
     return this.hymnService.createHymn(
-      { ...createHymnDto, verses, choruses },
+      { ...createHymnDto, verses, choruses, scriptures, tagIds },
       user,
       image,
     );
   }
 
+  @Post('/import')
+  @UseGuards(AdminAuthGuard)
+  @ApiOperation({ summary: 'Import hymns from OpenLyrics or ChordPro files.' })
+  @ResponseMessage({ message: 'Hymns imported successfully.' })
+  @UseInterceptors(
+    FilesInterceptor('files', 50, { limits: { fileSize: 1024 * 1024 } }),
+  )
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        files: { type: 'array', items: { type: 'string', format: 'binary' } },
+      },
+    },
+  })
+  async importHymns(
+    @UploadedFiles() files: Express.Multer.File[],
+    @Query() { dryRun, hymnbookId }: ImportHymnsDto,
+    @GetUser() user: User,
+  ) {
+    return this.importService.importFiles(
+      files,
+      user,
+      dryRun === 'true',
+      hymnbookId,
+    );
+  }
+
+  @Post('/import/bulk')
+  @UseGuards(AdminAuthGuard)
+  @ApiOperation({ summary: 'Queue a bulk import from CSV, XLSX or JSON.' })
+  @ResponseMessage({ message: 'Hymn import queued successfully.' })
+  @UseInterceptors(
+    FileInterceptor('file', { limits: { fileSize: 10 * 1024 * 1024 } }),
+  )
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: { file: { type: 'string', format: 'binary' } },
+    },
+  })
+  async bulkImportHymns(
+    @UploadedFile() file: Express.Multer.File,
+    @Query() { dryRun, hymnbookId }: ImportHymnsDto,
+    @GetUser() user: User,
+  ) {
+    return this.importService.queueBulkImport(
+      file,
+      user,
+      dryRun === 'true',
+      hymnbookId,
+    );
+  }
+
+  @Get('/import/bulk/:jobId')
+  @UseGuards(AdminAuthGuard)
+  @ApiOperation({ summary: 'Fetch the state and report of a bulk import.' })
+  @ResponseMessage({ message: 'Hymn import fetched successfully.' })
+  async fetchBulkImport(@Param('jobId') jobId: string) {
+    return this.importService.fetchBulkImport(jobId);
+  }
+
+  @Get('/import/bulk/:jobId/report')
+  @UseGuards(AdminAuthGuard)
+  @ApiOperation({ summary: 'Download the report of a bulk import as CSV.' })
+  async downloadBulkImportReport(
+    @Param('jobId') jobId: string,
+    @Res() res: Response,
+  ) {
+    const { filename, contentType, content } =
+      await this.importService.fetchBulkImportReport(jobId);
+
+    res
+      .set({
+        'Content-Type': contentType,
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      })
+      .send(content);
+  }
+
   @Get()
   @Throttle({ default: { ttl: 20000, limit: 5 } })
   @ApiOperation({ summary: 'Fetch all hymns.' })
@@ -75,12 +227,65 @@ export class HymnController {
     return this.hymnService.fetchHymns(dto);
   }
 
+  @Get('/search')
+  @Throttle({ default: { ttl: 20000, limit: 5 } })
+  @ApiOperation({ summary: 'Search hymns by title, verse or chorus text.' })
+  @ResponseMessage({ message: 'Hymns fetched successfully.' })
+  async searchHymns(@Query() dto: SearchHymnsDto) {
+    return this.hymnService.searchHymns(dto);
+  }
+
+  @Get('/search/melody')
+  @Throttle({ default: { ttl: 20000, limit: 5 } })
+  @ApiOperation({ summary: 'Search hymns by a melody fragment in sol-fa.' })
+  @ResponseMessage({ message: 'Hymns fetched successfully.' })
+  async searchHymnsByMelody(@Query() dto: SearchHymnsByMelodyDto) {
+    return this.melodyService.findHymnsByMelody(dto);
+  }
+
+  @Get('/by-scripture')
+  @Throttle({ default: { ttl: 20000, limit: 5 } })
+  @ApiOperation({ summary: 'Fetch hymns on a passage of scripture.' })
+  @ResponseMessage({ message: 'Hymns fetched successfully.' })
+  async fetchHymnsByScripture(@Query() { ref }: FetchHymnsByScriptureDto) {
+    return this.scriptureService.findHymnsByScripture(ref);
+  }
+
   @Get('/:id')
+  @UseGuards(OptionalJwtAuthGuard)
   @Throttle({ default: { ttl: 20000, limit: 5 } })
   @ApiOperation({ summary: 'Fetch a hymn.' })
   @ResponseMessage({ message: 'Hymn fetched successfully.' })
-  async fetchHymnById(@Param('id') id: string) {
-    return this.hymnService.fetchHymnById(id);
+  async fetchHymnById(
+    @Param('id') id: string,
+    @Query() { lang }: FetchHymnDto,
+    @GetUser() user?: User,
+  ) {
+    return this.hymnService.fetchHymnById(id, lang, user);
+  }
+
+  @Get(':id/export')
+  @UseGuards(OptionalJwtAuthGuard)
+  @Throttle({ default: { ttl: 20000, limit: 5 } })
+  @ApiOperation({
+    summary: 'Export a hymn as OpenLyrics, ChordPro, text or JSON.',
+  })
+  async exportHymn(
+    @Param('id') id: string,
+    @Query() { format }: ExportHymnDto,
+    @Res() res: Response,
+    @GetUser() user?: User,
+  ) {
+    // Sent as a file download, bypassing the JSON response envelope
+    const { filename, contentType, content } =
+      await this.exportService.exportHymn(id, format, user);
+
+    res
+      .set({
+        'Content-Type': contentType,
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      })
+      .send(content);
   }
 
   @Patch('/:id')
@@ -118,4 +323,459 @@ export class HymnController {
   async restoreHymn(@Param('id') id: string, @GetUser() user: User) {
     return this.hymnService.restoreHymn(id, user);
   }
+
+  @Get(':id/revisions')
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({ summary: 'Fetch the revision history of a hymn.' })
+  @ResponseMessage({ message: 'Hymn revisions fetched successfully.' })
+  async fetchHymnRevisions(@Param('id') id: string) {
+    return this.revisionService.fetchRevisions(id);
+  }
+
+  @Get(':id/revisions/diff')
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({ summary: 'Compare two revisions of a hymn.' })
+  @ResponseMessage({ message: 'Hymn revisions compared successfully.' })
+  async diffHymnRevisions(
+    @Param('id') id: string,
+    @Query() { from, to }: DiffHymnRevisionsDto,
+  ) {
+    return this.revisionService.diffRevisions(id, from, to);
+  }
+
+  @Post(':id/revisions/:revision/rollback')
+  @UseGuards(AdminAuthGuard)
+  @ApiOperation({ summary: 'Roll a hymn back to an earlier revision.' })
+  @ResponseMessage({ message: 'Hymn rolled back successfully.' })
+  async rollbackHymn(
+    @Param('id') id: string,
+    @Param('revision', ParseIntPipe) revision: number,
+    @GetUser() user: User,
+  ) {
+    return this.revisionService.rollback(id, revision, user);
+  }
+
+  @Get(':id/transitions')
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({ summary: 'Fetch the editorial history of a hymn.' })
+  @ResponseMessage({ message: 'Hymn transitions fetched successfully.' })
+  async fetchHymnTransitions(@Param('id') id: string) {
+    return this.workflowService.fetchTransitions(id);
+  }
+
+  @Post(':id/submit')
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({ summary: 'Submit a hymn for review.' })
+  @ResponseMessage({ message: 'Hymn submitted for review successfully.' })
+  async submitHymn(
+    @Param('id') id: string,
+    @Body() { comment }: HymnTransitionDto,
+    @GetUser() user: User,
+  ) {
+    return this.workflowService.transition(id, 'SUBMIT', user, comment);
+  }
+
+  @Post(':id/approve')
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({ summary: 'Approve and publish a hymn under review.' })
+  @ResponseMessage({ message: 'Hymn approved successfully.' })
+  async approveHymn(
+    @Param('id') id: string,
+    @Body() { comment }: HymnTransitionDto,
+    @GetUser() user: User,
+  ) {
+    return this.workflowService.transition(id, 'APPROVE', user, comment);
+  }
+
+  @Post(':id/reject')
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({ summary: 'Send a hymn under review back for changes.' })
+  @ResponseMessage({ message: 'Hymn sent back for changes successfully.' })
+  async rejectHymn(
+    @Param('id') id: string,
+    @Body() { comment }: HymnTransitionDto,
+    @GetUser() user: User,
+  ) {
+    return this.workflowService.transition(id, 'REJECT', user, comment);
+  }
+
+  @Post(':id/publish')
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({ summary: 'Publish a draft or archived hymn.' })
+  @ResponseMessage({ message: 'Hymn published successfully.' })
+  async publishHymn(
+    @Param('id') id: string,
+    @Body() { comment }: HymnTransitionDto,
+    @GetUser() user: User,
+  ) {
+    return this.workflowService.transition(id, 'PUBLISH', user, comment);
+  }
+
+  @Post(':id/archive')
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({ summary: 'Archive a hymn.' })
+  @ResponseMessage({ message: 'Hymn archived successfully.' })
+  async archiveHymn(
+    @Param('id') id: string,
+    @Body() { comment }: HymnTransitionDto,
+    @GetUser() user: User,
+  ) {
+    return this.workflowService.transition(id, 'ARCHIVE', user, comment);
+  }
+
+  @Get(':id/sequence')
+  @UseGuards(OptionalJwtAuthGuard)
+  @Throttle({ default: { ttl: 20000, limit: 5 } })
+  @ApiOperation({ summary: 'Fetch the sung lyric sequence of a hymn.' })
+  @ResponseMessage({ message: 'Hymn sequence fetched successfully.' })
+  async fetchHymnSequence(
+    @Param('id') id: string,
+    @Query() { arrangementId }: FetchSequenceDto,
+    @GetUser() user?: User,
+  ) {
+    return this.arrangementService.expandSequence(id, arrangementId, user);
+  }
+
+  @Get(':id/slides')
+  @UseGuards(OptionalJwtAuthGuard)
+  @Throttle({ default: { ttl: 20000, limit: 5 } })
+  @ApiOperation({ summary: 'Split a hymn into slides for projection.' })
+  @ResponseMessage({ message: 'Hymn slides fetched successfully.' })
+  async fetchHymnSlides(
+    @Param('id') id: string,
+    @Query() dto: FetchSlidesDto,
+    @GetUser() user?: User,
+  ) {
+    return this.exportService.fetchSlides(id, dto, user);
+  }
+
+  @Get(':id/arrangements')
+  @UseGuards(OptionalJwtAuthGuard)
+  @Throttle({ default: { ttl: 20000, limit: 5 } })
+  @ApiOperation({ summary: 'Fetch the arrangements of a hymn.' })
+  @ResponseMessage({ message: 'Hymn arrangements fetched successfully.' })
+  async fetchHymnArrangements(@Param('id') id: string, @GetUser() user?: User) {
+    return this.arrangementService.fetchArrangements(id, user);
+  }
+
+  @Post(':id/arrangements')
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({ summary: 'Create an arrangement for a hymn.' })
+  @ResponseMessage({ message: 'Hymn arrangement created successfully.' })
+  async createHymnArrangement(
+    @Param('id') id: string,
+    @Body() createArrangementDto: CreateArrangementDto,
+    @GetUser() user: User,
+  ) {
+    return this.arrangementService.createArrangement(
+      id,
+      createArrangementDto,
+      user,
+    );
+  }
+
+  @Patch(':id/arrangements/:arrangementId')
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({ summary: 'Update an arrangement of a hymn.' })
+  @ResponseMessage({ message: 'Hymn arrangement updated successfully.' })
+  async updateHymnArrangement(
+    @Param('id') id: string,
+    @Param('arrangementId') arrangementId: string,
+    @Body() updateArrangementDto: UpdateArrangementDto,
+    @GetUser() user: User,
+  ) {
+    return this.arrangementService.updateArrangement(
+      id,
+      arrangementId,
+      updateArrangementDto,
+      user,
+    );
+  }
+
+  @Delete(':id/arrangements/:arrangementId')
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({ summary: 'Delete an arrangement of a hymn.' })
+  @ResponseMessage({ message: 'Hymn arrangement deleted successfully.' })
+  async deleteHymnArrangement(
+    @Param('id') id: string,
+    @Param('arrangementId') arrangementId: string,
+    @GetUser() user: User,
+  ) {
+    return this.arrangementService.deleteArrangement(id, arrangementId, user);
+  }
+
+  @Get(':id/solfa-images')
+  @UseGuards(OptionalJwtAuthGuard)
+  @Throttle({ default: { ttl: 20000, limit: 5 } })
+  @ApiOperation({ summary: 'Fetch the solfa pages of a hymn in page order.' })
+  @ResponseMessage({ message: 'Solfa images fetched successfully.' })
+  async fetchSolfaImages(@Param('id') id: string, @GetUser() user?: User) {
+    return this.solfaService.fetchSolfaImages(id, user);
+  }
+
+  @Post(':id/solfa-images')
+  @UseGuards(AdminAuthGuard)
+  @ApiOperation({ summary: 'Add solfa pages to the end of a hymn.' })
+  @ResponseMessage({ message: 'Solfa images added successfully.' })
+  @UseInterceptors(
+    FilesInterceptor('images', MAX_SOLFA_UPLOAD, {
+      limits: { fileSize: MAX_SOLFA_IMAGE_SIZE },
+    }),
+  )
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: {
+        images: { type: 'array', items: { type: 'string', format: 'binary' } },
+      },
+    },
+  })
+  async addSolfaImages(
+    @Param('id') id: string,
+    @UploadedFiles() images: Express.Multer.File[],
+    @GetUser() user: User,
+  ) {
+    return this.solfaService.addSolfaImages(id, images, user);
+  }
+
+  @Patch(':id/solfa-images/order')
+  @UseGuards(AdminAuthGuard)
+  @ApiOperation({
+    summary: 'Set the page order of the solfa images of a hymn.',
+  })
+  @ResponseMessage({ message: 'Solfa images reordered successfully.' })
+  async reorderSolfaImages(
+    @Param('id') id: string,
+    @Body() reorderSolfaImagesDto: ReorderSolfaImagesDto,
+    @GetUser() user: User,
+  ) {
+    return this.solfaService.reorderSolfaImages(
+      id,
+      reorderSolfaImagesDto,
+      user,
+    );
+  }
+
+  @Put(':id/solfa-images/:imageId')
+  @UseGuards(AdminAuthGuard)
+  @ApiOperation({ summary: 'Replace the image of a solfa page.' })
+  @ResponseMessage({ message: 'Solfa image replaced successfully.' })
+  @UseInterceptors(
+    FileInterceptor('image', { limits: { fileSize: MAX_SOLFA_IMAGE_SIZE } }),
+  )
+  @ApiConsumes('multipart/form-data')
+  @ApiBody({
+    schema: {
+      type: 'object',
+      properties: { image: { type: 'string', format: 'binary' } },
+    },
+  })
+  async replaceSolfaImage(
+    @Param('id') id: string,
+    @Param('imageId') imageId: string,
+    @UploadedFile() image: Express.Multer.File,
+    @GetUser() user: User,
+  ) {
+    return this.solfaService.replaceSolfaImage(id, imageId, image, user);
+  }
+
+  @Post(':id/solfa-images/:imageId/retry')
+  @UseGuards(AdminAuthGuard)
+  @ApiOperation({ summary: 'Retry processing a solfa page that failed.' })
+  @ResponseMessage({ message: 'Solfa image queued for processing again.' })
+  async retrySolfaImage(
+    @Param('id') id: string,
+    @Param('imageId') imageId: string,
+    @GetUser() user: User,
+  ) {
+    return this.solfaService.retrySolfaImage(id, imageId, user);
+  }
+
+  @Delete(':id/solfa-images/:imageId')
+  @UseGuards(AdminAuthGuard)
+  @ApiOperation({ summary: 'Delete a solfa page of a hymn.' })
+  @ResponseMessage({ message: 'Solfa image deleted successfully.' })
+  async deleteSolfaImage(
+    @Param('id') id: string,
+    @Param('imageId') imageId: string,
+    @GetUser() user: User,
+  ) {
+    return this.solfaService.deleteSolfaImage(id, imageId, user);
+  }
+
+  @Get(':id/solfa')
+  @UseGuards(OptionalJwtAuthGuard)
+  @Throttle({ default: { ttl: 20000, limit: 5 } })
+  @ApiOperation({ summary: 'Fetch the sol-fa notation of a hymn.' })
+  @ResponseMessage({ message: 'Sol-fa notation fetched successfully.' })
+  async fetchSolfaNotation(@Param('id') id: string, @GetUser() user?: User) {
+    return this.notationService.fetchSolfa(id, user);
+  }
+
+  @Put(':id/solfa')
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({ summary: 'Save the sol-fa notation of a hymn.' })
+  @ResponseMessage({ message: 'Sol-fa notation saved successfully.' })
+  async updateSolfaNotation(
+    @Param('id') id: string,
+    @Body() updateSolfaNotationDto: UpdateSolfaNotationDto,
+    @GetUser() user: User,
+  ) {
+    return this.notationService.updateSolfa(id, updateSolfaNotationDto, user);
+  }
+
+  @Delete(':id/solfa')
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({ summary: 'Remove the sol-fa notation of a hymn.' })
+  @ResponseMessage({ message: 'Sol-fa notation removed successfully.' })
+  async deleteSolfaNotation(@Param('id') id: string, @GetUser() user: User) {
+    return this.notationService.deleteSolfa(id, user);
+  }
+
+  @Get(':id/solfa/svg')
+  @UseGuards(OptionalJwtAuthGuard)
+  @Throttle({ default: { ttl: 20000, limit: 5 } })
+  @ApiOperation({ summary: 'Render the sol-fa notation of a hymn as SVG.' })
+  async renderSolfaNotation(
+    @Param('id') id: string,
+    @Res() res: Response,
+    @GetUser() user?: User,
+  ) {
+    // Sent as the image itself, bypassing the JSON response envelope
+    const { filename, contentType, content } =
+      await this.notationService.renderSolfa(id, user);
+
+    res
+      .set({
+        'Content-Type': contentType,
+        'Content-Disposition': `inline; filename="${filename}"`,
+      })
+      .send(content);
+  }
+
+  @Get(':id/midi')
+  @UseGuards(OptionalJwtAuthGuard)
+  @Throttle({ default: { ttl: 20000, limit: 5 } })
+  @ApiOperation({ summary: 'Download the sol-fa notation of a hymn as MIDI.' })
+  async downloadHymnMidi(
+    @Param('id') id: string,
+    @Query() { parts }: FetchHymnMidiDto,
+    @Res() res: Response,
+    @GetUser() user?: User,
+  ) {
+    // Sent as a file download, bypassing the JSON response envelope
+    const { filename, contentType, content } =
+      await this.notationService.renderMidi(id, parts, user);
+
+    res
+      .set({
+        'Content-Type': contentType,
+        'Content-Disposition': `attachment; filename="${filename}"`,
+      })
+      .send(content);
+  }
+
+  @Get(':id/abc')
+  @UseGuards(OptionalJwtAuthGuard)
+  @Throttle({ default: { ttl: 20000, limit: 5 } })
+  @ApiOperation({ summary: 'Fetch the ABC notation of a hymn.' })
+  @ResponseMessage({ message: 'ABC notation fetched successfully.' })
+  async fetchAbcNotation(@Param('id') id: string, @GetUser() user?: User) {
+    return this.notationService.fetchAbc(id, user);
+  }
+
+  @Put(':id/abc')
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({ summary: 'Save the ABC notation of a hymn.' })
+  @ResponseMessage({ message: 'ABC notation saved successfully.' })
+  async updateAbcNotation(
+    @Param('id') id: string,
+    @Body() updateAbcNotationDto: UpdateAbcNotationDto,
+    @GetUser() user: User,
+  ) {
+    return this.notationService.updateAbc(id, updateAbcNotationDto, user);
+  }
+
+  @Delete(':id/abc')
+  @UseGuards(JwtAuthGuard)
+  @ApiOperation({ summary: 'Remove the ABC notation of a hymn.' })
+  @ResponseMessage({ message: 'ABC notation removed successfully.' })
+  async deleteAbcNotation(@Param('id') id: string, @GetUser() user: User) {
+    return this.notationService.deleteAbc(id, user);
+  }
+
+  @Get(':id/abc/svg')
+  @UseGuards(OptionalJwtAuthGuard)
+  @Throttle({ default: { ttl: 20000, limit: 5 } })
+  @ApiOperation({
+    summary: 'Render the ABC notation of a hymn as sheet music.',
+  })
+  async renderAbcNotation(
+    @Param('id') id: string,
+    @Res() res: Response,
+    @GetUser() user?: User,
+  ) {
+    // Sent as the image itself, bypassing the JSON response envelope
+    const { filename, contentType, content } =
+      await this.notationService.renderAbc(id, user);
+
+    res
+      .set({
+        'Content-Type': contentType,
+        'Content-Disposition': `inline; filename="${filename}"`,
+      })
+      .send(content);
+  }
+
+  @Get(':id/abc/solfa')
+  @UseGuards(OptionalJwtAuthGuard)
+  @Throttle({ default: { ttl: 20000, limit: 5 } })
+  @ApiOperation({ summary: 'Convert the ABC notation of a hymn to sol-fa.' })
+  @ResponseMessage({ message: 'ABC notation converted successfully.' })
+  async convertAbcToSolfa(@Param('id') id: string, @GetUser() user?: User) {
+    return this.notationService.convertAbcToSolfa(id, user);
+  }
+
+  @Get(':id/translations')
+  @UseGuards(OptionalJwtAuthGuard)
+  @Throttle({ default: { ttl: 20000, limit: 5 } })
+  @ApiOperation({ summary: 'Fetch the translations of a hymn.' })
+  @ResponseMessage({ message: 'Hymn translations fetched successfully.' })
+  async fetchHymnTranslations(@Param('id') id: string, @GetUser() user?: User) {
+    return this.translationService.fetchTranslations(id, user);
+  }
+
+  @Post(':id/translations')
+  @UseGuards(AdminAuthGuard)
+  @ApiOperation({ summary: 'Link a hymn as a translation of another.' })
+  @ResponseMessage({ message: 'Hymn translation linked successfully.' })
+  async linkHymnTranslation(
+    @Param('id') id: string,
+    @Body() { hymnId }: LinkHymnTranslationDto,
+    @GetUser() user: User,
+  ) {
+    return this.translationService.linkTranslation(id, hymnId, user);
+  }
+
+  @Delete(':id/translations')
+  @UseGuards(AdminAuthGuard)
+  @ApiOperation({ summary: 'Unlink a hymn from its translations.' })
+  @ResponseMessage({ message: 'Hymn translation unlinked successfully.' })
+  async unlinkHymnTranslation(@Param('id') id: string, @GetUser() user: User) {
+    return this.translationService.unlinkTranslation(id, user);
+  }
+
+  @Get(':id/matches')
+  @UseGuards(OptionalJwtAuthGuard)
+  @Throttle({ default: { ttl: 20000, limit: 5 } })
+  @ApiOperation({ summary: 'Fetch hymns sharing the tune or meter of a hymn.' })
+  @ResponseMessage({ message: 'Hymn matches fetched successfully.' })
+  async fetchHymnMatches(
+    @Param('id') id: string,
+    @Query() { by }: FetchHymnMatchesDto,
+    @GetUser() user?: User,
+  ) {
+    return this.tuneService.findHymnMatches(id, by, user);
+  }
 }
@@ -5,10 +5,59 @@ import { PrismaModule } from 'src/common/prisma/prisma.module';
 import { CacheModule } from 'src/common/cache/cache.module';
 import { AuditLogModule } from 'src/common/audit-log/audit-log.module';
 import { CloudinaryModule } from '@@/common/cloudinary/cloudinary.module';
+import { HymnRevisionService } from './hymn-revision.service';
+import { HymnWorkflowService } from './hymn-workflow.service';
+import { HymnArrangementService } from './hymn-arrangement.service';
+import { HymnTranslationService } from './hymn-translation.service';
+import { HymnImportService } from './hymn-import.service';
+import { HymnExportService } from './hymn-export.service';
+import { HymnScriptureService } from './hymn-scripture.service';
+import { HymnSolfaService } from './hymn-solfa.service';
+import { HymnNotationService } from './hymn-notation.service';
+import { HymnMelodyService } from './hymn-melody.service';
+import { BullModule } from '@nestjs/bull';
+import { HYMN_QUEUE, MEDIA_QUEUE } from './interfaces';
+import { HymnQueueProducer } from './queue/producer';
+import { HymnQueueConsumer } from './queue/consumer';
+import { MediaQueueProducer } from './queue/media.producer';
+import { MediaQueueConsumer } from './queue/media.consumer';
+import { TuneModule } from '@@/modules/tune/tune.module';
+import { TagModule } from '@@/modules/tag/tag.module';
+import { CategoryModule } from '@@/modules/category/category.module';
+import { HymnbookModule } from '@@/modules/hymnbook/hymnbook.module';
+import { MediaModule } from '@@/common/media/media.module';
 
 @Module({
-  imports: [PrismaModule, CacheModule, AuditLogModule, CloudinaryModule],
+  imports: [
+    PrismaModule,
+    CacheModule,
+    AuditLogModule,
+    CloudinaryModule,
+    TuneModule,
+    TagModule,
+    CategoryModule,
+    HymnbookModule,
+    MediaModule,
+    BullModule.registerQueue({ name: HYMN_QUEUE }),
+    BullModule.registerQueue({ name: MEDIA_QUEUE }),
+  ],
   controllers: [HymnController],
-  providers: [HymnService],
+  providers: [
+    HymnService,
+    HymnRevisionService,
+    HymnWorkflowService,
+    HymnArrangementService,
+    HymnTranslationService,
+    HymnImportService,
+    HymnExportService,
+    HymnScriptureService,
+    HymnSolfaService,
+    HymnNotationService,
+    HymnMelodyService,
+    HymnQueueProducer,
+    HymnQueueConsumer,
+    MediaQueueProducer,
+    MediaQueueConsumer,
+  ],
 })
 export class HymnModule {}
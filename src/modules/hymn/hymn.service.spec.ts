@@ -0,0 +1,219 @@
+import { NotAcceptableException } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { Prisma } from '@prisma/client';
+import { CacheService } from 'src/common/cache/cache.service';
+import { PrismaService } from 'src/common/prisma/prisma.service';
+import { AuditLogService } from 'src/common/audit-log/audit-log.service';
+import { AppUtilities } from 'src/common/utilities';
+import { HymnService } from '@@/modules/hymn/hymn.service';
+import { HymnSolfaService } from '@@/modules/hymn/hymn-solfa.service';
+import { HymnRevisionService } from '@@/modules/hymn/hymn-revision.service';
+import { HymnTranslationService } from '@@/modules/hymn/hymn-translation.service';
+import { HymnScriptureService } from '@@/modules/hymn/hymn-scripture.service';
+import { TagService } from '@@/modules/tag/tag.service';
+import { CategoryService } from '@@/modules/category/category.service';
+import { HymnbookService } from '@@/modules/hymnbook/hymnbook.service';
+
+const suggestion = {
+  id: 'amazing',
+  number: 12,
+  title: 'Amazing Grace',
+  slug: 'amazing-grace',
+  firstLine: 'Amazing grace, how sweet the sound',
+  similarity: 0.6,
+};
+
+const row = (hymnId: string, rank: number) => ({
+  hymnId,
+  rank,
+  matches: [{ source: 'title', id: null, order: null, snippet: hymnId }],
+});
+
+const cursorOf = (id: string, dir: 1 | -1) =>
+  AppUtilities.encode(JSON.stringify({ id, dir }));
+
+const readCursor = (edge: { cursor: string } | null) =>
+  edge && JSON.parse(AppUtilities.decode(edge.cursor));
+
+describe('HymnService', () => {
+  let service: HymnService;
+  let prisma: {
+    $queryRaw: jest.Mock;
+    hymn: Record<string, jest.Mock>;
+  };
+  let cache: Record<string, jest.Mock>;
+
+  beforeEach(async () => {
+    prisma = {
+      $queryRaw: jest.fn(),
+      hymn: {
+        findMany: jest.fn(async ({ where }) =>
+          where.id.in.map((id: string) => ({ id, title: id })),
+        ),
+        count: jest.fn(async () => 0),
+      },
+    };
+    cache = { get: jest.fn(async () => null), set: jest.fn() };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        HymnService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: CacheService, useValue: cache },
+        { provide: AuditLogService, useValue: {} },
+        { provide: HymnSolfaService, useValue: {} },
+        { provide: HymnRevisionService, useValue: {} },
+        { provide: HymnTranslationService, useValue: {} },
+        { provide: HymnScriptureService, useValue: {} },
+        { provide: TagService, useValue: {} },
+        { provide: CategoryService, useValue: {} },
+        { provide: HymnbookService, useValue: {} },
+      ],
+    }).compile();
+
+    service = moduleRef.get(HymnService);
+  });
+
+  describe('searchHymns', () => {
+    it('returns the first page by rank with the matches of every hymn', async () => {
+      prisma.$queryRaw
+        .mockResolvedValueOnce([{ total: 3 }])
+        .mockResolvedValueOnce([row('b', 0.9), row('a', 0.5), row('c', 0.1)]);
+
+      const result = await service.searchHymns({ q: 'grace', size: 2 });
+
+      expect(result.totalCount).toBe(3);
+      expect(result.pageEdges).toEqual([
+        expect.objectContaining({ id: 'b', rank: 0.9 }),
+        expect.objectContaining({ id: 'a', rank: 0.5 }),
+      ]);
+      expect(result.pageEdges[0].matches).toEqual(row('b', 0.9).matches);
+      expect(result.pageCursors.previous).toBeNull();
+      expect(readCursor(result.pageCursors.next)).toEqual({ id: 'a', dir: 1 });
+      expect(cache.set).toHaveBeenCalled();
+    });
+
+    it('walks back from the cursor and keeps the page in rank order', async () => {
+      // Read back from `c`, nearest first, with one more row than the page
+      prisma.$queryRaw
+        .mockResolvedValueOnce([{ total: 5 }])
+        .mockResolvedValueOnce([row('b', 0.6), row('a', 0.7), row('z', 0.8)]);
+
+      const result = await service.searchHymns({
+        q: 'grace',
+        size: 2,
+        cursor: cursorOf('c', -1),
+      });
+
+      expect(result.pageEdges.map((hymn) => hymn.id)).toEqual(['a', 'b']);
+      expect(readCursor(result.pageCursors.previous)).toEqual({
+        id: 'a',
+        dir: -1,
+      });
+      expect(readCursor(result.pageCursors.next)).toEqual({ id: 'b', dir: 1 });
+    });
+
+    it('keeps the total on a page past the end', async () => {
+      prisma.$queryRaw
+        .mockResolvedValueOnce([{ total: 3 }])
+        .mockResolvedValueOnce([]);
+
+      const result = await service.searchHymns({
+        q: 'grace',
+        cursor: cursorOf('c', 1),
+      });
+
+      expect(result).toMatchObject({
+        pageEdges: [],
+        pageCursors: { previous: null, next: null },
+        totalCount: 3,
+      });
+      expect(result).not.toHaveProperty('suggestions');
+    });
+
+    it('leaves out a hymn deleted since it was ranked', async () => {
+      prisma.$queryRaw
+        .mockResolvedValueOnce([{ total: 2 }])
+        .mockResolvedValueOnce([row('a', 0.9), row('b', 0.5)]);
+      prisma.hymn.findMany.mockResolvedValueOnce([{ id: 'b', title: 'b' }]);
+
+      const result = await service.searchHymns({ q: 'grace' });
+
+      expect(result.pageEdges.map((hymn) => hymn.id)).toEqual(['b']);
+    });
+
+    it('only ranks published hymns', async () => {
+      prisma.$queryRaw
+        .mockResolvedValueOnce([{ total: 1 }])
+        .mockResolvedValueOnce([row('a', 0.9)]);
+
+      await service.searchHymns({ q: 'grace' });
+
+      const [query]: [Prisma.Sql] = prisma.$queryRaw.mock.calls[1];
+      expect(query.sql.match(/h\.status = 'Published'/g)).toHaveLength(3);
+      expect(query.values).toContain('grace');
+    });
+
+    it('refuses a cursor it cannot read', async () => {
+      await expect(
+        service.searchHymns({ q: 'grace', cursor: 'not a cursor' }),
+      ).rejects.toThrow(new NotAcceptableException('Invalid cursor!'));
+      expect(prisma.$queryRaw).not.toHaveBeenCalled();
+    });
+
+    it('answers a repeated search from the cache', async () => {
+      cache.get.mockResolvedValueOnce({ totalCount: 1 });
+
+      expect(await service.searchHymns({ q: 'grace' })).toEqual({
+        totalCount: 1,
+      });
+      expect(prisma.$queryRaw).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('suggestions', () => {
+    it('suggests hymns when a search finds nothing', async () => {
+      prisma.$queryRaw
+        .mockResolvedValueOnce([{ total: 0 }])
+        .mockResolvedValueOnce([])
+        .mockResolvedValueOnce([suggestion]);
+
+      const result = await service.searchHymns({ q: 'amazng grase' });
+
+      expect(result).toMatchObject({
+        totalCount: 0,
+        suggestions: [suggestion],
+      });
+      const [query]: [Prisma.Sql] = prisma.$queryRaw.mock.calls[2];
+      expect(query.values).toEqual(expect.arrayContaining(['amazng grase', 5]));
+    });
+
+    it('suggests hymns when a title filter misses', async () => {
+      prisma.hymn.findMany.mockResolvedValueOnce([]);
+      prisma.$queryRaw.mockResolvedValueOnce([suggestion]);
+
+      const result = await service.fetchHymns({ title: 'amazng grase' });
+
+      expect(result).toMatchObject({ suggestions: [suggestion] });
+      expect(prisma.hymn.findMany).toHaveBeenCalledWith(
+        expect.objectContaining({
+          where: expect.objectContaining({
+            status: 'Published',
+            title: expect.objectContaining({ contains: 'amazng grase' }),
+          }),
+        }),
+      );
+    });
+
+    it('only suggests published hymns, scored on their closest line', async () => {
+      prisma.$queryRaw.mockResolvedValueOnce([suggestion]);
+
+      await service.suggestHymns('amazng', 3);
+
+      const [query]: [Prisma.Sql] = prisma.$queryRaw.mock.calls[0];
+      expect(query.sql.match(/h\.status = 'Published'/g)).toHaveLength(2);
+      expect(query.sql).toContain('ORDER BY word_similarity(');
+      expect(query.values).toEqual(expect.arrayContaining(['amazng', 3]));
+    });
+  });
+});
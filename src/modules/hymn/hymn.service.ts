@@ -1,20 +1,54 @@
 import {
+  BadRequestException,
   ConflictException,
   Injectable,
   InternalServerErrorException,
+  NotAcceptableException,
   NotFoundException,
 } from '@nestjs/common';
 import { CacheService } from 'src/common/cache/cache.service';
 import { PrismaService } from 'src/common/prisma/prisma.service';
 import { CreateHymnDto } from './dto/create-hymn.dto';
-import { Prisma, User } from '@prisma/client';
+import { HymnStatus, Prisma, User } from '@prisma/client';
 import { AppUtilities } from 'src/common/utilities';
 import { UpdateHymnDto } from './dto/update-hymn.dto';
 import { AuditLogService } from 'src/common/audit-log/audit-log.service';
 import { CrudService } from '@@/common/database/crud.service';
 import { FetchHymnsDto } from '@@/modules/hymn/dto/fetch-hymn.dto';
 import { CacheKeysEnums } from '@@/common/cache/cache.enum';
-import { CloudinaryService } from '@@/common/cloudinary/cloudinary.service';
+import { HymnSolfaService } from '@@/modules/hymn/hymn-solfa.service';
+import { SearchHymnsDto } from '@@/modules/hymn/dto/search-hymn.dto';
+import { HymnRevisionService } from '@@/modules/hymn/hymn-revision.service';
+import { HymnTranslationService } from '@@/modules/hymn/hymn-translation.service';
+import {
+  HymnScriptureService,
+  SCRIPTURE_SELECT,
+} from '@@/modules/hymn/hymn-scripture.service';
+import { HymnSearchRow, IHymnSuggestion } from '@@/modules/hymn/interfaces';
+import { TAG_SUMMARY_SELECT, TagService } from '@@/modules/tag/tag.service';
+import { CategoryService } from '@@/modules/category/category.service';
+import {
+  HYMN_HYMNBOOKS,
+  HymnbookService,
+  PRIMARY_NUMBER_SQL,
+} from '@@/modules/hymnbook/hymnbook.service';
+
+// Title hits count for more than a line matched somewhere in a verse.
+const TITLE_RANK_WEIGHT = 2;
+const SEARCH_HEADLINE_OPTIONS =
+  'StartSel=<mark>, StopSel=</mark>, MaxWords=20, MinWords=8, MaxFragments=2';
+const SUGGESTION_LIMIT = 5;
+
+const CREATED_HYMN_INCLUDE = {
+  verses: true,
+  choruses: true,
+  solfaImages: true,
+  category: true,
+  tune: true,
+  tags: { select: TAG_SUMMARY_SELECT, orderBy: { name: 'asc' } },
+  scriptures: { select: SCRIPTURE_SELECT, orderBy: { start: 'asc' } },
+  hymnbooks: HYMN_HYMNBOOKS,
+} satisfies Prisma.HymnInclude;
 
 @Injectable()
 export class HymnService extends CrudService<Prisma.HymnDelegate, any> {
@@ -22,18 +56,26 @@ export class HymnService extends CrudService<Prisma.HymnDelegate, any> {
     private prisma: PrismaService,
     private cacheService: CacheService,
     private auditService: AuditLogService,
-    private cloudinaryService: CloudinaryService,
+    private solfaService: HymnSolfaService,
+    private revisionService: HymnRevisionService,
+    private translationService: HymnTranslationService,
+    private scriptureService: HymnScriptureService,
+    private tagService: TagService,
+    private categoryService: CategoryService,
+    private hymnbookService: HymnbookService,
   ) {
     super(prisma.hymn);
   }
 
   /**
-   * Creates a new hymn with the provided data and uploads optional solfa image.
+   * Creates a new hymn with the provided data and queues its optional solfa image.
    * @param createData The data for creating the hymn.
    * @param user The user creating the hymn.
    * @param file Optional solfa image file.
    * @returns The created hymn data including solfa image.
-   * @throws ConflictException if a hymn with the same number or slug already exists.
+   * @throws ConflictException if a hymn with the same slug already exists, or
+   * the number is already used in the hymnbook.
+   * @throws NotFoundException if the hymnbook does not exist.
    */
   async createHymn(
     createData: CreateHymnDto,
@@ -43,45 +85,67 @@ export class HymnService extends CrudService<Prisma.HymnDelegate, any> {
     console.log('Create Hymn Data:', createData);
     const {
       number,
+      hymnbookId,
       title,
       categoryId,
+      tuneId,
       author,
       language,
       version,
       verses,
       choruses,
+      scriptures,
+      tagIds,
+      key,
+      tempo,
     } = createData;
     const slug = AppUtilities.slugify(title);
+    const languageTag = language && this.parseLanguage(language);
+    const scriptureRanges =
+      scriptures && this.scriptureService.parseReferences(scriptures);
+    const tags =
+      tagIds?.length && (await this.tagService.findTagsForHymn(tagIds));
+    if (file) await this.solfaService.inspectImages([file]);
 
+    let created: Prisma.HymnGetPayload<{
+      include: typeof CREATED_HYMN_INCLUDE;
+    }>;
     try {
-      return await this.prisma.$transaction(async (tx) => {
+      created = await this.prisma.$transaction(async (tx) => {
         // Create hymn Record
         const hymn = await tx.hymn.create({
           data: {
-            number,
             title,
             slug,
             categoryId,
+            tuneId,
             author,
-            language,
+            language: languageTag,
             version,
+            key,
+            tempo,
+            status: 'Draft',
+            ...(tags && { tags: { connect: tags } }),
             createdById: user.id,
             updatedById: user.id,
           },
         });
 
-        // Upload solfa image (if any)
-        if (file) {
-          const uploadResult = await this.cloudinaryService.uploadImage(
-            file,
-            'hymns/solfa',
-            file.originalname,
+        if (hymnbookId) {
+          await this.hymnbookService.writeEntry(
+            tx,
+            hymnbookId,
+            hymn.id,
+            number,
           );
+        }
 
+        // Save the solfa page (if any); the media queue stores its image
+        if (file) {
           await tx.solfaImage.create({
             data: {
               hymnId: hymn.id,
-              imageUrl: uploadResult?.secure_url,
+              status: 'Pending',
               createdById: user.id,
             },
           });
@@ -111,6 +175,16 @@ export class HymnService extends CrudService<Prisma.HymnDelegate, any> {
           });
         }
 
+        if (scriptureRanges?.length) {
+          await this.scriptureService.replaceReferences(
+            tx,
+            hymn.id,
+            scriptureRanges,
+          );
+        }
+
+        await this.revisionService.record(tx, hymn.id, user, 'CREATE');
+
         // Log audit
         await this.auditService.log({
           action: 'CREATE',
@@ -121,31 +195,46 @@ export class HymnService extends CrudService<Prisma.HymnDelegate, any> {
         });
 
         // Return hymn with relations
-        return await tx.hymn.findUnique({
+        return tx.hymn.findUnique({
           where: { id: hymn.id },
-          include: {
-            verses: true,
-            choruses: true,
-            solfaImages: true,
-            category: true,
-          },
+          include: CREATED_HYMN_INCLUDE,
         });
       });
     } catch (error) {
       console.error('Error creating hymn:', error);
 
+      if (
+        error instanceof ConflictException ||
+        error instanceof NotFoundException
+      ) {
+        throw error;
+      }
+
       if (error.code === 'P2002') {
-        throw new ConflictException(
-          'A hymn with this title or number already exists.',
-        );
+        throw new ConflictException('A hymn with this title already exists.');
+      }
+
+      if (error.code === 'P2003') {
+        throw new BadRequestException('The category or tune does not exist.');
       }
 
       throw new NotFoundException('An error occurred while creating the hymn.');
     }
+
+    // The hymn is saved by now, so a page that cannot be queued is marked
+    // failed instead of failing the request
+    if (file) {
+      await this.solfaService.queueImages(created.solfaImages, [file]);
+    }
+
+    return {
+      ...created,
+      solfaImages: this.solfaService.resolveUrls(created.solfaImages),
+    };
   }
 
   /**
-   * Fetches all hymns from the database.
+   * Fetches all published hymns from the database.
    * @returns An array of hymn data.
    */
   async fetchHymns({
@@ -153,13 +242,35 @@ export class HymnService extends CrudService<Prisma.HymnDelegate, any> {
     direction,
     cursor,
     size,
+    tags,
+    tagMatch,
+    categoryId,
+    includeSubcategories,
+    book,
+    number,
     ...dto
   }: FetchHymnsDto) {
     const parsedFilterQuery = await this.parseQueryFilter(dto, [
       'title|contains',
-      'number|equals',
       'author|contains',
     ]);
+    const tagFilterQuery =
+      tags?.length &&
+      this.tagService.parseHymnTagFilter(
+        tags.map((tag) => AppUtilities.slugify(tag)),
+        tagMatch,
+      );
+    // Without a book, a number matches the hymn's number in any book
+    const bookFilterQuery = (book || number) && {
+      hymnbooks: {
+        some: {
+          hymnbook: book
+            ? this.hymnbookService.bookWhere(book)
+            : { deletedAt: null },
+          ...(number && { number }),
+        },
+      },
+    };
 
     // Generate a cache key (unique to query + pagination params)
     const cacheKey = `${CacheKeysEnums.HYMNS}:${JSON.stringify({
@@ -167,6 +278,12 @@ export class HymnService extends CrudService<Prisma.HymnDelegate, any> {
       direction,
       cursor,
       size,
+      tags,
+      tagMatch,
+      categoryId,
+      includeSubcategories,
+      book,
+      number,
       ...dto,
     })}`;
 
@@ -177,13 +294,25 @@ export class HymnService extends CrudService<Prisma.HymnDelegate, any> {
         return cachedData;
       }
 
+      const categoryIds =
+        categoryId && includeSubcategories
+          ? await this.categoryService.findSubtreeIds(categoryId)
+          : [categoryId];
+
       const args: Prisma.HymnFindManyArgs = {
         where: {
           deletedAt: null,
+          status: 'Published',
           ...parsedFilterQuery,
+          ...tagFilterQuery,
+          ...bookFilterQuery,
+          ...(categoryId && { categoryId: { in: categoryIds } }),
         },
         include: {
           category: true,
+          tune: true,
+          tags: { select: TAG_SUMMARY_SELECT, orderBy: { name: 'asc' } },
+          hymnbooks: HYMN_HYMNBOOKS,
         },
         orderBy: orderBy
           ? { [orderBy]: direction ?? 'asc' }
@@ -197,6 +326,14 @@ export class HymnService extends CrudService<Prisma.HymnDelegate, any> {
         size,
       });
 
+      // Offer "did you mean" suggestions when the exact filter misses
+      const typed = dto.term ?? dto.title;
+      if (typed && !result.pageEdges?.length) {
+        Object.assign(result, {
+          suggestions: await this.suggestHymns(typed),
+        });
+      }
+
       // Cache the result for future requests
       await this.cacheService.set(cacheKey, result, 300000);
 
@@ -206,20 +343,243 @@ export class HymnService extends CrudService<Prisma.HymnDelegate, any> {
     }
   }
 
+  /**
+   * Runs a ranked full-text search over hymn titles, verses and choruses.
+   * Each hymn's rank is the sum of its matching parts, with title matches
+   * weighted higher, and every match carries a highlighted snippet. Pages
+   * are cursor-based like `fetchHymns`, walking the ranking from the hymn
+   * the cursor names.
+   * @param dto - The search term and page options.
+   * @returns A page of hymns ordered by rank, with their matches.
+   * @throws NotAcceptableException if the cursor cannot be read.
+   */
+  async searchHymns({ q, cursor, size = 25 }: SearchHymnsDto) {
+    const cacheKey = `${CacheKeysEnums.HYMNS}:search:${JSON.stringify({
+      q,
+      cursor,
+      size,
+    })}`;
+
+    const cachedData = await this.cacheService.get(cacheKey);
+    if (cachedData) {
+      return cachedData;
+    }
+
+    let decodedCursor: { id?: string; dir?: 1 | -1 } = {};
+    if (cursor) {
+      try {
+        decodedCursor = JSON.parse(AppUtilities.decode(cursor));
+      } catch {
+        throw new NotAcceptableException('Invalid cursor!');
+      }
+    }
+    const backwards = decodedCursor.dir === -1;
+
+    const ranked = Prisma.sql`
+      WITH query AS (
+        SELECT websearch_to_tsquery('simple', ${q}) AS tsq
+      ),
+      hits AS (
+        SELECT h.id AS "hymnId", 'title' AS source, NULL::uuid AS "sourceId",
+          NULL::int AS "order",
+          ts_rank(to_tsvector('simple', h.title), query.tsq) * ${TITLE_RANK_WEIGHT} AS rank,
+          ts_headline('simple', h.title, query.tsq, ${SEARCH_HEADLINE_OPTIONS}) AS snippet
+        FROM hymns h, query
+        WHERE h."deletedAt" IS NULL
+          AND h.status = 'Published'
+          AND to_tsvector('simple', h.title) @@ query.tsq
+        UNION ALL
+        SELECT v."hymnId", 'verse', v.id, v."order",
+          ts_rank(to_tsvector('simple', v.text), query.tsq),
+          ts_headline('simple', v.text, query.tsq, ${SEARCH_HEADLINE_OPTIONS})
+        FROM verses v
+        JOIN hymns h ON h.id = v."hymnId"
+          AND h."deletedAt" IS NULL
+          AND h.status = 'Published', query
+        WHERE v."deletedAt" IS NULL
+          AND to_tsvector('simple', v.text) @@ query.tsq
+        UNION ALL
+        SELECT c."hymnId", 'chorus', c.id, NULL,
+          ts_rank(to_tsvector('simple', c.text), query.tsq),
+          ts_headline('simple', c.text, query.tsq, ${SEARCH_HEADLINE_OPTIONS})
+        FROM choruses c
+        JOIN hymns h ON h.id = c."hymnId"
+          AND h."deletedAt" IS NULL
+          AND h.status = 'Published', query
+        WHERE c."deletedAt" IS NULL
+          AND to_tsvector('simple', c.text) @@ query.tsq
+      ),
+      ranked AS (
+        SELECT "hymnId",
+          SUM(rank)::float AS rank,
+          json_agg(
+            json_build_object(
+              'source', source,
+              'id', "sourceId",
+              'order', "order",
+              'snippet', snippet
+            ) ORDER BY rank DESC
+          ) AS matches,
+          ROW_NUMBER() OVER (ORDER BY SUM(rank) DESC, "hymnId")::int AS position
+        FROM hits
+        GROUP BY "hymnId"
+      )
+    `;
+
+    // Counted apart from the page, so a cursor past the end keeps the total
+    const [{ total: totalCount }] = await this.prisma.$queryRaw<
+      { total: number }[]
+    >(Prisma.sql`${ranked} SELECT COUNT(*)::int AS total FROM ranked`);
+
+    // One row more than the page shows whether there is another page
+    const after = Prisma.sql`(
+      SELECT position FROM ranked WHERE "hymnId"::text = ${decodedCursor.id ?? null}
+    )`;
+    const rows = await this.prisma.$queryRaw<HymnSearchRow[]>(Prisma.sql`
+      ${ranked}
+      SELECT "hymnId", rank, matches
+      FROM ranked
+      WHERE ${
+        !cursor
+          ? Prisma.sql`true`
+          : backwards
+            ? Prisma.sql`position < ${after}`
+            : Prisma.sql`position > ${after}`
+      }
+      ORDER BY position ${backwards ? Prisma.sql`DESC` : Prisma.sql`ASC`}
+      LIMIT ${size + 1}
+    `);
+
+    const hasMore = rows.length > size;
+    const pageRows = rows.slice(0, size);
+    if (backwards) {
+      pageRows.reverse();
+    }
+
+    const hymns = await this.prisma.hymn.findMany({
+      where: { id: { in: pageRows.map((row) => row.hymnId) } },
+      include: {
+        category: true,
+        hymnbooks: HYMN_HYMNBOOKS,
+      },
+    });
+    const hymnsById = new Map(hymns.map((hymn) => [hymn.id, hymn]));
+
+    const pageEdges = pageRows
+      .filter((row) => hymnsById.has(row.hymnId))
+      .map((row) => ({
+        ...hymnsById.get(row.hymnId),
+        rank: row.rank,
+        matches: row.matches,
+      }));
+
+    const edgeCursor = (id: string, dir: 1 | -1) => ({
+      cursor: AppUtilities.encode(JSON.stringify({ id, dir })),
+      page: null,
+      isCurrent: false,
+    });
+    const hasPrevious = backwards ? hasMore : !!cursor;
+    const hasNext = backwards || hasMore;
+
+    const result = {
+      pageEdges,
+      pageCursors: {
+        previous:
+          hasPrevious && pageRows.length
+            ? edgeCursor(pageRows[0].hymnId, -1)
+            : null,
+        next:
+          hasNext && pageRows.length
+            ? edgeCursor(pageRows[pageRows.length - 1].hymnId, 1)
+            : null,
+      },
+      totalCount,
+      ...(!totalCount && { suggestions: await this.suggestHymns(q) }),
+    };
+
+    await this.cacheService.set(cacheKey, result, 300000);
+
+    return result;
+  }
+
+  /**
+   * Finds hymns whose title or first line is close to the given term,
+   * tolerating small misspellings through pg_trgm similarity. A hymn is
+   * scored and shown with the verse whose first line is closest, which need
+   * not be its first verse.
+   * @param term - The text the user typed.
+   * @param limit - The maximum number of suggestions to return.
+   * @returns The closest hymns, best match first, with similarity scores.
+   */
+  async suggestHymns(
+    term: string,
+    limit = SUGGESTION_LIMIT,
+  ): Promise<IHymnSuggestion[]> {
+    return this.prisma.$queryRaw<IHymnSuggestion[]>(Prisma.sql`
+      WITH candidates AS (
+        SELECT h.id FROM hymns h
+        WHERE h."deletedAt" IS NULL
+          AND h.status = 'Published'
+          AND h.title % ${term}
+        UNION
+        SELECT v."hymnId" FROM verses v
+        WHERE v."deletedAt" IS NULL
+          AND ${term} <% split_part(v.text, E'\n', 1)
+      )
+      SELECT h.id, ${PRIMARY_NUMBER_SQL} AS number, h.title, h.slug,
+        fl."firstLine",
+        GREATEST(
+          similarity(h.title, ${term}),
+          COALESCE(word_similarity(${term}, fl."firstLine"), 0)
+        )::float AS similarity
+      FROM candidates
+      JOIN hymns h ON h.id = candidates.id
+        AND h."deletedAt" IS NULL
+        AND h.status = 'Published'
+      LEFT JOIN LATERAL (
+        SELECT split_part(v.text, E'\n', 1) AS "firstLine"
+        FROM verses v
+        WHERE v."hymnId" = h.id AND v."deletedAt" IS NULL
+        ORDER BY word_similarity(${term}, split_part(v.text, E'\n', 1)) DESC,
+          v."order" ASC NULLS LAST
+        LIMIT 1
+      ) fl ON true
+      ORDER BY similarity DESC, h.title
+      LIMIT ${limit}
+    `);
+  }
+
   /**
    * Fetches a hymn by its ID, including related categories, choruses, and verses.
    * @param id - The ID of the hymn to fetch.
+   * @param lang - Optional BCP 47 tag; the best matching translation is returned instead.
+   * @param user - The signed-in user, if any; anonymous requests only see published hymns.
    * @returns The hymn data along with its related entities.
    * @throws NotFoundException if the hymn does not exist.
    */
-  async fetchHymnById(id: string) {
+  async fetchHymnById(id: string, lang?: string, user?: User) {
+    const hymnId = lang
+      ? await this.translationService.resolveTranslation(id, lang, user)
+      : id;
+
     try {
       const hymn = await this.prisma.hymn.findUniqueOrThrow({
-        where: { id },
+        where: {
+          id: hymnId,
+          ...(!user && { status: HymnStatus.Published }),
+        },
         include: {
           category: true,
-          choruses: true,
+          tune: true,
+          tags: { select: TAG_SUMMARY_SELECT, orderBy: { name: 'asc' } },
+          hymnbooks: HYMN_HYMNBOOKS,
+          scriptures: { select: SCRIPTURE_SELECT, orderBy: { start: 'asc' } },
+          choruses: {
+            where: { deletedAt: null },
+            orderBy: { order: 'asc' },
+          },
           verses: {
+            where: { deletedAt: null },
             orderBy: { order: 'asc' },
           },
         },
@@ -234,45 +594,253 @@ export class HymnService extends CrudService<Prisma.HymnDelegate, any> {
   }
 
   /**
-   * Updates an existing hymn with the provided data.
+   * Updates an existing hymn, including its verses and choruses, in one transaction.
+   * A `verses` or `choruses` array is taken as the complete list: items with an
+   * id are updated, items without one are created, and items left out are
+   * soft-deleted. Their `order` is then resequenced from 1.
    * @param id
    * @param updateData
    * @param user
-   * @returns The updated hymn data.
-   * @throws NotFoundException if the hymn does not exist.
+   * @returns The updated hymn with its category, verses and choruses.
+   * @throws NotFoundException if the hymn or the hymnbook does not exist.
+   * @throws BadRequestException if a verse or chorus id is not part of this hymn,
+   * or the language is not a valid BCP 47 tag.
+   * @throws ConflictException if the title or the number in the hymnbook is
+   * already taken, or a translation of the hymn already uses the language.
    */
   async updateHymn(id: string, updateData: UpdateHymnDto, user: User) {
-    const { number, title, categoryId, author } = updateData;
-    const slug = AppUtilities.slugify(title);
+    const {
+      number,
+      hymnbookId,
+      title,
+      language,
+      verses,
+      choruses,
+      scriptures,
+      tagIds,
+      ...fields
+    } = updateData;
+    const languageTag = language && this.parseLanguage(language);
+    const scriptureRanges =
+      scriptures && this.scriptureService.parseReferences(scriptures);
+    const tags = tagIds && (await this.tagService.findTagsForHymn(tagIds));
+
     try {
-      const updatedHymn = await this.prisma.hymn.update({
-        where: { id },
-        data: {
-          number,
-          title,
-          slug,
-          categoryId,
-          author,
-          updatedById: user.id,
-          updatedAt: new Date(),
-        },
-        select: {
-          id: true,
-          number: true,
-          title: true,
-          slug: true,
-          categoryId: true,
-        },
+      return await this.prisma.$transaction(async (tx) => {
+        const hymn = await tx.hymn.findFirst({
+          where: { id, deletedAt: null },
+          select: { id: true },
+        });
+
+        if (!hymn) {
+          throw new NotFoundException('Hymn not found.');
+        }
+
+        const now = new Date();
+
+        await tx.hymn.update({
+          where: { id },
+          data: {
+            ...fields,
+            language: languageTag,
+            // Only touch the slug when the title actually changes
+            ...(title !== undefined && {
+              title,
+              slug: AppUtilities.slugify(title),
+            }),
+            ...(tags && { tags: { set: tags } }),
+            updatedById: user.id,
+            updatedAt: now,
+          },
+        });
+
+        if (hymnbookId) {
+          await this.hymnbookService.writeEntry(tx, hymnbookId, id, number);
+        }
+
+        if (verses) {
+          const { created, updated, removed } = this.planItemChanges(
+            await tx.verse.findMany({
+              where: { hymnId: id, deletedAt: null },
+              select: { id: true, text: true, order: true },
+            }),
+            verses,
+          );
+
+          await tx.verse.updateMany({
+            where: { id: { in: removed } },
+            data: { deletedAt: now, updatedById: user.id },
+          });
+          for (const { id: verseId, text, order } of updated) {
+            await tx.verse.update({
+              where: { id: verseId },
+              data: { text, order, updatedById: user.id, updatedAt: now },
+            });
+          }
+          await tx.verse.createMany({
+            data: created.map(({ text, order }) => ({
+              hymnId: id,
+              text,
+              order,
+              createdById: user.id,
+            })),
+          });
+        }
+
+        if (choruses) {
+          const { created, updated, removed } = this.planItemChanges(
+            await tx.chorus.findMany({
+              where: { hymnId: id, deletedAt: null },
+              select: { id: true, text: true, order: true },
+            }),
+            choruses,
+          );
+
+          await tx.chorus.updateMany({
+            where: { id: { in: removed } },
+            data: { deletedAt: now, updatedById: user.id },
+          });
+          for (const { id: chorusId, text, order } of updated) {
+            await tx.chorus.update({
+              where: { id: chorusId },
+              data: { text, order, updatedById: user.id, updatedAt: now },
+            });
+          }
+          await tx.chorus.createMany({
+            data: created.map(({ text, order }) => ({
+              hymnId: id,
+              text,
+              order,
+              createdById: user.id,
+            })),
+          });
+        }
+
+        if (scriptureRanges) {
+          await this.scriptureService.replaceReferences(
+            tx,
+            id,
+            scriptureRanges,
+          );
+        }
+
+        await this.revisionService.record(tx, id, user, 'UPDATE');
+
+        await this.auditService.log({
+          action: 'UPDATE',
+          entityType: 'HYMN',
+          entityId: id,
+          userId: user.id,
+          description: `Hymn ${id} updated by user ${user.id}`,
+        });
+
+        return await tx.hymn.findUnique({
+          where: { id },
+          include: {
+            category: true,
+            tune: true,
+            tags: { select: TAG_SUMMARY_SELECT, orderBy: { name: 'asc' } },
+            scriptures: { select: SCRIPTURE_SELECT, orderBy: { start: 'asc' } },
+            hymnbooks: HYMN_HYMNBOOKS,
+            verses: {
+              where: { deletedAt: null },
+              orderBy: { order: 'asc' },
+            },
+            choruses: {
+              where: { deletedAt: null },
+              orderBy: { order: 'asc' },
+            },
+          },
+        });
       });
-      return updatedHymn;
     } catch (error) {
+      if (
+        error instanceof NotFoundException ||
+        error instanceof BadRequestException ||
+        error instanceof ConflictException
+      ) {
+        throw error;
+      }
+
+      if (error.code === 'P2002') {
+        throw new ConflictException(
+          error.meta?.target?.includes('translationGroupId')
+            ? 'A translation of this hymn already uses that language.'
+            : 'A hymn with this title already exists.',
+        );
+      }
+
+      if (error.code === 'P2003') {
+        throw new BadRequestException('The category or tune does not exist.');
+      }
+
       if (error.code === 'P2025') {
         throw new NotFoundException('Hymn not found.');
       }
-      throw new NotFoundException('An error occurred while updating the hymn.');
+
+      throw new InternalServerErrorException(
+        'An error occurred while updating the hymn',
+      );
     }
   }
 
+  private parseLanguage(language: string) {
+    const tag = AppUtilities.canonicalizeLanguageTag(language);
+    if (!tag) {
+      throw new BadRequestException(
+        `"${language}" is not a valid BCP 47 language tag.`,
+      );
+    }
+    return tag;
+  }
+
+  /**
+   * Works out which verses or choruses to create, update and soft-delete so
+   * that a hymn ends up with exactly the incoming list, numbered from 1.
+   */
+  private planItemChanges<
+    T extends { id?: string; text: string; order?: number },
+  >(
+    existing: { id: string; text: string; order: number | null }[],
+    incoming: T[],
+  ) {
+    const existingById = new Map(existing.map((item) => [item.id, item]));
+    const incomingIds = incoming.map((item) => item.id).filter(Boolean);
+
+    const unknownId = incomingIds.find((itemId) => !existingById.has(itemId));
+    if (unknownId) {
+      throw new BadRequestException(
+        `Item ${unknownId} does not belong to this hymn.`,
+      );
+    }
+
+    if (new Set(incomingIds).size !== incomingIds.length) {
+      throw new BadRequestException('The same item was sent more than once.');
+    }
+
+    // Honour a requested order, falling back to the position in the array
+    const sequenced = incoming
+      .map((item, idx) => ({ item, position: item.order ?? idx + 1, idx }))
+      .sort((a, b) => a.position - b.position || a.idx - b.idx)
+      .map(({ item }, idx) => ({ ...item, order: idx + 1 }));
+
+    const keptIds = new Set(incomingIds);
+
+    return {
+      created: sequenced.filter((item) => !item.id),
+      updated: sequenced.filter((item) => {
+        const current = existingById.get(item.id);
+        return (
+          !!current &&
+          (current.text !== item.text || current.order !== item.order)
+        );
+      }),
+      removed: existing
+        .filter((item) => !keptIds.has(item.id))
+        .map((item) => item.id),
+    };
+  }
+
   /**
    * Deletes a hymn and its related verses and choruses.
    * This method performs a soft delete by setting the deletedAt field.
@@ -296,7 +864,6 @@ export class HymnService extends CrudService<Prisma.HymnDelegate, any> {
           select: {
             id: true,
             title: true,
-            number: true,
           },
         });
 
@@ -315,7 +882,7 @@ export class HymnService extends CrudService<Prisma.HymnDelegate, any> {
           select: {
             id: true,
             title: true,
-            number: true,
+            hymnbooks: HYMN_HYMNBOOKS,
             deletedAt: true,
             updatedBy: true,
             updatedAt: true,
@@ -438,7 +1005,7 @@ export class HymnService extends CrudService<Prisma.HymnDelegate, any> {
   }
 
   /**
-   * Restores a soft-deleted hymn and its related verses and choruses.
+   * Restores a soft-deleted hymn and the verses and choruses deleted with it.
    * @param id - The ID of the hymn to restore.
    * @param user - The user performing the restoration.
    * @returns The restored hymn data.
@@ -452,7 +1019,7 @@ export class HymnService extends CrudService<Prisma.HymnDelegate, any> {
             id,
             deletedAt: { not: null },
           },
-          select: { id: true, title: true },
+          select: { id: true, title: true, deletedAt: true },
         });
 
         if (!hymn) {
@@ -470,17 +1037,19 @@ export class HymnService extends CrudService<Prisma.HymnDelegate, any> {
           select: {
             id: true,
             title: true,
-            number: true,
+            hymnbooks: HYMN_HYMNBOOKS,
             updatedBy: true,
             updatedAt: true,
           },
         });
 
-        // Restore all related verses
+        // Restore the verses and choruses deleted with the hymn. Those removed
+        // earlier by an edit or a rollback carry an older timestamp and stay
+        // deleted
         await prisma.verse.updateMany({
           where: {
             hymnId: id,
-            deletedAt: { not: null },
+            deletedAt: hymn.deletedAt,
           },
           data: {
             deletedAt: null,
@@ -489,11 +1058,10 @@ export class HymnService extends CrudService<Prisma.HymnDelegate, any> {
           },
         });
 
-        // Restore all related choruses
         await prisma.chorus.updateMany({
           where: {
             hymnId: id,
-            deletedAt: { not: null },
+            deletedAt: hymn.deletedAt,
           },
           data: {
             deletedAt: null,
@@ -0,0 +1,444 @@
+import { IImageLimits } from '@@/common/media/interfaces';
+
+export type HymnSearchSource = 'title' | 'verse' | 'chorus';
+
+export interface IHymnSearchMatch {
+  source: HymnSearchSource;
+  id: string | null;
+  order: number | null;
+  snippet: string;
+}
+
+export interface HymnSearchRow {
+  hymnId: string;
+  rank: number;
+  matches: IHymnSearchMatch[];
+}
+
+export interface IHymnSuggestion {
+  id: string;
+  number: number | null;
+  title: string;
+  slug: string;
+  firstLine: string | null;
+  similarity: number;
+}
+
+export interface IHymnMelodyMatch {
+  id: string;
+  number: number | null;
+  title: string;
+  slug: string;
+  // The note of the melody the fragment starts on, counting from 1
+  position: number;
+  total: number;
+}
+
+export interface IHymnSnapshotVerse {
+  id: string;
+  text: string;
+  order: number | null;
+}
+
+export interface IHymnSnapshotChorus {
+  id: string;
+  text: string;
+  order: number | null;
+}
+
+export interface IHymnSnapshotArrangement {
+  id: string;
+  name: string;
+  isDefault: boolean;
+  items: { verseId: string | null; chorusId: string | null }[];
+}
+
+// Fields added after the first snapshots were taken are optional, as older
+// snapshots do not have them
+export interface IHymnSnapshot {
+  title: string;
+  slug: string;
+  categoryId: string | null;
+  category: { id: string; name: string } | null;
+  tuneId?: string | null;
+  author: string | null;
+  language: string | null;
+  version: string | null;
+  key?: string | null;
+  tempo?: number | null;
+  solfaNotation?: string | null;
+  abcNotation?: string | null;
+  status: string;
+  tagIds?: string[];
+  scriptures?: IScriptureRange[];
+  hymnbooks?: { hymnbookId: string; number: number }[];
+  arrangements?: IHymnSnapshotArrangement[];
+  verses: IHymnSnapshotVerse[];
+  choruses: IHymnSnapshotChorus[];
+}
+
+export interface IFieldChange {
+  field: string;
+  from: unknown;
+  to: unknown;
+}
+
+export interface IItemChange<T> {
+  added: T[];
+  removed: T[];
+  changed: { id: string; from: T; to: T }[];
+}
+
+export interface IHymnRevisionDiff {
+  from: number;
+  to: number;
+  fields: IFieldChange[];
+  verses: IItemChange<IHymnSnapshotVerse>;
+  choruses: IItemChange<IHymnSnapshotChorus>;
+}
+
+export interface ISequenceItem {
+  position: number;
+  type: 'verse' | 'chorus';
+  id: string;
+  label: string;
+  text: string;
+}
+
+export type HymnFileFormat = 'openlyrics' | 'chordpro';
+
+export interface IParsedHymnPart {
+  text: string;
+  order: number;
+}
+
+export interface IParsedHymn {
+  title: string;
+  number?: number;
+  author?: string;
+  language?: string;
+  version?: string;
+  category?: string;
+  verses: IParsedHymnPart[];
+  choruses: IParsedHymnPart[];
+}
+
+export interface IHymnParseResult {
+  hymn?: IParsedHymn;
+  errors: string[];
+  warnings: string[];
+}
+
+export type HymnImportStatus = 'created' | 'valid' | 'skipped' | 'failed';
+
+export interface IHymnImportPreview extends IParsedHymn {
+  slug: string;
+  categoryId?: string;
+}
+
+export interface IHymnImportEntry {
+  status: HymnImportStatus;
+  hymnId?: string;
+  preview?: IHymnImportPreview;
+  errors: string[];
+  warnings: string[];
+}
+
+export interface IHymnImportResult extends IHymnImportEntry {
+  file: string;
+  format: HymnFileFormat | null;
+}
+
+export interface IBulkImportRow extends IHymnImportEntry {
+  row: number;
+}
+
+export interface IBulkImportJob {
+  fileName: string;
+  records: Record<string, unknown>[];
+  /** Row number of each record in the source file. */
+  rowNumbers: number[];
+  dryRun: boolean;
+  userId: string;
+  hymnbookId?: string;
+}
+
+export interface IBulkImportReport {
+  fileName: string;
+  dryRun: boolean;
+  summary: Record<'total' | HymnImportStatus, number>;
+  rows: IBulkImportRow[];
+}
+
+export const HYMN_QUEUE = 'hymns:';
+
+export enum HYMN_JOBS {
+  BULK_IMPORT = 'bulkImport',
+}
+
+export const MEDIA_QUEUE = 'media:';
+
+export enum MEDIA_JOBS {
+  PROCESS_SOLFA_IMAGE = 'processSolfaImage',
+  RECONCILE_SOLFA_FILES = 'reconcileSolfaFiles',
+}
+
+// Failed jobs, and the uploads they were for, are kept this long so they
+// can be retried by hand
+export const MEDIA_FAILED_RETENTION_SECONDS = 7 * 24 * 60 * 60;
+
+export interface ISolfaImageJob {
+  imageId: string;
+  hymnId: string;
+  // The page's upload version the job is for
+  version: number;
+  originalname: string;
+  // Where the upload is staged in storage, so the job itself stays small
+  uploadKey: string;
+}
+
+export interface ISolfaReconcileResult {
+  checked: number;
+  removed: string[];
+}
+
+export type HymnExportFormat = HymnFileFormat | 'txt' | 'json';
+
+export interface IHymnExport extends IParsedHymn {
+  /** The hymnbook `number` is from. */
+  songbook?: string;
+  /** The sung order, as 1-based indexes into `verses` and `choruses`. */
+  sequence: { type: 'verse' | 'chorus'; index: number; label: string }[];
+  abcNotation?: string;
+}
+
+// Lines a projected slide holds by default and at most, and the range of
+// the optional character limit
+export const DEFAULT_SLIDE_LINES = 4;
+export const MAX_SLIDE_LINES = 20;
+export const MIN_SLIDE_CHARS = 20;
+export const MAX_SLIDE_CHARS = 2000;
+
+export interface ISlideLimits {
+  maxLines: number;
+  maxChars?: number;
+}
+
+export interface IHymnSlide {
+  position: number;
+  hymnNumber: number | null;
+  type: 'verse' | 'chorus';
+  partId: string;
+  label: string;
+  // Which slide of its verse or chorus this is, e.g. 1 of 2
+  page: number;
+  pages: number;
+  caption: string;
+  text: string;
+}
+
+export interface IHymnExportFile {
+  filename: string;
+  contentType: string;
+  content: string | Buffer;
+}
+
+export interface IScriptureRange {
+  book: string;
+  startChapter: number;
+  startVerse: number | null;
+  endChapter: number;
+  endVerse: number | null;
+  // Book, chapter and verse packed into one number, for overlap queries
+  start: number;
+  end: number;
+  reference: string;
+}
+
+export interface IScriptureHymnMatch {
+  id: string;
+  number: number | null;
+  title: string;
+  slug: string;
+  references: string[];
+}
+
+export interface IScriptureParseResult {
+  ranges: IScriptureRange[];
+  errors: string[];
+}
+
+// Solfa pages that can be uploaded in one request, and the size of each
+export const MAX_SOLFA_UPLOAD = 20;
+export const MAX_SOLFA_IMAGE_SIZE = 10 * 1024 * 1024;
+
+export const SOLFA_IMAGE_LIMITS: IImageLimits = {
+  maxBytes: MAX_SOLFA_IMAGE_SIZE,
+  minWidth: 100,
+  minHeight: 100,
+  maxWidth: 10000,
+  maxHeight: 10000,
+};
+
+// A solfa image and its derivatives once stored, as saved on `SolfaImage`
+export interface IStoredSolfaImage {
+  imageUrl: string;
+  storageDriver: string;
+  storageKey: string;
+  mimeType: string;
+  width: number;
+  height: number;
+  webpUrl: string;
+  webpKey: string;
+  thumbnailUrl: string;
+  thumbnailKey: string;
+}
+
+export type SolfaPart = 'S' | 'A' | 'T' | 'B';
+
+// A written sign of a part: a note, a hold (`-`) or a rest
+export interface ISolfaToken {
+  kind: 'note' | 'hold' | 'rest';
+  syllable?: string;
+  // Octaves above (positive) or below (negative) the middle one
+  octave: number;
+  // Position and length in beats, counted from the start of the piece
+  start: number;
+  duration: number;
+}
+
+export interface ISolfaBar {
+  beats: number;
+  // Closed by `||`
+  double: boolean;
+}
+
+// One line of music: the parts sung together over the same bars
+export interface ISolfaSystem {
+  line: number;
+  start: number;
+  bars: ISolfaBar[];
+  parts: Partial<Record<SolfaPart, ISolfaToken[]>>;
+}
+
+export interface ISolfaScore {
+  key: string | null;
+  time: { beats: number; unit: number } | null;
+  parts: SolfaPart[];
+  systems: ISolfaSystem[];
+}
+
+// A sounding note with holds merged in; a rest has no pitch
+export interface ISolfaNote {
+  // Semitones above doh of the middle octave
+  pitch: number | null;
+  start: number;
+  duration: number;
+}
+
+export interface ISolfaParseResult {
+  score?: ISolfaScore;
+  errors: string[];
+}
+
+export const MAX_SOLFA_NOTATION_LENGTH = 20000;
+
+// A key as the note doh is on, e.g. G, Eb or F#
+export const MUSIC_KEY_PATTERN = /^[A-G][#b]?$/;
+
+// Beats per minute, and what a hymn without a tempo is played at
+export const MIN_TEMPO = 20;
+export const MAX_TEMPO = 300;
+export const DEFAULT_TEMPO = 90;
+
+export interface ISolfaMidiOptions {
+  title: string;
+  key: string;
+  tempo: number;
+  parts: SolfaPart[];
+}
+
+// The words drawn under rendered sol-fa
+export interface ISolfaLyrics {
+  title: string;
+  number?: number | null;
+  verses: string[];
+  choruses: string[];
+}
+
+export const MAX_ABC_NOTATION_LENGTH = 20000;
+
+export type AbcClef = 'treble' | 'treble-8' | 'bass' | 'alto';
+
+export type AbcBar = '|' | '||' | '|]' | '[|' | '|:' | ':|' | '::';
+
+export interface IAbcKey {
+  // The key note as written, e.g. G, Bb or F#
+  tonic: string;
+  mode: string;
+  // Sharps (positive) or flats (negative) in the signature
+  fifths: number;
+}
+
+export interface IAbcNote {
+  // Diatonic steps above middle C, as placed on the staff
+  step: number;
+  // The accidental written before it, in semitones; null when none is
+  accidental: number | null;
+  // MIDI pitch, after the key signature and earlier accidentals in the bar
+  pitch: number;
+}
+
+export interface IAbcElement {
+  kind: 'note' | 'rest' | 'bar';
+  // Position and length in whole notes; bars take no time
+  start: number;
+  duration: number;
+  // The length as written, before any tuplet it is in
+  written: number;
+  // The notes of a note or chord, low to high
+  notes: IAbcNote[];
+  // Tied to the note after it
+  tie: boolean;
+  // An `x` rest, which takes time but is not drawn
+  hidden?: boolean;
+  bar?: AbcBar;
+  // The syllable sung to a note in each verse of `w:` words
+  lyrics: string[];
+}
+
+export interface IAbcVoice {
+  id: string;
+  name: string | null;
+  clef: AbcClef;
+  elements: IAbcElement[];
+}
+
+export interface IAbcTune {
+  title: string | null;
+  key: IAbcKey;
+  meter: { beats: number; unit: number } | null;
+  voices: IAbcVoice[];
+  // Where the lines of music of the first voice end, in whole notes
+  breaks: number[];
+}
+
+export interface IAbcParseResult {
+  tune?: IAbcTune;
+  errors: string[];
+}
+
+export interface IAbcSolfaResult {
+  source: string;
+  warnings: string[];
+}
+
+// Notes a melody search may give; fewer than three match almost every hymn
+export const MIN_MELODY_NOTES = 3;
+export const MAX_MELODY_NOTES = 50;
+
+export interface IMelodyParseResult {
+  // Semitones from each note to the next
+  intervals?: number[];
+  errors: string[];
+}
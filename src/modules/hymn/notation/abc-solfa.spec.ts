@@ -0,0 +1,56 @@
+import { parseAbc } from '@@/modules/hymn/notation/abc';
+import { abcToSolfa } from '@@/modules/hymn/notation/abc-solfa';
+import { parseSolfa } from '@@/modules/hymn/notation/solfa';
+
+const convert = (source: string) => abcToSolfa(parseAbc(source).tune);
+
+describe('abcToSolfa', () => {
+  it('writes a tune as sol-fa the parser reads back', () => {
+    const { source, warnings } = convert(
+      'X:1\nT:Old Hundredth\nM:4/4\nL:1/4\nK:G\nG|GFED|G2AB|',
+    );
+
+    expect(warnings).toEqual([]);
+    expect(source).toBe(
+      'key: G\ntime: 4/4\n\nS: | d | d :t, :l, :s, | d :- :r :m |\n',
+    );
+    expect(parseSolfa(source).errors).toEqual([]);
+  });
+
+  it('writes each voice as a part, reading men an octave lower', () => {
+    const { source } = convert(
+      'X:1\nM:4/4\nL:1/4\nK:C\nV:S\nCDEF|G4|]\nV:B\nC,D,E,F,|G,4|]',
+    );
+
+    expect(source).toBe(
+      [
+        'key: C',
+        'time: 4/4',
+        '',
+        'S: | d :r :m :f | s :- :- :- ||',
+        'B: | d :r :m :f | s :- :- :- ||',
+        '',
+      ].join('\n'),
+    );
+  });
+
+  it('reads a minor tune from lah', () => {
+    const { source, warnings } = convert('X:1\nM:3/4\nL:1/4\nK:Am\nA|cBA|E2|');
+
+    expect(source).toBe("key: C\ntime: 3/4\n\nS: | l | d' :t :l | m :- |\n");
+    expect(warnings).toEqual(['A minor is written with doh on C.']);
+  });
+
+  it('sings the top note of a chord and says so', () => {
+    const { source, warnings } = convert('X:1\nM:4/4\nL:1/4\nK:C\n[CEG]DEF|');
+
+    expect(source).toBe('key: C\ntime: 4/4\n\nS: | s :r :m :f |\n');
+    expect(warnings).toEqual(['The soprano sings the top note of each chord.']);
+  });
+
+  it('splits beats for tuplets and held notes', () => {
+    const { source } = convert('X:1\nL:1/8\nK:F\n(3CDE F2 c>B|');
+
+    expect(source).toBe('key: F\n\nS: | s, .l, .t, :d :s .- .- .f |\n');
+  });
+});
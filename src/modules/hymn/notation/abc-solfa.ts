@@ -0,0 +1,367 @@
+import {
+  ABC_MAJOR_KEYS,
+  abcBarEnds,
+  abcFraction,
+} from '@@/modules/hymn/notation/abc';
+import { dohOf } from '@@/modules/hymn/notation/midi';
+import {
+  SOLFA_PART_NAMES,
+  SOLFA_PARTS,
+  SOLFA_SEMITONES,
+} from '@@/modules/hymn/notation/solfa';
+import {
+  IAbcNote,
+  IAbcSolfaResult,
+  IAbcTune,
+  IAbcVoice,
+  SolfaPart,
+} from '@@/modules/hymn/interfaces';
+
+const LETTERS = 'CDEFGAB';
+const DEGREES = ['d', 'r', 'm', 'f', 's', 'l', 't'];
+const SHARPENED: Record<string, string> = {
+  d: 'de',
+  r: 'ri',
+  f: 'fe',
+  s: 'se',
+  l: 'le',
+};
+const FLATTENED: Record<string, string> = {
+  r: 'ra',
+  m: 'ma',
+  l: 'lo',
+  t: 'ta',
+};
+// The usual name of each semitone, for notes spelt any other way
+const SEMITONE_NAMES = [
+  'd',
+  'de',
+  'r',
+  'ma',
+  'm',
+  'f',
+  'fe',
+  's',
+  'se',
+  'l',
+  'ta',
+  't',
+];
+
+// Voice names that say which part a voice sings
+const PART_NAMES: Record<string, SolfaPart> = {
+  s: 'S',
+  sop: 'S',
+  soprano: 'S',
+  a: 'A',
+  alt: 'A',
+  alto: 'A',
+  t: 'T',
+  ten: 'T',
+  tenor: 'T',
+  b: 'B',
+  bas: 'B',
+  bass: 'B',
+};
+
+// Ways a beat may be split in sol-fa, fewest first
+const DIVISIONS = [1, 2, 3, 4, 6, 8];
+const TIME_UNITS = [1, 2, 4, 8, 16];
+
+interface IBeatEvent {
+  // Position and end in beats
+  start: number;
+  end: number;
+  note: IAbcNote | null;
+}
+
+interface ISolfaBarPlan {
+  start: number;
+  end: number;
+  double: boolean;
+}
+
+const isWhole = (value: number) => Math.abs(value - Math.round(value)) < 1e-6;
+
+/**
+ * Gives each voice a part: voices named for a part (S, Alto, Tenor…) take
+ * it, voices on a bass clef take the free parts from the bottom up and the
+ * others take them from the top down.
+ */
+function assignParts(voices: IAbcVoice[]) {
+  const taken = new Set<SolfaPart>();
+  const parts = voices.map((voice) => {
+    const part = [voice.name, voice.id]
+      .map((name) =>
+        name ? PART_NAMES[name.toLowerCase().replace(/[^a-z]/g, '')] : null,
+      )
+      .find(Boolean);
+    if (!part || taken.has(part)) return null;
+    taken.add(part);
+    return part;
+  });
+
+  const take = (idx: number, fromBottom: boolean) => {
+    const free = SOLFA_PARTS.filter((part) => !taken.has(part));
+    parts[idx] = fromBottom ? free[free.length - 1] : free[0];
+    taken.add(parts[idx]);
+  };
+  for (let idx = voices.length - 1; idx >= 0; idx--) {
+    if (!parts[idx] && voices[idx].clef === 'bass') take(idx, true);
+  }
+  voices.forEach((voice, idx) => {
+    if (!parts[idx]) take(idx, false);
+  });
+
+  return parts;
+}
+
+/**
+ * Names a note in sol-fa. The written letter decides between names for
+ * the same sound, so G# in C is `se` and Ab `lo`; notes no name covers that
+ * way take the usual name of their semitone.
+ */
+function syllableOf(note: IAbcNote, key: string, part: SolfaPart) {
+  const semitones = note.pitch - dohOf(key, part);
+  const octave = Math.floor(semitones / 12);
+  const degree = semitones - 12 * octave;
+
+  const letter = LETTERS[((note.step % 7) + 7) % 7];
+  const diatonic =
+    DEGREES[(LETTERS.indexOf(letter) - LETTERS.indexOf(key[0]) + 7) % 7];
+  const shift = ((degree - SOLFA_SEMITONES[diatonic] + 18) % 12) - 6;
+  const spelt =
+    shift === 0
+      ? diatonic
+      : shift === 1
+        ? SHARPENED[diatonic]
+        : shift === -1
+          ? FLATTENED[diatonic]
+          : undefined;
+  const syllable =
+    spelt && SOLFA_SEMITONES[spelt] === degree ? spelt : SEMITONE_NAMES[degree];
+
+  return syllable + (octave > 0 ? "'" : ',').repeat(Math.abs(octave));
+}
+
+/**
+ * Lists what a voice sings in beats, with tied notes joined and chords
+ * taken by their top note.
+ */
+function eventsOf(voice: IAbcVoice, beat: number, offset: number) {
+  const events: IBeatEvent[] = [];
+  let chords = false;
+  let tied = false;
+
+  for (const element of voice.elements) {
+    if (element.kind === 'bar') continue;
+
+    const start = element.start / beat + offset;
+    const end = start + element.duration / beat;
+    const note = element.notes[element.notes.length - 1] ?? null;
+    const last = events[events.length - 1];
+    chords ||= element.notes.length > 1;
+
+    if (tied && note && last?.note?.pitch === note.pitch) {
+      last.end = end;
+    } else {
+      events.push({ start, end, note });
+    }
+    tied = element.tie;
+  }
+
+  return { events, chords };
+}
+
+/**
+ * Writes one beat of a part, split as finely as its notes need: `d`,
+ * `d .r`, `- .m` and so on. Rhythms no split of eight or fewer fits are
+ * rounded to quarter beats.
+ */
+function beatText(
+  events: IBeatEvent[],
+  beat: number,
+  key: string,
+  part: SolfaPart,
+) {
+  const within = events.filter(
+    (event) => event.start < beat + 1 - 1e-6 && event.end > beat + 1e-6,
+  );
+  const edges = within
+    .flatMap((event) => [event.start, event.end])
+    .filter((time) => time > beat + 1e-6 && time < beat + 1 - 1e-6)
+    .map((time) => time - beat);
+  const division = DIVISIONS.find((count) =>
+    edges.every((edge) => isWhole(edge * count)),
+  );
+  const count = division ?? 4;
+
+  let lost = false;
+  const slots: string[] = [];
+  for (let idx = 0; idx < count; idx++) {
+    const time = beat + idx / count;
+    const starting = within.filter(
+      (event) =>
+        event.start >= beat - 1e-6 &&
+        Math.abs(Math.round((event.start - beat) * count) - idx) < 1e-6,
+    );
+    lost ||= starting.filter((event) => event.note).length > 1;
+
+    if (starting.length) {
+      slots.push(
+        starting[0].note ? syllableOf(starting[0].note, key, part) : '',
+      );
+      continue;
+    }
+    const holding = within.find(
+      (event) => event.start < time - 1e-6 && event.end > time + 1e-6,
+    );
+    slots.push(holding?.note ? '-' : '');
+  }
+
+  const text = slots
+    .map((slot, idx) => (idx ? `.${slot}` : slot))
+    .join(' ')
+    .trim();
+  return { text, rounded: !division || lost };
+}
+
+/**
+ * Writes a parsed ABC tune as tonic sol-fa, for choirs that read sol-fa.
+ * Each voice becomes a part, a beat is the unit of the meter and doh is the
+ * key note of the major key with the same signature, so minor tunes are
+ * read from lah. Bars and lines follow the ABC. It is an approximation:
+ * chords are sung by their top note and rhythms sol-fa cannot split are
+ * rounded, with a warning for each thing that was changed.
+ * @param tune - The parsed tune.
+ * @returns The sol-fa source and the warnings.
+ */
+export function abcToSolfa(tune: IAbcTune): IAbcSolfaResult {
+  const warnings: string[] = [];
+  const key = ABC_MAJOR_KEYS[tune.key.fifths + 7];
+  const { meter } = tune;
+  const beat = meter ? 1 / meter.unit : 1 / 4;
+
+  const voices = tune.voices.slice(0, SOLFA_PARTS.length);
+  if (tune.voices.length > voices.length) {
+    warnings.push(
+      `Only the first ${voices.length} voices were written; sol-fa has ${SOLFA_PARTS.length} parts.`,
+    );
+  }
+  if (tune.key.mode !== 'major') {
+    warnings.push(
+      `${tune.key.tonic} ${tune.key.mode} is written with doh on ${key}.`,
+    );
+  }
+  const parts = assignParts(voices);
+
+  // A pick-up that starts within a beat is filled out with a rest
+  const barEnds = abcBarEnds(voices[0]).map((end) => end / beat);
+  const offset = Math.ceil(barEnds[0] - 1e-6) - barEnds[0];
+
+  const doubles = new Set(
+    voices[0].elements
+      .filter(
+        (element) =>
+          element.kind === 'bar' && !['|', '|:', '[|'].includes(element.bar),
+      )
+      .map((element) => Math.round(element.start / beat + offset)),
+  );
+
+  const bars: ISolfaBarPlan[] = [];
+  let moved = false;
+  for (const rawEnd of barEnds) {
+    const end = Math.round(rawEnd + offset);
+    moved ||= !isWhole(rawEnd + offset);
+    const start = bars[bars.length - 1]?.end ?? 0;
+    if (end > start) {
+      bars.push({ start, end, double: doubles.has(end) });
+    }
+  }
+  if (moved) {
+    warnings.push(
+      'Bar lines that fell within a beat were moved to the nearest beat.',
+    );
+  }
+
+  // Systems end with the bar that ends each line of the ABC
+  const systemEnds = new Set(
+    tune.breaks.map((time) =>
+      bars.findIndex((bar) => bar.end >= time / beat + offset - 1e-6),
+    ),
+  );
+  systemEnds.add(bars.length - 1);
+
+  const header = [`key: ${key}`];
+  const inner = bars.slice(1, -1);
+  if (!meter) {
+    // Without a meter the bars are free, and so is the sol-fa
+  } else if (meter.beats > 12 || !TIME_UNITS.includes(meter.unit)) {
+    warnings.push(
+      `The time was left out, since ${meter.beats}/${meter.unit} cannot be written in sol-fa.`,
+    );
+  } else if (inner.some((bar) => bar.end - bar.start !== meter.beats)) {
+    warnings.push('The time was left out, since some bars are not full.');
+  } else {
+    header.push(`time: ${meter.beats}/${meter.unit}`);
+  }
+
+  const lines = voices.map((voice, idx) => {
+    const part = parts[idx];
+    const { events, chords } = eventsOf(voice, beat, offset);
+    if (chords) {
+      warnings.push(
+        `The ${SOLFA_PART_NAMES[part]} sings the top note of each chord.`,
+      );
+    }
+
+    let rounded = false;
+    const written = bars.map((bar) => {
+      const beats: string[] = [];
+      for (let at = bar.start; at < bar.end; at++) {
+        const result = beatText(events, at, key, part);
+        rounded ||= result.rounded;
+        beats.push(result.text);
+      }
+      // A bar of a single silent beat still needs a mark to be a bar
+      const text = beats.length === 1 && !beats[0] ? '.' : beats.join(' :');
+      return `${text} ${bar.double ? '||' : '|'}`;
+    });
+    if (rounded) {
+      warnings.push(
+        `Some rhythms of the ${SOLFA_PART_NAMES[part]} were rounded to quarter beats.`,
+      );
+    }
+
+    return { part, written };
+  });
+  lines.sort(
+    (a, b) => SOLFA_PARTS.indexOf(a.part) - SOLFA_PARTS.indexOf(b.part),
+  );
+
+  const systems: string[] = [];
+  let first = 0;
+  bars.forEach((bar, idx) => {
+    if (!systemEnds.has(idx)) return;
+    systems.push(
+      lines
+        .map(
+          ({ part, written }) =>
+            `${part}: | ${written.slice(first, idx + 1).join(' ')}`,
+        )
+        .join('\n'),
+    );
+    first = idx + 1;
+  });
+
+  if (offset > 1e-6) {
+    warnings.push(
+      `The pick-up of ${abcFraction(barEnds[0] * beat)} starts with a rest, to fill its beat.`,
+    );
+  }
+
+  return {
+    source: [header.join('\n'), ...systems].join('\n\n') + '\n',
+    warnings,
+  };
+}
@@ -0,0 +1,541 @@
+import { escapeXml } from '@@/modules/hymn/formats/openlyrics';
+import {
+  AbcBar,
+  AbcClef,
+  IAbcElement,
+  IAbcTune,
+  IAbcVoice,
+  ISolfaLyrics,
+} from '@@/modules/hymn/interfaces';
+
+const MARGIN = 24;
+const HEADER_HEIGHT = 64;
+const NAME_WIDTH = 64;
+// Half the gap between staff lines: one diatonic step
+const STEP = 4;
+const STAFF_HEIGHT = 8 * STEP;
+// Room above a staff and below it for notes on ledger lines
+const ABOVE_STAFF = 24;
+const BELOW_STAFF = 24;
+const LYRIC_HEIGHT = 18;
+const SYSTEM_GAP = 16;
+const CLEF_WIDTH = 34;
+const KEY_WIDTH = 9;
+const TIME_WIDTH = 24;
+const ACCIDENTAL_WIDTH = 10;
+const BAR_PADDING = 12;
+const STEM_LENGTH = 7 * STEP;
+const HEAD_RX = 5.2;
+const HEAD_RY = 3.8;
+
+// Where each clef puts the bottom line, in steps above middle C, and how far
+// its key signature sits below the treble one
+const CLEFS: Record<AbcClef, { bottom: number; keyShift: number }> = {
+  treble: { bottom: 2, keyShift: 0 },
+  // Drawn an octave above where it sounds, as tenor parts are written
+  'treble-8': { bottom: -5, keyShift: 0 },
+  bass: { bottom: -10, keyShift: -2 },
+  alto: { bottom: -4, keyShift: -1 },
+};
+
+// Staff positions of the sharps and flats of a treble key signature,
+// counted in steps up from the bottom line
+const SHARP_POSITIONS = [8, 5, 9, 6, 3, 7, 4];
+const FLAT_POSITIONS = [4, 7, 3, 6, 2, 5, 1];
+
+const ACCIDENTAL_GLYPHS: Record<number, string> = {
+  [-2]: '♭♭',
+  [-1]: '♭',
+  0: '♮',
+  1: '♯',
+  2: '×',
+};
+
+const BAR_WIDTHS: Record<AbcBar, number> = {
+  '|': 0,
+  '||': 4,
+  '|]': 6,
+  '[|': 6,
+  '|:': 10,
+  ':|': 10,
+  '::': 16,
+};
+
+// Times are compared to the microsecond of a whole note, as tuplets leave
+// them slightly off
+const isNear = (a: number, b: number) => Math.abs(a - b) < 1e-6;
+const timeKey = (time: number) => Math.round(time * 1e6);
+const isStartBar = (bar: IAbcElement) => bar.bar === '|:' || bar.bar === '[|';
+
+const line = (x1: number, y1: number, x2: number, y2: number, width = 1) =>
+  `<line x1="${x1}" y1="${y1}" x2="${x2}" y2="${y2}" stroke="#000" stroke-width="${width}"/>`;
+
+const text = (x: number, y: number, content: string, attrs = '') =>
+  `<text x="${x}" y="${y}"${attrs}>${content}</text>`;
+
+const dot = (x: number, y: number, r = 1.8) =>
+  `<circle cx="${x}" cy="${y}" r="${r}"/>`;
+
+/**
+ * Draws a clef, with its origin on the line it names: G for the treble
+ * clef, F for the bass and middle C for the alto.
+ */
+function clefSvg(clef: AbcClef, x: number, y: number) {
+  const at = `transform="translate(${x} ${y})"`;
+  const stroke = 'fill="none" stroke="#000" stroke-linecap="round"';
+
+  if (clef === 'bass') {
+    return [
+      `<g ${at}>`,
+      `<path d="M -7 -1 C -7 -9 9 -11 9 0 C 9 10 0 18 -9 23" ${stroke} stroke-width="2.4"/>`,
+      dot(-6, -1, 3),
+      dot(14, -4, 1.6),
+      dot(14, 4, 1.6),
+      `</g>`,
+    ].join('');
+  }
+
+  if (clef === 'alto') {
+    return [
+      `<g ${at}>`,
+      `<rect x="-10" y="-16" width="3.5" height="32"/>`,
+      line(-4, -16, -4, 16, 1.4),
+      `<path d="M -2 0 L 2 -3 C 10 -4 10 -16 3 -15 M -2 0 L 2 3 C 10 4 10 16 3 15" ${stroke} stroke-width="2"/>`,
+      `</g>`,
+    ].join('');
+  }
+
+  return [
+    `<g ${at}>`,
+    `<path d="M -1 12 C -1 17 5 17 5 12 L 0 -32 C 0 -40 8 -38 6 -30 C 4 -22 -9 -14 -9 -3 C -9 6 6 7 7 -1 C 8 -8 0 -10 -2 -5 C -3 -2 -1 1 1 1" ${stroke} stroke-width="2"/>`,
+    clef === 'treble-8' ? text(-4, 25, '8', ' font-size="10"') : '',
+    `</g>`,
+  ].join('');
+}
+
+function restSvg(base: number, x: number, middle: number) {
+  if (base <= 1)
+    return `<rect x="${x - 5}" y="${middle - 2 * STEP}" width="10" height="4"/>`;
+  if (base === 2)
+    return `<rect x="${x - 5}" y="${middle - 4}" width="10" height="4"/>`;
+  if (base === 4) {
+    return `<path d="M ${x - 2} ${middle - 12} L ${x + 3} ${middle - 5} L ${x - 2} ${middle + 1} L ${x + 3} ${middle + 6} C ${x - 3} ${middle + 4} ${x - 4} ${middle + 10} ${x} ${middle + 12}" fill="none" stroke="#000" stroke-width="2"/>`;
+  }
+
+  // Eighths and shorter, with a hook for every flag
+  const hooks = Math.log2(base) - 2;
+  const out = [
+    line(x + 3, middle - 6, x - 1, middle + 8 + 6 * (hooks - 1), 1.4),
+  ];
+  for (let hook = 0; hook < hooks; hook++) {
+    const y = middle - 4 + 6 * hook;
+    out.push(dot(x - 2, y, 2), line(x - 2, y + 1, x + 3 - hook, y - 1, 1.2));
+  }
+  return out.join('');
+}
+
+/**
+ * Finds how a length is written: as a plain note value (1 for a whole
+ * note, 4 for a quarter) and a number of dots.
+ */
+function noteValue(written: number) {
+  for (const base of [1, 2, 4, 8, 16, 32, 64]) {
+    for (const dots of [0, 1, 2]) {
+      if (isNear(written, (2 - 2 ** -dots) / base)) return { base, dots };
+    }
+  }
+  const base = [1, 2, 4, 8, 16, 32, 64].find((value) => 1 / value <= written);
+  return { base: base ?? 64, dots: 0 };
+}
+
+interface IStaff {
+  voice: IAbcVoice;
+  elements: IAbcElement[];
+  top: number;
+  verses: number;
+}
+
+/**
+ * Picks the bar line drawn where a voice has several written together,
+ * such as the `|` ending one line and the `|:` starting the next.
+ */
+function barAt(elements: IAbcElement[], time: number) {
+  return elements
+    .filter((element) => element.kind === 'bar' && isNear(element.start, time))
+    .sort((a, b) => BAR_WIDTHS[b.bar] - BAR_WIDTHS[a.bar])[0];
+}
+
+function barSvg(bar: AbcBar, x: number, top: number) {
+  const bottom = top + STAFF_HEIGHT;
+  const thin = (at: number) => line(at, top, at, bottom);
+  const thick = (at: number) =>
+    `<rect x="${at - 1.5}" y="${top}" width="3" height="${STAFF_HEIGHT}"/>`;
+  const dots = (at: number) =>
+    dot(at, top + 3 * STEP) + dot(at, top + 5 * STEP);
+
+  switch (bar) {
+    case '||':
+      return thin(x - 2) + thin(x + 2);
+    case '|]':
+      return thin(x - 3) + thick(x + 2);
+    case '[|':
+      return thick(x - 2) + thin(x + 3);
+    case '|:':
+      return thick(x - 4) + thin(x) + dots(x + 5);
+    case ':|':
+      return dots(x - 5) + thin(x) + thick(x + 4);
+    case '::':
+      return dots(x - 9) + thin(x - 4) + thick(x) + thin(x + 4) + dots(x + 9);
+    default:
+      return thin(x);
+  }
+}
+
+function noteSvg(element: IAbcElement, clef: AbcClef, x: number, top: number) {
+  const bottom = top + STAFF_HEIGHT;
+  const { base, dots } = noteValue(element.written);
+  const out: string[] = [];
+
+  if (element.kind === 'rest') {
+    out.push(restSvg(base, x, top + 4 * STEP));
+    for (let idx = 0; idx < dots; idx++) {
+      out.push(dot(x + 9 + 4 * idx, top + 3 * STEP, 1.5));
+    }
+    return out.join('');
+  }
+
+  const positions = element.notes.map((note) => note.step - CLEFS[clef].bottom);
+  const yOf = (position: number) => bottom - position * STEP;
+  const low = Math.min(...positions);
+  const high = Math.max(...positions);
+
+  // Ledger lines for notes above or below the staff
+  for (let position = -2; position >= low; position -= 2) {
+    out.push(line(x - 9, yOf(position), x + 9, yOf(position)));
+  }
+  for (let position = 10; position <= high; position += 2) {
+    out.push(line(x - 9, yOf(position), x + 9, yOf(position)));
+  }
+
+  element.notes.forEach((note, idx) => {
+    const y = yOf(positions[idx]);
+    if (note.accidental !== null) {
+      out.push(
+        text(
+          x - 15,
+          y + 4,
+          ACCIDENTAL_GLYPHS[note.accidental],
+          ' font-size="14" text-anchor="middle"',
+        ),
+      );
+    }
+    out.push(
+      `<ellipse cx="${x}" cy="${y}" rx="${HEAD_RX}" ry="${HEAD_RY}" transform="rotate(-20 ${x} ${y})"${base < 4 ? ' fill="#fff" stroke="#000" stroke-width="1.6"' : ''}/>`,
+    );
+    // Dots sit in a space, so those of notes on a line move up into one
+    for (let dotIdx = 0; dotIdx < dots; dotIdx++) {
+      out.push(
+        dot(
+          x + 10 + 4 * dotIdx,
+          y - (positions[idx] % 2 === 0 ? STEP : 0),
+          1.5,
+        ),
+      );
+    }
+  });
+
+  if (base >= 2) {
+    // Notes above the middle line take their stems down
+    const up = (low + high) / 2 < 4;
+    const stemX = up ? x + HEAD_RX - 0.6 : x - HEAD_RX + 0.6;
+    const from = up ? yOf(low) : yOf(high);
+    const to = up ? yOf(high) - STEM_LENGTH : yOf(low) + STEM_LENGTH;
+    out.push(line(stemX, from, stemX, to, 1.2));
+
+    const flags = Math.log2(base) - 2;
+    for (let flag = 0; flag < flags; flag++) {
+      const y = to + (up ? 6 : -6) * flag;
+      const sign = up ? 1 : -1;
+      out.push(
+        `<path d="M ${stemX} ${y} C ${stemX + 2} ${y + sign * 6} ${stemX + 10} ${y + sign * 8} ${stemX + 7} ${y + sign * 17}" fill="none" stroke="#000" stroke-width="1.6"/>`,
+      );
+    }
+  }
+
+  return out.join('');
+}
+
+function tieSvg(x1: number, x2: number, y: number, below: boolean) {
+  const lift = below ? 7 : -7;
+  const offset = below ? 5 : -5;
+  return `<path d="M ${x1} ${y + offset} Q ${(x1 + x2) / 2} ${y + offset + lift} ${x2} ${y + offset}" fill="none" stroke="#000" stroke-width="1.2"/>`;
+}
+
+/**
+ * Draws one system: every voice on its own staff, with the notes that fall
+ * at the same time lined up across the staves and each voice's words under
+ * its staff.
+ */
+function systemSvg(
+  tune: IAbcTune,
+  begin: number,
+  end: number,
+  top: number,
+  first: boolean,
+) {
+  const named = tune.voices.some((voice) => voice.name);
+  const left = MARGIN + (named ? NAME_WIDTH : 0);
+  const last = end === Infinity;
+
+  let y = top;
+  const staves: IStaff[] = tune.voices.map((voice) => {
+    const elements = voice.elements.filter((element) => {
+      if (element.kind !== 'bar') {
+        return element.start >= begin - 1e-6 && element.start < end - 1e-6;
+      }
+      if (isNear(element.start, begin)) return isStartBar(element);
+      if (isNear(element.start, end)) return !isStartBar(element) || last;
+      return element.start > begin && element.start < end;
+    });
+    const verses = Math.max(
+      0,
+      ...elements.map((element) => element.lyrics.length),
+    );
+
+    const staff = { voice, elements, top: y + ABOVE_STAFF, verses };
+    y += ABOVE_STAFF + STAFF_HEIGHT + BELOW_STAFF + verses * LYRIC_HEIGHT;
+    return staff;
+  });
+
+  // The clef, key and, on the first system, the time open every staff
+  const accidentals = Math.abs(tune.key.fifths);
+  let x =
+    left +
+    CLEF_WIDTH +
+    accidentals * KEY_WIDTH +
+    (first && tune.meter ? TIME_WIDTH : 0) +
+    8;
+
+  const elements = staves.flatMap((staff) => staff.elements);
+  const times = [...new Set(elements.map((element) => timeKey(element.start)))]
+    .sort((a, b) => a - b)
+    .map((key) => key / 1e6);
+  const noteTimes = times.filter((time) =>
+    elements.some(
+      (element) => element.kind !== 'bar' && isNear(element.start, time),
+    ),
+  );
+
+  const barX = new Map<number, number>();
+  const noteX = new Map<number, number>();
+  let wordsEnd = 0;
+  for (const time of times) {
+    const bars = staves
+      .map((staff) => barAt(staff.elements, time))
+      .filter(Boolean);
+    if (bars.length) {
+      const width = Math.max(...bars.map((bar) => BAR_WIDTHS[bar.bar]));
+      const opening = isNear(time, begin);
+      x += opening ? width / 2 : BAR_PADDING / 2 + width / 2;
+      barX.set(timeKey(time), x);
+      x += width / 2 + (opening ? BAR_PADDING / 2 : BAR_PADDING);
+    }
+
+    const notes = elements.filter(
+      (element) => element.kind !== 'bar' && isNear(element.start, time),
+    );
+    if (!notes.length) continue;
+
+    if (
+      notes.some((element) =>
+        element.notes.some((note) => note.accidental !== null),
+      )
+    ) {
+      x += ACCIDENTAL_WIDTH;
+    }
+    // Words are centred on their notes, so a long syllable pushes its note
+    // away from the one before
+    const halfWord = Math.max(
+      0,
+      ...notes.flatMap((element) =>
+        element.lyrics.map((syllable) => (syllable ?? '').length * 3.6 + 3),
+      ),
+    );
+    x = Math.max(x, wordsEnd + halfWord);
+    if (halfWord) wordsEnd = x + halfWord;
+    noteX.set(timeKey(time), x);
+
+    const next = noteTimes.find((later) => later > time + 1e-6) ?? end;
+    const gap =
+      Math.min(
+        next,
+        Math.max(...notes.map((element) => element.start + element.duration)),
+      ) - time;
+    x += 14 + 26 * Math.sqrt(Math.max(gap, 1 / 64) * 4);
+  }
+  const right = x;
+
+  const out: string[] = [];
+  staves.forEach((staff, staffIdx) => {
+    const { voice } = staff;
+    const clef = CLEFS[voice.clef];
+    const bottom = staff.top + STAFF_HEIGHT;
+    const positionY = (position: number) => bottom - position * STEP;
+
+    for (let idx = 0; idx < 5; idx++) {
+      const lineY = staff.top + idx * 2 * STEP;
+      out.push(line(left, lineY, right, lineY, 0.8));
+    }
+    out.push(line(left, staff.top, left, bottom));
+
+    if (first && voice.name) {
+      out.push(
+        text(
+          MARGIN,
+          staff.top + 4 * STEP + 5,
+          escapeXml(voice.name),
+          ' font-size="13"',
+        ),
+      );
+    }
+
+    const originPosition = { treble: 2, 'treble-8': 2, bass: 6, alto: 4 }[
+      voice.clef
+    ];
+    out.push(clefSvg(voice.clef, left + 16, positionY(originPosition)));
+
+    const sharps = tune.key.fifths > 0;
+    for (let idx = 0; idx < accidentals; idx++) {
+      const position =
+        (sharps ? SHARP_POSITIONS : FLAT_POSITIONS)[idx] + clef.keyShift;
+      out.push(
+        text(
+          left + CLEF_WIDTH + idx * KEY_WIDTH + 4,
+          positionY(position) + (sharps ? 5 : 3),
+          sharps ? '♯' : '♭',
+          ' font-size="16" text-anchor="middle"',
+        ),
+      );
+    }
+
+    if (first && tune.meter) {
+      const timeX = left + CLEF_WIDTH + accidentals * KEY_WIDTH + 12;
+      const attrs = ' font-size="17" font-weight="bold" text-anchor="middle"';
+      out.push(
+        text(timeX, positionY(4) - 1, `${tune.meter.beats}`, attrs),
+        text(timeX, positionY(0) - 1, `${tune.meter.unit}`, attrs),
+      );
+    }
+
+    const drawn = new Set<number>();
+    for (const element of staff.elements) {
+      if (element.kind !== 'bar') continue;
+      const key = timeKey(element.start);
+      if (drawn.has(key)) continue;
+      drawn.add(key);
+      out.push(
+        barSvg(
+          barAt(staff.elements, element.start).bar,
+          barX.get(key),
+          staff.top,
+        ),
+      );
+    }
+
+    const sounding = staff.elements.filter((element) => element.kind !== 'bar');
+    sounding.forEach((element, idx) => {
+      const noteAt = noteX.get(timeKey(element.start));
+      if (!element.hidden) {
+        out.push(noteSvg(element, voice.clef, noteAt, staff.top));
+      }
+
+      element.lyrics.forEach((syllable, verse) => {
+        if (!syllable) return;
+        out.push(
+          text(
+            noteAt,
+            bottom + BELOW_STAFF + 4 + verse * LYRIC_HEIGHT,
+            escapeXml(syllable),
+            ' font-size="13" text-anchor="middle"',
+          ),
+        );
+      });
+
+      if (element.tie && element.kind === 'note') {
+        const next = sounding[idx + 1];
+        const toX = next ? noteX.get(timeKey(next.start)) - 7 : right - 4;
+        const positions = element.notes.map((note) => note.step - clef.bottom);
+        const below = (Math.min(...positions) + Math.max(...positions)) / 2 < 4;
+        for (const position of positions) {
+          out.push(tieSvg(noteAt + 7, toX, positionY(position), below));
+        }
+      }
+    });
+
+    if (staffIdx === staves.length - 1 && staves.length > 1) {
+      out.push(
+        `<rect x="${left - 6}" y="${staves[0].top}" width="3" height="${bottom - staves[0].top}"/>`,
+      );
+    }
+  });
+
+  return { svg: out.join(''), width: right, height: y - top + SYSTEM_GAP };
+}
+
+/**
+ * Draws a parsed ABC tune as staff notation in SVG: a system for each line
+ * of music, as broken in the ABC, with the voices on staves one under the
+ * other and their words beneath them. The clefs and rests are drawn rather
+ * than taken from a music font, so the image looks the same everywhere.
+ * @param tune - The parsed tune.
+ * @param heading - The hymn's title and number, drawn above the music.
+ * @returns The SVG document.
+ */
+export function renderAbcSvg(
+  tune: IAbcTune,
+  heading: Pick<ISolfaLyrics, 'title' | 'number'>,
+) {
+  const title =
+    heading.number != null
+      ? `${heading.number}. ${heading.title}`
+      : heading.title;
+  const body: string[] = [
+    text(MARGIN, 30, escapeXml(title), ' font-size="18" font-weight="bold"'),
+  ];
+  if (tune.title && tune.title !== heading.title) {
+    body.push(
+      text(
+        MARGIN,
+        50,
+        escapeXml(tune.title),
+        ' font-size="13" font-style="italic"',
+      ),
+    );
+  }
+
+  const bounds = [0, ...tune.breaks, Infinity];
+  let top = HEADER_HEIGHT - ABOVE_STAFF / 2;
+  let width = 0;
+  for (let idx = 0; idx < bounds.length - 1; idx++) {
+    const system = systemSvg(
+      tune,
+      bounds[idx],
+      bounds[idx + 1],
+      top,
+      idx === 0,
+    );
+    body.push(system.svg);
+    top += system.height;
+    width = Math.max(width, system.width);
+  }
+  width += MARGIN;
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${top}" viewBox="0 0 ${width} ${top}" font-family="Georgia, 'Times New Roman', serif" font-size="15">`,
+    `<rect width="100%" height="100%" fill="#fff"/>`,
+    `<g fill="#000">`,
+    ...body,
+    `</g>`,
+    `</svg>`,
+  ].join('\n');
+}
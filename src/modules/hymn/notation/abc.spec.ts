@@ -0,0 +1,104 @@
+import {
+  abcBarEnds,
+  abcFraction,
+  parseAbc,
+} from '@@/modules/hymn/notation/abc';
+
+const OLD_HUNDREDTH = [
+  'X:1',
+  'T:Old Hundredth',
+  'M:4/4',
+  'L:1/4',
+  'K:G',
+  'G|GFED|G2AB|',
+  'w:All peo-ple that on earth do dwell',
+].join('\n');
+
+const notes = (source: string) =>
+  parseAbc(source)
+    .tune.voices[0].elements.filter((element) => element.kind === 'note')
+    .map((element) => element.notes.map((note) => note.pitch));
+
+describe('parseAbc', () => {
+  it('reads the header fields', () => {
+    const { tune, errors } = parseAbc(OLD_HUNDREDTH);
+
+    expect(errors).toEqual([]);
+    expect(tune.title).toBe('Old Hundredth');
+    expect(tune.key).toEqual({ tonic: 'G', mode: 'major', fifths: 1 });
+    expect(tune.meter).toEqual({ beats: 4, unit: 4 });
+  });
+
+  it('places notes in whole notes and applies the key signature', () => {
+    const [voice] = parseAbc(OLD_HUNDREDTH).tune.voices;
+    const played = voice.elements.filter((element) => element.kind === 'note');
+
+    // F is sharp in G major
+    expect(played.map((element) => element.notes[0].pitch)).toEqual([
+      67, 67, 66, 64, 62, 67, 69, 71,
+    ]);
+    expect(played[5]).toMatchObject({ start: 1.25, duration: 0.5 });
+  });
+
+  it('puts the words under the notes they are sung to', () => {
+    const [voice] = parseAbc(OLD_HUNDREDTH).tune.voices;
+
+    expect(
+      voice.elements
+        .filter((element) => element.kind === 'note')
+        .map((element) => element.lyrics[0]),
+    ).toEqual(['All', 'peo-', 'ple', 'that', 'on', 'earth', 'do', 'dwell']);
+  });
+
+  it('reads tuplets, broken rhythms and flat keys', () => {
+    const { tune } = parseAbc('X:1\nL:1/8\nK:F\n(3CDE F2 c>B|');
+    const durations = tune.voices[0].elements
+      .filter((element) => element.kind === 'note')
+      .map((element) => element.duration);
+
+    expect(durations).toEqual([1 / 12, 1 / 12, 1 / 12, 1 / 4, 3 / 16, 1 / 16]);
+    expect(notes('X:1\nL:1/4\nK:Bb\nBcde|')).toEqual([[70], [72], [74], [75]]);
+  });
+
+  it('reports a bar that is not full', () => {
+    expect(parseAbc('X:1\nM:4/4\nL:1/4\nK:C\nCDEF|FG|ABcd|').errors).toEqual([
+      'Line 5, column 8: the bar lasts 1/2, but bars of 4/4 last 1.',
+    ]);
+  });
+
+  it('reports voices whose bars do not agree', () => {
+    expect(
+      parseAbc('X:1\nM:4/4\nL:1/4\nK:C\nV:1\nCDEF|\nV:2\nCDE|').errors,
+    ).toEqual([
+      'Bar 1 of the voice 2 ends 3/4 of a whole note in, but in the voice 1 1.',
+    ]);
+  });
+
+  it('refuses a change of key within the tune', () => {
+    expect(parseAbc('X:1\nL:1/4\nK:C\nC^CDE|[K:G]G|').errors).toEqual([
+      'Line 4, column 7: changes of key within the tune are not supported.',
+    ]);
+  });
+});
+
+describe('abcBarEnds', () => {
+  it('lists where each bar ends', () => {
+    const [voice] = parseAbc(OLD_HUNDREDTH).tune.voices;
+
+    expect(abcBarEnds(voice)).toEqual([0.25, 1.25, 2.25]);
+  });
+
+  it('ends a bar where the tune stops without a bar line', () => {
+    const [voice] = parseAbc('X:1\nL:1/4\nK:C\nCDEF|GA').tune.voices;
+
+    expect(abcBarEnds(voice)).toEqual([1, 1.5]);
+  });
+});
+
+describe('abcFraction', () => {
+  it('writes a length as a fraction', () => {
+    expect(abcFraction(0.75)).toBe('3/4');
+    expect(abcFraction(1 / 3)).toBe('1/3');
+    expect(abcFraction(2)).toBe('2');
+  });
+});
@@ -0,0 +1,894 @@
+import {
+  AbcBar,
+  AbcClef,
+  IAbcElement,
+  IAbcKey,
+  IAbcNote,
+  IAbcParseResult,
+  IAbcTune,
+  IAbcVoice,
+} from '@@/modules/hymn/interfaces';
+
+const LETTERS = 'CDEFGAB';
+// Semitones of each letter above C
+const SCALE = [0, 2, 4, 5, 7, 9, 11];
+// The order sharps and flats are added to a key signature
+const SHARP_ORDER = 'FCGDAEB';
+const FLAT_ORDER = 'BEADGCF';
+
+// Fifths above C of the major key on each letter
+const LETTER_FIFTHS: Record<string, number> = {
+  F: -1,
+  C: 0,
+  G: 1,
+  D: 2,
+  A: 3,
+  E: 4,
+  B: 5,
+};
+
+// Modes by the first three letters of their name, with the fifths they lie
+// below the major key on the same note
+const MODES: Record<string, { name: string; fifths: number }> = {
+  '': { name: 'major', fifths: 0 },
+  maj: { name: 'major', fifths: 0 },
+  ion: { name: 'major', fifths: 0 },
+  m: { name: 'minor', fifths: -3 },
+  min: { name: 'minor', fifths: -3 },
+  aeo: { name: 'minor', fifths: -3 },
+  mix: { name: 'mixolydian', fifths: -1 },
+  dor: { name: 'dorian', fifths: -2 },
+  phr: { name: 'phrygian', fifths: -4 },
+  lyd: { name: 'lydian', fifths: 1 },
+  loc: { name: 'locrian', fifths: -5 },
+};
+
+// The major key with each signature, from seven flats to seven sharps
+export const ABC_MAJOR_KEYS = [
+  'Cb',
+  'Gb',
+  'Db',
+  'Ab',
+  'Eb',
+  'Bb',
+  'F',
+  'C',
+  'G',
+  'D',
+  'A',
+  'E',
+  'B',
+  'F#',
+  'C#',
+];
+
+const CLEFS: AbcClef[] = ['treble', 'treble-8', 'bass', 'alto'];
+
+const ACCIDENTALS: Record<string, number> = {
+  '^^': 2,
+  '^': 1,
+  '=': 0,
+  _: -1,
+  __: -2,
+};
+
+// Notes in the time of one, for tuplets written `(p` without a time
+const TUPLET_TIMES: Record<number, number> = { 2: 3, 3: 2, 4: 3, 6: 2, 8: 3 };
+
+const FIELD = /^([A-Za-z+]):(.*)$/;
+const NOTE = /(\^\^|\^|__|_|=)?([A-Ga-g])([',]*)/y;
+const LENGTH = /(\d*)(\/*)(\d*)/y;
+const BAR = /::|(:*)(\[\||\|\]|\|\||\|)(:*)/y;
+const ENDING = /\[?[1-9][\d,-]*/y;
+const TUPLET = /\((\d)(?::(\d*))?(?::(\d*))?/y;
+const INLINE_FIELD = /\[([A-Za-z]):([^\]]*)\]/y;
+const VOICE_PROPERTY = /(\w+)=("[^"]*"|\S+)|(\S+)/g;
+const METER = /^(\d+)\s*\/\s*(\d+)$/;
+// Decorations written as a single character before a note
+const DECORATIONS = '.~HLMOPSTuv';
+
+interface IVoiceState {
+  voice: IAbcVoice;
+  time: number;
+  // Accidentals written earlier in the bar, by step
+  accidentals: Map<number, number>;
+  tuplet: { factor: number; left: number } | null;
+  // Length change owed to the next note by a broken rhythm (`>` or `<`)
+  broken: number;
+  last: IAbcElement | null;
+  // Where the last line of music began, for the words under it
+  lineStart: number;
+  lineNo: number;
+  verses: number;
+  breaks: number[];
+}
+
+interface ISyllable {
+  kind: 'syllable' | 'skip' | 'bar';
+  text?: string;
+}
+
+const stripComment = (line: string) => line.replace(/(^|[^\\])%.*$/, '$1');
+
+const unquote = (value: string) => value.replace(/^"(.*)"$/, '$1');
+
+/**
+ * Writes a length in whole notes as a fraction, e.g. 3/4.
+ */
+export function abcFraction(value: number) {
+  for (let den = 1; den <= 768; den++) {
+    const num = value * den;
+    if (Math.abs(num - Math.round(num)) < 1e-6) {
+      return den === 1 ? `${Math.round(num)}` : `${Math.round(num)}/${den}`;
+    }
+  }
+  return value.toFixed(3);
+}
+
+function parseMeter(value: string) {
+  const text = value.trim();
+  if (!text || /^none$/i.test(text)) return { meter: null };
+  if (text === 'C') return { meter: { beats: 4, unit: 4 } };
+  if (text === 'C|') return { meter: { beats: 2, unit: 2 } };
+
+  const [, beats, unit] = METER.exec(text) ?? [];
+  if (!+beats || !+unit) {
+    return { error: `"${text}" is not a meter; use one like 4/4, 3/4 or C.` };
+  }
+  return { meter: { beats: +beats, unit: +unit } };
+}
+
+function parseUnit(value: string) {
+  const [, num, den] = METER.exec(value.trim()) ?? [];
+  if (!+num || !+den) {
+    return {
+      error: `"${value.trim()}" is not a note length; use one like 1/8.`,
+    };
+  }
+  return { unit: +num / +den };
+}
+
+/**
+ * Reads a clef from the words after a key or voice, written `clef=bass`
+ * or just `bass`.
+ */
+function clefOf(name: string, value: string): AbcClef | string | undefined {
+  if (name === 'clef' || name === 'cl') {
+    return CLEFS.includes(value as AbcClef)
+      ? value
+      : `"${value}" is not a clef; use treble, treble-8, bass or alto.`;
+  }
+  if (!name && CLEFS.includes(value as AbcClef)) return value;
+  return undefined;
+}
+
+function parseKey(value: string): {
+  key?: IAbcKey;
+  clef?: AbcClef;
+  error?: string;
+} {
+  const text = value.trim();
+  const none = /^(none|HP|Hp)?(\s|$)/.exec(text);
+  const match = /^([A-G])([#b]?)(.*)$/.exec(text);
+
+  let key: IAbcKey;
+  let rest: string;
+  if (match) {
+    const [, letter, accidental, after] = match;
+    const word = /^\s*([A-Za-z]+)(?![=\w-])/.exec(after);
+    const found = word && MODES[word[1].toLowerCase().slice(0, 3)];
+    if (word && !found && !clefOf('', word[1])) {
+      return {
+        error: `"${word[1]}" is not a mode; use one like m, min or dor.`,
+      };
+    }
+
+    const mode = found || MODES[''];
+    const fifths =
+      LETTER_FIFTHS[letter] +
+      (accidental === '#' ? 7 : accidental === 'b' ? -7 : 0) +
+      mode.fifths;
+    if (Math.abs(fifths) > 7) {
+      return {
+        error: `${letter}${accidental} ${mode.name} has no key signature.`,
+      };
+    }
+
+    key = { tonic: `${letter}${accidental}`, mode: mode.name, fifths };
+    rest = found ? after.slice(word[0].length) : after;
+  } else if (none) {
+    key = { tonic: 'C', mode: 'major', fifths: 0 };
+    rest = text.slice(none[0].length);
+  } else {
+    return {
+      error: `"${text}" is not a key; use one like G, Bb, Em or D dor.`,
+    };
+  }
+
+  for (const [, name, propertyValue, word] of rest.matchAll(VOICE_PROPERTY)) {
+    const clef = clefOf(name ?? '', unquote(propertyValue ?? word));
+    if (clef && !CLEFS.includes(clef as AbcClef)) return { error: clef };
+    if (clef) return { key, clef: clef as AbcClef };
+  }
+  return { key };
+}
+
+/**
+ * Splits `w:` words into syllables. Spaces and hyphens end a syllable, `_`
+ * holds the last one over another note, `*` skips a note and `|` moves on
+ * to the next bar; `~` joins words over one note and `\-` writes a hyphen.
+ */
+function syllablesOf(text: string): ISyllable[] {
+  const out: ISyllable[] = [];
+  let current = '';
+  // A hyphen on its own, after another, stands for a note
+  let hyphen = false;
+
+  const end = (suffix = '') => {
+    if (current) out.push({ kind: 'syllable', text: current + suffix });
+    current = '';
+  };
+
+  for (let i = 0; i < text.length; i++) {
+    const char = text[i];
+    if (char === '\\' && text[i + 1] === '-') {
+      current += '-';
+      i++;
+    } else if (char === '-') {
+      if (!current && hyphen) out.push({ kind: 'skip' });
+      end('-');
+      hyphen = true;
+      continue;
+    } else if (/\s/.test(char)) {
+      end();
+      continue;
+    } else if (char === '_' || char === '*') {
+      end();
+      out.push({ kind: 'skip' });
+    } else if (char === '|') {
+      end();
+      out.push({ kind: 'bar' });
+    } else {
+      current += char === '~' ? ' ' : char;
+    }
+    hyphen = false;
+  }
+  end();
+
+  return out;
+}
+
+/**
+ * Parses a tune in ABC notation (2.1), the subset used to transcribe hymns:
+ * one tune, with its voices given by `V:` lines and their words by `w:`
+ * lines under the music. Notes, rests, chords, ties, tuplets, broken
+ * rhythms and bar lines are read; chord symbols, decorations, slurs and
+ * grace notes are passed over. A change of key within the tune, voice
+ * overlays and multi-bar rests are refused. The voices must have the same
+ * bars, and with a meter every bar must be full except at the ends of the
+ * tune and next to a repeat. Errors give the line and column they were
+ * found at.
+ * @see https://abcnotation.com/wiki/abc:standard:v2.1
+ */
+export function parseAbc(source: string): IAbcParseResult {
+  const errors: string[] = [];
+  // Where each bar line was written, for errors about its bar
+  const positions = new Map<IAbcElement, string>();
+
+  let title: string | null = null;
+  let key: IAbcKey | null = null;
+  let meter: IAbcTune['meter'] = null;
+  let unit: number | null = null;
+  let clef: AbcClef = 'treble';
+  let started = false;
+  let inBody = false;
+
+  const states = new Map<string, IVoiceState>();
+  let current: IVoiceState | null = null;
+
+  const voiceOf = (id: string) => {
+    if (!states.has(id)) {
+      states.set(id, {
+        voice: { id, name: null, clef, elements: [] },
+        time: 0,
+        accidentals: new Map(),
+        tuplet: null,
+        broken: 1,
+        last: null,
+        lineStart: 0,
+        lineNo: 0,
+        verses: 0,
+        breaks: [],
+      });
+    }
+    return states.get(id);
+  };
+
+  const defineVoice = (value: string, at: string) => {
+    const [id, ...rest] = value.trim().split(/\s+/);
+    if (!id) {
+      errors.push(`${at}: a voice needs a name, such as "V:1" or "V:S".`);
+      return;
+    }
+
+    const state = voiceOf(id);
+    for (const [, name, propertyValue, word] of rest
+      .join(' ')
+      .matchAll(VOICE_PROPERTY)) {
+      const property = (name ?? '').toLowerCase();
+      const text = unquote(propertyValue ?? word);
+      const voiceClef = clefOf(property, text);
+
+      if (voiceClef && !CLEFS.includes(voiceClef as AbcClef)) {
+        errors.push(`${at}: ${voiceClef}`);
+      } else if (voiceClef) {
+        state.voice.clef = voiceClef as AbcClef;
+      } else if (property === 'name' || property === 'nm') {
+        state.voice.name = text;
+      }
+    }
+    current = state;
+  };
+
+  const changeMeter = (value: string, at: string) => {
+    const result = parseMeter(value);
+    if (result.error) errors.push(`${at}: ${result.error}`);
+    else meter = result.meter;
+  };
+
+  const changeUnit = (value: string, at: string) => {
+    const result = parseUnit(value);
+    if (result.error) errors.push(`${at}: ${result.error}`);
+    else unit = result.unit;
+  };
+
+  // Without an L: field the notes are eighths, or sixteenths in short meters
+  const unitLength = () =>
+    unit ?? (meter && meter.beats / meter.unit < 0.75 ? 1 / 16 : 1 / 8);
+
+  const alterOf = (state: IVoiceState, step: number) => {
+    if (state.accidentals.has(step)) return state.accidentals.get(step);
+
+    const letter = LETTERS[((step % 7) + 7) % 7];
+    if (key.fifths > 0 && SHARP_ORDER.slice(0, key.fifths).includes(letter)) {
+      return 1;
+    }
+    if (key.fifths < 0 && FLAT_ORDER.slice(0, -key.fifths).includes(letter)) {
+      return -1;
+    }
+    return 0;
+  };
+
+  const readNote = (state: IVoiceState, line: string, at: number) => {
+    NOTE.lastIndex = at;
+    const match = NOTE.exec(line);
+    if (!match) return null;
+
+    const [text, accidental, letter, octaves] = match;
+    const step =
+      LETTERS.indexOf(letter.toUpperCase()) +
+      (letter === letter.toLowerCase() ? 7 : 0) +
+      7 *
+        ((octaves.match(/'/g)?.length ?? 0) -
+          (octaves.match(/,/g)?.length ?? 0));
+
+    if (accidental) state.accidentals.set(step, ACCIDENTALS[accidental]);
+    const octave = Math.floor(step / 7);
+    const note: IAbcNote = {
+      step,
+      accidental: accidental ? ACCIDENTALS[accidental] : null,
+      pitch: 60 + 12 * octave + SCALE[step - 7 * octave] + alterOf(state, step),
+    };
+
+    return { note, length: text.length };
+  };
+
+  const readLength = (line: string, at: number) => {
+    LENGTH.lastIndex = at;
+    const [text, num, slashes, den] = LENGTH.exec(line);
+    const multiple = num ? +num : 1;
+    const divisor = slashes
+      ? den
+        ? +den * 2 ** (slashes.length - 1)
+        : 2 ** slashes.length
+      : 1;
+
+    return { value: multiple / divisor, length: text.length };
+  };
+
+  const addElement = (
+    state: IVoiceState,
+    kind: 'note' | 'rest',
+    notes: IAbcNote[],
+    length: number,
+    hidden = false,
+  ) => {
+    const written = length * unitLength() * state.broken;
+    let duration = written;
+    state.broken = 1;
+
+    if (state.tuplet) {
+      duration *= state.tuplet.factor;
+      if (--state.tuplet.left === 0) state.tuplet = null;
+    }
+
+    const element: IAbcElement = {
+      kind,
+      start: state.time,
+      duration,
+      written,
+      notes: [...notes].sort((a, b) => a.pitch - b.pitch),
+      tie: false,
+      lyrics: [],
+      ...(hidden && { hidden }),
+    };
+    state.voice.elements.push(element);
+    state.time += duration;
+    state.last = element;
+  };
+
+  const readMusic = (state: IVoiceState, line: string, lineNo: number) => {
+    const error = (at: number, message: string) =>
+      errors.push(`Line ${lineNo}, column ${at + 1}: ${message}`);
+
+    let i = 0;
+    while (i < line.length) {
+      const char = line[i];
+
+      if (
+        /[\s`$y\\]/.test(char) ||
+        char === ')' ||
+        DECORATIONS.includes(char)
+      ) {
+        i++;
+        continue;
+      }
+
+      // Chord symbols, annotations, decorations and grace notes
+      const closer = { '"': '"', '!': '!', '+': '+', '{': '}' }[char];
+      if (closer) {
+        const end = line.indexOf(closer, i + 1);
+        if (end < 0) {
+          error(i, `"${char}" is not closed with "${closer}".`);
+          return;
+        }
+        i = end + 1;
+        continue;
+      }
+
+      if (char === '(') {
+        TUPLET.lastIndex = i;
+        const tuplet = TUPLET.exec(line);
+        if (tuplet) {
+          const count = +tuplet[1];
+          const time =
+            +tuplet[2] ||
+            TUPLET_TIMES[count] ||
+            (meter && meter.beats % 3 === 0 && meter.beats > 3 ? 3 : 2);
+          state.tuplet = { factor: time / count, left: +tuplet[3] || count };
+          i += tuplet[0].length;
+        } else {
+          // The start of a slur
+          i++;
+        }
+        continue;
+      }
+
+      if (char === '-') {
+        if (state.last?.kind === 'note') state.last.tie = true;
+        else
+          error(i, '"-" ties a note to the next, but no note comes before it.');
+        i++;
+        continue;
+      }
+
+      if (char === '>' || char === '<') {
+        const run = /[<>]+/y;
+        run.lastIndex = i;
+        const arrows = run.exec(line)[0];
+        const last = state.last;
+        if (
+          !last ||
+          last.kind === 'bar' ||
+          arrows.length > 3 ||
+          /></.test(arrows)
+        ) {
+          error(i, `"${arrows}" must come between two notes.`);
+        } else {
+          const short = 2 ** -arrows.length;
+          const factor = char === '>' ? 2 - short : short;
+          state.time += last.duration * (factor - 1);
+          last.duration *= factor;
+          last.written *= factor;
+          state.broken = char === '>' ? short : 2 - short;
+        }
+        i += arrows.length;
+        continue;
+      }
+
+      if (char === '[') {
+        INLINE_FIELD.lastIndex = i;
+        const field = INLINE_FIELD.exec(line);
+        if (field) {
+          const at = `Line ${lineNo}, column ${i + 1}`;
+          const [, name, value] = field;
+          if (name === 'V') {
+            defineVoice(value, at);
+            state = current;
+          } else if (name === 'M') {
+            changeMeter(value, at);
+          } else if (name === 'L') {
+            changeUnit(value, at);
+          } else if (name === 'K') {
+            error(i, 'changes of key within the tune are not supported.');
+          }
+          i += field[0].length;
+          continue;
+        }
+
+        ENDING.lastIndex = i;
+        const ending = line[i + 1] !== '|' && ENDING.exec(line);
+        if (ending) {
+          i += ending[0].length;
+          continue;
+        }
+
+        if (line[i + 1] !== '|') {
+          const notes: IAbcNote[] = [];
+          let at = i + 1;
+          let length: number | null = null;
+          while (at < line.length && line[at] !== ']') {
+            const read = readNote(state, line, at);
+            if (!read) {
+              if (line[at] !== '-' && !/\s/.test(line[at])) {
+                error(at, `"${line[at]}" cannot be part of a chord.`);
+              }
+              at++;
+              continue;
+            }
+            notes.push(read.note);
+            at += read.length;
+            const noteLength = readLength(line, at);
+            length ??= noteLength.value;
+            at += noteLength.length;
+          }
+          if (at >= line.length) {
+            error(i, 'the chord is not closed with "]".');
+            return;
+          }
+          if (!notes.length) {
+            error(i, 'the chord has no notes.');
+          }
+
+          const tied = /-\s*$/.test(line.slice(i, at));
+          const after = readLength(line, at + 1);
+          addElement(state, 'note', notes, (length ?? 1) * after.value);
+          if (tied) state.last.tie = true;
+          i = at + 1 + after.length;
+          continue;
+        }
+      }
+
+      BAR.lastIndex = i;
+      const bar =
+        (char === '|' || char === ':' || char === '[') && BAR.exec(line);
+      if (bar) {
+        const [text] = bar;
+        const left = text.startsWith(':');
+        const right = text.endsWith(':');
+        const type: AbcBar =
+          left && right
+            ? '::'
+            : left
+              ? ':|'
+              : right
+                ? '|:'
+                : ((['||', '|]', '[|'].find((kind) =>
+                    text.includes(kind),
+                  ) as AbcBar) ?? '|');
+
+        const element: IAbcElement = {
+          kind: 'bar',
+          start: state.time,
+          duration: 0,
+          written: 0,
+          notes: [],
+          tie: false,
+          bar: type,
+          lyrics: [],
+        };
+        state.voice.elements.push(element);
+        positions.set(element, `Line ${lineNo}, column ${i + 1}`);
+        state.accidentals.clear();
+        i += text.length;
+
+        // A first or second ending, as in `|1` or `:|2`
+        ENDING.lastIndex = i;
+        const ending = ENDING.exec(line);
+        if (ending) i += ending[0].length;
+        continue;
+      }
+
+      const read = readNote(state, line, i);
+      if (read) {
+        const length = readLength(line, i + read.length);
+        if (!length.value) {
+          error(i, 'a note cannot have no length.');
+        }
+        addElement(state, 'note', [read.note], length.value);
+        i += read.length + length.length;
+        continue;
+      }
+
+      if (char === 'z' || char === 'x') {
+        const length = readLength(line, i + 1);
+        addElement(state, 'rest', [], length.value, char === 'x');
+        i += 1 + length.length;
+        continue;
+      }
+
+      if (char === 'Z' || char === 'X') {
+        error(
+          i,
+          `multi-bar rests are not supported; write each bar's rest with "z".`,
+        );
+        i += 1 + readLength(line, i + 1).length;
+        continue;
+      }
+      if (char === '&') {
+        error(
+          i,
+          'voice overlays are not supported; give each voice its own V: line.',
+        );
+      } else {
+        error(i, `"${char}" is not ABC notation.`);
+      }
+      i++;
+    }
+
+    // A line of music ending in `\` continues on the next one
+    if (!line.trimEnd().endsWith('\\')) {
+      state.breaks.push(state.time);
+    }
+  };
+
+  const addWords = (text: string, lineNo: number) => {
+    const state = current;
+    if (!state?.lineNo) {
+      errors.push(
+        `Line ${lineNo}: w: words go under the music they are sung to.`,
+      );
+      return;
+    }
+
+    const verse = state.verses++;
+    const elements = state.voice.elements;
+    // A note tied from the one before it is not sung again
+    let tied =
+      elements
+        .slice(0, state.lineStart)
+        .reverse()
+        .find((element) => element.kind === 'note')?.tie ?? false;
+    let at = state.lineStart;
+
+    const nextNote = () => {
+      while (at < elements.length) {
+        const element = elements[at++];
+        if (element.kind !== 'note') continue;
+        const continued = tied;
+        tied = element.tie;
+        if (!continued) return element;
+      }
+      return null;
+    };
+
+    for (const syllable of syllablesOf(text)) {
+      if (syllable.kind === 'bar') {
+        while (at < elements.length && elements[at].kind !== 'bar') at++;
+        at++;
+        continue;
+      }
+
+      const note = nextNote();
+      if (!note) {
+        errors.push(
+          `Line ${lineNo}: the words have more syllables than the notes on line ${state.lineNo}.`,
+        );
+        return;
+      }
+      if (syllable.kind === 'syllable') {
+        note.lyrics[verse] = syllable.text;
+      }
+    }
+  };
+
+  source.split(/\r?\n/).forEach((raw, idx) => {
+    const lineNo = idx + 1;
+    const line = stripComment(raw).trimEnd();
+    if (!line.trim()) return;
+
+    const field = FIELD.exec(line);
+    const at = `Line ${lineNo}`;
+
+    if (!started) {
+      started = true;
+      if (field?.[1] !== 'X') {
+        errors.push(
+          `${at}: the tune must start with an X: field, such as "X:1".`,
+        );
+      }
+      if (field?.[1] === 'X') return;
+    }
+
+    if (!inBody) {
+      if (!field) {
+        errors.push(
+          `${at}: the music must follow a K: field, which ends the header.`,
+        );
+        return;
+      }
+
+      const [, name, value] = field;
+      if (name === 'X') {
+        errors.push(
+          `${at}: the tune has a second X: field; a hymn has one tune.`,
+        );
+      } else if (name === 'T') {
+        title ??= value.trim() || null;
+      } else if (name === 'M') {
+        changeMeter(value, at);
+      } else if (name === 'L') {
+        changeUnit(value, at);
+      } else if (name === 'V') {
+        defineVoice(value, at);
+      } else if (name === 'K') {
+        const result = parseKey(value);
+        if (result.error) {
+          errors.push(`${at}: ${result.error}`);
+        }
+        key = result.key ?? { tonic: 'C', mode: 'major', fifths: 0 };
+        clef = result.clef ?? clef;
+        inBody = true;
+        // Voices named in the header start with the first of them
+        current = states.values().next().value ?? null;
+      }
+      return;
+    }
+
+    if (field) {
+      const [, name, value] = field;
+      if (name === 'V') {
+        defineVoice(value, at);
+      } else if (name === 'w') {
+        addWords(value, lineNo);
+      } else if (name === 'M') {
+        changeMeter(value, at);
+      } else if (name === 'L') {
+        changeUnit(value, at);
+      } else if (name === 'K') {
+        errors.push(`${at}: changes of key within the tune are not supported.`);
+      } else if (name === 'X') {
+        errors.push(
+          `${at}: the tune has a second X: field; a hymn has one tune.`,
+        );
+      }
+      return;
+    }
+
+    current ??= voiceOf('1');
+    current.lineStart = current.voice.elements.length;
+    current.lineNo = lineNo;
+    current.verses = 0;
+    readMusic(current, line, lineNo);
+  });
+
+  if (!key) {
+    errors.push(
+      'The tune has no K: field; the header must end with the key, such as "K:G".',
+    );
+    return { errors };
+  }
+
+  const voices = [...states.values()]
+    .filter((state) => state.voice.elements.length)
+    .map((state) => state.voice);
+  if (
+    !voices.some((voice) => voice.elements.some((el) => el.kind === 'note'))
+  ) {
+    if (!errors.length) errors.push('No music found.');
+    return { errors };
+  }
+
+  checkBars(voices, meter, positions, errors);
+
+  if (errors.length) {
+    return { errors };
+  }
+
+  const end = Math.max(...[...states.values()].map((state) => state.time));
+  const breaks = [...new Set(states.get(voices[0].id).breaks)].filter(
+    (time) => time > 0 && time < end - 1e-9,
+  );
+
+  return { tune: { title, key, meter, voices, breaks }, errors };
+}
+
+/**
+ * Lists where the bars of a voice end, in whole notes. Bar lines written
+ * together count once and a tune that stops without one ends a bar.
+ */
+export function abcBarEnds(voice: IAbcVoice) {
+  const ends: number[] = [];
+  for (const element of voice.elements) {
+    const last = ends[ends.length - 1] ?? 0;
+    if (element.kind === 'bar' && element.start > last + 1e-9) {
+      ends.push(element.start);
+    }
+  }
+
+  const last = voice.elements[voice.elements.length - 1];
+  const end = last.start + last.duration;
+  if (end > (ends[ends.length - 1] ?? 0) + 1e-9) ends.push(end);
+
+  return ends;
+}
+
+function checkBars(
+  voices: IAbcVoice[],
+  meter: IAbcTune['meter'],
+  positions: Map<IAbcElement, string>,
+  errors: string[],
+) {
+  const [first] = voices;
+  const firstEnds = abcBarEnds(first);
+  const label = (voice: IAbcVoice) => `voice ${voice.name ?? voice.id}`;
+
+  for (const voice of voices.slice(1)) {
+    const ends = abcBarEnds(voice);
+    if (ends.length !== firstEnds.length) {
+      errors.push(
+        `The ${label(voice)} has ${ends.length} bars, the ${label(first)} ${firstEnds.length}.`,
+      );
+      continue;
+    }
+
+    const bar = ends.findIndex(
+      (end, idx) => Math.abs(end - firstEnds[idx]) > 1e-9,
+    );
+    if (bar >= 0) {
+      errors.push(
+        `Bar ${bar + 1} of the ${label(voice)} ends ${abcFraction(ends[bar])} of a whole note in, but in the ${label(first)} ${abcFraction(firstEnds[bar])}.`,
+      );
+    }
+  }
+
+  if (!meter) return;
+
+  // Bar lines of the first voice by where they fall, to find its repeats
+  const bars = new Map<number, IAbcElement[]>();
+  for (const element of first.elements) {
+    if (element.kind !== 'bar') continue;
+    const key = Math.round(element.start * 1e6);
+    bars.set(key, [...(bars.get(key) ?? []), element]);
+  }
+  const barsAt = (time: number) => bars.get(Math.round(time * 1e6)) ?? [];
+  const isRepeat = (time: number) =>
+    barsAt(time).some((element) => element.bar !== '|' && element.bar !== '||');
+
+  const full = meter.beats / meter.unit;
+  firstEnds.forEach((end, idx) => {
+    const start = firstEnds[idx - 1] ?? 0;
+    const length = end - start;
+    const edge = idx === 0 || idx === firstEnds.length - 1;
+
+    if (
+      length > full + 1e-9 ||
+      (length < full - 1e-9 && !edge && !isRepeat(start) && !isRepeat(end))
+    ) {
+      const at = positions.get(barsAt(end)[0]) ?? `Bar ${idx + 1}`;
+      errors.push(
+        `${at}: the bar lasts ${abcFraction(length)}, but bars of ${meter.beats}/${meter.unit} last ${abcFraction(full)}.`,
+      );
+    }
+  });
+}
@@ -0,0 +1,74 @@
+import {
+  encodeMelody,
+  melodyIntervals,
+  parseMelody,
+} from '@@/modules/hymn/notation/melody';
+import { parseSolfa } from '@@/modules/hymn/notation/solfa';
+
+describe('parseMelody', () => {
+  it('reads a fragment as the intervals between its notes', () => {
+    expect(parseMelody('d d r m m r d')).toEqual({
+      intervals: [0, 2, 2, 0, -2, -2],
+      errors: [],
+    });
+  });
+
+  it('takes the nearest note when there are no octave marks', () => {
+    // `s d` climbs a fourth rather than falling a fifth
+    expect(parseMelody('s d r').intervals).toEqual([5, 2]);
+    expect(parseMelody('d s d').intervals).toEqual([-5, 5]);
+  });
+
+  it('places every note by its marks when there are some', () => {
+    expect(parseMelody("d s d'").intervals).toEqual([7, 5]);
+    expect(parseMelody('d s, d').intervals).toEqual([-5, 5]);
+  });
+
+  it('passes over bar lines and beat marks', () => {
+    expect(parseMelody('| d :d .r :m |').intervals).toEqual([0, 2, 2]);
+  });
+
+  it('reads chromatic notes in any case', () => {
+    expect(parseMelody('D Fe S').intervals).toEqual([6, 1]);
+  });
+
+  it('reports what is not a note', () => {
+    expect(parseMelody('d x r')).toEqual({
+      errors: ['"x" is not a sol-fa note.'],
+    });
+  });
+
+  it('needs a melody of a searchable length', () => {
+    expect(parseMelody('d r').errors).toEqual([
+      'A melody has 3 to 50 notes; this one has 2.',
+    ]);
+  });
+});
+
+describe('encodeMelody', () => {
+  it('writes one letter per interval', () => {
+    expect(encodeMelody([0, 2, 2, 0, -2, -2])).toBe('accaCC');
+  });
+
+  it('gives leaps of more than two octaves the last letter', () => {
+    expect(encodeMelody([25, 30, -25, -30])).toBe('zzZZ');
+  });
+});
+
+describe('melodyIntervals', () => {
+  it('follows the soprano and passes over rests', () => {
+    const { score } = parseSolfa(
+      ['S: | d :r :  :m |', 'B: | d, :s, :d, :d |'].join('\n'),
+    );
+
+    expect(melodyIntervals(score)).toEqual([2, 2]);
+  });
+
+  it('falls back to the highest part the score has', () => {
+    const { score } = parseSolfa(
+      ['A: | s, :d :r :- |', 'B: | d :d :d :d |'].join('\n'),
+    );
+
+    expect(melodyIntervals(score)).toEqual([5, 2]);
+  });
+});
@@ -0,0 +1,129 @@
+import {
+  SOLFA_PARTS,
+  SOLFA_SEMITONES,
+  solfaNotes,
+} from '@@/modules/hymn/notation/solfa';
+import {
+  IMelodyParseResult,
+  ISolfaScore,
+  MAX_MELODY_NOTES,
+  MIN_MELODY_NOTES,
+} from '@@/modules/hymn/interfaces';
+
+// One letter per interval, so a melody is a word a trigram index can search:
+// `a` repeats a note, lower case letters go up and upper case ones down that
+// many semitones. Leaps of more than two octaves share the last letter.
+const INTERVAL_CODES = 'ZYXWVUTSRQPONMLKJIHGFEDCBabcdefghijklmnopqrstuvwxyz';
+const MAX_INTERVAL = 25;
+
+// Two-letter syllables first, so `de` is not read as `d` and `e`
+const NOTE = new RegExp(
+  `(${Object.keys(SOLFA_SEMITONES)
+    .sort((a, b) => b.length - a.length)
+    .join('|')})('+|,+)?(?=[\\s|:.-]|$)`,
+  'y',
+);
+// Bar lines, beat marks and holds may be pasted in with the notes
+const SEPARATORS = /[\s|:.-]+/y;
+const JUNK = /[^\s|:.-]+/y;
+
+/**
+ * Writes a run of intervals as the letters the melody index is kept in.
+ * @param intervals - Semitones from each note to the next.
+ */
+export function encodeMelody(intervals: number[]) {
+  return intervals
+    .map(
+      (interval) =>
+        INTERVAL_CODES[
+          Math.max(-MAX_INTERVAL, Math.min(MAX_INTERVAL, interval)) +
+            MAX_INTERVAL
+        ],
+    )
+    .join('');
+}
+
+/**
+ * Lists the intervals of a score's melody: the soprano, or the highest part
+ * the score has. Rests are passed over, so a phrase runs on into the next.
+ * @param score - The parsed notation.
+ * @returns Semitones from each note to the next.
+ */
+export function melodyIntervals(score: ISolfaScore) {
+  const part = SOLFA_PARTS.find((candidate) => score.parts.includes(candidate));
+  const pitches = solfaNotes(score, part)
+    .map((note) => note.pitch)
+    .filter((pitch) => pitch !== null);
+
+  return pitches.slice(1).map((pitch, idx) => pitch - pitches[idx]);
+}
+
+/**
+ * Reads a melody fragment typed as sol-fa, e.g. `d d r m m r d`, as the
+ * intervals between its notes. When no note has an octave mark each note is
+ * taken as the nearest one to the note before, so `s d` climbs a fourth;
+ * with marks, they place every note as they do in the notation.
+ * @param seq - The notes, apart by spaces, bar lines or beat marks.
+ * @returns The intervals, or what is wrong with the fragment.
+ */
+export function parseMelody(seq: string): IMelodyParseResult {
+  const text = seq.toLowerCase();
+  const notes: { degree: number; octave: number | null }[] = [];
+  const errors: string[] = [];
+
+  let at = 0;
+  while (at < text.length) {
+    SEPARATORS.lastIndex = at;
+    if (SEPARATORS.test(text)) {
+      at = SEPARATORS.lastIndex;
+      continue;
+    }
+
+    NOTE.lastIndex = at;
+    const note = NOTE.exec(text);
+    if (note) {
+      const marks = note[2];
+      notes.push({
+        degree: SOLFA_SEMITONES[note[1]],
+        octave: marks ? marks.length * (marks[0] === "'" ? 1 : -1) : null,
+      });
+      at = NOTE.lastIndex;
+      continue;
+    }
+
+    JUNK.lastIndex = at;
+    const junk = JUNK.exec(text)[0];
+    errors.push(`"${seq.slice(at, at + junk.length)}" is not a sol-fa note.`);
+    at = JUNK.lastIndex;
+  }
+
+  if (errors.length) {
+    return { errors };
+  }
+
+  if (notes.length < MIN_MELODY_NOTES || notes.length > MAX_MELODY_NOTES) {
+    return {
+      errors: [
+        `A melody has ${MIN_MELODY_NOTES} to ${MAX_MELODY_NOTES} notes; this one has ${notes.length}.`,
+      ],
+    };
+  }
+
+  const marked = notes.some((note) => note.octave !== null);
+  const pitches: number[] = [];
+  for (const { degree, octave } of notes) {
+    const previous = pitches[pitches.length - 1];
+    if (marked || previous === undefined) {
+      pitches.push(degree + 12 * (octave ?? 0));
+    } else {
+      // The nearest note of that name, going up when it is as near either way
+      const up = (((degree - previous) % 12) + 12) % 12;
+      pitches.push(previous + (up > 6 ? up - 12 : up));
+    }
+  }
+
+  return {
+    intervals: pitches.slice(1).map((pitch, idx) => pitch - pitches[idx]),
+    errors,
+  };
+}
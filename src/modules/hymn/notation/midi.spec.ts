@@ -0,0 +1,50 @@
+import { dohOf, renderSolfaMidi } from '@@/modules/hymn/notation/midi';
+import { parseSolfa } from '@@/modules/hymn/notation/solfa';
+
+describe('dohOf', () => {
+  it('puts doh of the upper parts in the octave from middle C', () => {
+    expect(dohOf('C', 'S')).toBe(60);
+    expect(dohOf('G', 'A')).toBe(67);
+    expect(dohOf('Bb', 'S')).toBe(70);
+  });
+
+  it('reads tenors and basses an octave lower', () => {
+    expect(dohOf('G', 'B')).toBe(55);
+    expect(dohOf('F#', 'T')).toBe(54);
+  });
+});
+
+describe('renderSolfaMidi', () => {
+  const { score } = parseSolfa(
+    ['time: 4/4', 'S: | d :r :m :- |', 'B: | d :s, :d :- |'].join('\n'),
+  );
+  const options = { title: 'Test', key: 'C', tempo: 90 };
+
+  it('writes a format 1 file with a conductor track and one per part', () => {
+    const midi = renderSolfaMidi(score, { ...options, parts: ['S', 'B'] });
+
+    expect(midi.subarray(0, 4).toString('ascii')).toBe('MThd');
+    expect(midi.readUInt16BE(8)).toBe(1);
+    expect(midi.readUInt16BE(10)).toBe(3);
+    expect(midi.readUInt16BE(12)).toBe(480);
+  });
+
+  it('writes the tempo and the notes of each part in its key', () => {
+    const midi = renderSolfaMidi(score, { ...options, parts: ['S', 'B'] });
+
+    // 90 beats per minute is 666,667 microseconds a quarter note
+    expect(midi.includes(Buffer.from([0xff, 0x51, 3, 0x0a, 0x2c, 0x2b]))).toBe(
+      true,
+    );
+    // Soprano doh is middle C on channel 0, bass soh the G below the bass doh
+    expect(midi.includes(Buffer.from([0x90, 60, 80]))).toBe(true);
+    expect(midi.includes(Buffer.from([0x93, 43, 80]))).toBe(true);
+  });
+
+  it('writes only the parts asked for', () => {
+    const midi = renderSolfaMidi(score, { ...options, parts: ['B'] });
+
+    expect(midi.readUInt16BE(10)).toBe(2);
+    expect(midi.includes(Buffer.from([0x90, 60, 80]))).toBe(false);
+  });
+});
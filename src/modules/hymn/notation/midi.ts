@@ -0,0 +1,198 @@
+import { SOLFA_PARTS, solfaNotes } from '@@/modules/hymn/notation/solfa';
+import {
+  ISolfaMidiOptions,
+  ISolfaScore,
+  SolfaPart,
+} from '@@/modules/hymn/interfaces';
+
+// Ticks per quarter note
+const PPQ = 480;
+const VELOCITY = 80;
+// General MIDI "Choir Aahs", counted from 0
+const CHOIR_PROGRAM = 52;
+// Middle C
+const MIDDLE_C = 60;
+
+const PART_TRACK_NAMES: Record<SolfaPart, string> = {
+  S: 'Soprano',
+  A: 'Alto',
+  T: 'Tenor',
+  B: 'Bass',
+};
+
+const NOTE_CLASSES: Record<string, number> = {
+  C: 0,
+  D: 2,
+  E: 4,
+  F: 5,
+  G: 7,
+  A: 9,
+  B: 11,
+};
+
+// Sharps (positive) or flats (negative) in the signature of each major key
+const KEY_SIGNATURES: Record<string, number> = {
+  Cb: -7,
+  Gb: -6,
+  Db: -5,
+  Ab: -4,
+  Eb: -3,
+  Bb: -2,
+  F: -1,
+  C: 0,
+  G: 1,
+  D: 2,
+  A: 3,
+  E: 4,
+  B: 5,
+  'F#': 6,
+  'C#': 7,
+};
+
+interface IMidiEvent {
+  tick: number;
+  // Notes ending on a tick are let go before those starting on it
+  order: number;
+  bytes: number[];
+}
+
+function varLength(value: number) {
+  const bytes = [value & 0x7f];
+  for (value >>= 7; value > 0; value >>= 7) {
+    bytes.unshift((value & 0x7f) | 0x80);
+  }
+  return bytes;
+}
+
+const meta = (type: number, data: number[]) => [
+  0xff,
+  type,
+  ...varLength(data.length),
+  ...data,
+];
+
+const textMeta = (type: number, text: string) =>
+  meta(type, [...Buffer.from(text, 'utf8')]);
+
+function chunk(type: string, data: Buffer) {
+  const header = Buffer.alloc(8);
+  header.write(type, 0, 'ascii');
+  header.writeUInt32BE(data.length, 4);
+  return Buffer.concat([header, data]);
+}
+
+function track(events: IMidiEvent[]) {
+  const sorted = [...events].sort(
+    (a, b) => a.tick - b.tick || a.order - b.order,
+  );
+  const end = sorted.length ? sorted[sorted.length - 1].tick : 0;
+
+  let tick = 0;
+  const bytes: number[] = [];
+  for (const event of [
+    ...sorted,
+    { tick: end, order: 0, bytes: meta(0x2f, []) },
+  ]) {
+    bytes.push(...varLength(event.tick - tick), ...event.bytes);
+    tick = event.tick;
+  }
+
+  return chunk('MTrk', Buffer.from(bytes));
+}
+
+/**
+ * Finds the MIDI note of doh for a part. Unmarked notes of the upper parts
+ * lie in the octave from middle C; tenors and basses read the same marks
+ * an octave lower, as sol-fa writes men's voices.
+ */
+export function dohOf(key: string, part: SolfaPart) {
+  const pitchClass =
+    (NOTE_CLASSES[key[0]] +
+      (key[1] === '#' ? 1 : key[1] === 'b' ? -1 : 0) +
+      12) %
+    12;
+
+  return MIDDLE_C + pitchClass - (part === 'T' || part === 'B' ? 12 : 0);
+}
+
+/**
+ * Writes sol-fa as a Standard MIDI File (format 1). The first track holds
+ * the title, tempo, time and key signature, and every part follows on its
+ * own track and channel with a choir sound, so players can mute or solo a
+ * part.
+ * @param score - The parsed notation.
+ * @param options - The title, the key doh is on, the tempo in beats per minute and the parts to write.
+ * @returns The file's bytes.
+ */
+export function renderSolfaMidi(
+  score: ISolfaScore,
+  { title, key, tempo, parts }: ISolfaMidiOptions,
+) {
+  // A beat is a quarter note in 4/4 but a half note in 3/2
+  const unit = score.time?.unit ?? 4;
+  const beatTicks = (PPQ * 4) / unit;
+  const microsPerQuarter = Math.round(60_000_000 / ((tempo * 4) / unit));
+
+  const conductor: IMidiEvent[] = [
+    { tick: 0, order: 0, bytes: textMeta(0x03, title) },
+    {
+      tick: 0,
+      order: 0,
+      bytes: meta(0x51, [
+        (microsPerQuarter >> 16) & 0xff,
+        (microsPerQuarter >> 8) & 0xff,
+        microsPerQuarter & 0xff,
+      ]),
+    },
+  ];
+  if (score.time) {
+    conductor.push({
+      tick: 0,
+      order: 0,
+      bytes: meta(0x58, [score.time.beats, Math.log2(score.time.unit), 24, 8]),
+    });
+  }
+  if (key in KEY_SIGNATURES) {
+    conductor.push({
+      tick: 0,
+      order: 0,
+      bytes: meta(0x59, [KEY_SIGNATURES[key] & 0xff, 0]),
+    });
+  }
+
+  const tracks = parts.map((part) => {
+    const channel = SOLFA_PARTS.indexOf(part);
+    const doh = dohOf(key, part);
+    const events: IMidiEvent[] = [
+      { tick: 0, order: 0, bytes: textMeta(0x03, PART_TRACK_NAMES[part]) },
+      { tick: 0, order: 0, bytes: [0xc0 | channel, CHOIR_PROGRAM] },
+    ];
+
+    for (const note of solfaNotes(score, part)) {
+      if (note.pitch === null) continue;
+
+      const pitch = Math.min(127, Math.max(0, doh + note.pitch));
+      events.push(
+        {
+          tick: Math.round(note.start * beatTicks),
+          order: 2,
+          bytes: [0x90 | channel, pitch, VELOCITY],
+        },
+        {
+          tick: Math.round((note.start + note.duration) * beatTicks),
+          order: 1,
+          bytes: [0x80 | channel, pitch, 0],
+        },
+      );
+    }
+
+    return track(events);
+  });
+
+  const header = Buffer.alloc(6);
+  header.writeUInt16BE(1, 0);
+  header.writeUInt16BE(tracks.length + 1, 2);
+  header.writeUInt16BE(PPQ, 4);
+
+  return Buffer.concat([chunk('MThd', header), track(conductor), ...tracks]);
+}
@@ -0,0 +1,200 @@
+import { escapeXml } from '@@/modules/hymn/formats/openlyrics';
+import {
+  ISolfaLyrics,
+  ISolfaScore,
+  ISolfaSystem,
+  ISolfaToken,
+} from '@@/modules/hymn/interfaces';
+
+const MARGIN = 24;
+const LABEL_WIDTH = 32;
+const BEAT_WIDTH = 56;
+const NOTE_OFFSET = 10;
+const HEADER_HEIGHT = 64;
+const PART_HEIGHT = 24;
+const LYRIC_HEIGHT = 20;
+const SYSTEM_GAP = 28;
+
+interface ILyricRow {
+  label: string;
+  text: string;
+}
+
+const linesOf = (text: string) =>
+  text
+    .split('\n')
+    .map((line) => line.trim())
+    .filter(Boolean);
+
+// Hyphenated words ("A-maz-ing") are sung over several notes
+const syllablesOf = (line: string) =>
+  line
+    .split(/\s+/)
+    .filter(Boolean)
+    .flatMap((word) => word.split(/(?<=-)(?=.)/));
+
+const isOnBeat = (position: number) =>
+  Math.abs(position - Math.round(position)) < 1e-6;
+
+const barLine = (x: number, top: number, bottom: number) =>
+  `<line x1="${x}" y1="${top + 4}" x2="${x}" y2="${bottom}" stroke="#000"/>`;
+
+const text = (x: number, y: number, content: string, attrs = '') =>
+  `<text x="${x}" y="${y}"${attrs}>${content}</text>`;
+
+/**
+ * Renders a note with its octave as a small figure above or below it, the
+ * way printed sol-fa marks octaves.
+ */
+function noteSvg(token: ISolfaToken, x: number, y: number) {
+  if (token.kind === 'hold') return text(x, y, '-');
+  if (token.kind === 'rest') return '';
+
+  const octave = token.octave
+    ? `<tspan dy="${token.octave > 0 ? -6 : 4}" font-size="10">${Math.abs(token.octave)}</tspan>`
+    : '';
+  return text(x, y, `${escapeXml(token.syllable)}${octave}`);
+}
+
+/**
+ * Chooses the words drawn under a system. Each system carries one line of
+ * text: system n the n-th line of every verse, numbered, and the systems
+ * after the longest verse the lines of the choruses in turn.
+ */
+function lyricRows(lyrics: ISolfaLyrics, index: number): ILyricRow[] {
+  const verses = lyrics.verses.map(linesOf);
+  const chorus = lyrics.choruses.flatMap(linesOf);
+  const verseLength = Math.max(0, ...verses.map((lines) => lines.length));
+
+  if (index < verseLength) {
+    return verses
+      .map((lines, idx) => ({ label: `${idx + 1}.`, text: lines[index] }))
+      .filter((row) => row.text);
+  }
+
+  const line = chorus[index - verseLength];
+  return line ? [{ label: '', text: line }] : [];
+}
+
+function systemSvg(
+  score: ISolfaScore,
+  system: ISolfaSystem,
+  rows: ILyricRow[],
+  top: number,
+) {
+  const left = MARGIN + LABEL_WIDTH;
+  const bottom = top + score.parts.length * PART_HEIGHT;
+  const xOf = (position: number) =>
+    left + (position - system.start) * BEAT_WIDTH;
+  const out: string[] = [];
+
+  // Bar lines across every part, doubled at the end of a section
+  let beat = system.start;
+  out.push(barLine(left, top, bottom));
+  for (const bar of system.bars) {
+    for (let idx = 1; idx < bar.beats; idx++) {
+      score.parts.forEach((part, row) =>
+        out.push(
+          text(xOf(beat + idx) + 2, top + (row + 1) * PART_HEIGHT - 7, ':'),
+        ),
+      );
+    }
+    beat += bar.beats;
+    const x = xOf(beat);
+    out.push(barLine(x, top, bottom));
+    if (bar.double) out.push(barLine(x - 3, top, bottom));
+  }
+
+  score.parts.forEach((part, row) => {
+    const y = top + (row + 1) * PART_HEIGHT - 7;
+    out.push(text(MARGIN, y, part, ' font-weight="bold"'));
+
+    for (const token of system.parts[part] ?? []) {
+      const x = xOf(token.start) + NOTE_OFFSET;
+      if (!isOnBeat(token.start - system.start)) {
+        out.push(text(x - 7, y, '.'));
+      }
+      out.push(noteSvg(token, x, y));
+    }
+  });
+
+  // Words go under the notes of the top part when the syllables match them
+  // one for one, and otherwise run along the system
+  const onsets = (system.parts[score.parts[0]] ?? []).filter(
+    (token) => token.kind === 'note',
+  );
+  rows.forEach((row, idx) => {
+    const y = bottom + (idx + 1) * LYRIC_HEIGHT - 5;
+    const syllables = syllablesOf(row.text);
+    out.push(text(MARGIN, y, row.label, ' font-size="13"'));
+
+    if (syllables.length === onsets.length) {
+      syllables.forEach((syllable, idx) =>
+        out.push(
+          text(
+            xOf(onsets[idx].start) + NOTE_OFFSET,
+            y,
+            escapeXml(syllable),
+            ' font-size="13"',
+          ),
+        ),
+      );
+    } else {
+      out.push(
+        text(left + NOTE_OFFSET, y, escapeXml(row.text), ' font-size="13"'),
+      );
+    }
+  });
+
+  return out.join('');
+}
+
+/**
+ * Draws parsed sol-fa as an SVG score: the title, key and time, then each
+ * system with its parts one under the other and the words of the hymn
+ * beneath it. Beats take the same width in every part, so the parts and the
+ * words line up.
+ * @param score - The parsed notation.
+ * @param lyrics - The hymn's title and words.
+ * @returns The SVG document.
+ */
+export function renderSolfaSvg(score: ISolfaScore, lyrics: ISolfaLyrics) {
+  const systemBeats = score.systems.map((system) =>
+    system.bars.reduce((sum, bar) => sum + bar.beats, 0),
+  );
+  const width =
+    MARGIN * 2 + LABEL_WIDTH + Math.max(...systemBeats) * BEAT_WIDTH + 8;
+
+  const heading =
+    lyrics.number != null ? `${lyrics.number}. ${lyrics.title}` : lyrics.title;
+  const details = [
+    score.key && `Key ${score.key.replace('b', '♭').replace('#', '♯')}`,
+    score.time && `${score.time.beats}/${score.time.unit}`,
+  ]
+    .filter(Boolean)
+    .join('    ');
+
+  const body: string[] = [
+    text(MARGIN, 30, escapeXml(heading), ' font-size="18" font-weight="bold"'),
+    text(MARGIN, 50, details, ' font-size="13"'),
+  ];
+
+  let top = HEADER_HEIGHT;
+  score.systems.forEach((system, idx) => {
+    const rows = lyricRows(lyrics, idx);
+    body.push(systemSvg(score, system, rows, top));
+    top +=
+      score.parts.length * PART_HEIGHT +
+      rows.length * LYRIC_HEIGHT +
+      SYSTEM_GAP;
+  });
+
+  return [
+    `<svg xmlns="http://www.w3.org/2000/svg" width="${width}" height="${top}" viewBox="0 0 ${width} ${top}" font-family="Georgia, 'Times New Roman', serif" font-size="15">`,
+    `<rect width="100%" height="100%" fill="#fff"/>`,
+    `<g fill="#000">`,
+    ...body,
+    `</g>`,
+    `</svg>`,
+  ].join('\n');
+}
@@ -0,0 +1,105 @@
+import { parseSolfa, solfaNotes } from '@@/modules/hymn/notation/solfa';
+
+const HYMN = [
+  'key: G',
+  'time: 4/4',
+  '',
+  'S: | d :d .r :m :m | s :f :m :- ||',
+  'B: | d, :d, :s, :d, | s, :s, :d, :- ||',
+].join('\n');
+
+describe('parseSolfa', () => {
+  it('reads the headers, parts and bars', () => {
+    const { score, errors } = parseSolfa(HYMN);
+
+    expect(errors).toEqual([]);
+    expect(score.key).toBe('G');
+    expect(score.time).toEqual({ beats: 4, unit: 4 });
+    expect(score.parts).toEqual(['S', 'B']);
+    expect(score.systems).toHaveLength(1);
+    expect(score.systems[0].bars).toEqual([
+      { beats: 4, double: false },
+      { beats: 4, double: true },
+    ]);
+  });
+
+  it('splits a beat with "." and marks octaves', () => {
+    const { score } = parseSolfa(HYMN);
+    const [d, r, m] = score.systems[0].parts.S.slice(1, 4);
+    const bass = score.systems[0].parts.B[2];
+
+    expect(d).toEqual({
+      kind: 'note',
+      syllable: 'd',
+      octave: 0,
+      start: 1,
+      duration: 0.5,
+    });
+    expect(r).toMatchObject({ syllable: 'r', start: 1.5, duration: 0.5 });
+    expect(m).toMatchObject({ syllable: 'm', start: 2, duration: 1 });
+    expect(bass).toMatchObject({ syllable: 's', octave: -1 });
+  });
+
+  it('reads part names and skips comments', () => {
+    const { score, errors } = parseSolfa(
+      ['# first line', 'Soprano: | d :r |', 'bass: | d :s, |'].join('\n'),
+    );
+
+    expect(errors).toEqual([]);
+    expect(score.parts).toEqual(['S', 'B']);
+  });
+
+  it('reports notes written in upper case', () => {
+    expect(parseSolfa('S: | D :r |').errors).toEqual([
+      'Line 1, column 6: "D" is not a sol-fa note; notes are written in lower case.',
+    ]);
+  });
+
+  it('reports parts whose bars do not agree', () => {
+    expect(parseSolfa('S: | d :r |\nA: | d |').errors).toEqual([
+      'Line 2, column 6: bar 1 of the alto has 1 beats, the soprano 2.',
+    ]);
+  });
+
+  it('reports a bar that does not fill the time', () => {
+    expect(
+      parseSolfa('time: 4/4\n\nS: | d :r :m :f | d :r | d :r :m :f | d |')
+        .errors,
+    ).toEqual(['Line 3, column 19: the bar has 2 beats, but 4/4 has 4.']);
+  });
+
+  it('reports bad headers', () => {
+    expect(parseSolfa('key: H\nS: | d |').errors).toEqual([
+      'Line 1, column 1: "H" is not a key; use one like G, Eb or F#.',
+    ]);
+    expect(parseSolfa('S: | d |\nkey: G').errors).toEqual([
+      'Line 2, column 1: headers go before the music.',
+    ]);
+    expect(parseSolfa('').errors).toEqual(['No music found.']);
+  });
+});
+
+describe('solfaNotes', () => {
+  it('adds holds to the note before them', () => {
+    const { score } = parseSolfa(HYMN);
+
+    expect(solfaNotes(score, 'S').map((note) => note.pitch)).toEqual([
+      0, 0, 2, 4, 4, 7, 5, 4,
+    ]);
+    expect(solfaNotes(score, 'S').pop()).toEqual({
+      pitch: 4,
+      start: 6,
+      duration: 2,
+    });
+  });
+
+  it('merges rests that follow each other', () => {
+    const { score } = parseSolfa('S: | d : : :r |');
+
+    expect(solfaNotes(score, 'S')).toEqual([
+      { pitch: 0, start: 0, duration: 1 },
+      { pitch: null, start: 1, duration: 2 },
+      { pitch: 2, start: 3, duration: 1 },
+    ]);
+  });
+});
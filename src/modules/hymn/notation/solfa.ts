@@ -0,0 +1,461 @@
+import {
+  ISolfaBar,
+  ISolfaNote,
+  ISolfaParseResult,
+  ISolfaScore,
+  ISolfaSystem,
+  ISolfaToken,
+  MUSIC_KEY_PATTERN,
+  SolfaPart,
+} from '@@/modules/hymn/interfaces';
+
+// Semitones above doh. Sharpened notes take an e or i, flattened ones an a
+// or o; ba is the sharpened fah of the minor mode
+export const SOLFA_SEMITONES: Record<string, number> = {
+  d: 0,
+  de: 1,
+  di: 1,
+  ra: 1,
+  r: 2,
+  ri: 3,
+  ma: 3,
+  m: 4,
+  f: 5,
+  fe: 6,
+  fi: 6,
+  ba: 6,
+  s: 7,
+  se: 8,
+  si: 8,
+  lo: 8,
+  l: 9,
+  le: 10,
+  li: 10,
+  ta: 10,
+  t: 11,
+};
+
+export const SOLFA_PARTS: SolfaPart[] = ['S', 'A', 'T', 'B'];
+
+export const SOLFA_PART_NAMES: Record<SolfaPart, string> = {
+  S: 'soprano',
+  A: 'alto',
+  T: 'tenor',
+  B: 'bass',
+};
+
+const PART_ALIASES: Record<string, SolfaPart> = {
+  s: 'S',
+  soprano: 'S',
+  a: 'A',
+  alto: 'A',
+  t: 'T',
+  tenor: 'T',
+  b: 'B',
+  bass: 'B',
+};
+
+const LINE = /^(\s*)([a-z]+)\s*:(.*)$/i;
+const TIME = /^([1-9]\d*)\s*\/\s*(\d+)$/;
+const TIME_UNITS = [1, 2, 4, 8, 16];
+
+// Two-letter syllables first, so `de` is not read as `d` and `e`
+const NOTE = new RegExp(
+  `-|(${Object.keys(SOLFA_SEMITONES)
+    .sort((a, b) => b.length - a.length)
+    .join('|')})('+|,+)?`,
+  'y',
+);
+const JUNK = /[^\s|:.]+/y;
+
+interface IRawSub {
+  text: string | null;
+  column: number;
+}
+
+interface IRawBar {
+  beats: IRawSub[][];
+  double: boolean;
+  column: number;
+}
+
+interface IRawLine {
+  part: SolfaPart;
+  line: number;
+  bars: IRawBar[];
+}
+
+/**
+ * Splits the music of a part line into bars, beats and the notes within a
+ * beat. `|` ends a bar and `||` a section, `:` separates beats and `.`
+ * splits a beat into equal parts; an empty beat or part of a beat is a rest.
+ */
+function parseBars(
+  body: string,
+  offset: number,
+  lineNo: number,
+  errors: string[],
+): IRawBar[] {
+  const bars: IRawBar[] = [];
+  const error = (index: number, message: string) =>
+    errors.push(`Line ${lineNo}, column ${offset + index + 1}: ${message}`);
+
+  let beats: IRawSub[][] = [];
+  let subs: IRawSub[] = [];
+  let sub: IRawSub | null = null;
+  // Whether anything was written since the last bar line
+  let open = false;
+  let barColumn = 0;
+
+  const closeSub = () => {
+    subs.push(sub ?? { text: null, column: 0 });
+    sub = null;
+  };
+  const closeBeat = () => {
+    closeSub();
+    beats.push(subs);
+    subs = [];
+  };
+  const closeBar = (double: boolean) => {
+    if (open) {
+      closeBeat();
+      bars.push({ beats, double, column: barColumn });
+    } else if (double && bars.length) {
+      bars[bars.length - 1].double = true;
+    }
+    beats = [];
+    open = false;
+  };
+
+  let i = 0;
+  while (i < body.length) {
+    const char = body[i];
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (char === '|') {
+      const double = body[i + 1] === '|';
+      closeBar(double);
+      i += double ? 2 : 1;
+      continue;
+    }
+
+    if (!open) {
+      open = true;
+      barColumn = offset + i + 1;
+    }
+
+    if (char === ':' || char === '.') {
+      if (char === ':') closeBeat();
+      else closeSub();
+      i++;
+      continue;
+    }
+
+    NOTE.lastIndex = i;
+    const note = NOTE.exec(body);
+    if (!note) {
+      JUNK.lastIndex = i;
+      const junk = JUNK.exec(body)[0];
+      error(
+        i,
+        /^[DRMFSLT]/.test(junk)
+          ? `"${junk}" is not a sol-fa note; notes are written in lower case.`
+          : `"${junk}" is not a sol-fa note.`,
+      );
+      i += junk.length;
+      continue;
+    }
+
+    if (sub) {
+      error(
+        i,
+        `"${note[0]}" follows "${sub.text}" in the same beat; separate them with "." or ":".`,
+      );
+    } else {
+      sub = { text: note[0], column: offset + i + 1 };
+    }
+    i += note[0].length;
+  }
+  closeBar(false);
+
+  return bars;
+}
+
+function toTokens(bars: IRawBar[], start: number): ISolfaToken[] {
+  const tokens: ISolfaToken[] = [];
+
+  let beat = start;
+  for (const bar of bars) {
+    for (const subs of bar.beats) {
+      const duration = 1 / subs.length;
+      subs.forEach(({ text }, idx) => {
+        const position = { start: beat + idx * duration, duration };
+        if (text === null) {
+          tokens.push({ kind: 'rest', octave: 0, ...position });
+        } else if (text === '-') {
+          tokens.push({ kind: 'hold', octave: 0, ...position });
+        } else {
+          const syllable = text.replace(/[',]/g, '');
+          tokens.push({
+            kind: 'note',
+            syllable,
+            octave:
+              (text.match(/'/g)?.length ?? 0) - (text.match(/,/g)?.length ?? 0),
+            ...position,
+          });
+        }
+      });
+      beat++;
+    }
+  }
+
+  return tokens;
+}
+
+/**
+ * Parses tonic sol-fa written as text. Optional `key:` and `time:` headers
+ * come first, then the music as systems separated by blank lines. Each
+ * system has one line per part, written `S:`, `A:`, `T:` or `B:` (or the
+ * part's name) and then the bars:
+ *
+ *     key: G
+ *     time: 4/4
+ *
+ *     S: | d :d .r :m :m | s :f :m :- ||
+ *     B: | d, :d, :s, :d, | s, :s, :d, :- ||
+ *
+ * Notes are `d r m f s l t` with the chromatic `de ri fe se ta` and friends;
+ * `'` raises a note an octave and `,` lowers it. `-` holds the previous
+ * note for another beat or part of one. The parts of a system must have
+ * the same bars, and with a time every bar but the first and last must be
+ * full. Errors give the line and column they were found at.
+ */
+export function parseSolfa(source: string): ISolfaParseResult {
+  const errors: string[] = [];
+  let key: string | null = null;
+  let time: ISolfaScore['time'] = null;
+
+  const blocks: IRawLine[][] = [];
+  let block: IRawLine[] = [];
+  const endBlock = () => {
+    if (block.length) blocks.push(block);
+    block = [];
+  };
+
+  source.split(/\r?\n/).forEach((raw, idx) => {
+    const lineNo = idx + 1;
+    const line = raw.trim();
+
+    if (line.startsWith('#')) return;
+    if (!line) {
+      endBlock();
+      return;
+    }
+
+    const match = LINE.exec(raw);
+    if (!match) {
+      errors.push(
+        `Line ${lineNo}: expected a part such as "S: | d :r |" or a header such as "key: G".`,
+      );
+      return;
+    }
+
+    const [, indent, label, body] = match;
+    const name = label.toLowerCase();
+    const part = PART_ALIASES[name];
+
+    if (part) {
+      block.push({
+        part,
+        line: lineNo,
+        bars: parseBars(body, raw.length - body.length, lineNo, errors),
+      });
+      return;
+    }
+
+    const value = body.trim();
+    const at = `Line ${lineNo}, column ${indent.length + 1}`;
+    if (blocks.length || block.length) {
+      errors.push(`${at}: headers go before the music.`);
+    } else if (name === 'key') {
+      if (key !== null) {
+        errors.push(`${at}: the key is given twice.`);
+      } else if (!MUSIC_KEY_PATTERN.test(value)) {
+        errors.push(
+          `${at}: "${value}" is not a key; use one like G, Eb or F#.`,
+        );
+      } else {
+        key = value;
+      }
+    } else if (name === 'time') {
+      const [, beats, unit] = TIME.exec(value) ?? [];
+      if (time !== null) {
+        errors.push(`${at}: the time is given twice.`);
+      } else if (!beats || +beats > 12 || !TIME_UNITS.includes(+unit)) {
+        errors.push(
+          `${at}: "${value}" is not a time; use one like 4/4 or 3/2.`,
+        );
+      } else {
+        time = { beats: +beats, unit: +unit };
+      }
+    } else {
+      errors.push(
+        `${at}: "${label}" is not a part or header; use S, A, T, B, key or time.`,
+      );
+    }
+  });
+  endBlock();
+
+  if (!blocks.length) {
+    if (!errors.length) errors.push('No music found.');
+    return { errors };
+  }
+
+  const parts = SOLFA_PARTS.filter((part) =>
+    blocks.some((lines) => lines.some((line) => line.part === part)),
+  );
+  const sung = new Set<SolfaPart>();
+  const systems: ISolfaSystem[] = [];
+  // Bars of the first part, for checking them against the time
+  const timed: { bar: IRawBar; line: number; system: number }[] = [];
+
+  let start = 0;
+  for (const lines of blocks) {
+    const [first] = lines;
+    const seen = new Map<SolfaPart, number>();
+
+    for (const { part, line, bars } of lines) {
+      const name = SOLFA_PART_NAMES[part];
+      if (seen.has(part)) {
+        errors.push(
+          `Line ${line}: the ${name} already has a line in this system, on line ${seen.get(part)}.`,
+        );
+        continue;
+      }
+      seen.set(part, line);
+
+      if (bars.length !== first.bars.length) {
+        errors.push(
+          `Line ${line}: the ${name} has ${bars.length} bar${bars.length === 1 ? '' : 's'}, the ${SOLFA_PART_NAMES[first.part]} ${first.bars.length}.`,
+        );
+      } else {
+        bars.forEach((bar, idx) => {
+          const expected = first.bars[idx].beats.length;
+          if (bar.beats.length !== expected) {
+            errors.push(
+              `Line ${line}, column ${bar.column}: bar ${idx + 1} of the ${name} has ${bar.beats.length} beats, the ${SOLFA_PART_NAMES[first.part]} ${expected}.`,
+            );
+          }
+        });
+      }
+
+      const [opening] = bars[0]?.beats[0] ?? [];
+      if (!sung.has(part) && opening?.text === '-') {
+        errors.push(
+          `Line ${line}, column ${opening.column}: "-" holds the note before it, but the ${name} has none.`,
+        );
+      }
+      if (bars.length) sung.add(part);
+    }
+
+    const missing = parts
+      .filter((part) => !seen.has(part))
+      .map((part) => SOLFA_PART_NAMES[part]);
+    if (missing.length) {
+      const last = missing.pop();
+      errors.push(
+        `Line ${first.line}: the system has no ${missing.length ? `${missing.join(', ')} or ${last}` : last} line.`,
+      );
+    }
+
+    const bars: ISolfaBar[] = first.bars.map((bar) => ({
+      beats: bar.beats.length,
+      double: bar.double,
+    }));
+    timed.push(
+      ...first.bars.map((bar) => ({
+        bar,
+        line: first.line,
+        system: systems.length,
+      })),
+    );
+
+    systems.push({
+      line: first.line,
+      start,
+      bars,
+      parts: Object.fromEntries(
+        [...seen.keys()].map((part) => [
+          part,
+          toTokens(lines.find((line) => line.part === part).bars, start),
+        ]),
+      ),
+    });
+    start += bars.reduce((sum, bar) => sum + bar.beats, 0);
+  }
+
+  // The first and last bars may be short, for a pick-up, and so may a bar
+  // that is split between the end of one system and the start of the next
+  if (time) {
+    const beatsOf = (idx: number) => timed[idx]?.bar.beats.length;
+    timed.forEach(({ bar, line, system }, idx) => {
+      const beats = beatsOf(idx);
+      const split =
+        (timed[idx + 1] && timed[idx + 1].system !== system
+          ? beats + beatsOf(idx + 1) === time.beats
+          : false) ||
+        (timed[idx - 1] && timed[idx - 1].system !== system
+          ? beats + beatsOf(idx - 1) === time.beats
+          : false);
+      const edge = idx === 0 || idx === timed.length - 1;
+
+      if (beats > time.beats || (beats < time.beats && !edge && !split)) {
+        errors.push(
+          `Line ${line}, column ${bar.column}: the bar has ${beats} beat${beats === 1 ? '' : 's'}, but ${time.beats}/${time.unit} has ${time.beats}.`,
+        );
+      }
+    });
+  }
+
+  if (errors.length) {
+    return { errors };
+  }
+
+  return { score: { key, time, parts, systems }, errors };
+}
+
+/**
+ * Lists the notes a part sings, with every hold added to the note or rest
+ * before it, for playback and melody matching.
+ * @param score - The parsed notation.
+ * @param part - The part to list.
+ */
+export function solfaNotes(score: ISolfaScore, part: SolfaPart): ISolfaNote[] {
+  const notes: ISolfaNote[] = [];
+
+  for (const system of score.systems) {
+    for (const token of system.parts[part] ?? []) {
+      const last = notes[notes.length - 1];
+      if (token.kind === 'note') {
+        notes.push({
+          pitch: SOLFA_SEMITONES[token.syllable] + 12 * token.octave,
+          start: token.start,
+          duration: token.duration,
+        });
+      } else if (last && (token.kind === 'hold' || last.pitch === null)) {
+        last.duration += token.duration;
+      } else {
+        notes.push({
+          pitch: null,
+          start: token.start,
+          duration: token.duration,
+        });
+      }
+    }
+  }
+
+  return notes;
+}
@@ -0,0 +1,49 @@
+import { Logger } from '@nestjs/common';
+import {
+  OnQueueActive,
+  OnQueueCompleted,
+  Process,
+  Processor,
+} from '@nestjs/bull';
+import { Job } from 'bull';
+import { QueueProcessor } from 'src/common/interfaces/queue';
+import { HymnImportService } from '@@/modules/hymn/hymn-import.service';
+import {
+  HYMN_JOBS,
+  HYMN_QUEUE,
+  IBulkImportJob,
+  IBulkImportReport,
+} from '@@/modules/hymn/interfaces';
+
+@Processor(HYMN_QUEUE)
+export class HymnQueueConsumer extends QueueProcessor {
+  protected logger: Logger;
+
+  constructor(private importService: HymnImportService) {
+    super();
+    this.logger = new Logger(HymnQueueConsumer.name);
+  }
+
+  @Process({ name: HYMN_JOBS.BULK_IMPORT })
+  async bulkImport(job: Job<IBulkImportJob>) {
+    return this.importService.runBulkImport(job.data, (percent) =>
+      job.progress(percent),
+    );
+  }
+
+  // Import jobs carry whole hymnbooks, so only log their size
+  @OnQueueActive()
+  onActive(job: Job<IBulkImportJob>) {
+    this.logger.log(
+      `Processing job ${job.id} of type ${job.name} with ${job.data.records?.length} rows...`,
+    );
+  }
+
+  @OnQueueCompleted()
+  onCompleted(job: Job) {
+    const report: IBulkImportReport = job.returnvalue;
+    this.logger.log(
+      `Completed job ${job.id} of type ${job.name} with summary ${JSON.stringify(report?.summary)}`,
+    );
+  }
+}
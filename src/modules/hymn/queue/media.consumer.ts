@@ -0,0 +1,69 @@
+import { Logger } from '@nestjs/common';
+import {
+  OnQueueActive,
+  OnQueueCompleted,
+  OnQueueFailed,
+  Process,
+  Processor,
+} from '@nestjs/bull';
+import { Job } from 'bull';
+import { QueueProcessor } from 'src/common/interfaces/queue';
+import { HymnSolfaService } from '@@/modules/hymn/hymn-solfa.service';
+import {
+  ISolfaImageJob,
+  MEDIA_JOBS,
+  MEDIA_QUEUE,
+} from '@@/modules/hymn/interfaces';
+
+@Processor(MEDIA_QUEUE)
+export class MediaQueueConsumer extends QueueProcessor {
+  protected logger: Logger;
+
+  constructor(private solfaService: HymnSolfaService) {
+    super();
+    this.logger = new Logger(MediaQueueConsumer.name);
+  }
+
+  @Process({ name: MEDIA_JOBS.PROCESS_SOLFA_IMAGE })
+  async processSolfaImage(job: Job<ISolfaImageJob>) {
+    return this.solfaService.processQueuedImage(job.data);
+  }
+
+  @Process({ name: MEDIA_JOBS.RECONCILE_SOLFA_FILES })
+  async reconcileSolfaFiles() {
+    return this.solfaService.reconcileOrphanFiles();
+  }
+
+  @OnQueueActive()
+  onActive(job: Job<Partial<ISolfaImageJob>>) {
+    this.logger.log(
+      `Processing job ${job.id} of type ${job.name}${job.data.imageId ? ` for solfa image ${job.data.imageId}` : ''}...`,
+    );
+  }
+
+  @OnQueueCompleted()
+  onCompleted(job: Job) {
+    this.logger.log(
+      `Completed job ${job.id} of type ${job.name} with result ${JSON.stringify(job.returnvalue)}`,
+    );
+  }
+
+  // Only the last attempt marks the image as failed; earlier ones are retried
+  @OnQueueFailed()
+  async jobErrorHandler(job: Job<Partial<ISolfaImageJob>>, error: Error) {
+    this.logger.error(
+      `Job ${job.id} of type ${job.name} failed on attempt ${job.attemptsMade}: ${error.message}`,
+    );
+
+    if (
+      job.name === MEDIA_JOBS.PROCESS_SOLFA_IMAGE &&
+      job.attemptsMade >= (job.opts.attempts ?? 1)
+    ) {
+      await this.solfaService.markFailed(
+        job.data.imageId,
+        job.data.version,
+        error.message,
+      );
+    }
+  }
+}
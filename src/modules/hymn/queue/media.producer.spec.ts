@@ -0,0 +1,46 @@
+import { getQueueToken } from '@nestjs/bull';
+import { Test } from '@nestjs/testing';
+import { MEDIA_JOBS, MEDIA_QUEUE } from '@@/modules/hymn/interfaces';
+import { MediaQueueProducer } from '@@/modules/hymn/queue/media.producer';
+
+describe('MediaQueueProducer', () => {
+  let producer: MediaQueueProducer;
+  let queue: Record<string, jest.Mock>;
+
+  beforeEach(async () => {
+    queue = { add: jest.fn(), getJob: jest.fn() };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        MediaQueueProducer,
+        { provide: getQueueToken(MEDIA_QUEUE), useValue: queue },
+      ],
+    }).compile();
+
+    producer = moduleRef.get(MediaQueueProducer);
+  });
+
+  it('queues each upload of a page as its own job', async () => {
+    const job = {
+      imageId: 'page',
+      hymnId: 'hymn',
+      originalname: 'score.jpg',
+    };
+
+    await producer.queueSolfaImage({ ...job, version: 1, uploadKey: 'a' });
+    await producer.queueSolfaImage({ ...job, version: 2, uploadKey: 'b' });
+
+    expect(
+      queue.add.mock.calls.map(([name, , opts]) => [name, opts.jobId]),
+    ).toEqual([
+      [MEDIA_JOBS.PROCESS_SOLFA_IMAGE, 'page:1'],
+      [MEDIA_JOBS.PROCESS_SOLFA_IMAGE, 'page:2'],
+    ]);
+  });
+
+  it('finds the job of an upload by its version', async () => {
+    await producer.getSolfaImageJob('page', 2);
+
+    expect(queue.getJob).toHaveBeenCalledWith('page:2');
+  });
+});
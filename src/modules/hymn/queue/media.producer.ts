@@ -0,0 +1,63 @@
+import { InjectQueue } from '@nestjs/bull';
+import { Injectable, OnModuleInit } from '@nestjs/common';
+import { JobOptions, Queue } from 'bull';
+import {
+  ISolfaImageJob,
+  MEDIA_FAILED_RETENTION_SECONDS,
+  MEDIA_JOBS,
+  MEDIA_QUEUE,
+} from '@@/modules/hymn/interfaces';
+
+// Failed uploads are tried this many times, waiting 30s, 60s, 120s, ...
+const PROCESS_ATTEMPTS = 5;
+const PROCESS_BACKOFF_MS = 30 * 1000;
+
+const RECONCILE_CRON = '0 3 * * *';
+
+const solfaImageJobId = (imageId: string, version: number) =>
+  `${imageId}:${version}`;
+
+@Injectable()
+export class MediaQueueProducer implements OnModuleInit {
+  constructor(
+    @InjectQueue(MEDIA_QUEUE)
+    private readonly mediaQueue: Queue,
+  ) {}
+
+  // Repeatable jobs are keyed by name and cron, so this runs once however
+  // many times the app starts
+  async onModuleInit() {
+    await this.addToQueue(
+      MEDIA_JOBS.RECONCILE_SOLFA_FILES,
+      {},
+      {
+        repeat: { cron: RECONCILE_CRON },
+        removeOnComplete: true,
+        removeOnFail: true,
+      },
+    );
+  }
+
+  /**
+   * Queues an uploaded solfa image for processing and storage. The job is
+   * keyed by the image and its upload version, so a newer upload for the
+   * same page is queued even while the job for an older one is running.
+   */
+  async queueSolfaImage(data: ISolfaImageJob) {
+    return this.addToQueue(MEDIA_JOBS.PROCESS_SOLFA_IMAGE, data, {
+      jobId: solfaImageJobId(data.imageId, data.version),
+      attempts: PROCESS_ATTEMPTS,
+      backoff: { type: 'exponential', delay: PROCESS_BACKOFF_MS },
+      removeOnComplete: true,
+      removeOnFail: { age: MEDIA_FAILED_RETENTION_SECONDS },
+    });
+  }
+
+  async getSolfaImageJob(imageId: string, version: number) {
+    return this.mediaQueue.getJob(solfaImageJobId(imageId, version));
+  }
+
+  private async addToQueue(jobName: MEDIA_JOBS, data: any, opts?: JobOptions) {
+    return this.mediaQueue.add(jobName, data, opts);
+  }
+}
@@ -0,0 +1,34 @@
+import { InjectQueue } from '@nestjs/bull';
+import { Injectable } from '@nestjs/common';
+import { JobOptions, Queue } from 'bull';
+import {
+  HYMN_JOBS,
+  HYMN_QUEUE,
+  IBulkImportJob,
+} from '@@/modules/hymn/interfaces';
+
+// Finished imports are kept this long so their report can be downloaded
+const REPORT_RETENTION_SECONDS = 7 * 24 * 60 * 60;
+
+@Injectable()
+export class HymnQueueProducer {
+  constructor(
+    @InjectQueue(HYMN_QUEUE)
+    private readonly hymnQueue: Queue,
+  ) {}
+
+  async queueBulkImport(data: IBulkImportJob) {
+    return this.addToQueue(HYMN_JOBS.BULK_IMPORT, data, {
+      removeOnComplete: { age: REPORT_RETENTION_SECONDS },
+      removeOnFail: { age: REPORT_RETENTION_SECONDS },
+    });
+  }
+
+  async getJob(jobId: string) {
+    return this.hymnQueue.getJob(jobId);
+  }
+
+  private async addToQueue(jobName: HYMN_JOBS, data: any, opts?: JobOptions) {
+    return this.hymnQueue.add(jobName, data, opts);
+  }
+}
@@ -0,0 +1,70 @@
+import { parseScriptureReference } from '@@/modules/hymn/scripture';
+
+const references = (text: string) =>
+  parseScriptureReference(text).ranges.map((range) => range.reference);
+
+describe('parseScriptureReference', () => {
+  it('reads a whole chapter', () => {
+    const { ranges, errors } = parseScriptureReference('Psalm 23');
+
+    expect(errors).toEqual([]);
+    expect(ranges).toHaveLength(1);
+    expect(ranges[0]).toMatchObject({
+      book: 'Psalms',
+      startChapter: 23,
+      startVerse: null,
+      endChapter: 23,
+      endVerse: null,
+      reference: 'Psalm 23',
+    });
+  });
+
+  it('reads verses, abbreviations and ranges across chapters', () => {
+    // One psalm is named in the singular, a run of them in the plural
+    expect(references('Ps 23:1-4')).toEqual(['Psalm 23:1-4']);
+    expect(references('John 3:16')).toEqual(['John 3:16']);
+    expect(references('Gen 1:1-2:3')).toEqual(['Genesis 1:1-2:3']);
+    expect(references('Ps 120-134')).toEqual(['Psalms 120-134']);
+  });
+
+  it('carries the book and chapter over in a list', () => {
+    expect(references('Rom 8:28, 31-39; 12:1')).toEqual([
+      'Romans 8:28',
+      'Romans 8:31-39',
+      'Romans 12:1',
+    ]);
+  });
+
+  it('reads a bare number as a verse in a book of one chapter', () => {
+    const [range] = parseScriptureReference('Jude 3').ranges;
+
+    expect(range).toMatchObject({
+      startChapter: 1,
+      startVerse: 3,
+      endVerse: 3,
+    });
+  });
+
+  it('packs ranges so that a verse falls inside its chapter', () => {
+    const [chapter] = parseScriptureReference('John 3').ranges;
+    const [verse] = parseScriptureReference('John 3:16').ranges;
+
+    expect(chapter.start).toBeLessThanOrEqual(verse.start);
+    expect(chapter.end).toBeGreaterThanOrEqual(verse.end);
+  });
+
+  it('reports what it cannot read', () => {
+    expect(parseScriptureReference('Hezekiah 3').errors).toEqual([
+      '"Hezekiah" is not a book of the Bible.',
+    ]);
+    expect(parseScriptureReference('Ps 151').errors).toEqual([
+      '"Psalms 151" is outside the book (150 chapters).',
+    ]);
+    expect(parseScriptureReference('Ps 23:4-1').errors).toEqual([
+      '"Psalms 23:4-1" ends before it starts.',
+    ]);
+    expect(parseScriptureReference(' ').errors).toEqual([
+      'The reference is empty.',
+    ]);
+  });
+});
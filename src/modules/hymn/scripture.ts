@@ -0,0 +1,263 @@
+import {
+  IScriptureParseResult,
+  IScriptureRange,
+} from '@@/modules/hymn/interfaces';
+
+// Name, number of chapters and common abbreviations, in canonical order
+const BOOKS: [string, number, ...string[]][] = [
+  ['Genesis', 50, 'gen', 'ge', 'gn'],
+  ['Exodus', 40, 'ex', 'exo', 'exod'],
+  ['Leviticus', 27, 'lev', 'lv'],
+  ['Numbers', 36, 'num', 'nm', 'nb'],
+  ['Deuteronomy', 34, 'deut', 'dt', 'de'],
+  ['Joshua', 24, 'josh', 'jos'],
+  ['Judges', 21, 'judg', 'jdg'],
+  ['Ruth', 4, 'ru', 'rth'],
+  ['1 Samuel', 31, '1sam', '1sa', '1sm'],
+  ['2 Samuel', 24, '2sam', '2sa', '2sm'],
+  ['1 Kings', 22, '1kgs', '1ki', '1kg'],
+  ['2 Kings', 25, '2kgs', '2ki', '2kg'],
+  ['1 Chronicles', 29, '1chr', '1ch', '1chron'],
+  ['2 Chronicles', 36, '2chr', '2ch', '2chron'],
+  ['Ezra', 10, 'ezr'],
+  ['Nehemiah', 13, 'neh', 'ne'],
+  ['Esther', 10, 'est', 'esth'],
+  ['Job', 42, 'jb'],
+  ['Psalms', 150, 'ps', 'psa', 'pss', 'psalm', 'pslm'],
+  ['Proverbs', 31, 'prov', 'pr', 'prv'],
+  ['Ecclesiastes', 12, 'eccl', 'ecc', 'qoh'],
+  ['Song of Solomon', 8, 'song', 'sos', 'songofsongs', 'canticles'],
+  ['Isaiah', 66, 'isa', 'is'],
+  ['Jeremiah', 52, 'jer', 'je'],
+  ['Lamentations', 5, 'lam', 'la'],
+  ['Ezekiel', 48, 'ezek', 'eze', 'ezk'],
+  ['Daniel', 12, 'dan', 'dn'],
+  ['Hosea', 14, 'hos', 'ho'],
+  ['Joel', 3, 'jl'],
+  ['Amos', 9, 'am'],
+  ['Obadiah', 1, 'obad', 'ob'],
+  ['Jonah', 4, 'jon', 'jnh'],
+  ['Micah', 7, 'mic', 'mc'],
+  ['Nahum', 3, 'nah', 'na'],
+  ['Habakkuk', 3, 'hab', 'hb'],
+  ['Zephaniah', 3, 'zeph', 'zep'],
+  ['Haggai', 2, 'hag', 'hg'],
+  ['Zechariah', 14, 'zech', 'zec'],
+  ['Malachi', 4, 'mal', 'ml'],
+  ['Matthew', 28, 'matt', 'mt'],
+  ['Mark', 16, 'mk', 'mrk'],
+  ['Luke', 24, 'lk', 'luk'],
+  ['John', 21, 'jn', 'jhn'],
+  ['Acts', 28, 'ac'],
+  ['Romans', 16, 'rom', 'rm', 'ro'],
+  ['1 Corinthians', 16, '1cor', '1co'],
+  ['2 Corinthians', 13, '2cor', '2co'],
+  ['Galatians', 6, 'gal', 'ga'],
+  ['Ephesians', 6, 'eph'],
+  ['Philippians', 4, 'phil', 'php', 'pp'],
+  ['Colossians', 4, 'col'],
+  ['1 Thessalonians', 5, '1thess', '1th', '1thes'],
+  ['2 Thessalonians', 3, '2thess', '2th', '2thes'],
+  ['1 Timothy', 6, '1tim', '1ti'],
+  ['2 Timothy', 4, '2tim', '2ti'],
+  ['Titus', 3, 'tit'],
+  ['Philemon', 1, 'phlm', 'philem', 'phm'],
+  ['Hebrews', 13, 'heb'],
+  ['James', 5, 'jas', 'jm'],
+  ['1 Peter', 5, '1pet', '1pe', '1pt'],
+  ['2 Peter', 3, '2pet', '2pe', '2pt'],
+  ['1 John', 5, '1jn', '1jo', '1jhn'],
+  ['2 John', 1, '2jn', '2jo', '2jhn'],
+  ['3 John', 1, '3jn', '3jo', '3jhn'],
+  ['Jude', 1, 'jud', 'jd'],
+  ['Revelation', 22, 'rev', 're', 'rv', 'revelations'],
+];
+
+// No chapter has more verses than Psalm 119
+const MAX_VERSE = 176;
+
+// Verse numbers a whole chapter spans when packed into a range key
+const CHAPTER_START = 0;
+const CHAPTER_END = 999;
+
+const compact = (name: string) => name.toLowerCase().replace(/[\s.]/g, '');
+
+const BOOKS_BY_ALIAS = new Map<string, number>(
+  BOOKS.flatMap(([name, , ...aliases], idx) =>
+    [name, ...aliases].map((alias) => [compact(alias), idx] as const),
+  ),
+);
+
+const ORDINAL = /^(iii|ii|i|first|second|third|1st|2nd|3rd)[\s.]+/i;
+const ORDINAL_NUMBERS: Record<string, string> = {
+  i: '1',
+  first: '1',
+  '1st': '1',
+  ii: '2',
+  second: '2',
+  '2nd': '2',
+  iii: '3',
+  third: '3',
+  '3rd': '3',
+};
+
+const SEGMENT = /^\s*((?:[1-3]\s*)?[a-z][a-z\s.]*?)?\s*(\d.*)$/i;
+const PIECE = /^(\d+)(?::(\d+))?(?:\s*[-–—]\s*(\d+)(?::(\d+))?)?$/;
+
+/**
+ * Finds a book by its name or abbreviation, in any case, with or without
+ * dots and spaces. Roman and spelled-out ordinals (`II Sam`, `First John`)
+ * are accepted, and so is any prefix that names only one book.
+ * @returns The index of the book in canonical order, or undefined.
+ */
+function findBook(name: string): number | undefined {
+  const key = compact(
+    name
+      .trim()
+      .replace(
+        ORDINAL,
+        (match, ordinal: string) => ORDINAL_NUMBERS[ordinal.toLowerCase()],
+      ),
+  );
+
+  if (BOOKS_BY_ALIAS.has(key)) {
+    return BOOKS_BY_ALIAS.get(key);
+  }
+
+  const candidates = BOOKS.map(([bookName], idx) => ({
+    idx,
+    key: compact(bookName),
+  })).filter((book) => key.length >= 3 && book.key.startsWith(key));
+
+  return candidates.length === 1 ? candidates[0].idx : undefined;
+}
+
+const packKey = (book: number, chapter: number, verse: number) =>
+  (book + 1) * 1_000_000 + chapter * 1000 + verse;
+
+function toRange(
+  bookIdx: number,
+  startChapter: number,
+  startVerse: number | null,
+  endChapter: number,
+  endVerse: number | null,
+): IScriptureRange {
+  const [name] = BOOKS[bookIdx];
+  const oneChapter = startChapter === endChapter;
+  // "Psalm 23" but "Psalms 120-134"
+  const book = name === 'Psalms' && oneChapter ? 'Psalm' : name;
+
+  let reference = `${book} ${startChapter}`;
+  if (startVerse !== null) reference += `:${startVerse}`;
+  if (!oneChapter) {
+    reference += `-${endChapter}`;
+    if (endVerse !== null) reference += `:${endVerse}`;
+  } else if (endVerse !== null && endVerse !== startVerse) {
+    reference += `-${endVerse}`;
+  }
+
+  return {
+    book: name,
+    startChapter,
+    startVerse,
+    endChapter,
+    endVerse,
+    start: packKey(bookIdx, startChapter, startVerse ?? CHAPTER_START),
+    end: packKey(bookIdx, endChapter, endVerse ?? CHAPTER_END),
+    reference,
+  };
+}
+
+/**
+ * Parses a scripture reference into normalized book/chapter/verse ranges.
+ * Accepts the usual forms, e.g. `Psalm 23`, `Ps 23:1-4`, `John 3:16`,
+ * `Gen 1:1-2:3`, `Ps 120-134`, and lists such as `Rom 8:28, 31-39; 12:1`,
+ * where a book or chapter carries over until it is named again. In books of
+ * a single chapter (`Jude 3`) a bare number is a verse.
+ */
+export function parseScriptureReference(text: string): IScriptureParseResult {
+  const ranges: IScriptureRange[] = [];
+  const errors: string[] = [];
+
+  let bookIdx: number | undefined;
+
+  for (const segment of text.split(';')) {
+    if (!segment.trim()) continue;
+
+    const match = SEGMENT.exec(segment);
+    if (!match) {
+      errors.push(`"${segment.trim()}" has no chapter.`);
+      continue;
+    }
+
+    const [, bookName, rest] = match;
+    if (bookName?.trim()) {
+      bookIdx = findBook(bookName);
+      if (bookIdx === undefined) {
+        errors.push(`"${bookName.trim()}" is not a book of the Bible.`);
+        continue;
+      }
+    } else if (bookIdx === undefined) {
+      errors.push(`"${segment.trim()}" does not name a book.`);
+      continue;
+    }
+
+    const [name, chapters] = BOOKS[bookIdx];
+    // After a chapter:verse, bare numbers are more verses of that chapter;
+    // each segment starts with chapters again ("Ps 23:1; 24")
+    let versesOf = chapters === 1 ? 1 : undefined;
+
+    for (const piece of rest.split(',')) {
+      const parts = PIECE.exec(piece.trim());
+      if (!parts) {
+        errors.push(`"${piece.trim()}" is not a chapter or verse.`);
+        continue;
+      }
+
+      const [a, b, c, d] = parts
+        .slice(1)
+        .map((part) => (part === undefined ? undefined : Number(part)));
+
+      let range: [number, number | null, number, number | null];
+      if (b !== undefined) {
+        // a:b, a:b-c or a:b-c:d
+        versesOf = a;
+        range =
+          d !== undefined ? [a, b, c, d] : [a, b, a, c !== undefined ? c : b];
+      } else if (versesOf !== undefined) {
+        // a or a-c, as verses of the current chapter
+        range = [versesOf, a, versesOf, c ?? a];
+      } else {
+        // a or a-c, as whole chapters
+        range = [a, null, c ?? a, null];
+      }
+
+      const [startChapter, startVerse, endChapter, endVerse] = range;
+      if (
+        [startChapter, endChapter].some((ch) => ch < 1 || ch > chapters) ||
+        [startVerse, endVerse].some(
+          (verse) => verse !== null && (verse < 1 || verse > MAX_VERSE),
+        )
+      ) {
+        errors.push(
+          `"${name} ${piece.trim()}" is outside the book (${chapters} chapters).`,
+        );
+        continue;
+      }
+
+      const parsed = toRange(bookIdx, ...range);
+      if (parsed.start > parsed.end) {
+        errors.push(`"${name} ${piece.trim()}" ends before it starts.`);
+        continue;
+      }
+
+      ranges.push(parsed);
+    }
+  }
+
+  if (!ranges.length && !errors.length) {
+    errors.push('The reference is empty.');
+  }
+
+  return { ranges, errors };
+}
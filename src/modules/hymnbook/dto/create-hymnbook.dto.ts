@@ -0,0 +1,18 @@
+import { Escape, Trim } from 'class-sanitizer';
+import { IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class CreateHymnbookDto {
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(120)
+  @Trim()
+  @Escape()
+  name: string;
+
+  @IsOptional()
+  @IsString()
+  @MaxLength(1000)
+  @Trim()
+  @Escape()
+  description?: string;
+}
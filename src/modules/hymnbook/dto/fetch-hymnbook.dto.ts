@@ -0,0 +1,3 @@
+import { PaginationSearchOptionsDto } from '@@/common/interfaces/pagination-search-options.dto';
+
+export class FetchHymnbooksDto extends PaginationSearchOptionsDto {}
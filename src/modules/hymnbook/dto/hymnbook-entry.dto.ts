@@ -0,0 +1,23 @@
+import { Type } from 'class-transformer';
+import { IsInt, IsOptional, Max, Min } from 'class-validator';
+
+export class SetHymnbookNumberDto {
+  @IsInt()
+  @Min(1)
+  number: number;
+}
+
+export class FetchHymnbookHymnsDto {
+  @IsInt()
+  @IsOptional()
+  @Max(100)
+  @Min(1)
+  @Type(() => Number)
+  size?: number = 25;
+
+  @IsInt()
+  @IsOptional()
+  @Min(1)
+  @Type(() => Number)
+  page?: number = 1;
+}
@@ -0,0 +1,125 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  ParseIntPipe,
+  Patch,
+  Post,
+  Put,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { Throttle } from '@nestjs/throttler';
+import { User } from '@prisma/client';
+import { ResponseMessage } from 'src/common/decorators/response.decorator';
+import { GetUser } from 'src/common/decorators/get-user.decorator';
+import { AdminAuthGuard } from '@@/modules/auth/guard/auth.guard';
+import { HymnbookService } from './hymnbook.service';
+import { CreateHymnbookDto } from './dto/create-hymnbook.dto';
+import { UpdateHymnbookDto } from './dto/update-hymnbook.dto';
+import { FetchHymnbooksDto } from './dto/fetch-hymnbook.dto';
+import {
+  FetchHymnbookHymnsDto,
+  SetHymnbookNumberDto,
+} from './dto/hymnbook-entry.dto';
+
+@ApiBearerAuth()
+@ApiTags('Hymnbook')
+@Controller('hymnbooks')
+export class HymnbookController {
+  constructor(private readonly hymnbookService: HymnbookService) {}
+
+  @Post()
+  @UseGuards(AdminAuthGuard)
+  @ApiOperation({ summary: 'Create a hymnbook.' })
+  @ResponseMessage({ message: 'Hymnbook created successfully.' })
+  async createHymnbook(@Body() dto: CreateHymnbookDto, @GetUser() user: User) {
+    return this.hymnbookService.createHymnbook(dto, user);
+  }
+
+  @Get()
+  @Throttle({ default: { ttl: 20000, limit: 5 } })
+  @ApiOperation({ summary: 'Fetch hymnbooks.' })
+  @ResponseMessage({ message: 'Hymnbooks fetched successfully.' })
+  async fetchHymnbooks(@Query() dto: FetchHymnbooksDto) {
+    return this.hymnbookService.fetchHymnbooks(dto);
+  }
+
+  @Get('/:book')
+  @Throttle({ default: { ttl: 20000, limit: 5 } })
+  @ApiOperation({ summary: 'Fetch a hymnbook by ID or slug.' })
+  @ResponseMessage({ message: 'Hymnbook fetched successfully.' })
+  async fetchHymnbook(@Param('book') book: string) {
+    return this.hymnbookService.fetchHymnbook(book);
+  }
+
+  @Get('/:book/hymns')
+  @Throttle({ default: { ttl: 20000, limit: 5 } })
+  @ApiOperation({ summary: 'Fetch the hymns of a hymnbook in number order.' })
+  @ResponseMessage({ message: 'Hymnbook hymns fetched successfully.' })
+  async fetchHymnbookHymns(
+    @Param('book') book: string,
+    @Query() dto: FetchHymnbookHymnsDto,
+  ) {
+    return this.hymnbookService.fetchHymnbookHymns(book, dto);
+  }
+
+  @Get('/:book/hymns/:number')
+  @Throttle({ default: { ttl: 20000, limit: 5 } })
+  @ApiOperation({ summary: 'Fetch a hymn by its number in a hymnbook.' })
+  @ResponseMessage({ message: 'Hymn fetched successfully.' })
+  async fetchHymnByNumber(
+    @Param('book') book: string,
+    @Param('number', ParseIntPipe) number: number,
+  ) {
+    return this.hymnbookService.findHymnByNumber(book, number);
+  }
+
+  @Put('/:book/hymns/:hymnId')
+  @UseGuards(AdminAuthGuard)
+  @ApiOperation({ summary: 'Add a hymn to a hymnbook or renumber it.' })
+  @ResponseMessage({ message: 'Hymn numbered successfully.' })
+  async setHymnNumber(
+    @Param('book') book: string,
+    @Param('hymnId') hymnId: string,
+    @Body() dto: SetHymnbookNumberDto,
+    @GetUser() user: User,
+  ) {
+    return this.hymnbookService.setHymnNumber(book, hymnId, dto.number, user);
+  }
+
+  @Delete('/:book/hymns/:hymnId')
+  @UseGuards(AdminAuthGuard)
+  @ApiOperation({ summary: 'Take a hymn out of a hymnbook.' })
+  @ResponseMessage({ message: 'Hymn removed from hymnbook successfully.' })
+  async removeHymn(
+    @Param('book') book: string,
+    @Param('hymnId') hymnId: string,
+    @GetUser() user: User,
+  ) {
+    return this.hymnbookService.removeHymn(book, hymnId, user);
+  }
+
+  @Patch('/:id')
+  @UseGuards(AdminAuthGuard)
+  @ApiOperation({ summary: 'Update a hymnbook.' })
+  @ResponseMessage({ message: 'Hymnbook updated successfully.' })
+  async updateHymnbook(
+    @Param('id') id: string,
+    @Body() dto: UpdateHymnbookDto,
+    @GetUser() user: User,
+  ) {
+    return this.hymnbookService.updateHymnbook(id, dto, user);
+  }
+
+  @Delete('/:id')
+  @UseGuards(AdminAuthGuard)
+  @ApiOperation({ summary: 'Delete a hymnbook.' })
+  @ResponseMessage({ message: 'Hymnbook deleted successfully.' })
+  async deleteHymnbook(@Param('id') id: string, @GetUser() user: User) {
+    return this.hymnbookService.deleteHymnbook(id, user);
+  }
+}
@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { HymnbookService } from './hymnbook.service';
+import { HymnbookController } from './hymnbook.controller';
+import { PrismaModule } from 'src/common/prisma/prisma.module';
+import { AuditLogModule } from 'src/common/audit-log/audit-log.module';
+
+@Module({
+  imports: [PrismaModule, AuditLogModule],
+  controllers: [HymnbookController],
+  providers: [HymnbookService],
+  exports: [HymnbookService],
+})
+export class HymnbookModule {}
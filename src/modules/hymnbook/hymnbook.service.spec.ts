@@ -0,0 +1,201 @@
+import { ConflictException, NotFoundException } from '@nestjs/common';
+import { Test } from '@nestjs/testing';
+import { Prisma, User } from '@prisma/client';
+import { PrismaService } from 'src/common/prisma/prisma.service';
+import { AuditLogService } from 'src/common/audit-log/audit-log.service';
+import { HymnbookService } from '@@/modules/hymnbook/hymnbook.service';
+
+const FAITH_ID = '0b6a1d8e-5c2f-4b7a-9e13-2f4d6c8a0e11';
+const HYMNARY_ID = '7d3e9f21-8a4b-4c6d-b2e0-5f1a3c7e9d22';
+const user = { id: 'editor' } as User;
+
+const prismaError = (code: string) => Object.assign(new Error(code), { code });
+
+describe('HymnbookService', () => {
+  let service: HymnbookService;
+  let books: Record<string, unknown>[];
+  let entries: Record<string, unknown>[];
+  let prisma: Record<string, Record<string, jest.Mock>>;
+
+  const bookMatches = (book: object, where: Prisma.HymnbookWhereInput) =>
+    book['deletedAt'] === where.deletedAt &&
+    (!where.id || book['id'] === where.id) &&
+    (!where.slug || book['slug'] === where.slug) &&
+    (!where.OR ||
+      where.OR.some((or) => book['id'] === or.id || book['slug'] === or.slug));
+
+  const entryOf = (hymnbookId: string, hymnId: string) =>
+    entries.find(
+      (entry) => entry.hymnbookId === hymnbookId && entry.hymnId === hymnId,
+    );
+
+  beforeEach(async () => {
+    books = [
+      {
+        id: FAITH_ID,
+        name: 'Hymns of Faith',
+        slug: 'hymns-of-faith',
+        deletedAt: null,
+      },
+      {
+        id: HYMNARY_ID,
+        name: 'Church Hymnary',
+        slug: 'church-hymnary',
+        deletedAt: null,
+      },
+    ];
+    entries = [{ hymnbookId: FAITH_ID, hymnId: 'abide', number: 7 }];
+    prisma = {
+      hymnbook: {
+        findFirst: jest.fn(async ({ where }) => {
+          const found = books.find((book) => bookMatches(book, where));
+          return found ? { ...found } : null;
+        }),
+      },
+      hymn: {
+        findFirst: jest.fn(async ({ where }) => ({ id: where.id })),
+      },
+      hymnbookEntry: {
+        findFirst: jest.fn(async ({ where }) => {
+          const found = entries.find(
+            (entry) =>
+              entry.hymnbookId === where.hymnbookId &&
+              entry.number === where.number &&
+              entry.hymnId !== where.hymnId?.not,
+          );
+          return found ? { id: 'entry', hymn: { id: found.hymnId } } : null;
+        }),
+        upsert: jest.fn(async ({ where, create, update }) => {
+          const { hymnbookId, hymnId } = where.hymnbookId_hymnId;
+          const number = update.number;
+          if (
+            entries.some(
+              (entry) =>
+                entry.hymnbookId === hymnbookId &&
+                entry.number === number &&
+                entry.hymnId !== hymnId,
+            )
+          ) {
+            throw prismaError('P2002');
+          }
+
+          const found = entryOf(hymnbookId, hymnId);
+          if (found) {
+            return Object.assign(found, update);
+          }
+          entries.push({ ...create });
+          return create;
+        }),
+        delete: jest.fn(async ({ where }) => {
+          const { hymnbookId, hymnId } = where.hymnbookId_hymnId;
+          const found = entryOf(hymnbookId, hymnId);
+          if (!found) {
+            throw prismaError('P2025');
+          }
+          entries.splice(entries.indexOf(found), 1);
+          return found;
+        }),
+      },
+    };
+
+    const moduleRef = await Test.createTestingModule({
+      providers: [
+        HymnbookService,
+        { provide: PrismaService, useValue: prisma },
+        { provide: AuditLogService, useValue: { log: jest.fn() } },
+      ],
+    }).compile();
+
+    service = moduleRef.get(HymnbookService);
+  });
+
+  describe('setHymnNumber', () => {
+    it('numbers a hymn in each book on its own', async () => {
+      await service.setHymnNumber('church-hymnary', 'abide', 363, user);
+      await service.setHymnNumber(FAITH_ID, 'abide', 12, user);
+
+      expect(entryOf(FAITH_ID, 'abide')).toMatchObject({ number: 12 });
+      expect(entryOf(HYMNARY_ID, 'abide')).toMatchObject({ number: 363 });
+    });
+
+    it('lets another book use a number that is taken in one', async () => {
+      await service.setHymnNumber('church-hymnary', 'lead-me', 7, user);
+
+      expect(entryOf(HYMNARY_ID, 'lead-me')).toMatchObject({ number: 7 });
+    });
+
+    it('refuses a number another hymn has in the same book', async () => {
+      await expect(
+        service.setHymnNumber('hymns-of-faith', 'lead-me', 7, user),
+      ).rejects.toThrow(
+        new ConflictException('Number 7 is already used in Hymns of Faith.'),
+      );
+    });
+
+    it('refuses a deleted book', async () => {
+      books[1].deletedAt = new Date();
+
+      await expect(
+        service.setHymnNumber('church-hymnary', 'abide', 363, user),
+      ).rejects.toThrow(new NotFoundException('Hymnbook not found.'));
+    });
+  });
+
+  describe('writeEntry', () => {
+    it('checks the number before writing, so the transaction is not aborted', async () => {
+      await expect(
+        service.writeEntry(
+          prisma as unknown as Prisma.TransactionClient,
+          FAITH_ID,
+          'lead-me',
+          7,
+        ),
+      ).rejects.toThrow(
+        new ConflictException('Number 7 is already used in Hymns of Faith.'),
+      );
+      expect(prisma.hymnbookEntry.upsert).not.toHaveBeenCalled();
+    });
+
+    it('keeps the number a hymn already has', async () => {
+      await service.writeEntry(
+        prisma as unknown as Prisma.TransactionClient,
+        FAITH_ID,
+        'abide',
+        7,
+      );
+
+      expect(entries).toEqual([
+        { hymnbookId: FAITH_ID, hymnId: 'abide', number: 7 },
+      ]);
+    });
+  });
+
+  describe('findHymnByNumber', () => {
+    it('says which book has no such number', async () => {
+      await expect(
+        service.findHymnByNumber('hymns-of-faith', 8),
+      ).rejects.toThrow(
+        new NotFoundException('Hymns of Faith has no hymn number 8.'),
+      );
+    });
+  });
+
+  describe('removeHymn', () => {
+    it('takes the hymn out of the book only', async () => {
+      await service.setHymnNumber('church-hymnary', 'abide', 363, user);
+      await service.removeHymn('hymns-of-faith', 'abide', user);
+
+      expect(entries).toEqual([
+        { hymnbookId: HYMNARY_ID, hymnId: 'abide', number: 363 },
+      ]);
+    });
+
+    it('refuses a hymn the book does not have', async () => {
+      await expect(
+        service.removeHymn('church-hymnary', 'abide', user),
+      ).rejects.toThrow(
+        new NotFoundException('The hymn is not in this hymnbook.'),
+      );
+    });
+  });
+});
@@ -0,0 +1,488 @@
+import {
+  ConflictException,
+  Injectable,
+  InternalServerErrorException,
+  NotFoundException,
+} from '@nestjs/common';
+import { Prisma, User } from '@prisma/client';
+import { isUUID } from 'class-validator';
+import { PrismaService } from 'src/common/prisma/prisma.service';
+import { AuditLogService } from 'src/common/audit-log/audit-log.service';
+import { CrudService } from '@@/common/database/crud.service';
+import { AppUtilities } from 'src/common/utilities';
+import { CreateHymnbookDto } from '@@/modules/hymnbook/dto/create-hymnbook.dto';
+import { UpdateHymnbookDto } from '@@/modules/hymnbook/dto/update-hymnbook.dto';
+import { FetchHymnbooksDto } from '@@/modules/hymnbook/dto/fetch-hymnbook.dto';
+import { FetchHymnbookHymnsDto } from '@@/modules/hymnbook/dto/hymnbook-entry.dto';
+
+export const HYMNBOOK_SUMMARY_SELECT = {
+  id: true,
+  name: true,
+  slug: true,
+  description: true,
+} satisfies Prisma.HymnbookSelect;
+
+// A hymn's number in each book it appears in
+export const HYMNBOOK_ENTRY_SELECT = {
+  number: true,
+  hymnbook: { select: { id: true, name: true, slug: true } },
+} satisfies Prisma.HymnbookEntrySelect;
+
+// Every book a hymn is in, by name. A deleted book keeps its entries, so it
+// has to be left out here
+export const HYMN_HYMNBOOKS = {
+  where: { hymnbook: { deletedAt: null } },
+  select: HYMNBOOK_ENTRY_SELECT,
+  orderBy: { hymnbook: { name: 'asc' } },
+} satisfies Prisma.Hymn$hymnbooksArgs;
+
+// Where a hymn is shown with a single number, it is its number in the oldest
+// book it is in
+export const PRIMARY_HYMNBOOK_ENTRY = {
+  where: { hymnbook: { deletedAt: null } },
+  orderBy: { hymnbook: { createdAt: 'asc' } },
+  take: 1,
+  select: { number: true, hymnbook: { select: { name: true } } },
+} satisfies Prisma.Hymn$hymnbooksArgs;
+
+// The same number for raw queries that alias the hymns table as `h`
+export const PRIMARY_NUMBER_SQL = Prisma.sql`(
+  SELECT e.number
+  FROM hymnbook_entries e
+  JOIN hymnbooks b ON b.id = e."hymnbookId"
+  WHERE e."hymnId" = h.id AND b."deletedAt" IS NULL
+  ORDER BY b."createdAt"
+  LIMIT 1
+)`;
+
+const PUBLISHED_HYMN = {
+  deletedAt: null,
+  status: 'Published',
+} satisfies Prisma.HymnWhereInput;
+
+@Injectable()
+export class HymnbookService extends CrudService<Prisma.HymnbookDelegate, any> {
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditLogService,
+  ) {
+    super(prisma.hymnbook);
+  }
+
+  /**
+   * Creates a hymnbook. Its hymns are numbered from scratch, independently
+   * of every other book.
+   * @param createData - The book's name and description.
+   * @param user - The user creating the book.
+   * @returns The created hymnbook.
+   * @throws ConflictException if a book with the same name already exists.
+   */
+  async createHymnbook(createData: CreateHymnbookDto, user: User) {
+    const { name, description } = createData;
+
+    try {
+      const hymnbook = await this.prisma.hymnbook.create({
+        data: {
+          name,
+          slug: AppUtilities.slugify(name),
+          description,
+          createdById: user.id,
+          updatedById: user.id,
+        },
+        select: HYMNBOOK_SUMMARY_SELECT,
+      });
+
+      await this.auditService.log({
+        action: 'CREATE',
+        entityType: 'HYMNBOOK',
+        entityId: hymnbook.id,
+        userId: user.id,
+        description: `Hymnbook "${name}" created by user ${user.id}`,
+      });
+
+      return hymnbook;
+    } catch (error) {
+      if (error.code === 'P2002') {
+        throw new ConflictException(
+          'A hymnbook with this name already exists.',
+        );
+      }
+
+      throw new InternalServerErrorException(
+        'An error occurred while creating the hymnbook',
+      );
+    }
+  }
+
+  /**
+   * Fetches hymnbooks, optionally those whose name contains a term.
+   * @returns A page of hymnbooks with the number of hymns in each.
+   */
+  async fetchHymnbooks({
+    orderBy,
+    direction,
+    cursor,
+    size,
+    ...dto
+  }: FetchHymnbooksDto) {
+    const parsedFilterQuery = await this.parseQueryFilter(dto, [
+      'name|contains',
+    ]);
+
+    return this.findManyPaginate(
+      {
+        where: { deletedAt: null, ...parsedFilterQuery },
+        select: {
+          ...HYMNBOOK_SUMMARY_SELECT,
+          _count: { select: { entries: { where: { hymn: PUBLISHED_HYMN } } } },
+        },
+      },
+      { cursor, direction, orderBy, size },
+    );
+  }
+
+  /**
+   * Fetches a hymnbook by its ID or slug.
+   * @param book - The ID or slug of the book.
+   * @returns The hymnbook with the number of hymns in it.
+   * @throws NotFoundException if the book does not exist.
+   */
+  async fetchHymnbook(book: string) {
+    const hymnbook = await this.prisma.hymnbook.findFirst({
+      where: this.bookWhere(book),
+      select: {
+        ...HYMNBOOK_SUMMARY_SELECT,
+        _count: { select: { entries: { where: { hymn: PUBLISHED_HYMN } } } },
+      },
+    });
+
+    if (!hymnbook) {
+      throw new NotFoundException('Hymnbook not found.');
+    }
+
+    return hymnbook;
+  }
+
+  /**
+   * Fetches the published hymns of a hymnbook in number order.
+   * @param book - The ID or slug of the book.
+   * @param dto - The page options.
+   * @returns The hymnbook and a page of its hymns, each with its number in the book.
+   * @throws NotFoundException if the book does not exist.
+   */
+  async fetchHymnbookHymns(
+    book: string,
+    { page = 1, size = 25 }: FetchHymnbookHymnsDto,
+  ) {
+    const hymnbook = await this.fetchHymnbook(book);
+    const where = {
+      hymnbookId: hymnbook.id,
+      hymn: PUBLISHED_HYMN,
+    } satisfies Prisma.HymnbookEntryWhereInput;
+
+    const [entries, totalItems] = await Promise.all([
+      this.prisma.hymnbookEntry.findMany({
+        where,
+        orderBy: { number: 'asc' },
+        skip: (page - 1) * size,
+        take: size,
+        select: {
+          number: true,
+          hymn: {
+            select: { id: true, title: true, slug: true, language: true },
+          },
+        },
+      }),
+      this.prisma.hymnbookEntry.count({ where }),
+    ]);
+
+    const pageItems = entries.map(({ number, hymn }) => ({ ...hymn, number }));
+
+    return {
+      hymnbook,
+      pageItems,
+      pageMeta: {
+        itemCount: pageItems.length,
+        totalItems,
+        itemsPerPage: size,
+        totalPages: Math.ceil(totalItems / size),
+        currentPage: page,
+      },
+    };
+  }
+
+  /**
+   * Looks up a published hymn by its number in a hymnbook.
+   * @param book - The ID or slug of the book.
+   * @param number - The hymn's number in that book.
+   * @returns The hymn with its verses, choruses and its numbers in every book.
+   * @throws NotFoundException if the book does not exist or has no such number.
+   */
+  async findHymnByNumber(book: string, number: number) {
+    const hymnbook = await this.fetchHymnbook(book);
+
+    const entry = await this.prisma.hymnbookEntry.findFirst({
+      where: { hymnbookId: hymnbook.id, number, hymn: PUBLISHED_HYMN },
+      select: {
+        hymn: {
+          include: {
+            category: true,
+            tune: true,
+            verses: { where: { deletedAt: null }, orderBy: { order: 'asc' } },
+            choruses: { where: { deletedAt: null }, orderBy: { order: 'asc' } },
+            hymnbooks: HYMN_HYMNBOOKS,
+          },
+        },
+      },
+    });
+
+    if (!entry) {
+      throw new NotFoundException(
+        `${hymnbook.name} has no hymn number ${number}.`,
+      );
+    }
+
+    return entry.hymn;
+  }
+
+  /**
+   * Puts a hymn in a hymnbook under a number, or renumbers it if it is
+   * already there.
+   * @param book - The ID or slug of the book.
+   * @param hymnId - The ID of the hymn.
+   * @param number - The hymn's number in the book.
+   * @param user - The user making the change.
+   * @returns The hymn's entry in the book.
+   * @throws NotFoundException if the book or the hymn does not exist.
+   * @throws ConflictException if another hymn already has the number in the book.
+   */
+  async setHymnNumber(
+    book: string,
+    hymnId: string,
+    number: number,
+    user: User,
+  ) {
+    const hymnbook = await this.fetchHymnbook(book);
+
+    const hymn = await this.prisma.hymn.findFirst({
+      where: { id: hymnId, deletedAt: null },
+      select: { id: true },
+    });
+    if (!hymn) {
+      throw new NotFoundException('Hymn not found.');
+    }
+
+    try {
+      const entry = await this.prisma.hymnbookEntry.upsert({
+        where: { hymnbookId_hymnId: { hymnbookId: hymnbook.id, hymnId } },
+        create: { hymnbookId: hymnbook.id, hymnId, number },
+        update: { number },
+        select: { hymnId: true, ...HYMNBOOK_ENTRY_SELECT },
+      });
+
+      await this.auditService.log({
+        action: 'UPDATE',
+        entityType: 'HYMNBOOK',
+        entityId: hymnbook.id,
+        userId: user.id,
+        description: `Hymn ${hymnId} numbered ${number} in hymnbook ${hymnbook.id} by user ${user.id}`,
+      });
+
+      return entry;
+    } catch (error) {
+      if (error.code === 'P2002') {
+        throw new ConflictException(
+          `Number ${number} is already used in ${hymnbook.name}.`,
+        );
+      }
+
+      throw new InternalServerErrorException(
+        'An error occurred while numbering the hymn',
+      );
+    }
+  }
+
+  /**
+   * Numbers a hymn in a hymnbook as part of a change that saves the hymn,
+   * within that change's transaction.
+   * @param tx - The transaction client the change is made with.
+   * @param hymnbookId - The ID of the book.
+   * @param hymnId - The ID of the hymn.
+   * @param number - The hymn's number in the book.
+   * @returns The hymn's entry in the book.
+   * @throws NotFoundException if the book does not exist.
+   * @throws ConflictException if another hymn already has the number in the book.
+   */
+  async writeEntry(
+    tx: Prisma.TransactionClient,
+    hymnbookId: string,
+    hymnId: string,
+    number: number,
+  ) {
+    const hymnbook = await tx.hymnbook.findFirst({
+      where: { id: hymnbookId, deletedAt: null },
+      select: { id: true, name: true },
+    });
+    if (!hymnbook) {
+      throw new NotFoundException('Hymnbook not found.');
+    }
+
+    // Checked up front, as a unique violation would abort the transaction
+    const taken = await tx.hymnbookEntry.findFirst({
+      where: { hymnbookId, number, hymnId: { not: hymnId } },
+      select: { id: true },
+    });
+    if (taken) {
+      throw new ConflictException(
+        `Number ${number} is already used in ${hymnbook.name}.`,
+      );
+    }
+
+    return tx.hymnbookEntry.upsert({
+      where: { hymnbookId_hymnId: { hymnbookId, hymnId } },
+      create: { hymnbookId, hymnId, number },
+      update: { number },
+      select: HYMNBOOK_ENTRY_SELECT,
+    });
+  }
+
+  /**
+   * Takes a hymn out of a hymnbook. The hymn itself is left alone.
+   * @param book - The ID or slug of the book.
+   * @param hymnId - The ID of the hymn.
+   * @param user - The user making the change.
+   * @returns The removed entry.
+   * @throws NotFoundException if the book does not exist or the hymn is not in it.
+   */
+  async removeHymn(book: string, hymnId: string, user: User) {
+    const hymnbook = await this.fetchHymnbook(book);
+
+    try {
+      const entry = await this.prisma.hymnbookEntry.delete({
+        where: { hymnbookId_hymnId: { hymnbookId: hymnbook.id, hymnId } },
+        select: { hymnId: true, ...HYMNBOOK_ENTRY_SELECT },
+      });
+
+      await this.auditService.log({
+        action: 'UPDATE',
+        entityType: 'HYMNBOOK',
+        entityId: hymnbook.id,
+        userId: user.id,
+        description: `Hymn ${hymnId} removed from hymnbook ${hymnbook.id} by user ${user.id}`,
+      });
+
+      return entry;
+    } catch (error) {
+      if (error.code === 'P2025') {
+        throw new NotFoundException('The hymn is not in this hymnbook.');
+      }
+
+      throw new InternalServerErrorException(
+        'An error occurred while removing the hymn from the hymnbook',
+      );
+    }
+  }
+
+  /**
+   * Updates a hymnbook.
+   * @param id - The ID of the book.
+   * @param updateData - The fields to change.
+   * @param user - The user performing the update.
+   * @returns The updated hymnbook.
+   * @throws NotFoundException if the book does not exist.
+   * @throws ConflictException if another book already has the name.
+   */
+  async updateHymnbook(id: string, updateData: UpdateHymnbookDto, user: User) {
+    const { name, description } = updateData;
+
+    try {
+      const hymnbook = await this.prisma.hymnbook.update({
+        where: { id, deletedAt: null },
+        data: {
+          description,
+          ...(name !== undefined && {
+            name,
+            slug: AppUtilities.slugify(name),
+          }),
+          updatedById: user.id,
+          updatedAt: new Date(),
+        },
+        select: HYMNBOOK_SUMMARY_SELECT,
+      });
+
+      await this.auditService.log({
+        action: 'UPDATE',
+        entityType: 'HYMNBOOK',
+        entityId: id,
+        userId: user.id,
+        description: `Hymnbook ${id} updated by user ${user.id}`,
+      });
+
+      return hymnbook;
+    } catch (error) {
+      if (error.code === 'P2002') {
+        throw new ConflictException(
+          'A hymnbook with this name already exists.',
+        );
+      }
+
+      if (error.code === 'P2025') {
+        throw new NotFoundException('Hymnbook not found.');
+      }
+
+      throw new InternalServerErrorException(
+        'An error occurred while updating the hymnbook',
+      );
+    }
+  }
+
+  /**
+   * Soft-deletes a hymnbook. Its hymns are kept, along with their numbers in
+   * other books.
+   * @param id - The ID of the book.
+   * @param user - The user performing the deletion.
+   * @returns The deleted hymnbook.
+   * @throws NotFoundException if the book does not exist or is already deleted.
+   */
+  async deleteHymnbook(id: string, user: User) {
+    try {
+      const hymnbook = await this.prisma.hymnbook.update({
+        where: { id, deletedAt: null },
+        data: {
+          deletedAt: new Date(),
+          updatedById: user.id,
+          updatedAt: new Date(),
+        },
+        select: { id: true, name: true, deletedAt: true },
+      });
+
+      await this.auditService.log({
+        action: 'DELETE',
+        entityType: 'HYMNBOOK',
+        entityId: id,
+        userId: user.id,
+        description: `Hymnbook ${id} deleted by user ${user.id}`,
+      });
+
+      return hymnbook;
+    } catch (error) {
+      if (error.code === 'P2025') {
+        throw new NotFoundException('Hymnbook not found or already deleted.');
+      }
+
+      throw new InternalServerErrorException(
+        'An error occurred while deleting the hymnbook',
+      );
+    }
+  }
+
+  /** Matches a live hymnbook by its ID or its slug. */
+  bookWhere(book: string): Prisma.HymnbookWhereInput {
+    return {
+      deletedAt: null,
+      ...(isUUID(book)
+        ? { OR: [{ id: book }, { slug: book }] }
+        : { slug: book }),
+    };
+  }
+}
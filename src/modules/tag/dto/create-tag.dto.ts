@@ -0,0 +1,11 @@
+import { Escape, Trim } from 'class-sanitizer';
+import { IsNotEmpty, IsString, MaxLength } from 'class-validator';
+
+export class CreateTagDto {
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(60)
+  @Trim()
+  @Escape()
+  name: string;
+}
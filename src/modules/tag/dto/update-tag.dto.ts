@@ -0,0 +1,12 @@
+import { Escape, Trim } from 'class-sanitizer';
+import { IsNotEmpty, IsOptional, IsString, MaxLength } from 'class-validator';
+
+export class UpdateTagDto {
+  @IsOptional()
+  @IsNotEmpty()
+  @IsString()
+  @MaxLength(60)
+  @Trim()
+  @Escape()
+  name?: string;
+}
@@ -0,0 +1,4 @@
+export type TagMatchType = 'any' | 'all';
+
+// Most tags a hymn can carry, and most a hymn filter can name
+export const MAX_HYMN_TAGS = 20;
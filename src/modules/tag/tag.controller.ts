@@ -0,0 +1,72 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { Throttle } from '@nestjs/throttler';
+import { User } from '@prisma/client';
+import { ResponseMessage } from 'src/common/decorators/response.decorator';
+import { GetUser } from 'src/common/decorators/get-user.decorator';
+import { AdminAuthGuard } from '@@/modules/auth/guard/auth.guard';
+import { TagService } from './tag.service';
+import { CreateTagDto } from './dto/create-tag.dto';
+import { UpdateTagDto } from './dto/update-tag.dto';
+import { FetchTagsDto } from './dto/fetch-tag.dto';
+
+@ApiBearerAuth()
+@ApiTags('Tag')
+@Controller('tags')
+export class TagController {
+  constructor(private readonly tagService: TagService) {}
+
+  @Post()
+  @UseGuards(AdminAuthGuard)
+  @ApiOperation({ summary: 'Create a tag.' })
+  @ResponseMessage({ message: 'Tag created successfully.' })
+  async createTag(@Body() dto: CreateTagDto, @GetUser() user: User) {
+    return this.tagService.createTag(dto, user);
+  }
+
+  @Get()
+  @Throttle({ default: { ttl: 20000, limit: 5 } })
+  @ApiOperation({ summary: 'Fetch tags, optionally by name.' })
+  @ResponseMessage({ message: 'Tags fetched successfully.' })
+  async fetchTags(@Query() dto: FetchTagsDto) {
+    return this.tagService.fetchTags(dto);
+  }
+
+  @Get('/:id')
+  @Throttle({ default: { ttl: 20000, limit: 5 } })
+  @ApiOperation({ summary: 'Fetch a tag.' })
+  @ResponseMessage({ message: 'Tag fetched successfully.' })
+  async fetchTag(@Param('id') id: string) {
+    return this.tagService.fetchTagById(id);
+  }
+
+  @Patch('/:id')
+  @UseGuards(AdminAuthGuard)
+  @ApiOperation({ summary: 'Rename a tag.' })
+  @ResponseMessage({ message: 'Tag updated successfully.' })
+  async updateTag(
+    @Param('id') id: string,
+    @Body() dto: UpdateTagDto,
+    @GetUser() user: User,
+  ) {
+    return this.tagService.updateTag(id, dto, user);
+  }
+
+  @Delete('/:id')
+  @UseGuards(AdminAuthGuard)
+  @ApiOperation({ summary: 'Delete a tag and take it off every hymn.' })
+  @ResponseMessage({ message: 'Tag deleted successfully.' })
+  async deleteTag(@Param('id') id: string, @GetUser() user: User) {
+    return this.tagService.deleteTag(id, user);
+  }
+}
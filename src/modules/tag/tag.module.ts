@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { TagService } from './tag.service';
+import { TagController } from './tag.controller';
+import { PrismaModule } from 'src/common/prisma/prisma.module';
+import { AuditLogModule } from 'src/common/audit-log/audit-log.module';
+
+@Module({
+  imports: [PrismaModule, AuditLogModule],
+  controllers: [TagController],
+  providers: [TagService],
+  exports: [TagService],
+})
+export class TagModule {}
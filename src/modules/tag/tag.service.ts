@@ -0,0 +1,261 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  InternalServerErrorException,
+  NotFoundException,
+} from '@nestjs/common';
+import { isUUID } from 'class-validator';
+import { Prisma, User } from '@prisma/client';
+import { PrismaService } from 'src/common/prisma/prisma.service';
+import { AuditLogService } from 'src/common/audit-log/audit-log.service';
+import { CrudService } from '@@/common/database/crud.service2';
+import { AppUtilities } from 'src/common/utilities';
+import { CreateTagDto } from '@@/modules/tag/dto/create-tag.dto';
+import { UpdateTagDto } from '@@/modules/tag/dto/update-tag.dto';
+import { FetchTagsDto } from '@@/modules/tag/dto/fetch-tag.dto';
+import { TagMatchType } from '@@/modules/tag/interfaces';
+
+export const TAG_SUMMARY_SELECT = {
+  id: true,
+  name: true,
+  slug: true,
+} satisfies Prisma.TagSelect;
+
+const PUBLISHED_HYMN = {
+  deletedAt: null,
+  status: 'Published',
+} satisfies Prisma.HymnWhereInput;
+
+@Injectable()
+export class TagService extends CrudService<Prisma.TagDelegate, any> {
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditLogService,
+  ) {
+    super(prisma.tag);
+  }
+
+  /**
+   * Creates a tag.
+   * @param createData - The tag's name.
+   * @param user - The user creating the tag.
+   * @returns The created tag.
+   * @throws ConflictException if a tag with the same name already exists.
+   */
+  async createTag(createData: CreateTagDto, user: User) {
+    const { name } = createData;
+
+    try {
+      const tag = await this.prisma.tag.create({
+        data: {
+          name,
+          slug: AppUtilities.slugify(name),
+          createdById: user.id,
+          updatedById: user.id,
+        },
+        select: TAG_SUMMARY_SELECT,
+      });
+
+      await this.auditService.log({
+        action: 'CREATE',
+        entityType: 'TAG',
+        entityId: tag.id,
+        userId: user.id,
+        description: `Tag "${name}" created by user ${user.id}`,
+      });
+
+      return tag;
+    } catch (error) {
+      if (error.code === 'P2002') {
+        throw new ConflictException('A tag with this name already exists.');
+      }
+
+      throw new InternalServerErrorException(
+        'An error occurred while creating the tag',
+      );
+    }
+  }
+
+  /**
+   * Fetches tags in name order, optionally those whose name contains a term.
+   * @returns A page of tags with the number of published hymns on each.
+   */
+  async fetchTags({
+    orderBy,
+    direction,
+    cursor,
+    size,
+    page,
+    paginationType,
+    ...dto
+  }: FetchTagsDto) {
+    const args = {
+      where: this.parseQueryFilter(dto, ['name|contains']),
+      select: {
+        ...TAG_SUMMARY_SELECT,
+        _count: { select: { hymns: { where: PUBLISHED_HYMN } } },
+      },
+    };
+
+    return this.findManyPaginate(args, {
+      cursor,
+      direction,
+      orderBy: orderBy ?? { name: 'asc' },
+      size,
+      page,
+      paginationType: paginationType === 'page' ? 'page' : 'cursor',
+    });
+  }
+
+  /**
+   * Fetches a tag by its ID.
+   * @param id - The ID of the tag.
+   * @returns The tag with the number of published hymns on it.
+   * @throws NotFoundException if the tag does not exist.
+   */
+  async fetchTagById(id: string) {
+    const tag = await this.prisma.tag.findUnique({
+      where: { id },
+      select: {
+        ...TAG_SUMMARY_SELECT,
+        _count: { select: { hymns: { where: PUBLISHED_HYMN } } },
+      },
+    });
+
+    if (!tag) {
+      throw new NotFoundException('Tag not found.');
+    }
+
+    return tag;
+  }
+
+  /**
+   * Renames a tag. Its slug follows the name, so hymn filters must use the
+   * new slug afterwards.
+   * @param id - The ID of the tag.
+   * @param updateData - The new name.
+   * @param user - The user performing the update.
+   * @returns The updated tag.
+   * @throws NotFoundException if the tag does not exist.
+   * @throws ConflictException if another tag already has the name.
+   */
+  async updateTag(id: string, updateData: UpdateTagDto, user: User) {
+    const { name } = updateData;
+
+    try {
+      const tag = await this.prisma.tag.update({
+        where: { id },
+        data: {
+          ...(name !== undefined && {
+            name,
+            slug: AppUtilities.slugify(name),
+          }),
+          updatedById: user.id,
+          updatedAt: new Date(),
+        },
+        select: TAG_SUMMARY_SELECT,
+      });
+
+      await this.auditService.log({
+        action: 'UPDATE',
+        entityType: 'TAG',
+        entityId: id,
+        userId: user.id,
+        description: `Tag ${id} updated by user ${user.id}`,
+      });
+
+      return tag;
+    } catch (error) {
+      if (error.code === 'P2002') {
+        throw new ConflictException('A tag with this name already exists.');
+      }
+
+      if (error.code === 'P2025') {
+        throw new NotFoundException('Tag not found.');
+      }
+
+      throw new InternalServerErrorException(
+        'An error occurred while updating the tag',
+      );
+    }
+  }
+
+  /**
+   * Deletes a tag and takes it off every hymn. Unlike categories, tags are
+   * removed outright so that the name can be used again.
+   * @param id - The ID of the tag.
+   * @param user - The user performing the deletion.
+   * @returns The deleted tag.
+   * @throws NotFoundException if the tag does not exist.
+   */
+  async deleteTag(id: string, user: User) {
+    try {
+      const tag = await this.prisma.tag.delete({
+        where: { id },
+        select: TAG_SUMMARY_SELECT,
+      });
+
+      await this.auditService.log({
+        action: 'DELETE',
+        entityType: 'TAG',
+        entityId: id,
+        userId: user.id,
+        description: `Tag "${tag.name}" deleted by user ${user.id}`,
+      });
+
+      return tag;
+    } catch (error) {
+      if (error.code === 'P2025') {
+        throw new NotFoundException('Tag not found.');
+      }
+
+      throw new InternalServerErrorException(
+        'An error occurred while deleting the tag',
+      );
+    }
+  }
+
+  /**
+   * Looks up the tags to put on a hymn.
+   * @param ids - The IDs of the tags.
+   * @returns The tags, ready to connect to a hymn.
+   * @throws BadRequestException if any of the tags does not exist.
+   */
+  async findTagsForHymn(ids: string[]) {
+    const tags = await this.prisma.tag.findMany({
+      where: { id: { in: ids.filter((id) => isUUID(id)) } },
+      select: { id: true },
+    });
+
+    const found = new Set(tags.map((tag) => tag.id));
+    const missing = ids.filter((id) => !found.has(id));
+    if (missing.length) {
+      throw new BadRequestException(
+        `These tags do not exist: ${missing.join(', ')}.`,
+      );
+    }
+
+    return tags;
+  }
+
+  /**
+   * Builds the hymn filter for a list of tag slugs. With `any` a hymn needs
+   * at least one of the tags; with `all` it needs every one of them.
+   * @param slugs - The slugs of the tags.
+   * @param match - `any` or `all`.
+   * @returns A where clause for hymns.
+   */
+  parseHymnTagFilter(slugs: string[], match: TagMatchType) {
+    return this.parseQueryFilter({ slug: slugs, match }, [
+      'tags:slug|in',
+      {
+        key: 'match',
+        where: (value) =>
+          value === 'all'
+            ? { AND: slugs.map((slug) => ({ tags: { some: { slug } } })) }
+            : undefined,
+      },
+    ]);
+  }
+}
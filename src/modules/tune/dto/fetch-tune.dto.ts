@@ -0,0 +1,22 @@
+import { Trim } from 'class-sanitizer';
+import { IsIn, IsOptional, IsString } from 'class-validator';
+import { PaginationSearchOptionsDto } from '@@/common/interfaces/pagination-search-options.dto';
+import { TuneMatchType } from '@@/modules/tune/interfaces';
+
+export class FetchTunesDto extends PaginationSearchOptionsDto {
+  @IsOptional()
+  @IsString()
+  @Trim()
+  meter?: string;
+
+  @IsOptional()
+  @IsString()
+  @Trim()
+  composer?: string;
+}
+
+export class FetchHymnMatchesDto {
+  @IsOptional()
+  @IsIn(['tune', 'meter'])
+  by?: TuneMatchType = 'meter';
+}
@@ -0,0 +1,45 @@
+import { Escape, Trim } from 'class-sanitizer';
+import {
+  IsInt,
+  IsNotEmpty,
+  IsOptional,
+  IsString,
+  Matches,
+  Max,
+  Min,
+} from 'class-validator';
+import { MUSICAL_KEY_PATTERN } from '@@/modules/tune/interfaces';
+
+export class UpdateTuneDto {
+  @IsOptional()
+  @IsNotEmpty()
+  @IsString()
+  @Trim()
+  @Escape()
+  name?: string;
+
+  @IsOptional()
+  @IsString()
+  @Trim()
+  @Escape()
+  composer?: string;
+
+  @IsOptional()
+  @IsString()
+  @Trim()
+  meter?: string;
+
+  @IsOptional()
+  @IsString()
+  @Trim()
+  @Matches(MUSICAL_KEY_PATTERN, {
+    message: 'key must be a note such as "G", "Eb" or "F# minor".',
+  })
+  key?: string;
+
+  @IsOptional()
+  @IsInt()
+  @Min(1000)
+  @Max(new Date().getFullYear())
+  year?: number;
+}
@@ -0,0 +1,5 @@
+export type TuneMatchType = 'tune' | 'meter';
+
+// A note name with an optional accidental and mode, e.g. "G", "Eb", "F# minor"
+export const MUSICAL_KEY_PATTERN =
+  /^[A-G](?:#|b|♯|♭)?(?:\s*(?:major|minor|maj|min|m))?$/;
@@ -0,0 +1,39 @@
+import { normalizeMeter } from '@@/modules/tune/meter';
+
+describe('normalizeMeter', () => {
+  it('writes every spelling of a meter the same way', () => {
+    expect(normalizeMeter('87.87 D')).toBe('8.7.8.7 D');
+    expect(normalizeMeter('8.7.8.7.D')).toBe('8.7.8.7 D');
+    expect(normalizeMeter('8 7 8 7 8 7 8 7')).toBe('8.7.8.7 D');
+  });
+
+  it('spells out named meters', () => {
+    expect(normalizeMeter('C.M.')).toBe('8.6.8.6');
+    expect(normalizeMeter('LM')).toBe('8.8.8.8');
+    expect(normalizeMeter('L.M.D.')).toBe('8.8.8.8 D');
+    expect(normalizeMeter('S.M.')).toBe('6.6.8.6');
+  });
+
+  it('keeps a refrain as a suffix', () => {
+    expect(normalizeMeter('8.7.8.7 with refrain')).toBe('8.7.8.7 with refrain');
+    expect(normalizeMeter('C.M. Ref.')).toBe('8.6.8.6 with refrain');
+  });
+
+  it('reads run-together lines of ten or more', () => {
+    expect(normalizeMeter('10.10')).toBe('10.10');
+    expect(normalizeMeter('1010')).toBe('10.10');
+    expect(normalizeMeter('11 10 11 10')).toBe('11.10.11.10');
+    expect(normalizeMeter('11101110')).toBe('11.10.11.10');
+  });
+
+  it('recognizes irregular meters', () => {
+    expect(normalizeMeter('Irregular')).toBe('Irregular');
+    expect(normalizeMeter('irr.')).toBe('Irregular');
+  });
+
+  it('returns null for text that is not a meter', () => {
+    expect(normalizeMeter('')).toBeNull();
+    expect(normalizeMeter('common time')).toBeNull();
+    expect(normalizeMeter('8.0.8.6')).toBeNull();
+  });
+});
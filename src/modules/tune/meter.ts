@@ -0,0 +1,74 @@
+// Named meters and the syllable counts they stand for
+const NAMED_METERS: Record<string, number[]> = {
+  CM: [8, 6, 8, 6],
+  LM: [8, 8, 8, 8],
+  SM: [6, 6, 8, 6],
+};
+
+// No hymn line runs this long, so a longer group is lines run together
+const MAX_LINE_SYLLABLES = 14;
+// Nor is one a single syllable, so a run-together `1` starts a line of 10 to 14
+const RUN_TOGETHER_LINE = /1[0-4]|\d/g;
+
+const REFRAIN = /\b(?:with\s+)?(?:refrain|ref)\b\.?|\bR$/i;
+const IRREGULAR = /^irr(?:egular)?\.?$/i;
+
+/**
+ * Normalizes a poetic meter so that different spellings of the same meter
+ * compare equal. `87.87 D`, `8.7.8.7.D` and `8 7 8 7 8 7 8 7` all become
+ * `8.7.8.7 D`; `C.M.` becomes `8.6.8.6` and `L.M.D.` becomes `8.8.8.8 D`.
+ * Lines of ten or more may be run together too, so `1010` is `10.10`.
+ * A refrain is kept as a ` with refrain` suffix.
+ * @returns The canonical meter, or null if the text is not a meter.
+ */
+export function normalizeMeter(meter: string): string | null {
+  let text = meter.trim();
+
+  if (IRREGULAR.test(text)) return 'Irregular';
+
+  const refrain = REFRAIN.test(text);
+  text = text.replace(REFRAIN, '').trim();
+
+  let doubled = false;
+  const named = text.replace(/\./g, '').replace(/\s+/g, '').toUpperCase();
+  let counts: number[];
+
+  if (/^[CLS]MD?$/.test(named)) {
+    counts = NAMED_METERS[named.slice(0, 2)];
+    doubled = named.endsWith('D');
+  } else {
+    const doubledMatch = /[\s.]*D\.?$/i.exec(text);
+    if (doubledMatch) {
+      doubled = true;
+      text = text.slice(0, doubledMatch.index);
+    }
+
+    const groups = text.split(/[\s.,-]+/).filter(Boolean);
+    if (!groups.length || groups.some((group) => !/^\d+$/.test(group))) {
+      return null;
+    }
+
+    counts = groups.flatMap((group) =>
+      Number(group) > MAX_LINE_SYLLABLES
+        ? group.match(RUN_TOGETHER_LINE).map(Number)
+        : [Number(group)],
+    );
+    if (counts.some((count) => count === 0)) return null;
+  }
+
+  // A stanza written out twice is the doubled form of its first half
+  const half = counts.length / 2;
+  if (
+    !doubled &&
+    Number.isInteger(half) &&
+    half >= 4 &&
+    counts.slice(0, half).every((count, idx) => count === counts[half + idx])
+  ) {
+    counts = counts.slice(0, half);
+    doubled = true;
+  }
+
+  return [counts.join('.'), doubled && ' D', refrain && ' with refrain']
+    .filter(Boolean)
+    .join('');
+}
@@ -0,0 +1,80 @@
+import {
+  Body,
+  Controller,
+  Delete,
+  Get,
+  Param,
+  Patch,
+  Post,
+  Query,
+  UseGuards,
+} from '@nestjs/common';
+import { ApiBearerAuth, ApiOperation, ApiTags } from '@nestjs/swagger';
+import { Throttle } from '@nestjs/throttler';
+import { User } from '@prisma/client';
+import { ResponseMessage } from 'src/common/decorators/response.decorator';
+import { GetUser } from 'src/common/decorators/get-user.decorator';
+import { AdminAuthGuard } from '@@/modules/auth/guard/auth.guard';
+import { TuneService } from './tune.service';
+import { CreateTuneDto } from './dto/create-tune.dto';
+import { UpdateTuneDto } from './dto/update-tune.dto';
+import { FetchTunesDto } from './dto/fetch-tune.dto';
+
+@ApiBearerAuth()
+@ApiTags('Tune')
+@Controller('tunes')
+export class TuneController {
+  constructor(private readonly tuneService: TuneService) {}
+
+  @Post()
+  @UseGuards(AdminAuthGuard)
+  @ApiOperation({ summary: 'Create a tune.' })
+  @ResponseMessage({ message: 'Tune created successfully.' })
+  async createTune(@Body() dto: CreateTuneDto, @GetUser() user: User) {
+    return this.tuneService.createTune(dto, user);
+  }
+
+  @Get()
+  @Throttle({ default: { ttl: 20000, limit: 5 } })
+  @ApiOperation({ summary: 'Fetch tunes, optionally by meter or composer.' })
+  @ResponseMessage({ message: 'Tunes fetched successfully.' })
+  async fetchTunes(@Query() dto: FetchTunesDto) {
+    return this.tuneService.fetchTunes(dto);
+  }
+
+  @Get('/:id')
+  @Throttle({ default: { ttl: 20000, limit: 5 } })
+  @ApiOperation({ summary: 'Fetch a tune.' })
+  @ResponseMessage({ message: 'Tune fetched successfully.' })
+  async fetchTune(@Param('id') id: string) {
+    return this.tuneService.fetchTuneById(id);
+  }
+
+  @Get('/:id/hymns')
+  @Throttle({ default: { ttl: 20000, limit: 5 } })
+  @ApiOperation({ summary: 'Fetch the hymns sung to a tune.' })
+  @ResponseMessage({ message: 'Tune hymns fetched successfully.' })
+  async fetchTuneHymns(@Param('id') id: string) {
+    return this.tuneService.fetchTuneHymns(id);
+  }
+
+  @Patch('/:id')
+  @UseGuards(AdminAuthGuard)
+  @ApiOperation({ summary: 'Update a tune.' })
+  @ResponseMessage({ message: 'Tune updated successfully.' })
+  async updateTune(
+    @Param('id') id: string,
+    @Body() dto: UpdateTuneDto,
+    @GetUser() user: User,
+  ) {
+    return this.tuneService.updateTune(id, dto, user);
+  }
+
+  @Delete('/:id')
+  @UseGuards(AdminAuthGuard)
+  @ApiOperation({ summary: 'Delete a tune.' })
+  @ResponseMessage({ message: 'Tune deleted successfully.' })
+  async deleteTune(@Param('id') id: string, @GetUser() user: User) {
+    return this.tuneService.deleteTune(id, user);
+  }
+}
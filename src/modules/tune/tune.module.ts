@@ -0,0 +1,13 @@
+import { Module } from '@nestjs/common';
+import { TuneService } from './tune.service';
+import { TuneController } from './tune.controller';
+import { PrismaModule } from 'src/common/prisma/prisma.module';
+import { AuditLogModule } from 'src/common/audit-log/audit-log.module';
+
+@Module({
+  imports: [PrismaModule, AuditLogModule],
+  controllers: [TuneController],
+  providers: [TuneService],
+  exports: [TuneService],
+})
+export class TuneModule {}
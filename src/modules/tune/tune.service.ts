@@ -0,0 +1,345 @@
+import {
+  BadRequestException,
+  ConflictException,
+  Injectable,
+  InternalServerErrorException,
+  NotFoundException,
+} from '@nestjs/common';
+import { HymnStatus, Prisma, User } from '@prisma/client';
+import { PrismaService } from 'src/common/prisma/prisma.service';
+import { AuditLogService } from 'src/common/audit-log/audit-log.service';
+import { CrudService } from '@@/common/database/crud.service';
+import { AppUtilities } from 'src/common/utilities';
+import { CreateTuneDto } from '@@/modules/tune/dto/create-tune.dto';
+import { UpdateTuneDto } from '@@/modules/tune/dto/update-tune.dto';
+import { FetchTunesDto } from '@@/modules/tune/dto/fetch-tune.dto';
+import { normalizeMeter } from '@@/modules/tune/meter';
+import { TuneMatchType } from '@@/modules/tune/interfaces';
+import { HYMN_HYMNBOOKS } from '@@/modules/hymnbook/hymnbook.service';
+
+const TUNE_SUMMARY_SELECT = {
+  id: true,
+  name: true,
+  slug: true,
+  composer: true,
+  meter: true,
+  key: true,
+  year: true,
+} satisfies Prisma.TuneSelect;
+
+const MATCHED_HYMN_SELECT = {
+  id: true,
+  title: true,
+  slug: true,
+  language: true,
+  tune: { select: TUNE_SUMMARY_SELECT },
+  hymnbooks: HYMN_HYMNBOOKS,
+} satisfies Prisma.HymnSelect;
+
+// Only hymns a congregation can actually sing are offered as matches
+const SINGABLE_HYMN = {
+  deletedAt: null,
+  status: 'Published',
+} satisfies Prisma.HymnWhereInput;
+
+@Injectable()
+export class TuneService extends CrudService<Prisma.TuneDelegate, any> {
+  constructor(
+    private prisma: PrismaService,
+    private auditService: AuditLogService,
+  ) {
+    super(prisma.tune);
+  }
+
+  /**
+   * Creates a tune. The meter is stored as entered and also in a normalized
+   * form, so `87.87 D` and `8.7.8.7 D` are matched as the same meter.
+   * @param createData - The tune's name, composer, meter, key and year.
+   * @param user - The user creating the tune.
+   * @returns The created tune.
+   * @throws BadRequestException if the meter cannot be read.
+   * @throws ConflictException if a tune with the same name already exists.
+   */
+  async createTune(createData: CreateTuneDto, user: User) {
+    const { name, meter, ...fields } = createData;
+    const meters = this.parseMeter(meter);
+
+    try {
+      const tune = await this.prisma.tune.create({
+        data: {
+          ...fields,
+          name,
+          slug: AppUtilities.slugify(name),
+          ...meters,
+          createdById: user.id,
+          updatedById: user.id,
+        },
+        select: TUNE_SUMMARY_SELECT,
+      });
+
+      await this.auditService.log({
+        action: 'CREATE',
+        entityType: 'TUNE',
+        entityId: tune.id,
+        userId: user.id,
+        description: `Tune "${name}" created by user ${user.id}`,
+      });
+
+      return tune;
+    } catch (error) {
+      if (error.code === 'P2002') {
+        throw new ConflictException('A tune with this name already exists.');
+      }
+
+      throw new InternalServerErrorException(
+        'An error occurred while creating the tune',
+      );
+    }
+  }
+
+  /**
+   * Fetches tunes, optionally filtered by name, composer or meter. The meter
+   * filter is normalized first, so any spelling of a meter finds its tunes.
+   * @returns A page of tunes with the number of hymns sung to each.
+   * @throws BadRequestException if the meter filter cannot be read.
+   */
+  async fetchTunes({
+    orderBy,
+    direction,
+    cursor,
+    size,
+    meter,
+    ...dto
+  }: FetchTunesDto) {
+    const parsedFilterQuery = await this.parseQueryFilter(dto, [
+      'name|contains',
+      'composer|contains',
+    ]);
+
+    return this.findManyPaginate(
+      {
+        where: {
+          deletedAt: null,
+          ...(meter && { meterKey: this.parseMeter(meter).meterKey }),
+          ...parsedFilterQuery,
+        },
+        select: {
+          ...TUNE_SUMMARY_SELECT,
+          _count: { select: { hymns: { where: SINGABLE_HYMN } } },
+        },
+      },
+      { cursor, direction, orderBy, size },
+    );
+  }
+
+  /**
+   * Fetches a tune by its ID.
+   * @param id - The ID of the tune.
+   * @returns The tune with the number of hymns sung to it.
+   * @throws NotFoundException if the tune does not exist.
+   */
+  async fetchTuneById(id: string) {
+    const tune = await this.prisma.tune.findFirst({
+      where: { id, deletedAt: null },
+      select: {
+        ...TUNE_SUMMARY_SELECT,
+        _count: { select: { hymns: { where: SINGABLE_HYMN } } },
+      },
+    });
+
+    if (!tune) {
+      throw new NotFoundException('Tune not found.');
+    }
+
+    return tune;
+  }
+
+  /**
+   * Fetches every published hymn sung to a tune.
+   * @param id - The ID of the tune.
+   * @returns The tune and its hymns, ordered by title.
+   * @throws NotFoundException if the tune does not exist.
+   */
+  async fetchTuneHymns(id: string) {
+    const tune = await this.fetchTuneById(id);
+
+    const hymns = await this.prisma.hymn.findMany({
+      where: { ...SINGABLE_HYMN, tuneId: id },
+      orderBy: { title: 'asc' },
+      select: MATCHED_HYMN_SELECT,
+    });
+
+    return { tune, hymns };
+  }
+
+  /**
+   * Finds the published hymns that can be sung in place of another. With
+   * `tune` they share its tune; with `meter` they are sung to any tune of the
+   * same meter, so a familiar tune can be swapped in for an unfamiliar text.
+   * @param hymnId - The ID of the hymn to match.
+   * @param by - Match on the `tune` or on its `meter`.
+   * @param user - The signed-in user, if any; anonymous requests only see published hymns.
+   * @returns The hymn's tune and meter and the other hymns that match it.
+   * @throws NotFoundException if the hymn does not exist.
+   * @throws BadRequestException if the hymn has no tune, or its tune no meter.
+   */
+  async findHymnMatches(hymnId: string, by: TuneMatchType, user?: User) {
+    const hymn = await this.prisma.hymn.findFirst({
+      where: {
+        id: hymnId,
+        deletedAt: null,
+        ...(!user && { status: HymnStatus.Published }),
+      },
+      select: {
+        id: true,
+        tune: { select: { ...TUNE_SUMMARY_SELECT, meterKey: true } },
+      },
+    });
+
+    if (!hymn) {
+      throw new NotFoundException('Hymn not found.');
+    }
+
+    const { tune } = hymn;
+    if (!tune) {
+      throw new BadRequestException('This hymn has no tune.');
+    }
+
+    if (by === 'meter' && !tune.meterKey) {
+      throw new BadRequestException("This hymn's tune has no meter.");
+    }
+
+    const hymns = await this.prisma.hymn.findMany({
+      where: {
+        ...SINGABLE_HYMN,
+        id: { not: hymnId },
+        tune:
+          by === 'tune'
+            ? { id: tune.id }
+            : { meterKey: tune.meterKey, deletedAt: null },
+      },
+      orderBy: [{ tune: { name: 'asc' } }, { title: 'asc' }],
+      select: MATCHED_HYMN_SELECT,
+    });
+
+    // Hymns on the same tune come first when matching by meter
+    hymns.sort(
+      (a, b) => Number(b.tune.id === tune.id) - Number(a.tune.id === tune.id),
+    );
+
+    const { meterKey, ...summary } = tune;
+
+    return { hymnId, by, tune: summary, meterKey, hymns };
+  }
+
+  /**
+   * Updates a tune. Changing the meter moves the tune, and every hymn sung
+   * to it, into the matches for the new meter.
+   * @param id - The ID of the tune.
+   * @param updateData - The fields to change.
+   * @param user - The user performing the update.
+   * @returns The updated tune.
+   * @throws NotFoundException if the tune does not exist.
+   * @throws BadRequestException if the meter cannot be read.
+   * @throws ConflictException if another tune already has the name.
+   */
+  async updateTune(id: string, updateData: UpdateTuneDto, user: User) {
+    const { name, meter, ...fields } = updateData;
+    const meters = meter !== undefined && this.parseMeter(meter);
+
+    try {
+      const tune = await this.prisma.tune.update({
+        where: { id, deletedAt: null },
+        data: {
+          ...fields,
+          ...(name !== undefined && {
+            name,
+            slug: AppUtilities.slugify(name),
+          }),
+          ...meters,
+          updatedById: user.id,
+          updatedAt: new Date(),
+        },
+        select: TUNE_SUMMARY_SELECT,
+      });
+
+      await this.auditService.log({
+        action: 'UPDATE',
+        entityType: 'TUNE',
+        entityId: id,
+        userId: user.id,
+        description: `Tune ${id} updated by user ${user.id}`,
+      });
+
+      return tune;
+    } catch (error) {
+      if (error.code === 'P2002') {
+        throw new ConflictException('A tune with this name already exists.');
+      }
+
+      if (error.code === 'P2025') {
+        throw new NotFoundException('Tune not found.');
+      }
+
+      throw new InternalServerErrorException(
+        'An error occurred while updating the tune',
+      );
+    }
+  }
+
+  /**
+   * Soft-deletes a tune. Hymns keep their link to it but are no longer
+   * matched through it.
+   * @param id - The ID of the tune.
+   * @param user - The user performing the deletion.
+   * @returns The deleted tune.
+   * @throws NotFoundException if the tune does not exist or is already deleted.
+   */
+  async deleteTune(id: string, user: User) {
+    try {
+      const tune = await this.prisma.tune.update({
+        where: { id, deletedAt: null },
+        data: {
+          deletedAt: new Date(),
+          updatedById: user.id,
+          updatedAt: new Date(),
+        },
+        select: { id: true, name: true, deletedAt: true },
+      });
+
+      await this.auditService.log({
+        action: 'DELETE',
+        entityType: 'TUNE',
+        entityId: id,
+        userId: user.id,
+        description: `Tune ${id} deleted by user ${user.id}`,
+      });
+
+      return tune;
+    } catch (error) {
+      if (error.code === 'P2025') {
+        throw new NotFoundException('Tune not found or already deleted.');
+      }
+
+      throw new InternalServerErrorException(
+        'An error occurred while deleting the tune',
+      );
+    }
+  }
+
+  /** Returns the meter as entered alongside its normalized form. */
+  private parseMeter(meter?: string) {
+    if (!meter) {
+      return { meter: null, meterKey: null };
+    }
+
+    const meterKey = normalizeMeter(meter);
+    if (!meterKey) {
+      throw new BadRequestException(
+        `"${meter}" is not a meter; use syllable counts such as "8.7.8.7 D" or "C.M.".`,
+      );
+    }
+
+    return { meter, meterKey };
+  }
+}